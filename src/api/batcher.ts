@@ -6,6 +6,16 @@
  * allowing true batching of authenticated requests.
  */
 
+import type { CircuitBreaker } from './circuit-breaker.js'
+import { ServerClock, readServerTime } from './clock.js'
+import {
+    NetworkError,
+    ProtocolViolationError,
+    RateLimitedError,
+    RondevuError,
+    errorFromResponse,
+} from './errors.js'
+
 export interface RpcRequest {
     method: string
     params?: any
@@ -24,7 +34,7 @@ export interface RequestAuth {
 /**
  * Wire format for requests sent to server
  */
-interface WireRequest {
+export interface WireRequest {
     method: string
     params?: any
     auth?: RequestAuth
@@ -37,11 +47,54 @@ export interface RpcResponse {
     errorCode?: string
 }
 
-export interface BatcherOptions {
+/**
+ * Encodes request batches for the HTTP body and decodes the responses
+ */
+export interface RpcCodec {
+    /** Content-Type header of request bodies */
+    contentType: string
+    encode(requests: WireRequest[]): NonNullable<Parameters<typeof fetch>[1]>['body']
+    /** Decode the responses, in request order */
+    decode(response: Response): Promise<RpcResponse[]>
+}
+
+/**
+ * The default codec: JSON arrays
+ */
+export const JSON_RPC_CODEC: RpcCodec = {
+    contentType: 'application/json',
+    encode: requests => JSON.stringify(requests),
+    decode: response => response.json(),
+}
+
+/**
+ * How RPC batches are sent over HTTP (see RondevuOptions.transport)
+ */
+export interface RpcTransportOptions {
+    /**
+     * fetch implementation (default: the global fetch), e.g. for proxies, custom agents,
+     * test doubles such as LocalSignalingServer.fetch, or runtimes without a global fetch
+     */
+    fetch?: typeof fetch
+    /** Extra request headers (API keys, tracing), or a function returning them per request */
+    headers?:
+        | Record<string, string>
+        | (() => Record<string, string> | Promise<Record<string, string>>)
+    /** Abort a batch request that takes longer than this (ms, default: no timeout) */
+    timeout?: number
+    /** Wire codec (default: JSON_RPC_CODEC) */
+    codec?: RpcCodec
+}
+
+export interface BatcherOptions extends RpcTransportOptions {
     /** Delay in ms before flushing queued requests (default: 10) */
     delay?: number
     /** Maximum batch size (default: 50) */
     maxBatchSize?: number
+    /** Fail batches fast while open, and record the outcome of each batch */
+    circuitBreaker?: CircuitBreaker
+    /** Updated with the server time reported by each response */
+    clock?: ServerClock
 }
 
 interface QueuedRequest {
@@ -77,6 +130,10 @@ export class RpcBatcher {
     private flushTimer: ReturnType<typeof setTimeout> | null = null
     private readonly delay: number
     private readonly maxBatchSize: number
+    private readonly transport: RpcTransportOptions
+    private readonly codec: RpcCodec
+    private readonly circuitBreaker?: CircuitBreaker
+    private readonly clock?: ServerClock
 
     constructor(
         private readonly baseUrl: string,
@@ -84,6 +141,10 @@ export class RpcBatcher {
     ) {
         this.delay = options.delay ?? 10
         this.maxBatchSize = options.maxBatchSize ?? 50
+        this.transport = options
+        this.codec = options.codec ?? JSON_RPC_CODEC
+        this.circuitBreaker = options.circuitBreaker
+        this.clock = options.clock
     }
 
     /**
@@ -133,6 +194,8 @@ export class RpcBatcher {
      */
     private async sendBatch(items: QueuedRequest[]): Promise<void> {
         try {
+            this.circuitBreaker?.check()
+
             // Build wire requests with per-request auth
             const wireRequests: WireRequest[] = items.map(item => {
                 const wireReq: WireRequest = {
@@ -145,36 +208,122 @@ export class RpcBatcher {
                 return wireReq
             })
 
-            const response = await fetch(`${this.baseUrl}/rpc`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify(wireRequests),
-            })
-
-            if (!response.ok) {
-                const error = new Error(`HTTP ${response.status}: ${response.statusText}`)
-                items.forEach(item => item.reject(error))
-                return
+            let results: RpcResponse[]
+            try {
+                results = await this.send(wireRequests)
+            } catch (error) {
+                if (error instanceof RondevuError && error.retryable) {
+                    this.circuitBreaker?.recordFailure(error)
+                } else {
+                    // The server answered (with a client error), so it is reachable
+                    this.circuitBreaker?.recordSuccess()
+                }
+                throw error
             }
-
-            const results: RpcResponse[] = await response.json()
+            this.circuitBreaker?.recordSuccess()
 
             // Match responses to requests (server returns array in same order)
             items.forEach((item, index) => {
                 const result = results[index]
                 if (!result) {
-                    item.reject(new Error('Missing response from server'))
+                    item.reject(
+                        new ProtocolViolationError('Missing response from server', {
+                            method: item.request.method,
+                        })
+                    )
                 } else if (!result.success) {
-                    item.reject(new Error(result.error || 'RPC call failed'))
+                    item.reject(errorFromResponse(item.request.method, result))
                 } else {
                     item.resolve(result.result)
                 }
             })
         } catch (error) {
-            // Network or parsing error - reject all
-            items.forEach(item => item.reject(error as Error))
+            // Circuit open, network or parsing error - reject all
+            const failure =
+                error instanceof RondevuError ? error : new NetworkError((error as Error).message)
+            items.forEach(item => item.reject(failure.forMethod(item.request.method)))
+        }
+    }
+
+    /**
+     * POST one batch to `${baseUrl}/rpc` and decode the responses, aborting after the
+     * configured timeout
+     */
+    private async send(wireRequests: WireRequest[]): Promise<RpcResponse[]> {
+        const fetchImpl = this.transport.fetch ?? globalThis.fetch
+        if (!fetchImpl) {
+            throw new RondevuError(
+                'No fetch implementation available, pass transport.fetch',
+                'CONFIGURATION_ERROR',
+                false
+            )
+        }
+
+        const { headers } = this.transport
+        const extraHeaders = typeof headers === 'function' ? await headers() : headers
+
+        const controller = this.transport.timeout ? new AbortController() : null
+        const timer = controller
+            ? setTimeout(() => controller.abort(), this.transport.timeout)
+            : null
+
+        try {
+            const sentAt = Date.now()
+            const response = await fetchImpl(`${this.baseUrl}/rpc`, {
+                method: 'POST',
+                headers: {
+                    ...extraHeaders,
+                    'Content-Type': this.codec.contentType,
+                },
+                body: this.codec.encode(wireRequests),
+                signal: controller?.signal,
+            })
+
+            const serverTime = readServerTime(response)
+            if (serverTime !== null) {
+                this.clock?.update(serverTime, sentAt, Date.now())
+            }
+
+            if (response.status === 429) {
+                const retryAfter = Number(response.headers.get('Retry-After'))
+                throw new RateLimitedError('HTTP 429: Too Many Requests', 'RATE_LIMITED', {
+                    retryAfter: retryAfter > 0 ? retryAfter * 1000 : undefined,
+                })
+            }
+            if (!response.ok) {
+                throw new NetworkError(
+                    `HTTP ${response.status}: ${response.statusText}`,
+                    'HTTP_ERROR',
+                    { status: response.status }
+                )
+            }
+
+            let results: RpcResponse[]
+            try {
+                results = await this.codec.decode(response)
+            } catch (error) {
+                if (controller?.signal.aborted) throw error
+                throw new ProtocolViolationError(
+                    `Malformed response from server: ${(error as Error).message}`
+                )
+            }
+            if (!Array.isArray(results)) {
+                throw new ProtocolViolationError(
+                    'Malformed response from server: expected an array'
+                )
+            }
+            return results
+        } catch (error) {
+            if (controller?.signal.aborted) {
+                throw new NetworkError(
+                    `RPC request timed out after ${this.transport.timeout}ms`,
+                    'TIMEOUT'
+                )
+            }
+            if (error instanceof RondevuError) throw error
+            throw new NetworkError((error as Error).message)
+        } finally {
+            if (timer) clearTimeout(timer)
         }
     }
 
@@ -0,0 +1,111 @@
+/**
+ * Circuit breaker for calls to the signaling server
+ *
+ * After `failureThreshold` consecutive transport failures the circuit opens and
+ * requests fail fast instead of piling up behind an unreachable server. Once
+ * `resetTimeout` has passed it lets a single trial request through (half-open) and
+ * keeps failing the others fast until the trial settles: a success closes the
+ * circuit, a failure opens it for another `resetTimeout`. A trial that has not settled
+ * within `resetTimeout` is given up on, and the next request becomes the new trial.
+ */
+
+import { EventEmitter } from 'eventemitter3'
+import { CircuitOpenError } from './errors.js'
+
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+export interface CircuitBreakerOptions {
+    /** Consecutive failures that open the circuit (default: 5) */
+    failureThreshold?: number
+    /** Time the circuit stays open before trying again (ms, default: 30000) */
+    resetTimeout?: number
+}
+
+export interface CircuitBreakerEvents {
+    /** The circuit opened; requests fail fast until it is retried */
+    open: (error: Error) => void
+    /** The open period is over; the next request is the trial */
+    'half-open': () => void
+    /** A request succeeded again */
+    close: () => void
+}
+
+export class CircuitBreaker extends EventEmitter<CircuitBreakerEvents> {
+    private readonly failureThreshold: number
+    private readonly resetTimeout: number
+
+    private _state: CircuitState = 'closed'
+    private failures = 0
+    private openedAt = 0
+    private trialStartedAt = 0
+
+    constructor(options: CircuitBreakerOptions = {}) {
+        super()
+        this.failureThreshold = Math.max(1, options.failureThreshold ?? 5)
+        this.resetTimeout = options.resetTimeout ?? 30000
+    }
+
+    /**
+     * Current state. An open circuit stays open until the first request after its
+     * timeout, which turns it half-open (see check()) until that request settles.
+     */
+    get state(): CircuitState {
+        return this._state
+    }
+
+    /**
+     * Whether a request made now would be let through
+     */
+    canRequest(): boolean {
+        return this._state === 'closed' || Date.now() >= this.retryAt()
+    }
+
+    /**
+     * Throw if requests are currently not allowed. Once the timeout of an open
+     * circuit has passed, the request is let through as the trial and the circuit
+     * turns half-open; the caller must report its outcome with recordSuccess() or
+     * recordFailure().
+     * @throws CircuitOpenError
+     */
+    check(): void {
+        if (this._state === 'closed') return
+        const retryAt = this.retryAt()
+        if (Date.now() < retryAt) {
+            throw new CircuitOpenError(retryAt)
+        }
+        this.trialStartedAt = Date.now()
+        if (this._state === 'open') {
+            this._state = 'half-open'
+            this.emit('half-open')
+        }
+    }
+
+    recordSuccess(): void {
+        this.failures = 0
+        if (this._state !== 'closed') {
+            this._state = 'closed'
+            this.emit('close')
+        }
+    }
+
+    recordFailure(error: Error): void {
+        this.failures++
+        if (
+            this._state === 'half-open' ||
+            (this._state === 'closed' && this.failures >= this.failureThreshold)
+        ) {
+            this._state = 'open'
+            this.openedAt = Date.now()
+            this.emit('open', error)
+        }
+    }
+
+    /**
+     * When the next trial may start: after the open period, or once the current
+     * trial has gone unanswered for as long
+     */
+    private retryAt(): number {
+        const since = this._state === 'half-open' ? this.trialStartedAt : this.openedAt
+        return since + this.resetTimeout
+    }
+}
@@ -5,10 +5,50 @@
 import { CryptoAdapter, KeyPair } from '../crypto/adapter.js'
 import { WebCryptoAdapter } from '../crypto/web.js'
 import { RpcBatcher, BatcherOptions, RequestAuth } from './batcher.js'
+import { CircuitBreaker, CircuitBreakerOptions } from './circuit-breaker.js'
+import { ServerClock } from './clock.js'
+import {
+    ClockSkewError,
+    NetworkError,
+    OfferNotAnsweredError,
+    RateLimitedError,
+    RondevuError,
+} from './errors.js'
+import { buildSignatureMessage } from './signature.js'
+import { ExponentialBackoff } from '../utils/exponential-backoff.js'
 
 export type { KeyPair } from '../crypto/adapter.js'
 export type { BatcherOptions, RequestAuth } from './batcher.js'
 
+/**
+ * Retry policy for one RPC method
+ */
+export interface RpcRetryPolicy {
+    /** Attempts including the first one (default: 3) */
+    maxAttempts?: number
+    /** Delay before the first retry (ms, default: 250), doubled for each further retry */
+    baseDelay?: number
+    /** Maximum delay between retries (ms, default: 4000) */
+    maxDelay?: number
+}
+
+/**
+ * Retries, deadlines and circuit breaking for API calls (see RondevuOptions.rpcPolicy)
+ */
+export interface RpcPolicyOptions {
+    /**
+     * Retry policies by method name, merged over the defaults. Only retryable errors
+     * (network errors, timeouts, 5xx, rate limiting) are retried, with exponential backoff.
+     * By default the idempotent `discover`, `poll` and `getIceCandidates` are retried;
+     * set a method to false to disable its retries.
+     */
+    retry?: Record<string, RpcRetryPolicy | false>
+    /** Reject a call that has not completed, retries included, after this long (ms, default: 30000, 0 to disable) */
+    deadline?: number
+    /** Fail calls fast after repeated transport failures (default: enabled, false to disable) */
+    circuitBreaker?: CircuitBreakerOptions | false
+}
+
 export interface OfferRequest {
     sdp: string
 }
@@ -98,21 +138,50 @@ export class RondevuAPI {
     // Key length constants
     private static readonly PUBLIC_KEY_LENGTH = 64 // 32 bytes = 64 hex chars
     private static readonly PRIVATE_KEY_LENGTH = 64 // 32 bytes = 64 hex chars
-    private static readonly MAX_CANONICALIZE_DEPTH = 100 // Prevent stack overflow
+
+    // Methods that are safe to send again
+    private static readonly DEFAULT_RETRY: Record<string, RpcRetryPolicy> = {
+        discover: {},
+        poll: {},
+        getIceCandidates: {},
+    }
+    private static readonly DEFAULT_DEADLINE_MS = 30000
 
     private crypto: CryptoAdapter
     private batcher: RpcBatcher
+    private readonly circuitBreaker: CircuitBreaker | null
+    private readonly clock = new ServerClock()
+    private readonly retryPolicies = new Map<string, Required<RpcRetryPolicy>>()
+    private readonly deadline: number
 
     constructor(
         private baseUrl: string,
         private keyPair: KeyPair,
         cryptoAdapter?: CryptoAdapter,
-        batcherOptions?: BatcherOptions
+        batcherOptions?: BatcherOptions,
+        policy: RpcPolicyOptions = {}
     ) {
         // Use WebCryptoAdapter by default (browser environment)
         this.crypto = cryptoAdapter || new WebCryptoAdapter()
+        this.circuitBreaker =
+            policy.circuitBreaker === false ? null : new CircuitBreaker(policy.circuitBreaker)
         // Create batcher for request batching with throttling
-        this.batcher = new RpcBatcher(baseUrl, batcherOptions)
+        this.batcher = new RpcBatcher(baseUrl, {
+            ...batcherOptions,
+            circuitBreaker: this.circuitBreaker ?? undefined,
+            clock: this.clock,
+        })
+
+        const retry = { ...RondevuAPI.DEFAULT_RETRY, ...policy.retry }
+        for (const [method, methodPolicy] of Object.entries(retry)) {
+            if (!methodPolicy) continue
+            this.retryPolicies.set(method, {
+                maxAttempts: methodPolicy.maxAttempts ?? 3,
+                baseDelay: methodPolicy.baseDelay ?? 250,
+                maxDelay: methodPolicy.maxDelay ?? 4000,
+            })
+        }
+        this.deadline = policy.deadline ?? RondevuAPI.DEFAULT_DEADLINE_MS
 
         // Validate public key format
         if (!keyPair.publicKey || typeof keyPair.publicKey !== 'string') {
@@ -141,83 +210,6 @@ export class RondevuAPI {
         }
     }
 
-    /**
-     * Canonical JSON serialization with sorted keys
-     * Ensures deterministic output regardless of property insertion order
-     */
-    private canonicalJSON(obj: any, depth: number = 0): string {
-        // Prevent stack overflow from deeply nested objects
-        if (depth > RondevuAPI.MAX_CANONICALIZE_DEPTH) {
-            throw new Error('Object nesting too deep for canonicalization')
-        }
-
-        // Handle null
-        if (obj === null) {
-            return 'null'
-        }
-
-        // Handle undefined
-        if (obj === undefined) {
-            return JSON.stringify(undefined)
-        }
-
-        // Validate primitive types
-        const type = typeof obj
-
-        // Reject unsupported types
-        if (type === 'function') {
-            throw new Error('Functions are not supported in RPC parameters')
-        }
-        if (type === 'symbol' || type === 'bigint') {
-            throw new Error(`${type} is not supported in RPC parameters`)
-        }
-
-        // Validate numbers (reject NaN and Infinity)
-        if (type === 'number' && !Number.isFinite(obj)) {
-            throw new Error('NaN and Infinity are not supported in RPC parameters')
-        }
-
-        // Handle primitives (string, number, boolean)
-        if (type !== 'object') {
-            return JSON.stringify(obj)
-        }
-
-        // Handle arrays recursively
-        if (Array.isArray(obj)) {
-            return '[' + obj.map(item => this.canonicalJSON(item, depth + 1)).join(',') + ']'
-        }
-
-        // Handle objects - sort keys alphabetically for deterministic output
-        const sortedKeys = Object.keys(obj).sort()
-        const pairs = sortedKeys.map(key => {
-            return JSON.stringify(key) + ':' + this.canonicalJSON(obj[key], depth + 1)
-        })
-        return '{' + pairs.join(',') + '}'
-    }
-
-    /**
-     * Build signature message following server format
-     * Format: timestamp:nonce:method:canonicalJSON(params || {})
-     *
-     * Uses canonical JSON (sorted keys) to ensure deterministic serialization
-     * across different JavaScript engines and platforms.
-     *
-     * Note: When params is undefined, it's serialized as "{}" (empty object).
-     * This matches the server's expectation for parameterless RPC calls.
-     */
-    private buildSignatureMessage(
-        timestamp: number,
-        nonce: string,
-        method: string,
-        params?: any
-    ): string {
-        if (!method || typeof method !== 'string') {
-            throw new Error('Invalid method: must be a non-empty string')
-        }
-        const paramsJson = this.canonicalJSON(params || {})
-        return `${timestamp}:${nonce}:${method}:${paramsJson}`
-    }
-
     /**
      * Generate cryptographically secure nonce
      * Uses crypto.randomUUID() if available, falls back to secure random bytes
@@ -258,6 +250,7 @@ export class RondevuAPI {
      * - Timestamp: Prevents replay attacks outside the server's time window
      *   - Server validates timestamp is within acceptable range (typically ±5 minutes)
      *   - Tolerates reasonable clock skew between client and server
+     *   - Corrected by the server time offset learned from previous responses
      *   - Requests with stale timestamps are rejected
      * - Signature: Ed25519 ensures message integrity and authenticity
      * - Server validates nonce uniqueness to prevent replay within time window
@@ -265,11 +258,11 @@ export class RondevuAPI {
      *   - Server maintains nonce cache with expiration matching timestamp window
      */
     private async generateAuth(request: RpcRequest): Promise<RequestAuth> {
-        const timestamp = Date.now()
+        const timestamp = this.clock.now()
         const nonce = this.generateNonce()
 
         // Build message and generate Ed25519 signature
-        const message = this.buildSignatureMessage(timestamp, nonce, request.method, request.params)
+        const message = buildSignatureMessage(timestamp, nonce, request.method, request.params)
         const signature = await this.crypto.signMessage(this.keyPair.privateKey, message)
 
         return {
@@ -280,13 +273,115 @@ export class RondevuAPI {
         }
     }
 
+    /**
+     * Create signed credentials for a request sent outside the RPC batcher
+     * (e.g. subscribing to a push channel). Same format as per-request RPC auth.
+     */
+    async createAuth(method: string, params?: any): Promise<RequestAuth> {
+        return this.generateAuth({ method, params })
+    }
+
+    /**
+     * Server time minus local time in ms, from the most accurate recent response
+     * (null before the first response, or if the server does not report its time)
+     */
+    getClockOffset(): number | null {
+        return this.clock.offset
+    }
+
+    /**
+     * Circuit breaker guarding calls to the server (null if disabled)
+     */
+    getCircuitBreaker(): CircuitBreaker | null {
+        return this.circuitBreaker
+    }
+
     /**
      * Execute RPC call via batcher
      * Requests are batched with throttling for efficiency
      * All requests within the batch delay window are sent in a single HTTP call
+     * Rejects once the deadline has passed, even if the server never responds
      */
     private async rpc(request: RpcRequest, auth: RequestAuth): Promise<any> {
-        return this.batcher.add(request, auth)
+        if (!this.deadline) {
+            return this.rpcWithRetry(request, auth, Infinity)
+        }
+
+        let timer: ReturnType<typeof setTimeout> | undefined
+        const deadlineAt = Date.now() + this.deadline
+        const call = this.rpcWithRetry(request, auth, deadlineAt)
+        const expired = new Promise<never>((_, reject) => {
+            timer = setTimeout(
+                () =>
+                    reject(
+                        new NetworkError(
+                            `${request.method} did not complete within ${this.deadline}ms`,
+                            'TIMEOUT',
+                            { method: request.method }
+                        )
+                    ),
+                this.deadline
+            )
+        })
+        // The call may still settle after the deadline
+        call.catch(() => {})
+
+        try {
+            return await Promise.race([call, expired])
+        } finally {
+            clearTimeout(timer)
+        }
+    }
+
+    /**
+     * Send a request, retrying transient transport failures per the method's retry policy.
+     * Each retry is signed again, since the server may have seen the previous nonce.
+     * A clock-skew rejection is retried once, signed with the server time it reported.
+     */
+    private async rpcWithRetry(
+        request: RpcRequest,
+        auth: RequestAuth,
+        deadlineAt: number
+    ): Promise<any> {
+        const policy = this.retryPolicies.get(request.method)
+        const backoff = policy
+            ? new ExponentialBackoff({ base: policy.baseDelay, max: policy.maxDelay, jitter: 0.2 })
+            : null
+
+        let attempt = 0
+        let skewRetried = false
+        for (;;) {
+            try {
+                return await this.batcher.add(request, auth)
+            } catch (error) {
+                if (error instanceof ClockSkewError && !skewRetried && this.clock.offset !== null) {
+                    skewRetried = true
+                    auth = await this.generateAuth(request)
+                    continue
+                }
+
+                attempt++
+                if (
+                    !policy ||
+                    !backoff ||
+                    attempt >= policy.maxAttempts ||
+                    !(error instanceof RondevuError) ||
+                    !error.retryable
+                ) {
+                    throw error
+                }
+                // Wait at least as long as a rate-limiting server asked us to
+                const delay = Math.max(
+                    backoff.next(),
+                    error instanceof RateLimitedError ? (error.retryAfter ?? 0) : 0
+                )
+                if (Date.now() + delay >= deadlineAt) {
+                    throw error
+                }
+                await new Promise(resolve => setTimeout(resolve, delay))
+                auth = await this.generateAuth(request)
+            }
+        }
     }
 
     // ============================================
@@ -424,7 +519,7 @@ export class RondevuAPI {
             const auth = await this.generateAuth(request)
             return await this.rpc(request, auth)
         } catch (err) {
-            if ((err as Error).message.includes('not yet answered')) {
+            if (err instanceof OfferNotAnsweredError) {
                 return null
             }
             throw err
@@ -0,0 +1,79 @@
+/**
+ * Server clock estimate for request signing
+ *
+ * The server rejects requests whose auth timestamp is too far from its own clock, so
+ * devices with a wrong clock would fail every call. Every RPC response reports the
+ * server time; the offset to the local clock is applied to the timestamps we sign.
+ *
+ * Each response gives an offset sample that is only as accurate as its round trip
+ * (and the resolution of the header it came from), so the clock keeps the most
+ * accurate recent sample instead of following every response.
+ */
+
+/**
+ * Response header with the server time in ms since epoch
+ */
+export const SERVER_TIME_HEADER = 'X-Rondevu-Time'
+
+/**
+ * Server time reported by a response
+ */
+export interface ServerTimeReading {
+    /** Server time (ms since epoch) */
+    time: number
+    /** How far the actual server time may be from `time` (ms) */
+    resolution: number
+}
+
+/**
+ * Server time reported by a response, from the SERVER_TIME_HEADER or else the standard
+ * Date header. Date only has second resolution (the middle of that second is assumed),
+ * and browsers hide it from cross-origin responses unless the server exposes it.
+ */
+export function readServerTime(response: Response): ServerTimeReading | null {
+    const precise = Number(response.headers.get(SERVER_TIME_HEADER))
+    if (precise > 0) return { time: precise, resolution: 0 }
+
+    const date = response.headers.get('Date')
+    const parsed = date ? Date.parse(date) : NaN
+    return Number.isNaN(parsed) ? null : { time: parsed + 500, resolution: 500 }
+}
+
+export class ServerClock {
+    /** After this long, a less accurate sample may replace the kept one (ms) */
+    private static readonly SAMPLE_MAX_AGE = 10 * 60 * 1000
+
+    private _offset: number | null = null
+    /** Error bound of the kept offset (ms) */
+    private error = Infinity
+    private sampledAt = 0
+
+    /**
+     * Server time minus local time (ms), null until a response reported the server time
+     */
+    get offset(): number | null {
+        return this._offset
+    }
+
+    /**
+     * Current server time estimate (ms since epoch)
+     */
+    now(): number {
+        return Date.now() + (this._offset ?? 0)
+    }
+
+    /**
+     * Record the server time reported by a response, assuming it was read halfway
+     * between sending the request and receiving the response. The sample is kept if
+     * it is at least as accurate as the current one, or the current one is stale.
+     */
+    update(reading: ServerTimeReading, sentAt: number, receivedAt: number): void {
+        const error = (receivedAt - sentAt) / 2 + reading.resolution
+        const stale = receivedAt - this.sampledAt > ServerClock.SAMPLE_MAX_AGE
+        if (error > this.error && !stale) return
+
+        this._offset = Math.round(reading.time - (sentAt + receivedAt) / 2)
+        this.error = error
+        this.sampledAt = receivedAt
+    }
+}
@@ -0,0 +1,248 @@
+/**
+ * Error classes thrown by the Rondevu client
+ *
+ * Every error carries a machine-readable `errorCode` (the server's code for RPC errors),
+ * the RPC `method` it came from, if any, and whether retrying may succeed (`retryable`).
+ */
+
+import type { RpcResponse } from './batcher.js'
+
+export interface RondevuErrorOptions {
+    /** RPC method the error came from */
+    method?: string
+}
+
+/**
+ * Base class of all errors thrown by the client
+ */
+export class RondevuError extends Error {
+    readonly method?: string
+
+    constructor(
+        message: string,
+        readonly errorCode: string,
+        readonly retryable: boolean,
+        options: RondevuErrorOptions = {}
+    ) {
+        super(message)
+        this.name = 'RondevuError'
+        this.method = options.method
+    }
+
+    /**
+     * Copy of this error attributed to an RPC method (a failed batch rejects each of its
+     * requests with its own copy)
+     */
+    forMethod(method: string): this {
+        const copy = Object.create(Object.getPrototypeOf(this))
+        Object.defineProperties(copy, Object.getOwnPropertyDescriptors(this))
+        Object.defineProperty(copy, 'method', { value: method, enumerable: true })
+        return copy
+    }
+}
+
+/**
+ * The server rejected a request with an error code that has no dedicated class
+ * (e.g. INVALID_PARAMS); server-side failures (INTERNAL_ERROR) are retryable
+ */
+export class ServerError extends RondevuError {
+    constructor(message: string, errorCode: string, options?: RondevuErrorOptions) {
+        super(message, errorCode, errorCode === 'INTERNAL_ERROR', options)
+        this.name = 'ServerError'
+    }
+}
+
+/**
+ * The HTTP call failed: network error, timeout or HTTP error status.
+ * Retryable unless the server answered with a 4xx status.
+ */
+export class NetworkError extends RondevuError {
+    /** HTTP status, if the server responded */
+    readonly status?: number
+
+    constructor(
+        message: string,
+        errorCode: 'NETWORK_ERROR' | 'TIMEOUT' | 'HTTP_ERROR' = 'NETWORK_ERROR',
+        options: RondevuErrorOptions & { status?: number } = {}
+    ) {
+        super(message, errorCode, options.status === undefined || options.status >= 500, options)
+        this.name = 'NetworkError'
+        this.status = options.status
+    }
+}
+
+/**
+ * The server is rate limiting us (HTTP 429 or RATE_LIMITED)
+ */
+export class RateLimitedError extends RondevuError {
+    /** How long the server asked us to wait (ms), if it said so */
+    readonly retryAfter?: number
+
+    constructor(
+        message: string,
+        errorCode = 'RATE_LIMITED',
+        options: RondevuErrorOptions & { retryAfter?: number } = {}
+    ) {
+        super(message, errorCode, true, options)
+        this.name = 'RateLimitedError'
+        this.retryAfter = options.retryAfter
+    }
+}
+
+/**
+ * The offer does not exist (anymore)
+ */
+export class OfferNotFoundError extends RondevuError {
+    constructor(message: string, errorCode = 'OFFER_NOT_FOUND', options?: RondevuErrorOptions) {
+        super(message, errorCode, false, options)
+        this.name = 'OfferNotFoundError'
+    }
+}
+
+/**
+ * The offer's TTL has passed
+ */
+export class OfferExpiredError extends RondevuError {
+    constructor(message: string, errorCode = 'OFFER_EXPIRED', options?: RondevuErrorOptions) {
+        super(message, errorCode, false, options)
+        this.name = 'OfferExpiredError'
+    }
+}
+
+/**
+ * The offer has no answer yet (asking again later may succeed)
+ */
+export class OfferNotAnsweredError extends RondevuError {
+    constructor(message: string, errorCode = 'NOT_ANSWERED', options?: RondevuErrorOptions) {
+        super(message, errorCode, true, options)
+        this.name = 'OfferNotAnsweredError'
+    }
+}
+
+/**
+ * The request's credentials were rejected (missing or invalid signature or public key,
+ * reused nonce) or it is not allowed for this identity
+ */
+export class AuthError extends RondevuError {
+    constructor(message: string, errorCode: string, options?: RondevuErrorOptions) {
+        super(message, errorCode, false, options)
+        this.name = 'AuthError'
+    }
+}
+
+/**
+ * The request's timestamp is outside the server's window, i.e. our clock is off
+ */
+export class ClockSkewError extends RondevuError {
+    constructor(
+        message: string,
+        errorCode = 'TIMESTAMP_OUT_OF_RANGE',
+        options?: RondevuErrorOptions
+    ) {
+        super(message, errorCode, false, options)
+        this.name = 'ClockSkewError'
+    }
+}
+
+/**
+ * The server or the remote peer broke the protocol: malformed or missing responses,
+ * conflicting answers, signals that cannot be decrypted
+ */
+export class ProtocolViolationError extends RondevuError {
+    constructor(message: string, options?: RondevuErrorOptions) {
+        super(message, 'PROTOCOL_VIOLATION', false, options)
+        this.name = 'ProtocolViolationError'
+    }
+}
+
+/**
+ * Requests are failing fast because the circuit breaker is open, or half-open with
+ * its trial request still in flight
+ */
+export class CircuitOpenError extends RondevuError {
+    constructor(
+        /** When the circuit lets requests through again (ms since epoch) */
+        readonly retryAt: number,
+        options?: RondevuErrorOptions
+    ) {
+        super('Signaling server unavailable (circuit open)', 'CIRCUIT_OPEN', false, options)
+        this.name = 'CircuitOpenError'
+    }
+}
+
+/**
+ * Discovery found no offer to answer (peers may still show up later)
+ */
+export class NoPeersError extends RondevuError {
+    constructor(message: string) {
+        super(message, 'NO_PEERS', true)
+        this.name = 'NoPeersError'
+    }
+}
+
+/**
+ * A WebRTC connection could not be established or was lost
+ */
+export class ConnectionFailedError extends RondevuError {
+    constructor(message: string) {
+        super(message, 'CONNECTION_FAILED', true)
+        this.name = 'ConnectionFailedError'
+    }
+}
+
+/**
+ * An answer to one of our offers was turned away by admission control
+ */
+export class AnswerRejectedError extends RondevuError {
+    constructor(
+        message: string,
+        /** Why the answer was rejected (see AnswerRejectionReason) */
+        readonly reason: string
+    ) {
+        super(message, 'ANSWER_REJECTED', false)
+        this.name = 'AnswerRejectedError'
+    }
+}
+
+/**
+ * Turn a failed RPC response into the matching error class
+ *
+ * Servers that predate error codes (or report a generic code) are matched on the
+ * error message instead.
+ */
+export function errorFromResponse(method: string, response: RpcResponse): RondevuError {
+    const message = response.error || 'RPC call failed'
+    const errorCode = response.errorCode || 'UNKNOWN_ERROR'
+    const options = { method }
+
+    switch (errorCode) {
+        case 'RATE_LIMITED':
+        case 'TOO_MANY_REQUESTS':
+            return new RateLimitedError(message, errorCode, options)
+        case 'OFFER_NOT_FOUND':
+        case 'NOT_FOUND':
+            return new OfferNotFoundError(message, errorCode, options)
+        case 'OFFER_EXPIRED':
+            return new OfferExpiredError(message, errorCode, options)
+        case 'NOT_ANSWERED':
+            return new OfferNotAnsweredError(message, errorCode, options)
+        case 'AUTH_REQUIRED':
+        case 'INVALID_PUBLIC_KEY':
+        case 'INVALID_SIGNATURE':
+        case 'NONCE_REUSED':
+        case 'UNAUTHORIZED':
+        case 'FORBIDDEN':
+            return new AuthError(message, errorCode, options)
+        case 'TIMESTAMP_OUT_OF_RANGE':
+        case 'TIMESTAMP_EXPIRED':
+            return new ClockSkewError(message, errorCode, options)
+        default:
+            if (/not yet answered/i.test(message)) {
+                return new OfferNotAnsweredError(message, errorCode, options)
+            }
+            if (/timestamp/i.test(message)) {
+                return new ClockSkewError(message, errorCode, options)
+            }
+            return new ServerError(message, errorCode, options)
+    }
+}
@@ -0,0 +1,535 @@
+/**
+ * In-memory stand-in for the Rondevu signaling server
+ *
+ * Implements the RPC surface used by RondevuAPI (publishing, discovery, answers,
+ * ICE candidates and polling) in-process, including signature verification, nonce
+ * replay checks, TTL expiry and tag matching. Pass its `fetch` as the transport of
+ * Rondevu.connect() to run whole flows without a network:
+ *
+ * ```typescript
+ * const server = new LocalSignalingServer()
+ * const alice = await Rondevu.connect({ transport: { fetch: server.fetch }, webrtcAdapter })
+ * const bob = await Rondevu.connect({ transport: { fetch: server.fetch }, webrtcAdapter })
+ * ```
+ */
+
+import { CryptoAdapter } from '../crypto/adapter.js'
+import { WebCryptoAdapter } from '../crypto/web.js'
+import { RpcResponse, WireRequest } from './batcher.js'
+import { SERVER_TIME_HEADER } from './clock.js'
+import { TaggedOffer } from './client.js'
+import { buildSignatureMessage } from './signature.js'
+
+export interface LocalSignalingServerOptions {
+    /** Crypto adapter used to verify signatures (default: WebCryptoAdapter) */
+    crypto?: CryptoAdapter
+    /** Clock, also reported to clients in response headers (default: Date.now) */
+    now?: () => number
+    /** Accepted difference between request timestamps and the clock (default: 5 minutes) */
+    timestampWindowMs?: number
+    /** Offer lifetime when publish doesn't specify one (default: 5 minutes) */
+    defaultTtl?: number
+    /** Maximum offer lifetime (default: 24 hours) */
+    maxTtl?: number
+}
+
+interface StoredAnswer {
+    answererPublicKey: string
+    sdp: string
+    answeredAt: number
+    matchedTags?: string[]
+}
+
+interface StoredCandidate {
+    candidate: RTCIceCandidateInit | null
+    role: 'offerer' | 'answerer'
+    publicKey: string
+    createdAt: number
+}
+
+interface StoredOffer {
+    offerId: string
+    publicKey: string
+    tags: string[]
+    sdp: string
+    createdAt: number
+    expiresAt: number
+    answer: StoredAnswer | null
+    candidates: StoredCandidate[]
+}
+
+/**
+ * Error returned to the client as `{ success: false, error, errorCode }`
+ */
+class LocalRpcError extends Error {
+    constructor(
+        readonly code: string,
+        message: string
+    ) {
+        super(message)
+        this.name = 'LocalRpcError'
+    }
+}
+
+const PUBLIC_KEY_PATTERN = /^[0-9a-fA-F]{64}$/
+const TAG_PATTERN = /^[a-z0-9.-]{1,64}$/
+
+/**
+ * LocalSignalingServer - in-process signaling server for offline tests and demos
+ */
+export class LocalSignalingServer {
+    private readonly crypto: CryptoAdapter
+    private readonly now: () => number
+    private readonly timestampWindowMs: number
+    private readonly defaultTtl: number
+    private readonly maxTtl: number
+
+    private readonly offers = new Map<string, StoredOffer>()
+    // Seen nonces by public key, with the time they can be forgotten
+    private readonly nonces = new Map<string, number>()
+    // Last timestamp handed out, so poll cursors never skip same-millisecond events
+    private lastTimestamp = 0
+    private nextOfferId = 1
+
+    constructor(options: LocalSignalingServerOptions = {}) {
+        this.crypto = options.crypto ?? new WebCryptoAdapter()
+        this.now = options.now ?? Date.now
+        this.timestampWindowMs = options.timestampWindowMs ?? 5 * 60 * 1000
+        this.defaultTtl = options.defaultTtl ?? 5 * 60 * 1000
+        this.maxTtl = options.maxTtl ?? 24 * 60 * 60 * 1000
+    }
+
+    /**
+     * Drop-in replacement for fetch() that serves `POST <any base URL>/rpc`
+     */
+    readonly fetch = async (
+        input: Parameters<typeof fetch>[0],
+        init?: Parameters<typeof fetch>[1]
+    ): Promise<Response> => {
+        const request = input instanceof Request ? input : null
+        const url = new URL(request ? request.url : String(input), 'http://localhost')
+        const method = (init?.method ?? request?.method ?? 'GET').toUpperCase()
+
+        if (!url.pathname.endsWith('/rpc')) {
+            return new Response('Not Found', { status: 404, statusText: 'Not Found' })
+        }
+        if (method !== 'POST') {
+            return new Response('Method Not Allowed', {
+                status: 405,
+                statusText: 'Method Not Allowed',
+            })
+        }
+
+        let body: unknown
+        try {
+            body = JSON.parse(request ? await request.text() : String(init?.body ?? ''))
+        } catch {
+            return new Response('Invalid JSON', { status: 400, statusText: 'Bad Request' })
+        }
+        if (!Array.isArray(body)) {
+            return new Response('Expected an array of requests', {
+                status: 400,
+                statusText: 'Bad Request',
+            })
+        }
+
+        const results = await this.handleBatch(body)
+        const now = this.now()
+        return new Response(JSON.stringify(results), {
+            status: 200,
+            headers: {
+                'Content-Type': 'application/json',
+                Date: new Date(now).toUTCString(),
+                [SERVER_TIME_HEADER]: String(now),
+            },
+        })
+    }
+
+    /**
+     * Handle a batch of RPC requests, in order
+     */
+    async handleBatch(requests: WireRequest[]): Promise<RpcResponse[]> {
+        const results: RpcResponse[] = []
+        for (const request of requests) {
+            results.push(await this.handleRequest(request))
+        }
+        return results
+    }
+
+    /**
+     * Number of stored offers (answered or not) that have not expired
+     */
+    get offerCount(): number {
+        this.purgeExpired()
+        return this.offers.size
+    }
+
+    /**
+     * Forget all offers and nonces
+     */
+    reset(): void {
+        this.offers.clear()
+        this.nonces.clear()
+    }
+
+    private async handleRequest(request: WireRequest): Promise<RpcResponse> {
+        try {
+            if (!request || typeof request.method !== 'string') {
+                throw new LocalRpcError('INVALID_REQUEST', 'Invalid request')
+            }
+            const publicKey = await this.authenticate(request)
+            this.purgeExpired()
+            return {
+                success: true,
+                result: this.dispatch(request.method, request.params ?? {}, publicKey),
+            }
+        } catch (error) {
+            if (error instanceof LocalRpcError) {
+                return { success: false, error: error.message, errorCode: error.code }
+            }
+            return { success: false, error: (error as Error).message, errorCode: 'INTERNAL_ERROR' }
+        }
+    }
+
+    /**
+     * Verify the request signature and reject replayed nonces
+     * @returns The authenticated public key
+     */
+    private async authenticate(request: WireRequest): Promise<string> {
+        const { auth } = request
+        if (!auth) {
+            throw new LocalRpcError('AUTH_REQUIRED', 'Authentication required')
+        }
+        if (typeof auth.publicKey !== 'string' || !PUBLIC_KEY_PATTERN.test(auth.publicKey)) {
+            throw new LocalRpcError('INVALID_PUBLIC_KEY', 'Invalid public key')
+        }
+
+        const now = this.now()
+        if (
+            typeof auth.timestamp !== 'number' ||
+            Math.abs(now - auth.timestamp) > this.timestampWindowMs
+        ) {
+            throw new LocalRpcError('TIMESTAMP_OUT_OF_RANGE', 'Request timestamp out of range')
+        }
+
+        const message = buildSignatureMessage(
+            auth.timestamp,
+            auth.nonce,
+            request.method,
+            request.params
+        )
+        let valid = false
+        try {
+            valid = await this.crypto.verifySignature(auth.publicKey, message, auth.signature)
+        } catch {
+            valid = false
+        }
+        if (!valid) {
+            throw new LocalRpcError('INVALID_SIGNATURE', 'Invalid signature')
+        }
+
+        // Nonces only need remembering while their timestamp would still be accepted
+        for (const [key, expiresAt] of this.nonces) {
+            if (expiresAt < now) this.nonces.delete(key)
+        }
+        const nonceKey = `${auth.publicKey}:${auth.nonce}`
+        if (this.nonces.has(nonceKey)) {
+            throw new LocalRpcError('NONCE_REUSED', 'Nonce already used')
+        }
+        this.nonces.set(nonceKey, auth.timestamp + this.timestampWindowMs)
+
+        return auth.publicKey
+    }
+
+    private dispatch(method: string, params: any, publicKey: string): unknown {
+        switch (method) {
+            case 'publishOffer':
+                return this.publishOffer(params, publicKey)
+            case 'discover':
+                return this.discover(params, publicKey)
+            case 'countOffersByTags':
+                return this.countOffersByTags(params, publicKey)
+            case 'deleteOffer':
+                return this.deleteOffer(params, publicKey)
+            case 'updateOfferTags':
+                return this.updateOfferTags(params, publicKey)
+            case 'answerOffer':
+                return this.answerOffer(params, publicKey)
+            case 'getOfferAnswer':
+                return this.getOfferAnswer(params, publicKey)
+            case 'poll':
+                return this.poll(params, publicKey)
+            case 'addIceCandidates':
+                return this.addIceCandidates(params, publicKey)
+            case 'getIceCandidates':
+                return this.getIceCandidates(params, publicKey)
+            default:
+                throw new LocalRpcError('UNKNOWN_METHOD', `Unknown method: ${method}`)
+        }
+    }
+
+    // ============================================
+    // Offers
+    // ============================================
+
+    private publishOffer(params: any, publicKey: string) {
+        const tags = this.validateTags(params.tags)
+        if (!Array.isArray(params.offers) || params.offers.length === 0) {
+            throw new LocalRpcError('INVALID_PARAMS', 'At least one offer is required')
+        }
+        const requestedTtl = params.ttl ?? this.defaultTtl
+        if (
+            typeof requestedTtl !== 'number' ||
+            !Number.isFinite(requestedTtl) ||
+            requestedTtl <= 0
+        ) {
+            throw new LocalRpcError('INVALID_PARAMS', 'Invalid ttl')
+        }
+        const ttl = Math.min(requestedTtl, this.maxTtl)
+
+        const createdAt = this.timestamp()
+        const expiresAt = createdAt + ttl
+        const offers = params.offers.map((offer: { sdp?: unknown }) => {
+            if (typeof offer?.sdp !== 'string' || offer.sdp.length === 0) {
+                throw new LocalRpcError('INVALID_PARAMS', 'Offer SDP is required')
+            }
+            const stored: StoredOffer = {
+                offerId: `local-${this.nextOfferId++}`,
+                publicKey,
+                tags,
+                sdp: offer.sdp,
+                createdAt,
+                expiresAt,
+                answer: null,
+                candidates: [],
+            }
+            this.offers.set(stored.offerId, stored)
+            return { offerId: stored.offerId, sdp: stored.sdp, createdAt, expiresAt }
+        })
+
+        return { publicKey, tags, offers, createdAt, expiresAt }
+    }
+
+    private discover(params: any, publicKey: string) {
+        const tags = this.validateTags(params.tags)
+        const matching = this.findAvailable(tags, publicKey).sort(
+            (a, b) => b.createdAt - a.createdAt
+        )
+
+        if (params.limit === undefined) {
+            if (matching.length === 0) {
+                throw new LocalRpcError('NOT_FOUND', 'No offers found')
+            }
+            return this.toTaggedOffer(matching[Math.floor(Math.random() * matching.length)])
+        }
+
+        const limit = Math.max(0, Number(params.limit))
+        const offset = Math.max(0, Number(params.offset ?? 0))
+        return {
+            offers: matching.slice(offset, offset + limit).map(offer => this.toTaggedOffer(offer)),
+            count: matching.length,
+            limit,
+            offset,
+        }
+    }
+
+    private countOffersByTags(params: any, publicKey: string) {
+        const tags = this.validateTags(params.tags)
+        const counts: Record<string, number> = {}
+        for (const tag of tags) {
+            const offers = this.findAvailable([tag], publicKey)
+            counts[tag] = params.unique
+                ? new Set(offers.map(offer => offer.publicKey)).size
+                : offers.length
+        }
+        return { counts }
+    }
+
+    private deleteOffer(params: any, publicKey: string) {
+        const offer = this.getOwnOffer(params.offerId, publicKey)
+        this.offers.delete(offer.offerId)
+        return { success: true }
+    }
+
+    private updateOfferTags(params: any, publicKey: string) {
+        const tags = this.validateTags(params.tags)
+        let count = 0
+        for (const offer of this.offers.values()) {
+            if (offer.publicKey === publicKey) {
+                offer.tags = tags
+                count++
+            }
+        }
+        return { success: true, count }
+    }
+
+    // ============================================
+    // Signaling
+    // ============================================
+
+    private answerOffer(params: any, publicKey: string) {
+        const offer = this.getOffer(params.offerId)
+        if (offer.publicKey === publicKey) {
+            throw new LocalRpcError('INVALID_PARAMS', 'Cannot answer your own offer')
+        }
+        if (offer.answer) {
+            throw new LocalRpcError('OFFER_ALREADY_ANSWERED', 'Offer already answered')
+        }
+        if (typeof params.sdp !== 'string' || params.sdp.length === 0) {
+            throw new LocalRpcError('INVALID_PARAMS', 'Answer SDP is required')
+        }
+
+        offer.answer = {
+            answererPublicKey: publicKey,
+            sdp: params.sdp,
+            answeredAt: this.timestamp(),
+            matchedTags: Array.isArray(params.matchedTags) ? params.matchedTags : undefined,
+        }
+        return { success: true, offerId: offer.offerId }
+    }
+
+    private getOfferAnswer(params: any, publicKey: string) {
+        const offer = this.getOwnOffer(params.offerId, publicKey)
+        if (!offer.answer) {
+            throw new LocalRpcError('NOT_ANSWERED', 'Offer not yet answered')
+        }
+        return { offerId: offer.offerId, ...offer.answer }
+    }
+
+    private poll(params: any, publicKey: string) {
+        const since = Number(params.since ?? 0)
+        const answers: Array<StoredAnswer & { offerId: string }> = []
+        const iceCandidates: Record<
+            string,
+            Array<Omit<StoredCandidate, 'publicKey'> & { peerPublicKey: string }>
+        > = {}
+
+        for (const offer of this.offers.values()) {
+            const role = this.roleOf(offer, publicKey)
+            if (!role) continue
+
+            if (role === 'offerer' && offer.answer && offer.answer.answeredAt > since) {
+                answers.push({ offerId: offer.offerId, ...offer.answer })
+            }
+
+            const candidates = offer.candidates
+                .filter(c => c.role !== role && c.createdAt > since)
+                .map(({ publicKey: peerPublicKey, ...candidate }) => ({
+                    ...candidate,
+                    peerPublicKey,
+                }))
+            if (candidates.length > 0) {
+                iceCandidates[offer.offerId] = candidates
+            }
+        }
+
+        return { answers, iceCandidates }
+    }
+
+    private addIceCandidates(params: any, publicKey: string) {
+        const offer = this.getOffer(params.offerId)
+        const role = this.roleOf(offer, publicKey)
+        if (!role) {
+            throw new LocalRpcError('FORBIDDEN', 'Not a party to this offer')
+        }
+        if (!Array.isArray(params.candidates)) {
+            throw new LocalRpcError('INVALID_PARAMS', 'Candidates must be an array')
+        }
+
+        const createdAt = this.timestamp()
+        for (const candidate of params.candidates) {
+            offer.candidates.push({ candidate, role, publicKey, createdAt })
+        }
+        return { count: params.candidates.length, offerId: offer.offerId }
+    }
+
+    private getIceCandidates(params: any, publicKey: string) {
+        const offer = this.getOffer(params.offerId)
+        const role = this.roleOf(offer, publicKey)
+        if (!role) {
+            throw new LocalRpcError('FORBIDDEN', 'Not a party to this offer')
+        }
+
+        const since = Number(params.since ?? 0)
+        const candidates = offer.candidates
+            .filter(c => c.role !== role && c.createdAt > since)
+            .map(({ candidate, role, createdAt }) => ({ candidate, role, createdAt }))
+        return { candidates, offerId: offer.offerId }
+    }
+
+    // ============================================
+    // Helpers
+    // ============================================
+
+    /**
+     * A strictly increasing timestamp (poll cursors use `> since`)
+     */
+    private timestamp(): number {
+        this.lastTimestamp = Math.max(this.now(), this.lastTimestamp + 1)
+        return this.lastTimestamp
+    }
+
+    private purgeExpired(): void {
+        const now = this.now()
+        for (const [offerId, offer] of this.offers) {
+            if (offer.expiresAt <= now) this.offers.delete(offerId)
+        }
+    }
+
+    private validateTags(tags: unknown): string[] {
+        if (!Array.isArray(tags) || tags.length === 0) {
+            throw new LocalRpcError('INVALID_PARAMS', 'At least one tag is required')
+        }
+        for (const tag of tags) {
+            if (typeof tag !== 'string' || !TAG_PATTERN.test(tag)) {
+                throw new LocalRpcError('INVALID_TAG', `Invalid tag: ${String(tag)}`)
+            }
+        }
+        return [...new Set(tags as string[])]
+    }
+
+    /**
+     * Unanswered offers from others matching any of the tags
+     */
+    private findAvailable(tags: string[], publicKey: string): StoredOffer[] {
+        return [...this.offers.values()].filter(
+            offer =>
+                !offer.answer &&
+                offer.publicKey !== publicKey &&
+                offer.tags.some(tag => tags.includes(tag))
+        )
+    }
+
+    private getOffer(offerId: unknown): StoredOffer {
+        const offer = typeof offerId === 'string' ? this.offers.get(offerId) : undefined
+        if (!offer) {
+            throw new LocalRpcError('OFFER_NOT_FOUND', 'Offer not found')
+        }
+        return offer
+    }
+
+    private getOwnOffer(offerId: unknown, publicKey: string): StoredOffer {
+        const offer = this.getOffer(offerId)
+        if (offer.publicKey !== publicKey) {
+            throw new LocalRpcError('FORBIDDEN', 'Not the owner of this offer')
+        }
+        return offer
+    }
+
+    private roleOf(offer: StoredOffer, publicKey: string): 'offerer' | 'answerer' | null {
+        if (offer.publicKey === publicKey) return 'offerer'
+        if (offer.answer?.answererPublicKey === publicKey) return 'answerer'
+        return null
+    }
+
+    private toTaggedOffer(offer: StoredOffer): TaggedOffer {
+        return {
+            offerId: offer.offerId,
+            publicKey: offer.publicKey,
+            tags: offer.tags,
+            sdp: offer.sdp,
+            createdAt: offer.createdAt,
+            expiresAt: offer.expiresAt,
+        }
+    }
+}
@@ -0,0 +1,95 @@
+/**
+ * Request signing format shared by RondevuAPI and LocalSignalingServer
+ *
+ * The server verifies a signature against the message it rebuilds from the parsed
+ * request body, so the client has to sign exactly what survives JSON serialization.
+ */
+
+const MAX_CANONICALIZE_DEPTH = 100 // Prevent stack overflow
+
+/**
+ * Canonical JSON serialization with sorted keys
+ * Ensures deterministic output regardless of property insertion order
+ */
+export function canonicalJSON(obj: any, depth: number = 0): string {
+    // Prevent stack overflow from deeply nested objects
+    if (depth > MAX_CANONICALIZE_DEPTH) {
+        throw new Error('Object nesting too deep for canonicalization')
+    }
+
+    // Handle null
+    if (obj === null) {
+        return 'null'
+    }
+
+    // Handle undefined
+    if (obj === undefined) {
+        return JSON.stringify(undefined)
+    }
+
+    // Validate primitive types
+    const type = typeof obj
+
+    // Reject unsupported types
+    if (type === 'function') {
+        throw new Error('Functions are not supported in RPC parameters')
+    }
+    if (type === 'symbol' || type === 'bigint') {
+        throw new Error(`${type} is not supported in RPC parameters`)
+    }
+
+    // Validate numbers (reject NaN and Infinity)
+    if (type === 'number' && !Number.isFinite(obj)) {
+        throw new Error('NaN and Infinity are not supported in RPC parameters')
+    }
+
+    // Handle primitives (string, number, boolean)
+    if (type !== 'object') {
+        return JSON.stringify(obj)
+    }
+
+    // Handle arrays recursively (undefined items travel as null, like JSON.stringify)
+    if (Array.isArray(obj)) {
+        return (
+            '[' +
+            obj
+                .map(item => (item === undefined ? 'null' : canonicalJSON(item, depth + 1)))
+                .join(',') +
+            ']'
+        )
+    }
+
+    // Handle objects - sort keys alphabetically for deterministic output.
+    // Undefined values are skipped: they never reach the server, which rebuilds
+    // this message from the parsed request body.
+    const sortedKeys = Object.keys(obj)
+        .filter(key => obj[key] !== undefined)
+        .sort()
+    const pairs = sortedKeys.map(key => {
+        return JSON.stringify(key) + ':' + canonicalJSON(obj[key], depth + 1)
+    })
+    return '{' + pairs.join(',') + '}'
+}
+
+/**
+ * Build signature message following server format
+ * Format: timestamp:nonce:method:canonicalJSON(params || {})
+ *
+ * Uses canonical JSON (sorted keys) to ensure deterministic serialization
+ * across different JavaScript engines and platforms.
+ *
+ * Note: When params is undefined, it's serialized as "{}" (empty object).
+ * This matches the server's expectation for parameterless RPC calls.
+ */
+export function buildSignatureMessage(
+    timestamp: number,
+    nonce: string,
+    method: string,
+    params?: any
+): string {
+    if (!method || typeof method !== 'string') {
+        throw new Error('Invalid method: must be a non-empty string')
+    }
+    const paramsJson = canonicalJSON(params || {})
+    return `${timestamp}:${nonce}:${method}:${paramsJson}`
+}
@@ -7,6 +7,9 @@ import { ConnectionState } from './events.js'
 import { RondevuAPI, IceCandidate } from '../api/client.js'
 import { ConnectionConfig } from './config.js'
 import { WebRTCAdapter } from '../webrtc/adapter.js'
+import { IdentityCredentials } from './identity.js'
+import { MessageBufferStorage } from '../storage/adapter.js'
+import { ConnectionSignaler, createServerSignaler, encodeReleaseSignal } from './signaler.js'
 
 export interface AnswererOptions {
     api: RondevuAPI
@@ -20,6 +23,10 @@ export interface AnswererOptions {
     matchedTags?: string[] // Tags that were used to discover this offer
     /** Callback invoked when RTCPeerConnection is created, before signaling starts */
     onPeerConnectionCreated?: (pc: RTCPeerConnection) => void
+    identity?: IdentityCredentials // Required when config.verifyIdentity is enabled
+    messageStorage?: MessageBufferStorage // Persist queued messages per offerer public key
+    /** Where answers, candidates and reconnection offers go (default: the Rondevu server) */
+    signaler?: ConnectionSignaler
 }
 
 /**
@@ -27,16 +34,25 @@ export interface AnswererOptions {
  */
 export class AnswererConnection extends RondevuConnection {
     private api: RondevuAPI
+    private signaler: ConnectionSignaler
     private ownerPublicKey: string
     private tags: string[]
     private offerId: string
     private offerSdp: string
     private matchedTags?: string[]
     private onPeerConnectionCreated?: (pc: RTCPeerConnection) => void
+    private answerSent = false
 
     constructor(options: AnswererOptions) {
-        super(options.rtcConfig, options.config, options.webrtcAdapter)
+        super(
+            options.rtcConfig,
+            options.config,
+            options.webrtcAdapter,
+            options.identity,
+            options.messageStorage
+        )
         this.api = options.api
+        this.signaler = options.signaler ?? createServerSignaler(options.api)
         this.ownerPublicKey = options.ownerPublicKey
         this.tags = options.tags
         this.offerId = options.offerId
@@ -51,6 +67,9 @@ export class AnswererConnection extends RondevuConnection {
     async initialize(): Promise<void> {
         this.debug('Initializing answerer connection')
 
+        // Resume messages persisted for this peer by a previous session
+        this.restorePersistedMessages()
+
         // Create peer connection
         this.createPeerConnection()
         if (!this.pc) throw new Error('Peer connection not created')
@@ -72,10 +91,10 @@ export class AnswererConnection extends RondevuConnection {
         // Start connection timeout
         this.startConnectionTimeout()
 
-        // Set remote description (offer)
+        // Set remote description (offer, encrypted if it was meant for us only)
         await this.pc.setRemoteDescription({
             type: 'offer',
-            sdp: this.offerSdp,
+            sdp: await this.openSdp(this.offerSdp, this.ownerPublicKey),
         })
 
         this.transitionTo(ConnectionState.SIGNALING, 'Offer received, creating answer')
@@ -87,7 +106,9 @@ export class AnswererConnection extends RondevuConnection {
         this.debug('Answer created, sending to server')
 
         // Send answer to server (including matched tags so offerer knows which tags we searched for)
-        await this.api.answerOffer(this.offerId, answer.sdp!, this.matchedTags)
+        const answerSdp = await this.sealSdp(answer.sdp!)
+        await this.signaler.sendAnswer(this.offerId, answerSdp, this.matchedTags)
+        this.answerSent = true
 
         // Note: ICE candidate polling is handled by PollingManager
         // Candidates are received via handleRemoteIceCandidates()
@@ -95,6 +116,20 @@ export class AnswererConnection extends RondevuConnection {
         this.debug('Answer sent successfully')
     }
 
+    /**
+     * Give up on the offer before connecting and close. If we already answered it, the
+     * offerer is told to replace the offer (see encodeReleaseSignal).
+     */
+    release(): void {
+        if (this.answerSent && this.state !== ConnectionState.CONNECTED) {
+            this.debug(`Releasing offer ${this.offerId}`)
+            this.signaler.sendIceCandidates(this.offerId, [encodeReleaseSignal()]).catch(error => {
+                this.debug('Failed to release offer:', error)
+            })
+        }
+        this.close()
+    }
+
     /**
      * Send buffered ICE candidates to the server in a single batch
      */
@@ -111,9 +146,12 @@ export class AnswererConnection extends RondevuConnection {
             sdpMid: c.sdpMid,
         }))
 
-        this.api.addOfferIceCandidates(this.offerId, apiCandidates).catch(error => {
-            this.debug('Failed to send ICE candidates:', error)
-        })
+        const offerId = this.offerId
+        this.sealCandidates(apiCandidates)
+            .then(sealed => this.signaler.sendIceCandidates(offerId, sealed))
+            .catch(error => {
+                this.debug('Failed to send ICE candidates:', error)
+            })
     }
 
     /**
@@ -123,6 +161,13 @@ export class AnswererConnection extends RondevuConnection {
         return this.api
     }
 
+    /**
+     * Get the signaler for candidates and restart descriptions
+     */
+    protected getSignaler(): ConnectionSignaler {
+        return this.signaler
+    }
+
     /**
      * Get the owner public key (implements abstract method)
      */
@@ -130,6 +175,20 @@ export class AnswererConnection extends RondevuConnection {
         return this.ownerPublicKey
     }
 
+    /**
+     * The answerer side yields on renegotiation collisions
+     */
+    protected isPoliteNegotiator(): boolean {
+        return true
+    }
+
+    /**
+     * The offer publisher's public key as reported by discovery
+     */
+    protected getExpectedPeerPublicKey(): string | null {
+        return this.ownerPublicKey
+    }
+
     /**
      * Answerers accept ICE candidates from offerers only
      */
@@ -137,6 +196,13 @@ export class AnswererConnection extends RondevuConnection {
         return 'offerer'
     }
 
+    /**
+     * Answerers know the offerer's key from discovery
+     */
+    protected getSignalingRecipient(): string | null {
+        return this.ownerPublicKey
+    }
+
     /**
      * Attempt to reconnect to the same peer
      */
@@ -154,23 +220,10 @@ export class AnswererConnection extends RondevuConnection {
             this.dc = null
         }
 
-        // Discover new offer using tags (use paginated mode to get array)
-        this.api
-            .discover({ tags: this.tags, limit: 100 })
-            .then(result => {
-                const response = result as import('../api/client.js').DiscoverResponse
-                if (!response || !response.offers || response.offers.length === 0) {
-                    throw new Error('No offers available for reconnection')
-                }
-
-                // Filter for offers from the same peer
-                const peerOffers = response.offers.filter(o => o.publicKey === this.ownerPublicKey)
-                if (peerOffers.length === 0) {
-                    throw new Error(`No offers available from ${this.ownerPublicKey}`)
-                }
-
-                // Pick a random offer from the same peer
-                const offer = peerOffers[Math.floor(Math.random() * peerOffers.length)]
+        // Find a new offer from the same peer
+        this.signaler
+            .findOffer(this.ownerPublicKey, this.tags)
+            .then(offer => {
                 this.offerId = offer.offerId
                 this.offerSdp = offer.sdp
 
@@ -212,17 +265,7 @@ export class AnswererConnection extends RondevuConnection {
                 continue
             }
 
-            if (iceCandidate.candidate) {
-                const rtcCandidate = this.webrtcAdapter.createIceCandidate(iceCandidate.candidate)
-                this.pc
-                    .addIceCandidate(rtcCandidate)
-                    .then(() => {
-                        this.emit('ice:candidate:remote', rtcCandidate)
-                    })
-                    .catch(error => {
-                        this.debug('Failed to add ICE candidate:', error)
-                    })
-            }
+            this.applyRemoteCandidate(iceCandidate.candidate)
         }
     }
 }
@@ -15,6 +15,22 @@ import { ExponentialBackoff } from '../utils/exponential-backoff.js'
 import { MessageBuffer } from '../utils/message-buffer.js'
 import { WebRTCAdapter } from '../webrtc/adapter.js'
 import { BrowserWebRTCAdapter } from '../webrtc/browser.js'
+import { ControlFrame, decodeControlFrame, encodeControlFrame } from './control.js'
+import { IdentityCredentials, IdentityHandshake } from './identity.js'
+import { ChannelOptions, ChannelRegistry, NamedChannel } from './channels.js'
+import { PeerRpc } from './rpc.js'
+import { ReliableDelivery } from './reliable.js'
+import { MessageBufferStorage } from '../storage/adapter.js'
+import { OutgoingTransfer, TransferManager, TransferOptions } from './transfer.js'
+import {
+    ConnectionSignaler,
+    decodeDescriptionSignal,
+    decodeEncryptedCandidates,
+    encodeEncryptedCandidates,
+} from './signaler.js'
+import { SignalingCipher, isEncryptedSignal } from '../crypto/e2e.js'
+import { ConnectionFailedError, ProtocolViolationError } from '../api/errors.js'
+import { InBandNegotiator } from './negotiation.js'
 
 /**
  * Abstract base class for WebRTC connections with durability features
@@ -51,20 +67,106 @@ export abstract class RondevuConnection extends EventEmitter<ConnectionEventMap>
     protected iceCandidateFlushTimer: ReturnType<typeof setTimeout> | null = null
     protected static readonly ICE_BUFFER_DELAY_MS = 20 // Buffer for 20ms before sending
 
+    // Identity verification (per RTCPeerConnection)
+    protected identityCredentials: IdentityCredentials | null
+    private identityHandshake: IdentityHandshake | null = null
+    private identityHandshakePc: RTCPeerConnection | null = null
+    private verifiedPeerConnection: RTCPeerConnection | null = null
+    private unverifiedMessages: Array<string | ArrayBuffer | Blob> = []
+
+    // Named channels (negotiated data channels, re-created on each peer connection)
+    protected channels: ChannelRegistry
+
+    /** Request/response calls to and from the remote peer */
+    readonly rpc: PeerRpc
+
+    // Sequencing/acks for reliable mode (receiving side is always active)
+    private reliable: ReliableDelivery
+
+    // Chunked file/stream transfers
+    protected transfers: TransferManager
+
+    // Media: local tracks (re-added to new peer connections) and in-band renegotiation
+    private localTracks: Array<{ track: MediaStreamTrack; streams: MediaStream[] }> = []
+    private negotiator: InBandNegotiator
+
+    // ICE restart in progress (first recovery tier before reconnect/rotation)
+    private iceRestartTimer: ReturnType<typeof setTimeout> | null = null
+
+    // End-to-end encryption of signaling (created on first use)
+    private cipher: SignalingCipher | null = null
+
+    // Persistent message buffer (keyed by the remote peer's public key once known)
+    protected messageStorage: MessageBufferStorage | null
+    private storageKey: string | null = null
+    private persistScheduled = false
+    private persistChain: Promise<void> = Promise.resolve()
+
     constructor(
         protected rtcConfig?: RTCConfiguration,
         userConfig?: Partial<ConnectionConfig>,
-        webrtcAdapter?: WebRTCAdapter
+        webrtcAdapter?: WebRTCAdapter,
+        identityCredentials?: IdentityCredentials,
+        messageStorage?: MessageBufferStorage
     ) {
         super()
         this.config = mergeConnectionConfig(userConfig)
         this.webrtcAdapter = webrtcAdapter || new BrowserWebRTCAdapter()
+        this.identityCredentials = identityCredentials ?? null
+        this.messageStorage = messageStorage ?? null
 
-        // Initialize message buffer if enabled
-        if (this.config.bufferEnabled) {
+        if (this.config.verifyIdentity && !this.identityCredentials) {
+            throw new Error('Identity verification requires a key pair and crypto adapter')
+        }
+
+        this.channels = new ChannelRegistry({
+            sendFrame: frame => this.sendControlFrame(frame),
+            onRemoteChannel: channel => this.emit('channel', channel),
+            debug: (...args) => this.debug(...args),
+        })
+
+        // RPC frames use the buffered send so calls survive reconnection
+        this.rpc = new PeerRpc({
+            sendFrame: frame => this.sendBufferedControlFrame(frame),
+            defaultTimeout: this.config.rpcTimeout,
+            debug: (...args) => this.debug(...args),
+        })
+
+        this.reliable = new ReliableDelivery({
+            deliver: data => this.dispatchMessage(data),
+            onAck: seq => this.handleReliableAck(seq),
+            sendRaw: data => this.sendDirect(data),
+            debug: (...args) => this.debug(...args),
+        })
+
+        this.transfers = new TransferManager(
+            {
+                sendFrame: frame => this.sendControlFrame(frame),
+                sendBinary: data => this.sendDirect(data),
+                canSend: () => this.hasSendCapacity(),
+                waitForCapacity: () => this.waitForSendCapacity(),
+                maxMessageSize: () => this.pc?.sctp?.maxMessageSize || 65536,
+                debug: (...args) => this.debug(...args),
+            },
+            transfer => this.emit('transfer', transfer)
+        )
+
+        this.negotiator = new InBandNegotiator({
+            polite: this.isPoliteNegotiator(),
+            sendFrame: frame => this.sendDirect(encodeControlFrame(frame)),
+            canSignal: () => this.state === ConnectionState.CONNECTED,
+            canSendInBand: () => this.dc?.readyState === 'open',
+            sendViaServer: description => this.sendDescriptionViaServer(description),
+            gatheringTimeoutMs: this.config.iceGatheringTimeout,
+            debug: (...args) => this.debug(...args),
+        })
+
+        // Initialize message buffer if enabled (reliable mode keeps unacked messages there)
+        if (this.config.bufferEnabled || this.config.reliableDelivery) {
             this.messageBuffer = new MessageBuffer({
                 maxSize: this.config.maxBufferSize,
                 maxAge: this.config.maxBufferAge,
+                onChange: () => this.schedulePersist(),
             })
         }
 
@@ -103,7 +205,7 @@ export abstract class RondevuConnection extends EventEmitter<ConnectionEventMap>
                 this.emit('disconnected', reason)
                 break
             case ConnectionState.FAILED:
-                this.emit('failed', new Error(reason || 'Connection failed'))
+                this.emit('failed', new ConnectionFailedError(reason || 'Connection failed'))
                 break
             case ConnectionState.CLOSED:
                 this.emit('closed', reason)
@@ -123,9 +225,37 @@ export abstract class RondevuConnection extends EventEmitter<ConnectionEventMap>
         this.pc.onconnectionstatechange = () => this.handleConnectionStateChange()
         this.pc.onicegatheringstatechange = () => this.handleIceGatheringStateChange()
 
+        this.attachPeerConnection(this.pc)
+
         return this.pc
     }
 
+    /**
+     * Set up per-connection features on a (new) RTCPeerConnection: named channels,
+     * local media tracks, remote track events and in-band renegotiation
+     */
+    protected attachPeerConnection(pc: RTCPeerConnection): void {
+        this.channels.attach(pc)
+        this.negotiator.attach(pc)
+
+        pc.ontrack = event => this.emit('track', event)
+
+        // Re-add local tracks after reconnection (skipping ones the offer factory added)
+        for (const { track, streams } of this.localTracks) {
+            if (track.readyState === 'ended') continue
+            if (pc.getSenders().some(sender => sender.track === track)) continue
+            pc.addTrack(track, ...streams)
+        }
+    }
+
+    /**
+     * Whether this side yields when both peers renegotiate at once
+     * (the answerer side is polite, the offerer side is not)
+     */
+    protected isPoliteNegotiator(): boolean {
+        return false
+    }
+
     /**
      * Setup data channel event handlers
      */
@@ -209,27 +339,28 @@ export abstract class RondevuConnection extends EventEmitter<ConnectionEventMap>
             case 'connected':
             case 'completed':
                 this.stopIcePolling()
+                if (this.iceRestartTimer) {
+                    this.completeIceRestart()
+                    break
+                }
                 // Wait for data channel to open before transitioning to CONNECTED
                 if (this.dc?.readyState === 'open') {
-                    this.transitionTo(
-                        ConnectionState.CONNECTED,
-                        'ICE connected and data channel open'
-                    )
-                    this.onConnected()
+                    this.handleTransportReady('ICE connected and data channel open')
                 }
                 break
 
             case 'disconnected':
                 if (this.state === ConnectionState.CONNECTED) {
                     this.transitionTo(ConnectionState.DISCONNECTED, 'ICE disconnected')
-                    this.scheduleReconnect()
+                    if (!this.startIceRestart()) {
+                        this.scheduleReconnect()
+                    }
                 }
                 break
 
             case 'failed':
                 this.stopIcePolling()
-                this.transitionTo(ConnectionState.FAILED, 'ICE connection failed')
-                this.scheduleReconnect()
+                this.handleTransportFailure('ICE connection failed')
                 break
 
             case 'closed':
@@ -251,13 +382,231 @@ export abstract class RondevuConnection extends EventEmitter<ConnectionEventMap>
 
         // Connection state provides backup validation
         if (connState === 'failed' && this.state !== ConnectionState.FAILED) {
-            this.transitionTo(ConnectionState.FAILED, 'PeerConnection failed')
-            this.scheduleReconnect()
+            this.handleTransportFailure('PeerConnection failed')
         } else if (connState === 'closed' && this.state !== ConnectionState.CLOSED) {
             this.transitionTo(ConnectionState.CLOSED, 'PeerConnection closed')
         }
     }
 
+    /**
+     * ICE or the peer connection failed: try an ICE restart if the connection was
+     * established, otherwise fail and fall back to reconnection (or offer rotation)
+     */
+    private handleTransportFailure(reason: string): void {
+        if (this.iceRestartTimer) {
+            this.debug(`${reason} during ICE restart, waiting for the restart to complete`)
+            return
+        }
+
+        if (this.startIceRestart()) {
+            this.transitionTo(ConnectionState.DISCONNECTED, reason)
+            return
+        }
+
+        this.transitionTo(ConnectionState.FAILED, reason)
+        this.scheduleReconnect()
+    }
+
+    /**
+     * First recovery tier: restart ICE on the existing RTCPeerConnection, keeping the
+     * data channels, media and session state. The restart offer is exchanged in-band
+     * if the data channel is still open and through the signaling server.
+     *
+     * @returns false if a restart is not possible (disabled, or never connected)
+     */
+    protected startIceRestart(): boolean {
+        if (!this.config.iceRestartEnabled || !this.pc?.remoteDescription) return false
+        if (
+            this.state !== ConnectionState.CONNECTED &&
+            this.state !== ConnectionState.DISCONNECTED
+        ) {
+            return false
+        }
+
+        this.debug('Transport lost, attempting ICE restart')
+        this.emit('ice:restart:started')
+
+        this.iceRestartTimer = setTimeout(() => {
+            this.failIceRestart(new ConnectionFailedError('ICE restart timed out'))
+        }, this.config.iceRestartTimeout)
+
+        this.negotiator.restartIce()
+        return true
+    }
+
+    /**
+     * ICE reconnected after a restart
+     */
+    private completeIceRestart(): void {
+        if (this.dc?.readyState !== 'open') {
+            this.failIceRestart(new ConnectionFailedError('Data channel closed during ICE restart'))
+            return
+        }
+
+        this.clearIceRestartTimer()
+        this.debug('ICE restart succeeded')
+        this.emit('ice:restart:success')
+        this.handleTransportReady('ICE restarted')
+    }
+
+    /**
+     * Give up on the ICE restart and fall back to reconnection (or offer rotation)
+     */
+    private failIceRestart(error: Error): void {
+        if (!this.iceRestartTimer) return
+        this.clearIceRestartTimer()
+
+        this.debug('ICE restart failed:', error.message)
+        this.emit('ice:restart:failed', error)
+        this.transitionTo(ConnectionState.FAILED, error.message)
+        this.scheduleReconnect()
+    }
+
+    private clearIceRestartTimer(): void {
+        if (this.iceRestartTimer) {
+            clearTimeout(this.iceRestartTimer)
+            this.iceRestartTimer = null
+        }
+    }
+
+    /**
+     * Send a (restart) description through the connection's signaler
+     */
+    protected async sendDescriptionViaServer(
+        description: RTCSessionDescriptionInit
+    ): Promise<void> {
+        const sdp = await this.sealSdp(description.sdp ?? '')
+        await this.getSignaler().sendDescription(this.getOfferId(), { type: description.type, sdp })
+    }
+
+    /**
+     * Apply a (restart) description received through the signaler
+     */
+    handleRemoteDescription(description: RTCSessionDescriptionInit): void {
+        if (!description.sdp) return
+
+        this.debug(`Received ${description.type} via signaler`)
+        const sender = this.getExpectedPeerPublicKey()
+        const opened = sender
+            ? this.openSdp(description.sdp, sender)
+            : Promise.resolve(description.sdp)
+        opened
+            .then(sdp =>
+                this.negotiator.handleRemoteDescription({ type: description.type, sdp }, true)
+            )
+            .catch(error => {
+                this.debug('Failed to open signaled description:', error)
+            })
+    }
+
+    /**
+     * Apply a remote entry of the offer's candidate list: a regular candidate, a
+     * description signal, or an encrypted batch of candidates
+     */
+    protected applyRemoteCandidate(candidate: RTCIceCandidateInit | null): void {
+        const description = decodeDescriptionSignal(candidate)
+        if (description) {
+            this.handleRemoteDescription(description)
+            return
+        }
+
+        const encrypted = decodeEncryptedCandidates(candidate)
+        if (encrypted !== null) {
+            this.openCandidates(encrypted)
+                .then(candidates => candidates.forEach(c => this.applyRemoteCandidate(c)))
+                .catch(error => {
+                    this.debug('Failed to decrypt ICE candidates:', error)
+                })
+            return
+        }
+
+        if (candidate && this.pc) {
+            const rtcCandidate = this.webrtcAdapter.createIceCandidate(candidate)
+            this.pc
+                .addIceCandidate(rtcCandidate)
+                .then(() => {
+                    this.emit('ice:candidate:remote', rtcCandidate)
+                })
+                .catch(error => {
+                    this.debug('Failed to add ICE candidate:', error)
+                })
+        }
+    }
+
+    /**
+     * Cipher for end-to-end encrypted signaling (requires identity credentials)
+     */
+    private getCipher(): SignalingCipher | null {
+        if (!this.cipher && this.identityCredentials) {
+            this.cipher = new SignalingCipher(
+                this.identityCredentials.keyPair,
+                this.identityCredentials.crypto
+            )
+        }
+        return this.cipher
+    }
+
+    /**
+     * Public key to encrypt outgoing signaling to, or null to send it in plaintext
+     */
+    private getEncryptionRecipient(): string | null {
+        if (!this.config.encryptSignaling || !this.getCipher()) return null
+        return this.getSignalingRecipient()
+    }
+
+    /**
+     * Encrypt an SDP for the remote peer, if possible
+     */
+    protected async sealSdp(sdp: string): Promise<string> {
+        const recipient = this.getEncryptionRecipient()
+        if (!recipient) return sdp
+        return this.getCipher()!.encrypt(recipient, sdp)
+    }
+
+    /**
+     * Decrypt an SDP from the given peer (plaintext SDPs are returned as they are)
+     */
+    protected async openSdp(sdp: string, senderPublicKey: string): Promise<string> {
+        if (!isEncryptedSignal(sdp)) return sdp
+
+        const cipher = this.getCipher()
+        if (!cipher) {
+            throw new ProtocolViolationError(
+                'Received an encrypted SDP but no identity is available to decrypt it'
+            )
+        }
+        return cipher.decrypt(senderPublicKey, sdp)
+    }
+
+    /**
+     * Encrypt a batch of outgoing candidates into a single entry, if possible
+     */
+    protected async sealCandidates(
+        candidates: RTCIceCandidateInit[]
+    ): Promise<RTCIceCandidateInit[]> {
+        const recipient = this.getEncryptionRecipient()
+        if (!recipient) return candidates
+
+        const encrypted = await this.getCipher()!.encrypt(recipient, JSON.stringify(candidates))
+        return [encodeEncryptedCandidates(encrypted)]
+    }
+
+    private async openCandidates(encrypted: string): Promise<RTCIceCandidateInit[]> {
+        const sender = this.getExpectedPeerPublicKey()
+        const cipher = this.getCipher()
+        if (!sender || !cipher) {
+            throw new ProtocolViolationError(
+                'Cannot decrypt candidates: remote peer or identity unknown'
+            )
+        }
+
+        const candidates = JSON.parse(await cipher.decrypt(sender, encrypted))
+        if (!Array.isArray(candidates)) {
+            throw new ProtocolViolationError('Malformed encrypted candidates')
+        }
+        return candidates
+    }
+
     /**
      * Handle ICE gathering state changes
      */
@@ -289,9 +638,93 @@ export abstract class RondevuConnection extends EventEmitter<ConnectionEventMap>
             (this.pc.iceConnectionState === 'connected' ||
                 this.pc.iceConnectionState === 'completed')
         ) {
-            this.transitionTo(ConnectionState.CONNECTED, 'Data channel opened and ICE connected')
-            this.onConnected()
+            this.handleTransportReady('Data channel opened and ICE connected')
+        }
+    }
+
+    /**
+     * Called when ICE is connected and the data channel is open.
+     * When identity verification is enabled, CONNECTED is deferred until the
+     * remote peer has proven its public key on this peer connection.
+     */
+    protected handleTransportReady(reason: string): void {
+        if (this.config.verifyIdentity && this.verifiedPeerConnection !== this.pc) {
+            this.ensureIdentityHandshake()?.start()
+            return
+        }
+
+        this.transitionTo(ConnectionState.CONNECTED, reason)
+        this.onConnected()
+    }
+
+    /**
+     * Get the identity handshake for the current peer connection, creating it if needed
+     */
+    private ensureIdentityHandshake(): IdentityHandshake | null {
+        if (!this.pc || !this.identityCredentials) return null
+        if (this.identityHandshake && this.identityHandshakePc === this.pc) {
+            return this.identityHandshake
         }
+
+        // Peer connection changed (reconnect/rotation) - discard the stale handshake
+        this.cancelIdentityHandshake()
+
+        const pc = this.pc
+        const handshake = new IdentityHandshake({
+            credentials: this.identityCredentials,
+            expectedPeerPublicKey: this.getExpectedPeerPublicKey(),
+            getLocalSdp: () => pc.localDescription?.sdp,
+            getRemoteSdp: () => pc.remoteDescription?.sdp,
+            sendFrame: frame => this.sendDirect(encodeControlFrame(frame)),
+            timeoutMs: this.config.identityTimeout,
+        })
+        this.identityHandshake = handshake
+        this.identityHandshakePc = pc
+
+        handshake.result
+            .then(publicKey => {
+                if (this.identityHandshake !== handshake) return
+                this.identityHandshake = null
+                this.identityHandshakePc = null
+                this.verifiedPeerConnection = pc
+
+                this.debug(`Peer identity verified: ${publicKey}`)
+                this.emit('identity:verified', publicKey)
+
+                this.transitionTo(ConnectionState.CONNECTED, 'Peer identity verified')
+                this.onConnected()
+
+                // Deliver messages that arrived while the handshake was in flight
+                const pending = this.unverifiedMessages
+                this.unverifiedMessages = []
+                for (const data of pending) {
+                    this.dispatchMessage(data)
+                }
+            })
+            .catch((error: Error) => {
+                if (this.identityHandshake !== handshake) return
+                this.identityHandshake = null
+                this.identityHandshakePc = null
+                this.unverifiedMessages = []
+
+                this.debug('Peer identity verification failed:', error.message)
+                this.emit('identity:failed', error)
+                this.transitionTo(ConnectionState.CLOSED, 'Identity verification failed')
+                this.cleanup()
+            })
+
+        return handshake
+    }
+
+    /**
+     * Abort any in-flight identity handshake
+     */
+    private cancelIdentityHandshake(): void {
+        const handshake = this.identityHandshake
+        this.identityHandshake = null
+        this.identityHandshakePc = null
+        this.unverifiedMessages = []
+        handshake?.cancel()
     }
 
     /**
@@ -301,6 +734,9 @@ export abstract class RondevuConnection extends EventEmitter<ConnectionEventMap>
         this.debug('Data channel closed')
         this.emit('datachannel:close')
 
+        // The restart cannot revive a closed channel
+        this.failIceRestart(new ConnectionFailedError('Data channel closed during ICE restart'))
+
         if (this.state === ConnectionState.CONNECTED) {
             this.transitionTo(ConnectionState.DISCONNECTED, 'Data channel closed')
             this.scheduleReconnect()
@@ -319,7 +755,135 @@ export abstract class RondevuConnection extends EventEmitter<ConnectionEventMap>
      * Handle incoming message
      */
     protected handleMessage(event: MessageEvent): void {
-        this.emit('message', event.data)
+        const frame = decodeControlFrame(event.data)
+
+        // Identity frames are the only traffic accepted before the peer is verified
+        if (frame?.type.startsWith('identity:')) {
+            if (this.config.verifyIdentity) {
+                this.ensureIdentityHandshake()?.handleFrame(frame)
+            }
+            return
+        }
+
+        // Hold everything else until the sender's identity is proven
+        if (!this.isPeerVerified()) {
+            this.unverifiedMessages.push(event.data)
+            return
+        }
+
+        this.dispatchMessage(event.data)
+    }
+
+    /**
+     * Route a message from a verified peer to control frame handling or the application
+     */
+    private dispatchMessage(data: string | ArrayBuffer | Blob): void {
+        const frame = decodeControlFrame(data)
+        if (frame) {
+            this.handleControlFrame(frame)
+            return
+        }
+
+        // Binary payload of a sequenced message or transfer chunk
+        if (this.reliable.handleBinary(data)) return
+        if (this.transfers.handleBinary(data)) return
+
+        this.emit('message', data)
+    }
+
+    /**
+     * Handle a library control frame received on the data channel
+     */
+    protected handleControlFrame(frame: ControlFrame): void {
+        if (frame.type.startsWith('channel:')) {
+            this.channels.handleFrame(frame)
+            return
+        }
+
+        if (frame.type.startsWith('rpc:')) {
+            this.rpc.handleFrame(frame)
+            return
+        }
+
+        if (frame.type.startsWith('rel:')) {
+            this.reliable.handleFrame(frame)
+            return
+        }
+
+        if (frame.type.startsWith('xfer:')) {
+            this.transfers.handleFrame(frame)
+            return
+        }
+
+        if (frame.type.startsWith('sdp:')) {
+            this.negotiator.handleFrame(frame)
+            return
+        }
+
+        this.debug(`Ignoring unknown control frame: ${frame.type}`)
+    }
+
+    /**
+     * Send a control frame on the main data channel (connection must be established)
+     */
+    protected sendControlFrame(frame: ControlFrame): void {
+        if (this.state !== ConnectionState.CONNECTED) {
+            throw new Error('Connection is not established')
+        }
+        this.sendDirect(encodeControlFrame(frame))
+    }
+
+    /**
+     * Send a control frame, buffering it while disconnected like application messages
+     */
+    protected sendBufferedControlFrame(frame: ControlFrame): void {
+        const connected = this.state === ConnectionState.CONNECTED && this.dc?.readyState === 'open'
+        if (!connected && !this.messageBuffer) {
+            throw new Error('Connection is not established and message buffering is disabled')
+        }
+        this.send(encodeControlFrame(frame))
+    }
+
+    /**
+     * Whether chunked sends may proceed: connected and the send queue below the high-water mark
+     */
+    protected hasSendCapacity(): boolean {
+        return (
+            this.state === ConnectionState.CONNECTED &&
+            this.dc?.readyState === 'open' &&
+            this.dc.bufferedAmount < this.config.sendHighWaterMark
+        )
+    }
+
+    /**
+     * Resolves when the send queue drains to the low-water mark, the connection
+     * state changes, or after a short safety timeout (callers re-check capacity)
+     */
+    protected waitForSendCapacity(): Promise<void> {
+        return new Promise<void>(resolve => {
+            const dc = this.dc
+            const done = () => {
+                clearTimeout(timer)
+                dc?.removeEventListener('bufferedamountlow', done)
+                this.off('state:changed', done)
+                resolve()
+            }
+            const timer = setTimeout(done, 1000)
+
+            if (dc) {
+                dc.bufferedAmountLowThreshold = this.config.sendLowWaterMark
+                dc.addEventListener('bufferedamountlow', done)
+            }
+            this.on('state:changed', done)
+        })
+    }
+
+    /**
+     * Whether the remote peer may exchange data on the current peer connection
+     * (always true unless identity verification is enabled and still pending)
+     */
+    protected isPeerVerified(): boolean {
+        return !this.config.verifyIdentity || this.verifiedPeerConnection === this.pc
     }
 
     /**
@@ -330,7 +894,33 @@ export abstract class RondevuConnection extends EventEmitter<ConnectionEventMap>
         this.reconnectAttempts = 0
         this.backoff?.reset()
 
-        // Replay buffered messages
+        // (Re-)announce named channels so the remote side creates its ends
+        this.channels.announceAll()
+
+        if (this.config.reliableDelivery) {
+            // Ack what we received so the remote prunes its buffer before replaying
+            this.reliable.resetChannel()
+            this.reliable.flushAck()
+        }
+
+        this.replayBufferedMessages()
+
+        // Continue interrupted transfers from where the receiver left off
+        this.transfers.handleReconnect()
+
+        // Negotiate media changes made while connecting
+        this.negotiator.flush()
+    }
+
+    /**
+     * Send buffered messages over the (newly) open data channel
+     */
+    private replayBufferedMessages(): void {
+        if (this.config.reliableDelivery) {
+            this.replayUnacked()
+            return
+        }
+
         if (this.messageBuffer && !this.messageBuffer.isEmpty()) {
             const messages = this.messageBuffer.getValid()
             this.debug(`Replaying ${messages.length} buffered messages`)
@@ -353,6 +943,129 @@ export abstract class RondevuConnection extends EventEmitter<ConnectionEventMap>
         }
     }
 
+    /**
+     * Reliable mode: ack what we received, then resend everything the remote has
+     * not acknowledged (it drops duplicates). Messages stay buffered until acked.
+     */
+    private replayUnacked(): void {
+        if (!this.messageBuffer || this.messageBuffer.isEmpty()) return
+
+        const expired = this.messageBuffer.getExpired()
+        for (const msg of expired) {
+            this.emit('message:buffer:expired', msg)
+        }
+
+        const messages = this.messageBuffer.getAll()
+        this.debug(`Replaying ${messages.length} unacknowledged messages`)
+
+        for (const message of messages) {
+            if (message.seq === undefined) continue
+            try {
+                this.sendSequenced(message.seq, message.data)
+                this.messageBuffer.incrementAttempt(message.id)
+                this.emit('message:replayed', message)
+            } catch (error) {
+                this.debug('Failed to replay message:', error)
+                break
+            }
+        }
+    }
+
+    /**
+     * Load messages persisted for the remote peer into the buffer and keep the
+     * storage in sync from now on. Call once the remote public key is known.
+     */
+    protected async restorePersistedMessages(): Promise<void> {
+        if (!this.messageStorage || !this.messageBuffer || this.storageKey) return
+
+        const peerPublicKey = this.getExpectedPeerPublicKey()
+        if (!peerPublicKey) return
+        this.storageKey = peerPublicKey
+
+        let stored: BufferedMessage[] = []
+        try {
+            stored = await this.messageStorage.load(peerPublicKey)
+        } catch (error) {
+            this.debug('Failed to load persisted messages:', error)
+        }
+
+        if (stored.length > 0 && this.messageBuffer) {
+            // Sequence numbers belong to the previous session; re-number in reliable mode
+            const restored = stored.map(
+                ({ seq: _seq, ...message }): BufferedMessage =>
+                    this.config.reliableDelivery
+                        ? { ...message, seq: this.reliable.nextSequence() }
+                        : message
+            )
+            this.messageBuffer.restore(restored)
+            this.debug(`Restored ${restored.length} persisted messages for ${peerPublicKey}`)
+            this.emit('message:buffer:restored', restored)
+
+            if (this.state === ConnectionState.CONNECTED) {
+                this.replayBufferedMessages()
+            }
+        }
+
+        this.schedulePersist()
+    }
+
+    /**
+     * Save the buffer to storage (coalesced; saves run one at a time)
+     */
+    private schedulePersist(): void {
+        if (!this.messageStorage || !this.storageKey || this.persistScheduled) return
+        this.persistScheduled = true
+
+        const storage = this.messageStorage
+        const key = this.storageKey
+        this.persistChain = this.persistChain.then(async () => {
+            this.persistScheduled = false
+            // Detached on close: the final state was queued by detachStorage()
+            if (this.storageKey !== key) return
+            await this.saveMessages(storage, key, this.messageBuffer?.getAll() ?? [])
+        })
+    }
+
+    /**
+     * Stop syncing the buffer to storage, saving any change not yet persisted. The
+     * stored messages stay until a later connection to the peer delivers them.
+     */
+    private detachStorage(): void {
+        const storage = this.messageStorage
+        const key = this.storageKey
+        if (!storage || !key) return
+
+        this.storageKey = null
+        if (this.persistScheduled) {
+            const messages = this.messageBuffer?.getAll() ?? []
+            this.persistChain = this.persistChain.then(() =>
+                this.saveMessages(storage, key, messages)
+            )
+        }
+    }
+
+    private async saveMessages(
+        storage: MessageBufferStorage,
+        key: string,
+        messages: BufferedMessage[]
+    ): Promise<void> {
+        try {
+            await storage.save(key, messages)
+        } catch (error) {
+            this.debug('Failed to persist message buffer:', error)
+        }
+    }
+
+    /**
+     * Remove messages acknowledged by the remote peer from the buffer
+     */
+    private handleReliableAck(seq: number): void {
+        if (!this.messageBuffer) return
+        for (const message of this.messageBuffer.removeAcked(seq)) {
+            this.emit('message:acked', message)
+        }
+    }
+
     /**
      * Start ICE candidate polling
      */
@@ -399,6 +1112,11 @@ export abstract class RondevuConnection extends EventEmitter<ConnectionEventMap>
      */
     protected abstract getApi(): any
 
+    /**
+     * Get the signaler for candidates and restart descriptions - subclasses must provide
+     */
+    protected abstract getSignaler(): ConnectionSignaler
+
     /**
      * Get the owner public key - subclasses must provide
      */
@@ -409,12 +1127,24 @@ export abstract class RondevuConnection extends EventEmitter<ConnectionEventMap>
      */
     protected abstract getOfferId(): string
 
+    /**
+     * Get the public key the signaling server says the remote peer has.
+     * Used as the expected identity during verification; null if not yet known.
+     */
+    protected abstract getExpectedPeerPublicKey(): string | null
+
     /**
      * Get the ICE candidate role this connection should accept.
      * Returns null for no filtering (offerer), or specific role (answerer accepts 'offerer').
      */
     protected abstract getIceCandidateRole(): 'offerer' | null
 
+    /**
+     * Get the public key outgoing signaling is encrypted to, or null to send it in
+     * plaintext - subclasses must provide
+     */
+    protected abstract getSignalingRecipient(): string | null
+
     /**
      * Poll for remote ICE candidates (consolidated implementation)
      * Subclasses implement getIceCandidateRole() to specify filtering
@@ -435,18 +1165,7 @@ export abstract class RondevuConnection extends EventEmitter<ConnectionEventMap>
                             continue
                         }
 
-                        if (iceCandidate.candidate && this.pc) {
-                            const candidate = iceCandidate.candidate
-                            const rtcCandidate = this.webrtcAdapter.createIceCandidate(candidate)
-                            this.pc
-                                .addIceCandidate(rtcCandidate)
-                                .then(() => {
-                                    this.emit('ice:candidate:remote', rtcCandidate)
-                                })
-                                .catch(error => {
-                                    this.debug('Failed to add ICE candidate:', error)
-                                })
-                        }
+                        this.applyRemoteCandidate(iceCandidate.candidate)
 
                         // Update last poll time
                         if (iceCandidate.createdAt > this.lastIcePollTime) {
@@ -571,6 +1290,11 @@ export abstract class RondevuConnection extends EventEmitter<ConnectionEventMap>
      * Send a message with automatic buffering
      */
     send(data: string | ArrayBuffer | Blob): void {
+        if (this.config.reliableDelivery) {
+            this.sendReliable(data)
+            return
+        }
+
         if (this.state === ConnectionState.CONNECTED && this.dc?.readyState === 'open') {
             // Send directly
             try {
@@ -586,6 +1310,43 @@ export abstract class RondevuConnection extends EventEmitter<ConnectionEventMap>
         }
     }
 
+    /**
+     * Reliable mode: sequence the message and keep it buffered until acknowledged
+     */
+    private sendReliable(data: string | ArrayBuffer | Blob): void {
+        const buffer = this.messageBuffer!
+        if (buffer.isFull()) {
+            const oldest = buffer.getAll()[0]
+            this.emit('message:buffer:overflow', oldest)
+        }
+
+        const seq = this.reliable.nextSequence()
+        buffer.add(data, seq)
+
+        if (this.state === ConnectionState.CONNECTED && this.dc?.readyState === 'open') {
+            try {
+                this.sendSequenced(seq, data)
+                this.emit('message:sent', data, false)
+                return
+            } catch (error) {
+                this.debug('Failed to send message:', error)
+            }
+        }
+
+        // Sent on the next replay
+        this.emit('message:buffered', data)
+        this.emit('message:sent', data, true)
+    }
+
+    /**
+     * Send the frames of a sequenced message
+     */
+    private sendSequenced(seq: number, data: string | ArrayBuffer | Blob): void {
+        for (const frame of this.reliable.encode(seq, data)) {
+            this.sendDirect(frame)
+        }
+    }
+
     /**
      * Buffer a message for later delivery
      */
@@ -606,6 +1367,84 @@ export abstract class RondevuConnection extends EventEmitter<ConnectionEventMap>
         this.debug(`Message buffered (${this.messageBuffer.size()}/${this.config.maxBufferSize})`)
     }
 
+    /**
+     * Get or create a named channel multiplexed over this connection.
+     * The remote side is notified and creates its end (emitting 'channel').
+     * Channels persist across reconnection and offer rotation.
+     *
+     * @param name - Channel name (must be unique per connection)
+     * @param options - Delivery options (ordered, maxRetransmits, ...)
+     */
+    channel(name: string, options?: ChannelOptions): NamedChannel {
+        return this.channels.open(name, options)
+    }
+
+    /**
+     * Send a media track to the remote peer. Once connected, the session is
+     * renegotiated over the data channel (no signaling server round-trip).
+     * Tracks are re-added automatically after reconnection.
+     *
+     * @param track - Audio or video track
+     * @param streams - Streams the track belongs to (remote 'track' events report them)
+     * @returns The RTCRtpSender (null until a peer connection exists)
+     */
+    addTrack(track: MediaStreamTrack, ...streams: MediaStream[]): RTCRtpSender | null {
+        if (!this.localTracks.some(local => local.track === track)) {
+            this.localTracks.push({ track, streams })
+        }
+
+        const pc = this.pc
+        if (!pc) return null
+        return (
+            pc.getSenders().find(sender => sender.track === track) ?? pc.addTrack(track, ...streams)
+        )
+    }
+
+    /**
+     * Stop sending a media track (renegotiated over the data channel)
+     */
+    removeTrack(track: MediaStreamTrack): void {
+        this.localTracks = this.localTracks.filter(local => local.track !== track)
+
+        const sender = this.pc?.getSenders().find(s => s.track === track)
+        if (sender) {
+            this.pc!.removeTrack(sender)
+        }
+    }
+
+    /**
+     * Resolves once the connection is established and the send queue is below the
+     * high-water mark. Rejects if the connection is closed first.
+     */
+    async waitUntilWritable(): Promise<void> {
+        while (!this.hasSendCapacity()) {
+            if (this.state === ConnectionState.CLOSED) {
+                throw new Error('Connection closed')
+            }
+            await this.waitForSendCapacity()
+        }
+    }
+
+    /**
+     * Send a Blob/File or ArrayBuffer in chunks, with flow control and progress.
+     * Interrupted transfers resume after reconnection; the remote side receives a
+     * 'transfer' event with an IncomingTransfer.
+     *
+     * @param data - Payload to send
+     * @param options - Name, MIME type, metadata, chunk size, abort signal
+     * @returns Transfer handle (`progress` events, `done` promise, `cancel()`)
+     */
+    sendFile(data: Blob | ArrayBuffer, options?: TransferOptions): OutgoingTransfer {
+        return this.transfers.sendFile(data, options)
+    }
+
+    /**
+     * Send the contents of a ReadableStream in chunks (see sendFile)
+     */
+    sendStream(stream: ReadableStream<Uint8Array>, options?: TransferOptions): OutgoingTransfer {
+        return this.transfers.sendStream(stream, options)
+    }
+
     /**
      * Get current connection state
      */
@@ -646,11 +1485,21 @@ export abstract class RondevuConnection extends EventEmitter<ConnectionEventMap>
         // Clear all timeouts
         this.clearConnectionTimeout()
         this.clearIceGatheringTimeout()
+        this.clearIceRestartTimer()
         this.cancelReconnect()
 
         // Stop ICE polling
         this.stopIcePolling()
 
+        // Abort identity verification in progress
+        this.cancelIdentityHandshake()
+
+        // Close named channels and fail outstanding RPC calls
+        this.channels.closeAll()
+        this.rpc.closeAll()
+        this.reliable.dispose()
+        this.transfers.closeAll()
+
         // Clear ICE candidate buffer
         if (this.iceCandidateFlushTimer) {
             clearTimeout(this.iceCandidateFlushTimer)
@@ -684,8 +1533,9 @@ export abstract class RondevuConnection extends EventEmitter<ConnectionEventMap>
             this.pc = null
         }
 
-        // Clear message buffer if not preserving
+        // Clear the in-memory buffer if not preserving (persisted messages are kept)
         if (this.messageBuffer && !this.config.preserveBufferOnClose) {
+            this.detachStorage()
             this.messageBuffer.clear()
         }
 
@@ -0,0 +1,376 @@
+/**
+ * Named channels multiplexed over a single connection
+ *
+ * Each named channel is backed by its own negotiated RTCDataChannel. Negotiated
+ * channels need no in-band setup: both sides create a channel with the same
+ * stream id, derived here from the channel name. To let the remote side know a
+ * channel exists, the connection announces it with a `channel:open` control frame
+ * on the main data channel; the remote creates its end and replies `channel:ready`.
+ * Messages sent before the remote is ready are queued. If the stream id is already
+ * taken on the remote side, it replies `channel:reject` and the channel is closed.
+ *
+ * Channel objects survive reconnection and offer rotation: when the connection gets
+ * a new RTCPeerConnection, the registry re-creates the underlying data channels and
+ * the connection re-announces them.
+ */
+
+import { EventEmitter } from 'eventemitter3'
+import { ControlFrame } from './control.js'
+
+/**
+ * Options for a named channel (subset of RTCDataChannelInit)
+ */
+export interface ChannelOptions {
+    /** Deliver messages in order (default: true) */
+    ordered?: boolean
+    /** Maximum retransmissions for unreliable delivery */
+    maxRetransmits?: number
+    /** Maximum time (ms) to retransmit for unreliable delivery */
+    maxPacketLifeTime?: number
+    /** Explicit SCTP stream id (default: derived from the name) */
+    id?: number
+}
+
+/**
+ * Event map for NamedChannel
+ */
+export interface NamedChannelEventMap {
+    /** Both sides have the channel and it is ready to send (again after reconnection) */
+    open: []
+    /** The channel was closed permanently */
+    close: []
+    /** A message was received */
+    message: [data: string | ArrayBuffer | Blob]
+    /** The underlying data channel reported an error */
+    error: [error: Event]
+    /** The remote side refused the channel (e.g. its stream id is taken there); the channel is closed */
+    rejected: [reason: string]
+}
+
+type ChannelData = string | ArrayBuffer | Blob
+
+/**
+ * First stream id used for named channels. Lower ids are left to the default
+ * channel and any negotiated channels created by the application.
+ */
+const CHANNEL_ID_BASE = 512
+const CHANNEL_ID_RANGE = 512
+
+/**
+ * Derive a stable SCTP stream id from a channel name (FNV-1a hash)
+ */
+export function channelIdForName(name: string): number {
+    let hash = 0x811c9dc5
+    for (let i = 0; i < name.length; i++) {
+        hash ^= name.charCodeAt(i)
+        hash = Math.imul(hash, 0x01000193)
+    }
+    return CHANNEL_ID_BASE + ((hash >>> 0) % CHANNEL_ID_RANGE)
+}
+
+/**
+ * A named, independently configured channel on a connection
+ */
+export class NamedChannel extends EventEmitter<NamedChannelEventMap> {
+    readonly id: number
+    private dc: RTCDataChannel | null = null
+    private remoteReady = false
+    private closed = false
+    private pending: ChannelData[] = []
+
+    constructor(
+        readonly name: string,
+        readonly options: ChannelOptions,
+        private readonly onClose: (channel: NamedChannel) => void
+    ) {
+        super()
+        this.id = options.id ?? channelIdForName(name)
+    }
+
+    /**
+     * Whether messages are delivered immediately (vs. queued)
+     */
+    get isOpen(): boolean {
+        return !this.closed && this.remoteReady && this.dc?.readyState === 'open'
+    }
+
+    /**
+     * The current underlying RTCDataChannel (replaced after reconnection)
+     */
+    get dataChannel(): RTCDataChannel | null {
+        return this.dc
+    }
+
+    /**
+     * Send a message on this channel. Queued until the channel is open.
+     */
+    send(data: ChannelData): void {
+        if (this.closed) {
+            throw new Error(`Channel "${this.name}" is closed`)
+        }
+
+        if (this.isOpen) {
+            this.dc!.send(data as any)
+        } else {
+            this.pending.push(data)
+        }
+    }
+
+    /**
+     * Close the channel on both sides
+     */
+    close(): void {
+        if (this.closed) return
+        this.dispose()
+        this.onClose(this)
+    }
+
+    /**
+     * Bind to a new underlying data channel (after a new RTCPeerConnection)
+     * @internal
+     */
+    bind(dc: RTCDataChannel): void {
+        this.unbind()
+        this.dc = dc
+        this.remoteReady = false
+
+        dc.onopen = () => this.flushIfOpen()
+        dc.onmessage = event => this.emit('message', event.data)
+        dc.onerror = error => this.emit('error', error)
+    }
+
+    /**
+     * Mark the remote side as ready to receive
+     * @internal
+     */
+    setRemoteReady(): void {
+        if (this.closed) return
+        this.remoteReady = true
+        this.flushIfOpen()
+    }
+
+    /**
+     * Close permanently after the remote side refused the channel
+     * @internal
+     */
+    reject(reason: string): void {
+        if (this.closed) return
+        this.emit('rejected', reason)
+        this.dispose()
+    }
+
+    /**
+     * Close permanently without notifying the registry
+     * @internal
+     */
+    dispose(): void {
+        if (this.closed) return
+        this.closed = true
+        this.pending = []
+        this.unbind()
+        this.emit('close')
+    }
+
+    private flushIfOpen(): void {
+        if (!this.isOpen) return
+
+        const queued = this.pending
+        this.pending = []
+        for (const data of queued) {
+            this.dc!.send(data as any)
+        }
+        this.emit('open')
+    }
+
+    private unbind(): void {
+        if (!this.dc) return
+        const dc = this.dc
+        this.dc = null
+        dc.onopen = null
+        dc.onmessage = null
+        dc.onerror = null
+        if (dc.readyState !== 'closed') {
+            dc.close()
+        }
+    }
+}
+
+export interface ChannelRegistryOptions {
+    /** Send a control frame on the main data channel (throws if not open) */
+    sendFrame: (frame: ControlFrame) => void
+    /** Called when the remote side opens a channel we did not have */
+    onRemoteChannel: (channel: NamedChannel) => void
+    debug?: (...args: unknown[]) => void
+}
+
+/**
+ * Tracks the named channels of one connection across RTCPeerConnections
+ */
+export class ChannelRegistry {
+    private readonly channels = new Map<string, NamedChannel>()
+    private pc: RTCPeerConnection | null = null
+
+    constructor(private readonly options: ChannelRegistryOptions) {}
+
+    /**
+     * Get or create a channel by name
+     * @throws Error if another channel already uses the stream id
+     */
+    open(name: string, channelOptions: ChannelOptions = {}): NamedChannel {
+        const existing = this.channels.get(name)
+        if (existing) return existing
+
+        const id = channelOptions.id ?? channelIdForName(name)
+        const other = this.findById(id)
+        if (other) {
+            throw new Error(
+                `Channel "${name}" collides with "${other.name}" on stream id ${id}; pass an explicit id`
+            )
+        }
+
+        const channel = this.create(name, channelOptions)
+        this.announce(channel)
+        return channel
+    }
+
+    /**
+     * Get an existing channel by name
+     */
+    get(name: string): NamedChannel | undefined {
+        return this.channels.get(name)
+    }
+
+    /**
+     * Create the underlying data channels on a new RTCPeerConnection
+     */
+    attach(pc: RTCPeerConnection): void {
+        if (this.pc === pc) return
+        this.pc = pc
+        for (const channel of this.channels.values()) {
+            this.bindChannel(channel)
+        }
+    }
+
+    /**
+     * Announce all channels to the remote side (call once the main channel is open)
+     */
+    announceAll(): void {
+        for (const channel of this.channels.values()) {
+            this.announce(channel)
+        }
+    }
+
+    /**
+     * Handle a `channel:*` control frame
+     */
+    handleFrame(frame: ControlFrame): void {
+        const name = frame.name
+        if (typeof name !== 'string') return
+
+        switch (frame.type) {
+            case 'channel:open': {
+                if (!this.channels.has(name)) {
+                    const remoteOptions = (frame.options ?? {}) as ChannelOptions
+                    const id = remoteOptions.id ?? channelIdForName(name)
+                    const other = this.findById(id)
+                    if (other) {
+                        const reason = `Stream id ${id} is taken by channel "${other.name}"`
+                        this.options.debug?.(`Rejecting remote channel "${name}": ${reason}`)
+                        this.send({ type: 'channel:reject', name, reason })
+                        break
+                    }
+                    this.options.onRemoteChannel(this.create(name, remoteOptions))
+                }
+                this.send({ type: 'channel:ready', name })
+                break
+            }
+            case 'channel:ready':
+                this.channels.get(name)?.setRemoteReady()
+                break
+            case 'channel:reject': {
+                const channel = this.channels.get(name)
+                if (channel) {
+                    this.channels.delete(name)
+                    channel.reject(typeof frame.reason === 'string' ? frame.reason : 'Rejected')
+                }
+                break
+            }
+            case 'channel:close': {
+                const channel = this.channels.get(name)
+                if (channel) {
+                    this.channels.delete(name)
+                    channel.dispose()
+                }
+                break
+            }
+        }
+    }
+
+    /**
+     * Close all channels permanently
+     */
+    closeAll(): void {
+        for (const channel of this.channels.values()) {
+            channel.dispose()
+        }
+        this.channels.clear()
+        this.pc = null
+    }
+
+    private create(name: string, channelOptions: ChannelOptions): NamedChannel {
+        const channel = new NamedChannel(name, channelOptions, closed => {
+            this.channels.delete(closed.name)
+            this.send({ type: 'channel:close', name: closed.name })
+        })
+
+        this.channels.set(name, channel)
+        if (this.pc) {
+            this.bindChannel(channel)
+        }
+        return channel
+    }
+
+    private findById(id: number): NamedChannel | undefined {
+        for (const channel of this.channels.values()) {
+            if (channel.id === id) return channel
+        }
+        return undefined
+    }
+
+    private bindChannel(channel: NamedChannel): void {
+        if (!this.pc) return
+        try {
+            const dc = this.pc.createDataChannel(`rondevu:${channel.name}`, {
+                negotiated: true,
+                id: channel.id,
+                ordered: channel.options.ordered,
+                maxRetransmits: channel.options.maxRetransmits,
+                maxPacketLifeTime: channel.options.maxPacketLifeTime,
+            })
+            channel.bind(dc)
+        } catch (error) {
+            this.options.debug?.(`Failed to create data channel for "${channel.name}":`, error)
+        }
+    }
+
+    private announce(channel: NamedChannel): void {
+        this.send({
+            type: 'channel:open',
+            name: channel.name,
+            options: {
+                ordered: channel.options.ordered,
+                maxRetransmits: channel.options.maxRetransmits,
+                maxPacketLifeTime: channel.options.maxPacketLifeTime,
+                id: channel.id,
+            },
+        })
+    }
+
+    private send(frame: ControlFrame): void {
+        try {
+            this.options.sendFrame(frame)
+        } catch {
+            // Main channel not open yet - channels are (re-)announced on connect
+        }
+    }
+}
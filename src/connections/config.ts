@@ -11,10 +11,26 @@ export interface ConnectionOptions {
     timeout?: number
     /** Enable automatic reconnection on failures. Default: true */
     reconnect?: boolean
+    /** Try an ICE restart on the existing connection before reconnecting. Default: true */
+    iceRestart?: boolean
     /** Maximum reconnection attempts (0 = infinite). Default: 5 */
     maxReconnects?: number
     /** Buffer messages during disconnections. Default: true */
     bufferMessages?: boolean
+    /**
+     * Verify the remote peer's public key end-to-end before opening. Default: false.
+     * Both peers must enable it: a peer without it never answers the handshake,
+     * so the connection would time out instead of opening.
+     */
+    verifyIdentity?: boolean
+    /** Acknowledge messages and replay unacked ones exactly once after reconnects. Default: false */
+    reliable?: boolean
+    /**
+     * Encrypt SDP and ICE candidates end-to-end when the remote public key is known.
+     * Default: false. Opt-in because peers on older versions cannot read encrypted
+     * signaling (see the README).
+     */
+    encryptSignaling?: boolean
     /** Enable debug logging. Default: false */
     debug?: boolean
 }
@@ -35,17 +51,32 @@ export interface ConnectionConfig {
     reconnectBackoffBase: number // Base delay for exponential backoff (ms)
     reconnectBackoffMax: number // Maximum delay between reconnection attempts (ms)
     reconnectJitter: number // Jitter factor for backoff (0-1, adds randomness to prevent thundering herd)
+    iceRestartEnabled: boolean // Restart ICE on the existing peer connection before reconnecting/rotating
+    iceRestartTimeout: number // Maximum time for an ICE restart to reconnect before falling back (ms)
+
+    // Send queue (flow control for transfers and streams)
+    sendHighWaterMark: number // Pause chunked sends while dc.bufferedAmount is above this (bytes)
+    sendLowWaterMark: number // Resume once dc.bufferedAmount drops to this (bytes)
 
     // Message buffering
     bufferEnabled: boolean // Enable automatic message buffering during disconnections
     maxBufferSize: number // Maximum number of messages to buffer
     maxBufferAge: number // Maximum age of buffered messages (ms)
-    preserveBufferOnClose: boolean // Keep buffer on explicit close (vs. clearing it)
+    preserveBufferOnClose: boolean // Keep the in-memory buffer on explicit close (persisted messages are always kept)
+    reliableDelivery: boolean // Sequence messages, keep them buffered until acked, dedupe on replay
 
     // ICE polling
     icePollingInterval: number // Interval for polling remote ICE candidates (ms)
     icePollingTimeout: number // Maximum time to poll for ICE candidates (ms)
 
+    // Identity verification
+    verifyIdentity: boolean // Prove the remote peer's Ed25519 key over the data channel before 'connected'
+    identityTimeout: number // Maximum time to wait for the identity handshake (ms)
+    encryptSignaling: boolean // Encrypt signaling to the remote key once known (offerer ICE candidates sent before the answer stay plaintext)
+
+    // RPC
+    rpcTimeout: number // Default time to wait for an RPC response, including time spent reconnecting (ms)
+
     // Debug
     debug: boolean // Enable debug logging
 }
@@ -61,17 +92,32 @@ export const DEFAULT_CONNECTION_CONFIG: ConnectionConfig = {
     reconnectBackoffBase: 1000, // Start with 1 second
     reconnectBackoffMax: 30000, // Cap at 30 seconds
     reconnectJitter: 0.1, // 10% jitter
+    iceRestartEnabled: true,
+    iceRestartTimeout: 15000, // 15 seconds
+
+    // Send queue
+    sendHighWaterMark: 1024 * 1024, // 1 MB
+    sendLowWaterMark: 256 * 1024, // 256 KB
 
     // Message buffering
     bufferEnabled: true,
     maxBufferSize: 100, // 100 messages
     maxBufferAge: 60000, // 1 minute
-    preserveBufferOnClose: false, // Clear buffer on close
+    preserveBufferOnClose: false, // Drop the in-memory buffer on close
+    reliableDelivery: false, // Opt-in: the buffer also holds messages until acked
 
     // ICE polling
     icePollingInterval: 500, // Poll every 500ms
     icePollingTimeout: 30000, // Stop polling after 30s
 
+    // Identity verification
+    verifyIdentity: false, // Opt-in: both peers must enable it, or the handshake times out
+    identityTimeout: 10000, // 10 seconds
+    encryptSignaling: false, // Opt-in: older peers can't read encrypted signaling
+
+    // RPC
+    rpcTimeout: 30000, // 30 seconds
+
     // Debug
     debug: false,
 }
@@ -99,7 +145,13 @@ export function toConnectionConfig(options?: ConnectionOptions): ConnectionConfi
         ...(options.timeout !== undefined && { connectionTimeout: options.timeout }),
         ...(options.reconnect !== undefined && { reconnectEnabled: options.reconnect }),
         ...(options.maxReconnects !== undefined && { maxReconnectAttempts: options.maxReconnects }),
+        ...(options.iceRestart !== undefined && { iceRestartEnabled: options.iceRestart }),
         ...(options.bufferMessages !== undefined && { bufferEnabled: options.bufferMessages }),
+        ...(options.verifyIdentity !== undefined && { verifyIdentity: options.verifyIdentity }),
+        ...(options.reliable !== undefined && { reliableDelivery: options.reliable }),
+        ...(options.encryptSignaling !== undefined && {
+            encryptSignaling: options.encryptSignaling,
+        }),
         ...(options.debug !== undefined && { debug: options.debug }),
     }
 }
@@ -0,0 +1,48 @@
+/**
+ * Control frames exchanged over the data channel
+ *
+ * Control frames carry library-level protocol messages (identity handshake, etc.)
+ * alongside application messages on the same data channel. They are JSON strings
+ * marked with a reserved prefix so they can be told apart from user data.
+ */
+
+/**
+ * Prefix marking a data channel string message as a control frame.
+ * Starts with a NUL character, which application text messages practically never do.
+ */
+export const CONTROL_FRAME_PREFIX = '\u0000rondevu:'
+
+/**
+ * A control frame - `type` is namespaced by feature (e.g. 'identity:hello')
+ */
+export interface ControlFrame {
+    type: string
+    [key: string]: unknown
+}
+
+/**
+ * Encode a control frame for sending over a data channel
+ */
+export function encodeControlFrame(frame: ControlFrame): string {
+    return CONTROL_FRAME_PREFIX + JSON.stringify(frame)
+}
+
+/**
+ * Decode a data channel message into a control frame
+ * @returns The control frame, or null if the message is application data
+ */
+export function decodeControlFrame(data: unknown): ControlFrame | null {
+    if (typeof data !== 'string' || !data.startsWith(CONTROL_FRAME_PREFIX)) {
+        return null
+    }
+
+    try {
+        const frame = JSON.parse(data.slice(CONTROL_FRAME_PREFIX.length))
+        if (frame && typeof frame === 'object' && typeof frame.type === 'string') {
+            return frame as ControlFrame
+        }
+    } catch {
+        // Malformed frame - fall through
+    }
+    return null
+}
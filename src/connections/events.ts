@@ -2,6 +2,9 @@
  * TypeScript event type definitions for RondevuConnection
  */
 
+import type { NamedChannel } from './channels.js'
+import type { IncomingTransfer } from './transfer.js'
+
 export enum ConnectionState {
     INITIALIZING = 'initializing', // Creating peer connection
     GATHERING = 'gathering', // ICE gathering in progress
@@ -20,6 +23,7 @@ export interface BufferedMessage {
     data: string | ArrayBuffer | Blob
     timestamp: number
     attempts: number
+    seq?: number // Sequence number (reliable mode)
 }
 
 export interface ReconnectInfo {
@@ -54,13 +58,20 @@ export interface ConnectionEventMap {
     'reconnect:failed': [error: Error]
     'reconnect:exhausted': [attempts: number]
 
+    // ICE restart events (first recovery tier, before reconnect/rotation)
+    'ice:restart:started': []
+    'ice:restart:success': []
+    'ice:restart:failed': [error: Error]
+
     // Message events
     message: [data: string | ArrayBuffer | Blob]
     'message:sent': [data: string | ArrayBuffer | Blob, buffered: boolean]
     'message:buffered': [data: string | ArrayBuffer | Blob]
     'message:replayed': [message: BufferedMessage]
+    'message:acked': [message: BufferedMessage]
     'message:buffer:overflow': [discardedMessage: BufferedMessage]
     'message:buffer:expired': [message: BufferedMessage]
+    'message:buffer:restored': [messages: BufferedMessage[]]
 
     // ICE events
     'ice:candidate:local': [candidate: RTCIceCandidate | null]
@@ -74,6 +85,19 @@ export interface ConnectionEventMap {
     'answer:processed': [offerId: string, answererId: string]
     'answer:duplicate': [offerId: string]
 
+    // Identity verification events
+    'identity:verified': [publicKey: string]
+    'identity:failed': [error: Error]
+
+    // Named channel events (remote side opened a channel we did not have)
+    channel: [channel: NamedChannel]
+
+    // Media events (remote track added, initially or via renegotiation)
+    track: [event: RTCTrackEvent]
+
+    // File/stream transfer events (remote side started sending)
+    transfer: [transfer: IncomingTransfer]
+
     // Data channel events
     'datachannel:open': []
     'datachannel:close': []
@@ -0,0 +1,273 @@
+/**
+ * End-to-end peer identity verification over the data channel
+ *
+ * The signaling server tells each side who the other peer is (the offer's publisher,
+ * the answerer's public key), but a compromised server could lie. Once the data
+ * channel opens, both peers prove ownership of their Ed25519 keys by signing a
+ * challenge bound to the DTLS fingerprints of the negotiated SDPs:
+ *
+ *   1. Each side sends `identity:hello` with its public key and a fresh nonce
+ *   2. On receiving the remote hello, each side signs
+ *      (own public key, own fingerprints, remote fingerprints, remote nonce)
+ *      and sends it as `identity:proof`
+ *   3. Each side verifies the remote proof against the public key it expects
+ *
+ * A man-in-the-middle terminates DTLS separately with each peer, so the fingerprints
+ * each peer observes differ and the signatures fail to verify.
+ *
+ * Verification is opt-in (`verifyIdentity`): it is a protocol both peers must speak,
+ * so enabling it by default would break connections to peers that predate it or
+ * leave it off, and it adds a round trip before the connection opens.
+ */
+
+import { CryptoAdapter, KeyPair } from '../crypto/adapter.js'
+import { ControlFrame } from './control.js'
+
+const TRANSCRIPT_VERSION = 'rondevu-identity-v1'
+
+/**
+ * Local identity used to answer the remote peer's challenge
+ */
+export interface IdentityCredentials {
+    keyPair: KeyPair
+    crypto: CryptoAdapter
+}
+
+/**
+ * Error raised when the remote peer fails to prove its identity
+ */
+export class IdentityVerificationError extends Error {
+    constructor(
+        message: string,
+        public readonly peerPublicKey?: string
+    ) {
+        super(message)
+        this.name = 'IdentityVerificationError'
+    }
+}
+
+export interface IdentityHandshakeOptions {
+    credentials: IdentityCredentials
+    /** Public key the signaling server claims the remote peer has (null if unknown) */
+    expectedPeerPublicKey: string | null
+    /** Returns the current local SDP (read lazily, when signing) */
+    getLocalSdp: () => string | undefined
+    /** Returns the current remote SDP (read lazily, when verifying) */
+    getRemoteSdp: () => string | undefined
+    /** Sends a control frame to the remote peer */
+    sendFrame: (frame: ControlFrame) => void
+    /** Maximum time to wait for the remote proof (ms) */
+    timeoutMs: number
+}
+
+/**
+ * Extract the DTLS fingerprints from an SDP in a canonical form.
+ * Fingerprints may appear at session or media level, so all unique values are collected.
+ */
+export function extractSdpFingerprints(sdp: string): string {
+    const fingerprints = new Set<string>()
+    for (const line of sdp.split(/\r?\n/)) {
+        if (line.startsWith('a=fingerprint:')) {
+            fingerprints.add(line.slice('a=fingerprint:'.length).trim().toLowerCase())
+        }
+    }
+    return [...fingerprints].sort().join(',')
+}
+
+/**
+ * Single identity handshake for one RTCPeerConnection
+ */
+export class IdentityHandshake {
+    private readonly localNonce: string
+    private remoteHello: { publicKey: string; nonce: string } | null = null
+    private started = false
+    private proofStarted = false
+    private proofSent = false
+    private remoteVerified = false
+    private settled = false
+    private timer: ReturnType<typeof setTimeout> | null = null
+
+    private resolveResult!: (publicKey: string) => void
+    private rejectResult!: (error: Error) => void
+
+    /** Resolves with the verified remote public key, rejects on failure */
+    readonly result: Promise<string>
+
+    constructor(private readonly options: IdentityHandshakeOptions) {
+        const { crypto } = options.credentials
+        this.localNonce = crypto.bytesToHex(crypto.randomBytes(16))
+
+        this.result = new Promise<string>((resolve, reject) => {
+            this.resolveResult = resolve
+            this.rejectResult = reject
+        })
+        // Avoid unhandled rejection warnings when the owner never awaits (e.g. cancelled)
+        this.result.catch(() => {})
+    }
+
+    /**
+     * Send our hello and start the timeout. Call once the data channel is open.
+     */
+    start(): void {
+        if (this.started || this.settled) return
+        this.started = true
+
+        if (!this.options.expectedPeerPublicKey) {
+            this.fail('Remote peer public key is unknown')
+            return
+        }
+
+        this.timer = setTimeout(() => {
+            this.fail('Identity verification timed out')
+        }, this.options.timeoutMs)
+
+        try {
+            this.options.sendFrame({
+                type: 'identity:hello',
+                publicKey: this.options.credentials.keyPair.publicKey,
+                nonce: this.localNonce,
+            })
+        } catch (error) {
+            this.fail(`Failed to send identity hello: ${(error as Error).message}`)
+            return
+        }
+
+        this.sendProofIfReady().catch(error => this.fail((error as Error).message))
+    }
+
+    /**
+     * Handle an `identity:*` control frame from the remote peer.
+     * Frames may arrive before start() if the remote side opened first.
+     */
+    handleFrame(frame: ControlFrame): void {
+        if (this.settled) return
+
+        const task =
+            frame.type === 'identity:hello'
+                ? this.handleHello(frame)
+                : frame.type === 'identity:proof'
+                  ? this.handleProof(frame)
+                  : Promise.resolve()
+
+        task.catch(error => this.fail((error as Error).message))
+    }
+
+    /**
+     * Abort the handshake without reporting a verification failure
+     */
+    cancel(): void {
+        if (this.settled) return
+        this.settle()
+        this.rejectResult(new Error('Identity handshake cancelled'))
+    }
+
+    private async handleHello(frame: ControlFrame): Promise<void> {
+        if (this.remoteHello) return
+
+        const { publicKey, nonce } = frame
+        if (typeof publicKey !== 'string' || typeof nonce !== 'string' || nonce.length === 0) {
+            throw new Error('Malformed identity hello')
+        }
+        const expected = this.options.expectedPeerPublicKey
+        if (!expected || publicKey.toLowerCase() !== expected.toLowerCase()) {
+            throw new Error('Peer presented a public key that does not match the signaled one')
+        }
+
+        this.remoteHello = { publicKey, nonce }
+        await this.sendProofIfReady()
+    }
+
+    private async handleProof(frame: ControlFrame): Promise<void> {
+        if (!this.remoteHello) {
+            throw new Error('Received identity proof before hello')
+        }
+        if (typeof frame.signature !== 'string') {
+            throw new Error('Malformed identity proof')
+        }
+
+        // The remote signed its own (local) fingerprints - from our side those are the remote SDP
+        const message = this.buildTranscript(
+            this.remoteHello.publicKey,
+            this.fingerprintsOf(this.options.getRemoteSdp(), 'remote'),
+            this.fingerprintsOf(this.options.getLocalSdp(), 'local'),
+            this.localNonce
+        )
+
+        const valid = await this.options.credentials.crypto.verifySignature(
+            this.remoteHello.publicKey,
+            message,
+            frame.signature
+        )
+        if (!valid) {
+            throw new Error('Invalid identity proof signature')
+        }
+
+        this.remoteVerified = true
+        this.finishIfComplete()
+    }
+
+    private async sendProofIfReady(): Promise<void> {
+        if (!this.started || !this.remoteHello || this.proofStarted) return
+        this.proofStarted = true
+
+        const { keyPair, crypto } = this.options.credentials
+        const message = this.buildTranscript(
+            keyPair.publicKey,
+            this.fingerprintsOf(this.options.getLocalSdp(), 'local'),
+            this.fingerprintsOf(this.options.getRemoteSdp(), 'remote'),
+            this.remoteHello.nonce
+        )
+        const signature = await crypto.signMessage(keyPair.privateKey, message)
+
+        if (this.settled) return
+        this.options.sendFrame({ type: 'identity:proof', signature })
+        this.proofSent = true
+        this.finishIfComplete()
+    }
+
+    private finishIfComplete(): void {
+        if (this.settled || !this.proofSent || !this.remoteVerified || !this.remoteHello) return
+        const publicKey = this.remoteHello.publicKey
+        this.settle()
+        this.resolveResult(publicKey)
+    }
+
+    private fail(reason: string): void {
+        if (this.settled) return
+        this.settle()
+        this.rejectResult(
+            new IdentityVerificationError(reason, this.options.expectedPeerPublicKey ?? undefined)
+        )
+    }
+
+    private settle(): void {
+        this.settled = true
+        if (this.timer) {
+            clearTimeout(this.timer)
+            this.timer = null
+        }
+    }
+
+    private fingerprintsOf(sdp: string | undefined, side: 'local' | 'remote'): string {
+        const fingerprints = sdp ? extractSdpFingerprints(sdp) : ''
+        if (!fingerprints) {
+            throw new Error(`No DTLS fingerprint in ${side} description`)
+        }
+        return fingerprints
+    }
+
+    private buildTranscript(
+        signerPublicKey: string,
+        signerFingerprints: string,
+        verifierFingerprints: string,
+        verifierNonce: string
+    ): string {
+        return [
+            TRANSCRIPT_VERSION,
+            signerPublicKey.toLowerCase(),
+            signerFingerprints,
+            verifierFingerprints,
+            verifierNonce,
+        ].join('\n')
+    }
+}
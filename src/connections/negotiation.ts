@@ -0,0 +1,239 @@
+/**
+ * In-band renegotiation over the data channel
+ *
+ * Once connected, changes to the session (adding or removing media tracks) are
+ * negotiated directly between the peers instead of going back through the
+ * signaling server. Descriptions are exchanged as control frames:
+ *
+ *   { type: 'sdp:description', description: { type, sdp } }
+ *
+ * Glare (both sides offering at once) is resolved with the "perfect negotiation"
+ * pattern: the polite peer (answerer side) rolls back its own offer and accepts
+ * the remote one; the impolite peer (offerer side) ignores the colliding offer.
+ *
+ * The same machinery performs ICE restarts when the transport is lost. Restart
+ * descriptions wait for ICE gathering so they carry their candidates, and are sent
+ * both in-band (if the data channel still accepts data) and through the connection's
+ * signaler (see ConnectionSignaler.sendDescription).
+ * Whichever copy arrives first is applied; the other is recognized as a duplicate.
+ */
+
+import { ControlFrame } from './control.js'
+
+export interface NegotiatorOptions {
+    /** Whether this side yields on offer collisions */
+    polite: boolean
+    /** Send a control frame to the remote peer (throws if not connected) */
+    sendFrame: (frame: ControlFrame) => void
+    /** Whether in-band signaling is possible (connection established) */
+    canSignal: () => boolean
+    /** Whether the data channel is still open (used for ICE restarts while disconnected) */
+    canSendInBand: () => boolean
+    /** Send a description through the signaling server (ICE restarts) */
+    sendViaServer: (description: RTCSessionDescriptionInit) => Promise<void>
+    /** Maximum time to wait for ICE gathering before sending a restart description (ms) */
+    gatheringTimeoutMs: number
+    debug?: (...args: unknown[]) => void
+}
+
+/**
+ * Perfect-negotiation state for the current RTCPeerConnection
+ */
+export class InBandNegotiator {
+    private pc: RTCPeerConnection | null = null
+    private makingOffer = false
+    private pending = false
+    private lastRemoteSdp: string | null = null
+
+    constructor(private readonly options: NegotiatorOptions) {}
+
+    /**
+     * Take over negotiation for a (new) peer connection
+     */
+    attach(pc: RTCPeerConnection): void {
+        if (this.pc === pc) return
+        this.pc = pc
+        this.makingOffer = false
+        this.pending = false
+        this.lastRemoteSdp = null
+        pc.onnegotiationneeded = () => {
+            // Also fired while setting up the connection; the initial offer/answer
+            // covers everything added before it completes
+            if (pc.signalingState !== 'stable' || !pc.remoteDescription) return
+            this.negotiate()
+        }
+    }
+
+    /**
+     * Renegotiate if a change was requested before the connection was established
+     */
+    flush(): void {
+        if (this.pending) {
+            this.negotiate()
+        }
+    }
+
+    /**
+     * Create and send an offer for the current local changes
+     */
+    negotiate(): void {
+        const pc = this.pc
+        if (!pc) return
+
+        if (!this.options.canSignal()) {
+            // Initial negotiation goes through the signaling server; anything
+            // requested meanwhile is renegotiated once connected
+            this.pending = true
+            return
+        }
+        this.pending = false
+
+        this.sendOffer(pc).catch(error => {
+            this.options.debug?.('Renegotiation failed:', error)
+        })
+    }
+
+    /**
+     * Restart ICE on the current peer connection (transport lost, session kept)
+     */
+    restartIce(): void {
+        const pc = this.pc
+        if (!pc) return
+
+        this.sendOffer(pc, true).catch(error => {
+            this.options.debug?.('ICE restart offer failed:', error)
+        })
+    }
+
+    /**
+     * Handle an `sdp:*` control frame
+     */
+    handleFrame(frame: ControlFrame): void {
+        if (frame.type !== 'sdp:description') return
+
+        const description = frame.description as RTCSessionDescriptionInit | undefined
+        if (!description || typeof description.type !== 'string') return
+
+        this.handleRemoteDescription(description, frame.restart === true)
+    }
+
+    /**
+     * Apply a description received in-band or through the signaling server
+     */
+    handleRemoteDescription(description: RTCSessionDescriptionInit, restart: boolean): void {
+        this.handleDescription(description, restart).catch(error => {
+            this.options.debug?.('Failed to apply remote description:', error)
+        })
+    }
+
+    private async sendOffer(pc: RTCPeerConnection, restart = false): Promise<void> {
+        try {
+            this.makingOffer = true
+            const offer = await pc.createOffer(restart ? { iceRestart: true } : undefined)
+            // A remote offer may have arrived while creating ours
+            if (pc.signalingState !== 'stable' || this.pc !== pc) return
+            await pc.setLocalDescription(offer)
+        } finally {
+            this.makingOffer = false
+        }
+
+        if (restart) {
+            await this.sendRestart(pc, 'offer')
+            this.options.debug?.('Sent ICE restart offer')
+        } else {
+            this.send(pc.localDescription)
+            this.options.debug?.('Sent renegotiation offer')
+        }
+    }
+
+    private async handleDescription(
+        description: RTCSessionDescriptionInit,
+        restart: boolean
+    ): Promise<void> {
+        const pc = this.pc
+        if (!pc) return
+
+        // Restart descriptions arrive twice (in-band and via the signaling server)
+        if (description.sdp && description.sdp === this.lastRemoteSdp) return
+        if (description.type === 'answer' && pc.signalingState === 'stable') {
+            this.options.debug?.('Ignoring answer without a pending offer')
+            return
+        }
+
+        const offerCollision =
+            description.type === 'offer' && (this.makingOffer || pc.signalingState !== 'stable')
+
+        if (offerCollision && !this.options.polite) {
+            this.options.debug?.('Ignoring colliding renegotiation offer')
+            return
+        }
+
+        if (offerCollision) {
+            await pc.setLocalDescription({ type: 'rollback' })
+        }
+        await pc.setRemoteDescription(description)
+        this.lastRemoteSdp = description.sdp ?? null
+
+        if (description.type === 'offer') {
+            const answer = await pc.createAnswer()
+            await pc.setLocalDescription(answer)
+            if (restart) {
+                await this.sendRestart(pc, 'answer')
+            } else {
+                this.send(pc.localDescription)
+            }
+        }
+    }
+
+    private send(description: RTCSessionDescription | null): void {
+        if (!description) return
+        this.options.sendFrame({
+            type: 'sdp:description',
+            description: { type: description.type, sdp: description.sdp },
+        })
+    }
+
+    /**
+     * Send a restart description once it carries its candidates, over every path available
+     */
+    private async sendRestart(pc: RTCPeerConnection, type: 'offer' | 'answer'): Promise<void> {
+        await this.waitForGathering(pc)
+
+        // Superseded while gathering (rolled back, answered, or the connection was replaced)
+        const local = pc.localDescription
+        if (this.pc !== pc || !local || local.type !== type) return
+        const expectedState = type === 'offer' ? 'have-local-offer' : 'stable'
+        if (pc.signalingState !== expectedState) return
+
+        const description: RTCSessionDescriptionInit = { type: local.type, sdp: local.sdp }
+
+        if (this.options.canSendInBand()) {
+            try {
+                this.options.sendFrame({ type: 'sdp:description', description, restart: true })
+            } catch (error) {
+                this.options.debug?.('In-band restart signaling failed:', error)
+            }
+        }
+
+        await this.options.sendViaServer(description).catch(error => {
+            this.options.debug?.('Restart signaling via server failed:', error)
+        })
+    }
+
+    private waitForGathering(pc: RTCPeerConnection): Promise<void> {
+        if (pc.iceGatheringState === 'complete') return Promise.resolve()
+
+        return new Promise(resolve => {
+            const done = () => {
+                clearTimeout(timer)
+                pc.removeEventListener('icegatheringstatechange', onChange)
+                resolve()
+            }
+            const onChange = () => {
+                if (pc.iceGatheringState === 'complete') done()
+            }
+            const timer = setTimeout(done, this.options.gatheringTimeoutMs)
+            pc.addEventListener('icegatheringstatechange', onChange)
+        })
+    }
+}
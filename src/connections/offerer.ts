@@ -5,9 +5,14 @@
 import { RondevuConnection } from './base.js'
 import { ConnectionState } from './events.js'
 import { RondevuAPI, IceCandidate } from '../api/client.js'
+import { ConnectionFailedError, ProtocolViolationError } from '../api/errors.js'
 import { ConnectionConfig } from './config.js'
 import { AsyncLock } from '../utils/async-lock.js'
 import { WebRTCAdapter } from '../webrtc/adapter.js'
+import { IdentityCredentials } from './identity.js'
+import { MessageBufferStorage } from '../storage/adapter.js'
+import { ConnectionSignaler, createServerSignaler, isReleaseSignal } from './signaler.js'
+import { isEncryptedSignal } from '../crypto/e2e.js'
 
 export interface OffererOptions {
     api: RondevuAPI
@@ -17,6 +22,12 @@ export interface OffererOptions {
     dc?: RTCDataChannel // Accept already-created data channel (optional)
     webrtcAdapter?: WebRTCAdapter // Optional, defaults to BrowserWebRTCAdapter
     config?: Partial<ConnectionConfig>
+    identity?: IdentityCredentials // Required when config.verifyIdentity is enabled
+    messageStorage?: MessageBufferStorage // Persist queued messages per answerer public key
+    /** Where candidates and restart descriptions go (default: the Rondevu server) */
+    signaler?: ConnectionSignaler
+    /** Public key the offer is meant for; signaling is encrypted to it before an answer arrives */
+    recipientPublicKey?: string
 }
 
 /**
@@ -24,9 +35,13 @@ export interface OffererOptions {
  */
 export class OffererConnection extends RondevuConnection {
     private api: RondevuAPI
+    private signaler: ConnectionSignaler
     private ownerPublicKey: string
     private offerId: string
     private _peerPublicKey: string | null = null
+    private recipientPublicKey: string | null
+    // Whether the answerer encrypted its answer (and can read encrypted signaling)
+    private peerEncrypts = false
 
     // Rotation tracking
     private rotationLock = new AsyncLock()
@@ -39,10 +54,18 @@ export class OffererConnection extends RondevuConnection {
 
     constructor(options: OffererOptions) {
         // Force reconnectEnabled: false for offerer connections (offers are ephemeral)
-        super(undefined, { ...options.config, reconnectEnabled: false }, options.webrtcAdapter)
+        super(
+            undefined,
+            { ...options.config, reconnectEnabled: false },
+            options.webrtcAdapter,
+            options.identity,
+            options.messageStorage
+        )
         this.api = options.api
+        this.signaler = options.signaler ?? createServerSignaler(options.api)
         this.ownerPublicKey = options.ownerPublicKey
         this.offerId = options.offerId
+        this.recipientPublicKey = options.recipientPublicKey ?? null
 
         // Use the already-created peer connection and data channel
         this.pc = options.pc
@@ -63,6 +86,9 @@ export class OffererConnection extends RondevuConnection {
         this.pc.onconnectionstatechange = () => this.handleConnectionStateChange()
         this.pc.onicegatheringstatechange = () => this.handleIceGatheringStateChange()
 
+        // Named channels, media tracks and renegotiation
+        this.attachPeerConnection(this.pc)
+
         // Setup data channel handlers if we have one
         if (this.dc) {
             this.setupDataChannelHandlers(this.dc)
@@ -86,6 +112,7 @@ export class OffererConnection extends RondevuConnection {
 
         // Generate SDP fingerprint for deduplication
         const fingerprint = await this.hashSdp(sdp)
+        const encrypted = isEncryptedSignal(sdp)
 
         // Check for duplicate answer
         if (this.answerProcessed) {
@@ -94,7 +121,7 @@ export class OffererConnection extends RondevuConnection {
                 this.emit('answer:duplicate', this.offerId)
                 return
             } else {
-                throw new Error(
+                throw new ProtocolViolationError(
                     'Received different answer after already processing one (protocol violation)'
                 )
             }
@@ -114,14 +141,19 @@ export class OffererConnection extends RondevuConnection {
         this.answerProcessed = true
         this.answerSdpFingerprint = fingerprint
 
+        // Store the peer public key before the transport can open, so the identity
+        // handshake knows which key to expect (and candidates are encrypted for it)
+        this._peerPublicKey = answererPublicKey
+        this.peerEncrypts = encrypted
+
         try {
             await this.pc.setRemoteDescription({
                 type: 'answer',
-                sdp,
+                sdp: await this.openSdp(sdp, answererPublicKey),
             })
 
-            // Store the peer public key
-            this._peerPublicKey = answererPublicKey
+            // Resume messages persisted for this peer by a previous session
+            this.restorePersistedMessages()
 
             this.debug(`Answer processed successfully from ${answererPublicKey}`)
             this.emit('answer:processed', this.offerId, answererPublicKey)
@@ -137,6 +169,8 @@ export class OffererConnection extends RondevuConnection {
             // Reset flags on error so we can try again
             this.answerProcessed = false
             this.answerSdpFingerprint = null
+            this._peerPublicKey = null
+            this.peerEncrypts = false
             this.debug('Failed to set remote description:', error)
             throw error
         }
@@ -160,7 +194,7 @@ export class OffererConnection extends RondevuConnection {
             try {
                 this.rotationAttempts++
                 if (this.rotationAttempts > OffererConnection.MAX_ROTATION_ATTEMPTS) {
-                    throw new Error('Max rotation attempts exceeded')
+                    throw new ConnectionFailedError('Max rotation attempts exceeded')
                 }
 
                 this.debug(`Rebinding connection from ${this.offerId} to ${newOfferId}`)
@@ -182,6 +216,7 @@ export class OffererConnection extends RondevuConnection {
                 this.answerProcessed = false
                 this.answerSdpFingerprint = null
                 this._peerPublicKey = null
+                this.peerEncrypts = false
                 this.pendingIceCandidates = []
 
                 // 4. Setup event handlers for new peer connection
@@ -190,7 +225,8 @@ export class OffererConnection extends RondevuConnection {
                 this.pc.onconnectionstatechange = () => this.handleConnectionStateChange()
                 this.pc.onicegatheringstatechange = () => this.handleIceGatheringStateChange()
 
-                // 5. Setup data channel handlers if we have one
+                // 5. Re-attach channels/tracks and setup data channel handlers
+                this.attachPeerConnection(this.pc)
                 if (this.dc) {
                     this.setupDataChannelHandlers(this.dc)
                 }
@@ -227,6 +263,35 @@ export class OffererConnection extends RondevuConnection {
         this.debug('Connection established, rotation attempts reset')
     }
 
+    /**
+     * Apply a remote entry of the offer's candidate list, including a release by the
+     * answerer (see encodeReleaseSignal)
+     */
+    protected applyRemoteCandidate(candidate: RTCIceCandidateInit | null): void {
+        if (isReleaseSignal(candidate)) {
+            this.handleRelease()
+            return
+        }
+        super.applyRemoteCandidate(candidate)
+    }
+
+    /**
+     * The answerer gave up on the offer before connecting: fail now so the OfferPool
+     * rotates to a new offer instead of waiting for the connection timeout
+     */
+    private handleRelease(): void {
+        if (
+            !this.answerProcessed ||
+            this.state === ConnectionState.CONNECTED ||
+            this.state === ConnectionState.CLOSED
+        ) {
+            return
+        }
+        this.debug(`Answerer released offer ${this.offerId}`)
+        this.clearConnectionTimeout()
+        this.transitionTo(ConnectionState.FAILED, 'Answerer released the offer')
+    }
+
     /**
      * Generate a hash fingerprint of SDP for deduplication
      */
@@ -265,9 +330,12 @@ export class OffererConnection extends RondevuConnection {
             sdpMid: c.sdpMid,
         }))
 
-        this.api.addOfferIceCandidates(this.offerId, apiCandidates).catch(error => {
-            this.debug('Failed to send ICE candidates:', error)
-        })
+        const offerId = this.offerId
+        this.sealCandidates(apiCandidates)
+            .then(sealed => this.signaler.sendIceCandidates(offerId, sealed))
+            .catch(error => {
+                this.debug('Failed to send ICE candidates:', error)
+            })
     }
 
     /**
@@ -277,6 +345,13 @@ export class OffererConnection extends RondevuConnection {
         return this.api
     }
 
+    /**
+     * Get the signaler for candidates and restart descriptions
+     */
+    protected getSignaler(): ConnectionSignaler {
+        return this.signaler
+    }
+
     /**
      * Get the owner public key
      */
@@ -284,6 +359,13 @@ export class OffererConnection extends RondevuConnection {
         return this.ownerPublicKey
     }
 
+    /**
+     * The answerer's public key as reported by the signaling server
+     */
+    protected getExpectedPeerPublicKey(): string | null {
+        return this._peerPublicKey
+    }
+
     /**
      * Offerers accept all ICE candidates (no filtering)
      */
@@ -291,6 +373,19 @@ export class OffererConnection extends RondevuConnection {
         return null
     }
 
+    /**
+     * The intended recipient of the offer, or the answerer once it has shown it reads
+     * encrypted signaling (untargeted offers stay readable by any answerer)
+     */
+    protected getSignalingRecipient(): string | null {
+        if (this._peerPublicKey) {
+            return this.peerEncrypts || this._peerPublicKey === this.recipientPublicKey
+                ? this._peerPublicKey
+                : null
+        }
+        return this.recipientPublicKey
+    }
+
     /**
      * Attempt to reconnect (required by abstract base class)
      *
@@ -320,6 +415,13 @@ export class OffererConnection extends RondevuConnection {
         return this.offerId
     }
 
+    /**
+     * Get the public key the offer is addressed to, if any
+     */
+    getRecipientPublicKey(): string | null {
+        return this.recipientPublicKey
+    }
+
     /**
      * Get the peer public key (who answered this offer)
      * Returns null if no answer has been processed yet
@@ -358,17 +460,7 @@ export class OffererConnection extends RondevuConnection {
         for (const iceCandidate of candidates) {
             // Offerer accepts answerer's candidates (no role filtering needed here
             // since OfferPool already filters by offerId)
-            if (iceCandidate.candidate) {
-                const rtcCandidate = this.webrtcAdapter.createIceCandidate(iceCandidate.candidate)
-                this.pc
-                    .addIceCandidate(rtcCandidate)
-                    .then(() => {
-                        this.emit('ice:candidate:remote', rtcCandidate)
-                    })
-                    .catch(error => {
-                        this.debug('Failed to add ICE candidate:', error)
-                    })
-            }
+            this.applyRemoteCandidate(iceCandidate.candidate)
         }
     }
 }
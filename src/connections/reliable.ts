@@ -0,0 +1,193 @@
+/**
+ * Reliable delivery: sequence numbers, cumulative acks and duplicate suppression
+ *
+ * A data channel accepting a message does not mean the peer received it: messages
+ * sent just before a silent disconnect are lost. In reliable mode every outgoing
+ * message gets a sequence number and stays in the MessageBuffer until the receiver
+ * acknowledges it. After reconnection (or offer rotation) all unacknowledged messages
+ * are replayed and the receiver drops the ones it already delivered.
+ *
+ * Wire format (control frames on the main data channel):
+ *
+ *   { type: 'rel:msg', sid, seq, data }   string message
+ *   { type: 'rel:bin', sid, seq }         header; the next message is the binary payload
+ *   { type: 'rel:ack', sid, seq }         all messages of session `sid` up to `seq` received
+ *
+ * `sid` identifies the sender's connection object, so a peer that restarts (and
+ * numbers from 1 again) is not mistaken for a stream of duplicates.
+ */
+
+import { ControlFrame, encodeControlFrame } from './control.js'
+
+type MessageData = string | ArrayBuffer | Blob
+
+export interface ReliableDeliveryOptions {
+    /** Deliver a received message (string messages may themselves be control frames) */
+    deliver: (data: MessageData) => void
+    /** Called when the remote peer acknowledges our messages up to `seq` */
+    onAck: (seq: number) => void
+    /** Send a frame immediately (throws if the channel is not open) */
+    sendRaw: (data: MessageData) => void
+    /** Delay before sending a cumulative ack (ms, default: 50) */
+    ackDelayMs?: number
+    debug?: (...args: unknown[]) => void
+}
+
+/**
+ * Sequencing and acknowledgement state for one connection
+ */
+export class ReliableDelivery {
+    private static readonly DEFAULT_ACK_DELAY_MS = 50
+    /** Ack immediately once this many messages are unacknowledged */
+    private static readonly ACK_EVERY = 32
+
+    /** Identifier of our outgoing stream */
+    readonly session = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`
+
+    private nextSeq = 1
+    private remoteSession: string | null = null
+    private lastReceivedSeq = 0
+    private unackedReceived = 0
+    private pendingBinary: { sid: string; seq: number } | null = null
+    private ackTimer: ReturnType<typeof setTimeout> | null = null
+    private readonly ackDelayMs: number
+
+    constructor(private readonly options: ReliableDeliveryOptions) {
+        this.ackDelayMs = options.ackDelayMs ?? ReliableDelivery.DEFAULT_ACK_DELAY_MS
+    }
+
+    /**
+     * Allocate the sequence number for a new outgoing message
+     */
+    nextSequence(): number {
+        return this.nextSeq++
+    }
+
+    /**
+     * Encode a sequenced message into the frames to send (in order)
+     */
+    encode(seq: number, data: MessageData): MessageData[] {
+        if (typeof data === 'string') {
+            return [encodeControlFrame({ type: 'rel:msg', sid: this.session, seq, data })]
+        }
+        return [encodeControlFrame({ type: 'rel:bin', sid: this.session, seq }), data]
+    }
+
+    /**
+     * Consume the binary payload announced by a preceding `rel:bin` header.
+     * Returns false if no payload is expected (plain unsequenced message).
+     */
+    handleBinary(data: MessageData): boolean {
+        const header = this.pendingBinary
+        if (!header) return false
+
+        this.pendingBinary = null
+        this.receive(header.sid, header.seq, data)
+        return true
+    }
+
+    /**
+     * Handle a `rel:*` control frame
+     */
+    handleFrame(frame: ControlFrame): void {
+        const { sid, seq } = frame
+        if (typeof sid !== 'string' || typeof seq !== 'number') return
+
+        switch (frame.type) {
+            case 'rel:msg':
+                if (typeof frame.data === 'string') {
+                    this.receive(sid, seq, frame.data)
+                }
+                break
+            case 'rel:bin':
+                this.pendingBinary = { sid, seq }
+                break
+            case 'rel:ack':
+                // Acks for a previous incarnation of this connection are meaningless
+                if (sid === this.session) {
+                    this.options.onAck(seq)
+                }
+                break
+        }
+    }
+
+    /**
+     * Send our cumulative ack right away (e.g. after reconnecting, so the remote
+     * prunes its buffer before replaying)
+     */
+    flushAck(): void {
+        if (this.ackTimer) {
+            clearTimeout(this.ackTimer)
+            this.ackTimer = null
+        }
+        if (!this.remoteSession) return
+
+        try {
+            this.options.sendRaw(
+                encodeControlFrame({
+                    type: 'rel:ack',
+                    sid: this.remoteSession,
+                    seq: this.lastReceivedSeq,
+                })
+            )
+            this.unackedReceived = 0
+        } catch {
+            // Channel closed - we ack again after reconnecting
+        }
+    }
+
+    /**
+     * Forget a half-received binary message (the channel it arrived on is gone)
+     */
+    resetChannel(): void {
+        this.pendingBinary = null
+    }
+
+    /**
+     * Stop pending timers
+     */
+    dispose(): void {
+        if (this.ackTimer) {
+            clearTimeout(this.ackTimer)
+            this.ackTimer = null
+        }
+        this.pendingBinary = null
+    }
+
+    private receive(sid: string, seq: number, data: MessageData): void {
+        if (sid !== this.remoteSession) {
+            // New remote stream (first message, or the remote restarted)
+            this.remoteSession = sid
+            this.lastReceivedSeq = 0
+        }
+
+        if (seq <= this.lastReceivedSeq) {
+            this.options.debug?.(`Dropping duplicate message ${seq}`)
+        } else {
+            if (seq > this.lastReceivedSeq + 1) {
+                // The sender dropped messages from its buffer (overflow or max age)
+                this.options.debug?.(
+                    `Messages ${this.lastReceivedSeq + 1}-${seq - 1} were discarded by the sender`
+                )
+            }
+            this.lastReceivedSeq = seq
+            this.options.deliver(data)
+        }
+
+        this.unackedReceived++
+        this.scheduleAck()
+    }
+
+    private scheduleAck(): void {
+        if (this.unackedReceived >= ReliableDelivery.ACK_EVERY) {
+            this.flushAck()
+            return
+        }
+        if (this.ackTimer) return
+
+        this.ackTimer = setTimeout(() => {
+            this.ackTimer = null
+            this.flushAck()
+        }, this.ackDelayMs)
+    }
+}
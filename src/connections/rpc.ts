@@ -0,0 +1,345 @@
+/**
+ * Request/response RPC between peers
+ *
+ * Calls and responses are JSON control frames on the main data channel:
+ *
+ *   { type: 'rpc:request', id, method, params }
+ *   { type: 'rpc:response', id, result }            (success)
+ *   { type: 'rpc:response', id, error: { ... } }    (handler threw)
+ *   { type: 'rpc:cancel', id }                      (caller gave up)
+ *
+ * Frames go through the connection's buffered send, so a call made while the
+ * connection is down (or whose response is due while it is down) is delivered
+ * after reconnection instead of failing. Only the call timeout bounds how long
+ * the caller waits.
+ */
+
+import { ControlFrame } from './control.js'
+
+/**
+ * Reason an RPC call failed
+ */
+export type RpcErrorCode =
+    | 'METHOD_NOT_FOUND' // No handler registered on the remote side
+    | 'REMOTE_ERROR' // The remote handler threw
+    | 'TIMEOUT' // No response within the call timeout
+    | 'CANCELLED' // Aborted by the caller's AbortSignal
+    | 'CONNECTION_CLOSED' // The connection closed permanently
+    | 'SEND_FAILED' // The request could not be sent or buffered
+
+/**
+ * Error raised by rpc.call(), including errors thrown by the remote handler
+ */
+export class RpcError extends Error {
+    constructor(
+        message: string,
+        public readonly code: RpcErrorCode,
+        /** Name of the error thrown by the remote handler (e.g. 'TypeError') */
+        public readonly remoteName?: string,
+        /** Extra data attached to the remote error (its `data` property, if JSON-serializable) */
+        public readonly data?: unknown
+    ) {
+        super(message)
+        this.name = 'RpcError'
+    }
+}
+
+/**
+ * Options for a single call
+ */
+export interface RpcCallOptions {
+    /** Time to wait for the response in ms (default: 30000) */
+    timeout?: number
+    /** Abort the call; the remote handler is told to stop */
+    signal?: AbortSignal
+}
+
+/**
+ * Context passed to RPC handlers
+ */
+export interface RpcHandlerContext {
+    /** Method being invoked */
+    method: string
+    /** Aborted when the caller cancels or the connection closes */
+    signal: AbortSignal
+}
+
+export type RpcHandler<P = any, R = any> = (params: P, context: RpcHandlerContext) => R | Promise<R>
+
+export interface PeerRpcOptions {
+    /** Send a control frame to the remote peer (buffered while disconnected) */
+    sendFrame: (frame: ControlFrame) => void
+    /** Default call timeout in ms (default: 30000) */
+    defaultTimeout?: number
+    debug?: (...args: unknown[]) => void
+}
+
+interface SerializedRpcError {
+    name: string
+    message: string
+    code?: string
+    data?: unknown
+}
+
+interface PendingCall {
+    method: string
+    resolve: (result: any) => void
+    reject: (error: RpcError) => void
+    timer: ReturnType<typeof setTimeout>
+    cleanup: () => void
+}
+
+/**
+ * RPC endpoint for one connection
+ */
+export class PeerRpc {
+    private static readonly DEFAULT_TIMEOUT_MS = 30000
+
+    private readonly handlers = new Map<string, RpcHandler>()
+    private readonly pending = new Map<string, PendingCall>()
+    private readonly running = new Map<string, AbortController>()
+    private readonly defaultTimeout: number
+    private callCounter = 0
+
+    constructor(private readonly options: PeerRpcOptions) {
+        this.defaultTimeout = options.defaultTimeout ?? PeerRpc.DEFAULT_TIMEOUT_MS
+    }
+
+    /**
+     * Call a method registered by the remote peer
+     *
+     * @param method - Method name
+     * @param params - JSON-serializable parameters
+     * @param options - Timeout and cancellation
+     * @returns The handler's (JSON-serialized) result
+     * @throws RpcError
+     */
+    call<R = unknown, P = unknown>(
+        method: string,
+        params?: P,
+        options: RpcCallOptions = {}
+    ): Promise<R> {
+        const { signal } = options
+        if (signal?.aborted) {
+            return Promise.reject(new RpcError(`Call to "${method}" was cancelled`, 'CANCELLED'))
+        }
+
+        const id = `${Date.now().toString(36)}-${(this.callCounter++).toString(36)}`
+        const timeout = options.timeout ?? this.defaultTimeout
+
+        return new Promise<R>((resolve, reject) => {
+            const onAbort = () => {
+                this.settle(id)?.reject(
+                    new RpcError(`Call to "${method}" was cancelled`, 'CANCELLED')
+                )
+                this.sendFrame({ type: 'rpc:cancel', id })
+            }
+
+            const timer = setTimeout(() => {
+                this.settle(id)?.reject(
+                    new RpcError(`Call to "${method}" timed out after ${timeout}ms`, 'TIMEOUT')
+                )
+                this.sendFrame({ type: 'rpc:cancel', id })
+            }, timeout)
+
+            signal?.addEventListener('abort', onAbort, { once: true })
+
+            this.pending.set(id, {
+                method,
+                resolve,
+                reject,
+                timer,
+                cleanup: () => signal?.removeEventListener('abort', onAbort),
+            })
+
+            try {
+                this.options.sendFrame({ type: 'rpc:request', id, method, params })
+            } catch (error) {
+                this.settle(id)?.reject(
+                    new RpcError(
+                        `Failed to send call to "${method}": ${(error as Error).message}`,
+                        'SEND_FAILED'
+                    )
+                )
+            }
+        })
+    }
+
+    /**
+     * Register a handler for calls from the remote peer.
+     * The handler's return value (or resolved promise) is sent back as the result;
+     * thrown errors are serialized and re-thrown on the caller as RpcError.
+     *
+     * @returns Function that unregisters the handler
+     */
+    register<P = any, R = any>(method: string, handler: RpcHandler<P, R>): () => void {
+        if (this.handlers.has(method)) {
+            throw new Error(`RPC method "${method}" is already registered`)
+        }
+        this.handlers.set(method, handler)
+        return () => {
+            if (this.handlers.get(method) === handler) {
+                this.handlers.delete(method)
+            }
+        }
+    }
+
+    /**
+     * Remove the handler for a method
+     */
+    unregister(method: string): void {
+        this.handlers.delete(method)
+    }
+
+    /**
+     * Number of calls awaiting a response
+     */
+    get pendingCount(): number {
+        return this.pending.size
+    }
+
+    /**
+     * Handle an `rpc:*` control frame
+     */
+    handleFrame(frame: ControlFrame): void {
+        const id = frame.id
+        if (typeof id !== 'string') return
+
+        switch (frame.type) {
+            case 'rpc:request':
+                this.handleRequest(id, frame.method, frame.params)
+                break
+            case 'rpc:response':
+                this.handleResponse(id, frame)
+                break
+            case 'rpc:cancel':
+                this.running.get(id)?.abort()
+                this.running.delete(id)
+                break
+        }
+    }
+
+    /**
+     * Reject all pending calls and abort running handlers (connection closed)
+     */
+    closeAll(reason = 'Connection closed'): void {
+        for (const id of [...this.pending.keys()]) {
+            this.settle(id)?.reject(new RpcError(reason, 'CONNECTION_CLOSED'))
+        }
+        for (const controller of this.running.values()) {
+            controller.abort()
+        }
+        this.running.clear()
+    }
+
+    private handleRequest(id: string, method: unknown, params: unknown): void {
+        if (typeof method !== 'string') return
+
+        const handler = this.handlers.get(method)
+        if (!handler) {
+            this.debug(`RPC method not found: ${method}`)
+            this.sendFrame({
+                type: 'rpc:response',
+                id,
+                error: {
+                    name: 'RpcError',
+                    message: `Method "${method}" is not registered`,
+                    code: 'METHOD_NOT_FOUND',
+                },
+            })
+            return
+        }
+
+        const controller = new AbortController()
+        this.running.set(id, controller)
+
+        Promise.resolve()
+            .then(() => handler(params, { method, signal: controller.signal }))
+            .then(
+                result => {
+                    if (controller.signal.aborted) return
+                    this.sendFrame({ type: 'rpc:response', id, result: result ?? null })
+                },
+                error => {
+                    if (controller.signal.aborted) return
+                    this.sendFrame({ type: 'rpc:response', id, error: this.serializeError(error) })
+                }
+            )
+            .finally(() => {
+                if (this.running.get(id) === controller) {
+                    this.running.delete(id)
+                }
+            })
+    }
+
+    private handleResponse(id: string, frame: ControlFrame): void {
+        const call = this.settle(id)
+        if (!call) {
+            this.debug(`Ignoring response for unknown call ${id}`)
+            return
+        }
+
+        if (frame.error && typeof frame.error === 'object') {
+            const error = frame.error as SerializedRpcError
+            const code: RpcErrorCode =
+                error.code === 'METHOD_NOT_FOUND' ? 'METHOD_NOT_FOUND' : 'REMOTE_ERROR'
+            call.reject(
+                new RpcError(
+                    error.message || `Call to "${call.method}" failed`,
+                    code,
+                    error.name,
+                    error.data
+                )
+            )
+            return
+        }
+
+        call.resolve(frame.result)
+    }
+
+    private serializeError(error: unknown): SerializedRpcError {
+        if (error instanceof Error) {
+            const data = (error as Error & { data?: unknown }).data
+            return {
+                name: error.name,
+                message: error.message,
+                data: this.isSerializable(data) ? data : undefined,
+            }
+        }
+        return { name: 'Error', message: String(error) }
+    }
+
+    private isSerializable(value: unknown): boolean {
+        if (value === undefined) return false
+        try {
+            JSON.stringify(value)
+            return true
+        } catch {
+            return false
+        }
+    }
+
+    /**
+     * Remove a pending call and release its timer/listeners
+     */
+    private settle(id: string): PendingCall | undefined {
+        const call = this.pending.get(id)
+        if (!call) return undefined
+        this.pending.delete(id)
+        clearTimeout(call.timer)
+        call.cleanup()
+        return call
+    }
+
+    private sendFrame(frame: ControlFrame): void {
+        try {
+            this.options.sendFrame(frame)
+        } catch (error) {
+            this.debug(`Failed to send ${frame.type}:`, error)
+        }
+    }
+
+    private debug(...args: unknown[]): void {
+        this.options.debug?.(...args)
+    }
+}
@@ -0,0 +1,154 @@
+/**
+ * Signaling paths for a single connection
+ *
+ * After the initial offer/answer, a connection still signals: it trickles ICE
+ * candidates, sends ICE restart descriptions and, on the answerer side, looks for
+ * a new offer from the same peer when reconnecting. By default all of this goes
+ * through the Rondevu server; other signalers (such as relaying through an
+ * already-connected peer, see MeshSignaling) implement the same interface.
+ */
+
+import { RondevuAPI, DiscoverResponse } from '../api/client.js'
+import { NoPeersError } from '../api/errors.js'
+
+/**
+ * An offer found for reconnection
+ */
+export interface SignaledOffer {
+    offerId: string
+    sdp: string
+}
+
+export interface ConnectionSignaler {
+    /** Send our answer to an offer (answerer side) */
+    sendAnswer(offerId: string, sdp: string, matchedTags?: string[]): Promise<void>
+    /** Send ICE candidates for an offer */
+    sendIceCandidates(offerId: string, candidates: RTCIceCandidateInit[]): Promise<void>
+    /** Send a description for an answered offer (ICE restart offer or answer) */
+    sendDescription(offerId: string, description: RTCSessionDescriptionInit): Promise<void>
+    /** Find a new offer from the given peer to reconnect to (answerer side) */
+    findOffer(publicKey: string, tags: string[]): Promise<SignaledOffer>
+}
+
+/**
+ * Signal through the Rondevu server
+ */
+export function createServerSignaler(api: RondevuAPI): ConnectionSignaler {
+    return {
+        sendAnswer: (offerId, sdp, matchedTags) => api.answerOffer(offerId, sdp, matchedTags),
+
+        sendIceCandidates: async (offerId, candidates) => {
+            await api.addOfferIceCandidates(offerId, candidates)
+        },
+
+        sendDescription: async (offerId, description) => {
+            await api.addOfferIceCandidates(offerId, [encodeDescriptionSignal(description)])
+        },
+
+        findOffer: async (publicKey, tags) => {
+            const response = (await api.discover({ tags, limit: 100 })) as DiscoverResponse
+            if (!response || !response.offers || response.offers.length === 0) {
+                throw new NoPeersError('No offers available for reconnection')
+            }
+
+            // Filter for offers from the same peer
+            const peerOffers = response.offers.filter(o => o.publicKey === publicKey)
+            if (peerOffers.length === 0) {
+                throw new NoPeersError(`No offers available from ${publicKey}`)
+            }
+
+            // Pick a random offer from the same peer
+            const offer = peerOffers[Math.floor(Math.random() * peerOffers.length)]
+            return { offerId: offer.offerId, sdp: offer.sdp }
+        },
+    }
+}
+
+/**
+ * Wrap an encrypted batch of candidates as a single ICE candidate entry
+ */
+export function encodeEncryptedCandidates(encrypted: string): RTCIceCandidateInit {
+    return {
+        candidate: '',
+        sdpMid: null,
+        sdpMLineIndex: null,
+        encrypted,
+    } as RTCIceCandidateInit
+}
+
+/**
+ * Extract the payload wrapped by encodeEncryptedCandidates(), if any
+ */
+export function decodeEncryptedCandidates(candidate: RTCIceCandidateInit | null): string | null {
+    const encrypted = (candidate as { encrypted?: unknown } | null)?.encrypted
+    return typeof encrypted === 'string' ? encrypted : null
+}
+
+/**
+ * A description signal for an answered offer. Once an offer is answered, the server's
+ * only channel between the two sides is the offer's candidate list, so descriptions
+ * travel there as entries of their own type: they have no `candidate` field and are
+ * never handed to addIceCandidate().
+ */
+export interface DescriptionSignal {
+    signal: 'description'
+    description: RTCSessionDescriptionInit
+}
+
+/**
+ * Encode a description as an entry of the offer's candidate list
+ */
+export function encodeDescriptionSignal(
+    description: RTCSessionDescriptionInit
+): RTCIceCandidateInit {
+    const signal: DescriptionSignal = {
+        signal: 'description',
+        description: { type: description.type, sdp: description.sdp },
+    }
+    return signal as RTCIceCandidateInit
+}
+
+/**
+ * Extract the description from an entry encoded by encodeDescriptionSignal(), if any
+ */
+export function decodeDescriptionSignal(
+    entry: RTCIceCandidateInit | null
+): RTCSessionDescriptionInit | null {
+    const signal = entry as Partial<DescriptionSignal> | null
+    if (signal?.signal !== 'description') return null
+
+    const description = signal.description
+    if (
+        !description ||
+        typeof description.type !== 'string' ||
+        typeof description.sdp !== 'string'
+    ) {
+        return null
+    }
+    return description
+}
+
+/**
+ * Sent by an answerer that gives up on an answered offer before connecting (for
+ * example after losing a race, see PeerOptions.raceOffers). The offer stays answered
+ * on the server, so this tells the offerer to replace it rather than wait for the
+ * connection timeout.
+ */
+export interface ReleaseSignal {
+    signal: 'release'
+}
+
+/**
+ * Encode a release as an entry of the offer's candidate list
+ */
+export function encodeReleaseSignal(): RTCIceCandidateInit {
+    const signal: ReleaseSignal = { signal: 'release' }
+    return signal as RTCIceCandidateInit
+}
+
+/**
+ * Check whether an entry of the offer's candidate list is a release signal
+ */
+export function isReleaseSignal(entry: RTCIceCandidateInit | null): boolean {
+    return (entry as Partial<ReleaseSignal> | null)?.signal === 'release'
+}
@@ -0,0 +1,114 @@
+/**
+ * WHATWG Streams over a connection's messages
+ *
+ * The readable side emits each incoming message (strings as-is, binary data as
+ * Uint8Array). The writable side sends each chunk as one message; writes wait
+ * while the connection is down or the data channel's send queue is above the
+ * high-water mark, which propagates backpressure to `pipeTo()` sources.
+ *
+ * Temporary disconnects pause the streams. They close when the connection is
+ * closed and error when reconnection is exhausted.
+ */
+
+import { RondevuConnection } from './base.js'
+
+/**
+ * Chunk accepted by the writable side
+ */
+export type MessageStreamChunk = string | ArrayBuffer | ArrayBufferView | Blob
+
+export interface MessageStreams {
+    readable: ReadableStream<string | Uint8Array>
+    writable: WritableStream<MessageStreamChunk>
+}
+
+/**
+ * Create a readable/writable pair for a connection
+ */
+export function createMessageStreams(connection: RondevuConnection): MessageStreams {
+    let readController: ReadableStreamDefaultController<string | Uint8Array> | null = null
+    // Blob messages are converted asynchronously; keep deliveries in order
+    let readChain: Promise<void> = Promise.resolve()
+    let terminalError: Error | null = null
+    let finished = false
+
+    let rejectTerminated!: (error: Error) => void
+    const terminated = new Promise<never>((_resolve, reject) => {
+        rejectTerminated = reject
+    })
+    terminated.catch(() => {})
+
+    const onMessage = (data: string | ArrayBuffer | Blob) => {
+        readChain = readChain.then(async () => {
+            if (!readController) return
+            if (typeof data === 'string') {
+                readController.enqueue(data)
+            } else {
+                const buffer = data instanceof Blob ? await data.arrayBuffer() : data
+                readController?.enqueue(new Uint8Array(buffer))
+            }
+        })
+    }
+
+    const finish = (error: Error | null) => {
+        if (finished) return
+        finished = true
+        terminalError = error
+        connection.off('message', onMessage)
+        connection.off('closed', onClosed)
+        connection.off('reconnect:exhausted', onExhausted)
+
+        rejectTerminated(error ?? new Error('Connection closed'))
+        readChain = readChain.then(() => {
+            if (!readController) return
+            if (error) {
+                readController.error(error)
+            } else {
+                readController.close()
+            }
+            readController = null
+        })
+    }
+
+    const onClosed = () => finish(null)
+    const onExhausted = (attempts: number) =>
+        finish(new Error(`Reconnection failed after ${attempts} attempts`))
+
+    connection.on('message', onMessage)
+    connection.on('closed', onClosed)
+    connection.on('reconnect:exhausted', onExhausted)
+
+    const readable = new ReadableStream<string | Uint8Array>({
+        start: controller => {
+            readController = controller
+        },
+        cancel: () => {
+            readController = null
+            connection.off('message', onMessage)
+        },
+    })
+
+    const writable = new WritableStream<MessageStreamChunk>({
+        write: async chunk => {
+            if (finished) {
+                throw terminalError ?? new Error('Connection closed')
+            }
+            await Promise.race([connection.waitUntilWritable(), terminated])
+            connection.send(toMessage(chunk))
+        },
+        // Closing or aborting the writable side leaves the connection open
+    })
+
+    return { readable, writable }
+}
+
+function toMessage(chunk: MessageStreamChunk): string | ArrayBuffer | Blob {
+    if (typeof chunk === 'string' || chunk instanceof ArrayBuffer || chunk instanceof Blob) {
+        return chunk
+    }
+    if (ArrayBuffer.isView(chunk)) {
+        const bytes = new Uint8Array(chunk.buffer, chunk.byteOffset, chunk.byteLength)
+        return bytes.slice().buffer
+    }
+    throw new TypeError('Unsupported chunk type')
+}
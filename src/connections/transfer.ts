@@ -0,0 +1,812 @@
+/**
+ * Chunked transfer of large binary payloads (files, Blobs, streams)
+ *
+ * A single `dc.send()` of a multi-megabyte buffer exceeds the SCTP message size
+ * limit or bloats the channel's send queue. Transfers split the payload into chunks,
+ * wait for the data channel to drain below its high-water mark before sending more,
+ * and resume from the last received chunk after a reconnect.
+ *
+ * Wire format (control frames on the main data channel):
+ *
+ *   { type: 'xfer:start', id, name?, mimeType?, size?, metadata?, resume? }
+ *   { type: 'xfer:chunk', id, index }   header; the next message is the chunk payload
+ *   { type: 'xfer:end', id, chunks }
+ *   { type: 'xfer:ack', id, next }      receiver has every chunk before `next`
+ *   { type: 'xfer:resume', id, next }   reply to a resumed start: continue from `next`
+ *   { type: 'xfer:done', id }           receiver assembled the payload
+ *   { type: 'xfer:cancel', id, reason } either side aborts
+ *
+ * After reconnecting, the sender re-sends `xfer:start` with `resume: true` and
+ * pauses until the receiver answers with `xfer:resume`.
+ */
+
+import { EventEmitter } from 'eventemitter3'
+import { ControlFrame } from './control.js'
+
+/**
+ * Progress of a transfer
+ */
+export interface TransferProgress {
+    /** Bytes sent (outgoing) or received (incoming) */
+    bytes: number
+    /** Total size in bytes (undefined for streams of unknown length) */
+    totalBytes?: number
+}
+
+/**
+ * Options for sendFile() / sendStream()
+ */
+export interface TransferOptions {
+    /** File name announced to the receiver (defaults to File.name when available) */
+    name?: string
+    /** MIME type announced to the receiver (defaults to Blob.type when available) */
+    mimeType?: string
+    /** Application metadata (must be JSON-serializable) */
+    metadata?: unknown
+    /** Chunk size in bytes (default: 16384, capped by the SCTP max message size) */
+    chunkSize?: number
+    /** Abort the transfer */
+    signal?: AbortSignal
+}
+
+export interface OutgoingTransferEventMap {
+    progress: [progress: TransferProgress]
+}
+
+export interface IncomingTransferEventMap {
+    progress: [progress: TransferProgress]
+}
+
+/**
+ * Connection operations used by transfers
+ * @internal
+ */
+export interface TransferHost {
+    /** Send a control frame immediately (throws if the channel is not open) */
+    sendFrame: (frame: ControlFrame) => void
+    /** Send a binary payload immediately (throws if the channel is not open) */
+    sendBinary: (data: ArrayBuffer) => void
+    /** Whether the connection is established and below its high-water mark */
+    canSend: () => boolean
+    /** Resolves when the send queue drains or the connection state changes */
+    waitForCapacity: () => Promise<void>
+    /** Largest message the data channel accepts */
+    maxMessageSize: () => number
+    debug?: (...args: unknown[]) => void
+}
+
+const DEFAULT_CHUNK_SIZE = 16 * 1024
+/** Receiver acknowledges after this many chunks */
+const ACK_EVERY = 16
+/** Stream chunks kept for resending until acknowledged */
+const MAX_UNACKED_STREAM_CHUNKS = 64
+/** Completed incoming transfer ids remembered per connection */
+const MAX_COMPLETED_IDS = 100
+
+function createTransferId(): string {
+    return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`
+}
+
+/**
+ * Chunk source: random access for Blob/ArrayBuffer, sequential for streams
+ */
+interface ChunkSource {
+    readonly size?: number
+    /** Read chunk `index`, or null past the end */
+    read(index: number): Promise<ArrayBuffer | null>
+    /** Chunks before `index` will not be requested again */
+    release(index: number): void
+}
+
+class BlobSource implements ChunkSource {
+    constructor(
+        private readonly blob: Blob,
+        private readonly chunkSize: number
+    ) {}
+
+    get size(): number {
+        return this.blob.size
+    }
+
+    async read(index: number): Promise<ArrayBuffer | null> {
+        const start = index * this.chunkSize
+        if (start >= this.blob.size) return null
+        return this.blob.slice(start, start + this.chunkSize).arrayBuffer()
+    }
+
+    release(): void {}
+}
+
+class ArrayBufferSource implements ChunkSource {
+    constructor(
+        private readonly buffer: ArrayBuffer,
+        private readonly chunkSize: number
+    ) {}
+
+    get size(): number {
+        return this.buffer.byteLength
+    }
+
+    async read(index: number): Promise<ArrayBuffer | null> {
+        const start = index * this.chunkSize
+        if (start >= this.buffer.byteLength) return null
+        return this.buffer.slice(start, start + this.chunkSize)
+    }
+
+    release(): void {}
+}
+
+class StreamSource implements ChunkSource {
+    private readonly reader: ReadableStreamDefaultReader<Uint8Array>
+    private readonly retained = new Map<number, ArrayBuffer>()
+    private leftover: Uint8Array = new Uint8Array(0)
+    private nextIndex = 0
+    private exhausted = false
+
+    constructor(
+        stream: ReadableStream<Uint8Array>,
+        private readonly chunkSize: number
+    ) {
+        this.reader = stream.getReader()
+    }
+
+    get size(): undefined {
+        return undefined
+    }
+
+    /** Number of chunks read but not yet released */
+    get unreleased(): number {
+        return this.retained.size
+    }
+
+    async read(index: number): Promise<ArrayBuffer | null> {
+        const retained = this.retained.get(index)
+        if (retained) return retained
+
+        if (index < this.nextIndex) {
+            throw new Error('Stream data was already released and cannot be resent')
+        }
+
+        const chunk = await this.readNext()
+        if (!chunk) return null
+        this.retained.set(this.nextIndex, chunk)
+        this.nextIndex++
+        return chunk
+    }
+
+    release(index: number): void {
+        for (const key of this.retained.keys()) {
+            if (key < index) this.retained.delete(key)
+        }
+    }
+
+    cancel(reason?: unknown): void {
+        this.reader.cancel(reason).catch(() => {})
+    }
+
+    private async readNext(): Promise<ArrayBuffer | null> {
+        while (this.leftover.byteLength < this.chunkSize && !this.exhausted) {
+            const { value, done } = await this.reader.read()
+            if (done) {
+                this.exhausted = true
+                break
+            }
+            const merged = new Uint8Array(this.leftover.byteLength + value.byteLength)
+            merged.set(this.leftover)
+            merged.set(value, this.leftover.byteLength)
+            this.leftover = merged
+        }
+
+        if (this.leftover.byteLength === 0) return null
+
+        const chunk = this.leftover.slice(0, this.chunkSize)
+        this.leftover = this.leftover.slice(chunk.byteLength)
+        return chunk.buffer
+    }
+}
+
+/**
+ * A payload being sent to the remote peer
+ */
+export class OutgoingTransfer extends EventEmitter<OutgoingTransferEventMap> {
+    readonly id = createTransferId()
+    /** Resolves once the receiver has assembled the payload */
+    readonly done: Promise<void>
+
+    private nextIndex = 0
+    private bytesSent = 0
+    private ended = false
+    private paused = false
+    private pumping = false
+    private settled = false
+    private resolveDone!: () => void
+    private rejectDone!: (error: Error) => void
+
+    /** @internal */
+    constructor(
+        private readonly host: TransferHost,
+        private readonly source: ChunkSource,
+        private readonly chunkSize: number,
+        private readonly info: { name?: string; mimeType?: string; metadata?: unknown },
+        private readonly onSettled: (transfer: OutgoingTransfer) => void,
+        signal?: AbortSignal
+    ) {
+        super()
+        this.done = new Promise<void>((resolve, reject) => {
+            this.resolveDone = resolve
+            this.rejectDone = reject
+        })
+        // Avoid unhandled rejection warnings when the caller only listens for progress
+        this.done.catch(() => {})
+
+        if (signal?.aborted) {
+            this.fail(new Error('Transfer aborted'), true)
+            return
+        }
+        signal?.addEventListener('abort', () => this.cancel('Transfer aborted'), { once: true })
+    }
+
+    /**
+     * Total size in bytes (undefined for streams)
+     */
+    get totalBytes(): number | undefined {
+        return this.source.size
+    }
+
+    /**
+     * Abort the transfer on both sides
+     */
+    cancel(reason = 'Transfer cancelled'): void {
+        this.fail(new Error(reason), true)
+    }
+
+    /** @internal */
+    start(): void {
+        this.sendStart(false)
+        this.pump()
+    }
+
+    /**
+     * The connection re-opened: ask the receiver where to continue
+     * @internal
+     */
+    handleReconnect(): void {
+        if (this.settled) return
+        this.paused = true
+        this.sendStart(true)
+    }
+
+    /** @internal */
+    handleFrame(frame: ControlFrame): void {
+        if (this.settled) return
+
+        switch (frame.type) {
+            case 'xfer:ack':
+                if (typeof frame.next === 'number') {
+                    this.source.release(frame.next)
+                }
+                break
+            case 'xfer:resume':
+                if (typeof frame.next !== 'number') return
+                this.host.debug?.(`Resuming transfer ${this.id} at chunk ${frame.next}`)
+                this.rewind(frame.next)
+                this.paused = false
+                this.pump()
+                break
+            case 'xfer:done':
+                this.settle()
+                this.resolveDone()
+                break
+            case 'xfer:cancel':
+                this.fail(new Error(String(frame.reason ?? 'Transfer cancelled by peer')), false)
+                break
+        }
+    }
+
+    /** @internal */
+    fail(error: Error, notifyRemote: boolean): void {
+        if (this.settled) return
+        this.settle()
+        if (this.source instanceof StreamSource) {
+            this.source.cancel(error)
+        }
+        if (notifyRemote) {
+            try {
+                this.host.sendFrame({ type: 'xfer:cancel', id: this.id, reason: error.message })
+            } catch {
+                // Remote will drop the incomplete transfer when the connection closes
+            }
+        }
+        this.rejectDone(error)
+    }
+
+    private rewind(next: number): void {
+        this.nextIndex = next
+        this.ended = false
+        const sent = next * this.chunkSize
+        this.bytesSent = this.source.size !== undefined ? Math.min(sent, this.source.size) : sent
+    }
+
+    private sendStart(resume: boolean): void {
+        try {
+            this.host.sendFrame({
+                type: 'xfer:start',
+                id: this.id,
+                name: this.info.name,
+                mimeType: this.info.mimeType,
+                size: this.source.size,
+                metadata: this.info.metadata,
+                resume,
+            })
+        } catch {
+            // Not connected - the start is re-sent on reconnect
+            this.paused = true
+        }
+    }
+
+    /**
+     * Send chunks until the end, pausing while disconnected or congested
+     */
+    private pump(): void {
+        if (this.pumping || this.settled) return
+        this.pumping = true
+
+        this.run()
+            .catch(error =>
+                this.fail(error instanceof Error ? error : new Error(String(error)), true)
+            )
+            .finally(() => {
+                this.pumping = false
+                // A resume may have arrived while the loop was winding down
+                if (!this.settled && !this.paused && !this.ended) {
+                    this.pump()
+                }
+            })
+    }
+
+    private async run(): Promise<void> {
+        while (!this.settled && !this.paused && !this.ended) {
+            if (!this.host.canSend()) {
+                await this.host.waitForCapacity()
+                continue
+            }
+
+            // Streams: don't read further ahead than the receiver has acknowledged
+            if (
+                this.source instanceof StreamSource &&
+                this.source.unreleased >= MAX_UNACKED_STREAM_CHUNKS
+            ) {
+                await this.host.waitForCapacity()
+                continue
+            }
+
+            const index = this.nextIndex
+            const chunk = await this.source.read(index)
+            if (this.settled || this.paused || index !== this.nextIndex) continue
+
+            try {
+                if (chunk) {
+                    this.host.sendFrame({ type: 'xfer:chunk', id: this.id, index })
+                    this.host.sendBinary(chunk)
+                } else {
+                    this.host.sendFrame({ type: 'xfer:end', id: this.id, chunks: index })
+                }
+            } catch {
+                // Channel closed mid-send - handleReconnect() resumes from the receiver's position
+                this.paused = true
+                return
+            }
+
+            if (!chunk) {
+                this.ended = true
+                return
+            }
+
+            this.nextIndex++
+            this.bytesSent += chunk.byteLength
+            this.emit('progress', { bytes: this.bytesSent, totalBytes: this.source.size })
+        }
+    }
+
+    private settle(): void {
+        this.settled = true
+        this.onSettled(this)
+    }
+}
+
+/**
+ * A payload being received from the remote peer.
+ * Consume it with blob(), arrayBuffer() or stream() (call one of them).
+ */
+export class IncomingTransfer extends EventEmitter<IncomingTransferEventMap> {
+    private chunks: Array<ArrayBuffer | Blob> = []
+    private nextIndex = 0
+    private bytesReceived = 0
+    private expectedChunks: number | null = null
+    private unacked = 0
+    private settled = false
+    private error: Error | null = null
+    private streamController: ReadableStreamDefaultController<Uint8Array> | null = null
+    private streamChain: Promise<void> = Promise.resolve()
+    private readonly completed: Promise<void>
+    private resolveCompleted!: () => void
+    private rejectCompleted!: (error: Error) => void
+
+    /** @internal */
+    constructor(
+        readonly id: string,
+        /** File name announced by the sender */
+        readonly name: string | undefined,
+        /** MIME type announced by the sender */
+        readonly mimeType: string | undefined,
+        /** Total size in bytes (undefined for streams) */
+        readonly totalBytes: number | undefined,
+        /** Application metadata attached by the sender */
+        readonly metadata: unknown,
+        private readonly host: TransferHost,
+        private readonly onSettled: (transfer: IncomingTransfer) => void
+    ) {
+        super()
+        this.completed = new Promise<void>((resolve, reject) => {
+            this.resolveCompleted = resolve
+            this.rejectCompleted = reject
+        })
+        this.completed.catch(() => {})
+    }
+
+    /**
+     * Bytes received so far
+     */
+    get bytes(): number {
+        return this.bytesReceived
+    }
+
+    /**
+     * Wait for the whole payload and return it as a Blob
+     */
+    async blob(): Promise<Blob> {
+        await this.completed
+        return new Blob(this.chunks, this.mimeType ? { type: this.mimeType } : undefined)
+    }
+
+    /**
+     * Wait for the whole payload and return it as an ArrayBuffer
+     */
+    async arrayBuffer(): Promise<ArrayBuffer> {
+        return (await this.blob()).arrayBuffer()
+    }
+
+    /**
+     * Consume the payload as it arrives. Chunks received so far are delivered first;
+     * later chunks are not retained, so blob()/arrayBuffer() can't be used afterwards.
+     */
+    stream(): ReadableStream<Uint8Array> {
+        if (this.streamController) {
+            throw new Error('Transfer is already being streamed')
+        }
+
+        return new ReadableStream<Uint8Array>({
+            start: controller => {
+                this.streamController = controller
+                const received = this.chunks
+                this.chunks = []
+                for (const chunk of received) {
+                    this.enqueue(chunk)
+                }
+                if (this.error) {
+                    this.failStream(this.error)
+                } else if (this.settled) {
+                    this.closeStream()
+                }
+            },
+            cancel: () => {
+                this.streamController = null
+                this.cancel('Receiver cancelled the stream')
+            },
+        })
+    }
+
+    /**
+     * Abort the transfer on both sides
+     */
+    cancel(reason = 'Transfer cancelled'): void {
+        if (this.settled) return
+        try {
+            this.host.sendFrame({ type: 'xfer:cancel', id: this.id, reason })
+        } catch {
+            // Sender fails the transfer when the connection closes
+        }
+        this.fail(new Error(reason))
+    }
+
+    /** @internal */
+    get next(): number {
+        return this.nextIndex
+    }
+
+    /** @internal */
+    get succeeded(): boolean {
+        return this.settled && !this.error
+    }
+
+    /** @internal */
+    handleChunk(index: number, data: ArrayBuffer | Blob): void {
+        if (this.settled || index !== this.nextIndex) return
+
+        this.nextIndex++
+        this.bytesReceived += data instanceof Blob ? data.size : data.byteLength
+        if (this.streamController) {
+            this.enqueue(data)
+        } else {
+            this.chunks.push(data)
+        }
+        this.emit('progress', { bytes: this.bytesReceived, totalBytes: this.totalBytes })
+
+        if (++this.unacked >= ACK_EVERY) {
+            this.sendAck()
+        }
+        this.completeIfReady()
+    }
+
+    /** @internal */
+    handleEnd(chunks: number): void {
+        if (this.settled) return
+        this.expectedChunks = chunks
+        this.completeIfReady()
+    }
+
+    /** @internal */
+    fail(error: Error): void {
+        if (this.settled) return
+        this.settled = true
+        this.error = error
+        this.failStream(error)
+        this.rejectCompleted(error)
+        this.onSettled(this)
+    }
+
+    private completeIfReady(): void {
+        if (this.expectedChunks === null || this.nextIndex < this.expectedChunks) return
+
+        this.settled = true
+        try {
+            this.host.sendFrame({ type: 'xfer:done', id: this.id })
+        } catch {
+            // Sender re-sends start after reconnecting and we answer done again
+        }
+        this.closeStream()
+        this.resolveCompleted()
+        this.onSettled(this)
+    }
+
+    private sendAck(): void {
+        this.unacked = 0
+        try {
+            this.host.sendFrame({ type: 'xfer:ack', id: this.id, next: this.nextIndex })
+        } catch {
+            // Acks are advisory; the resume handshake recovers the position
+        }
+    }
+
+    private enqueue(chunk: ArrayBuffer | Blob): void {
+        // Blob chunks are converted asynchronously; keep them in order
+        this.streamChain = this.streamChain.then(async () => {
+            const bytes =
+                chunk instanceof Blob
+                    ? new Uint8Array(await chunk.arrayBuffer())
+                    : new Uint8Array(chunk)
+            this.streamController?.enqueue(bytes)
+        })
+    }
+
+    private closeStream(): void {
+        this.streamChain = this.streamChain.then(() => {
+            this.streamController?.close()
+            this.streamController = null
+        })
+    }
+
+    private failStream(error: Error): void {
+        this.streamChain = this.streamChain.then(() => {
+            this.streamController?.error(error)
+            this.streamController = null
+        })
+    }
+}
+
+/**
+ * Tracks the transfers of one connection
+ */
+export class TransferManager {
+    private readonly outgoing = new Map<string, OutgoingTransfer>()
+    private readonly incoming = new Map<string, IncomingTransfer>()
+    /** Recently completed incoming ids, so a resumed start after a lost `xfer:done` isn't received twice */
+    private readonly completedIds = new Set<string>()
+    private pendingChunk: { transfer: IncomingTransfer | undefined; index: number } | null = null
+
+    constructor(
+        private readonly host: TransferHost,
+        private readonly onIncoming: (transfer: IncomingTransfer) => void
+    ) {}
+
+    /**
+     * Send a Blob/File or ArrayBuffer
+     */
+    sendFile(data: Blob | ArrayBuffer, options: TransferOptions = {}): OutgoingTransfer {
+        const chunkSize = this.chunkSize(options.chunkSize)
+        const source =
+            data instanceof ArrayBuffer
+                ? new ArrayBufferSource(data, chunkSize)
+                : new BlobSource(data, chunkSize)
+
+        const fileName = (data as { name?: unknown }).name
+        return this.start(source, chunkSize, {
+            name: options.name ?? (typeof fileName === 'string' ? fileName : undefined),
+            mimeType:
+                options.mimeType ?? (data instanceof Blob && data.type ? data.type : undefined),
+            metadata: options.metadata,
+            signal: options.signal,
+        })
+    }
+
+    /**
+     * Send the contents of a ReadableStream
+     */
+    sendStream(
+        stream: ReadableStream<Uint8Array>,
+        options: TransferOptions = {}
+    ): OutgoingTransfer {
+        const chunkSize = this.chunkSize(options.chunkSize)
+        return this.start(new StreamSource(stream, chunkSize), chunkSize, options)
+    }
+
+    /**
+     * Consume the payload announced by a preceding `xfer:chunk` header.
+     * Returns false if no payload is expected.
+     */
+    handleBinary(data: ArrayBuffer | Blob | string): boolean {
+        const pending = this.pendingChunk
+        if (!pending) return false
+
+        this.pendingChunk = null
+        if (typeof data !== 'string') {
+            pending.transfer?.handleChunk(pending.index, data)
+        }
+        return true
+    }
+
+    /**
+     * Handle an `xfer:*` control frame
+     */
+    handleFrame(frame: ControlFrame): void {
+        const id = frame.id
+        if (typeof id !== 'string') return
+
+        switch (frame.type) {
+            case 'xfer:start':
+                this.handleStart(id, frame)
+                return
+            case 'xfer:chunk':
+                // Claim the payload that follows even for unknown transfers, so it
+                // isn't delivered as an application message
+                this.pendingChunk = {
+                    transfer: this.incoming.get(id),
+                    index: typeof frame.index === 'number' ? frame.index : -1,
+                }
+                return
+            case 'xfer:end':
+                if (typeof frame.chunks === 'number') {
+                    this.incoming.get(id)?.handleEnd(frame.chunks)
+                }
+                return
+            case 'xfer:cancel':
+                this.incoming
+                    .get(id)
+                    ?.fail(new Error(String(frame.reason ?? 'Transfer cancelled by peer')))
+                this.outgoing.get(id)?.handleFrame(frame)
+                return
+            default:
+                this.outgoing.get(id)?.handleFrame(frame)
+        }
+    }
+
+    /**
+     * The connection (re-)opened: resume interrupted outgoing transfers
+     */
+    handleReconnect(): void {
+        this.pendingChunk = null
+        for (const transfer of this.outgoing.values()) {
+            transfer.handleReconnect()
+        }
+    }
+
+    /**
+     * Fail all transfers (connection closed)
+     */
+    closeAll(reason = 'Connection closed'): void {
+        for (const transfer of [...this.outgoing.values()]) {
+            transfer.fail(new Error(reason), false)
+        }
+        for (const transfer of [...this.incoming.values()]) {
+            transfer.fail(new Error(reason))
+        }
+        this.outgoing.clear()
+        this.incoming.clear()
+        this.pendingChunk = null
+    }
+
+    private start(
+        source: ChunkSource,
+        chunkSize: number,
+        options: TransferOptions
+    ): OutgoingTransfer {
+        const transfer = new OutgoingTransfer(
+            this.host,
+            source,
+            chunkSize,
+            { name: options.name, mimeType: options.mimeType, metadata: options.metadata },
+            settled => this.outgoing.delete(settled.id),
+            options.signal
+        )
+        if (!options.signal?.aborted) {
+            this.outgoing.set(transfer.id, transfer)
+            transfer.start()
+        }
+        return transfer
+    }
+
+    private handleStart(id: string, frame: ControlFrame): void {
+        if (this.completedIds.has(id)) {
+            this.sendFrame({ type: 'xfer:done', id })
+            return
+        }
+
+        const existing = this.incoming.get(id)
+        if (existing) {
+            // Sender reconnected: continue after the last chunk we have
+            this.sendFrame({ type: 'xfer:resume', id, next: existing.next })
+            return
+        }
+
+        const transfer = new IncomingTransfer(
+            id,
+            typeof frame.name === 'string' ? frame.name : undefined,
+            typeof frame.mimeType === 'string' ? frame.mimeType : undefined,
+            typeof frame.size === 'number' ? frame.size : undefined,
+            frame.metadata,
+            this.host,
+            settled => this.handleIncomingSettled(settled)
+        )
+        this.incoming.set(id, transfer)
+
+        // A resumed transfer we don't know (e.g. we restarted) starts over
+        if (frame.resume) {
+            this.sendFrame({ type: 'xfer:resume', id, next: 0 })
+        }
+        this.onIncoming(transfer)
+    }
+
+    private handleIncomingSettled(transfer: IncomingTransfer): void {
+        this.incoming.delete(transfer.id)
+        if (!transfer.succeeded) return
+
+        this.completedIds.add(transfer.id)
+        if (this.completedIds.size > MAX_COMPLETED_IDS) {
+            const oldest = this.completedIds.values().next().value
+            if (oldest !== undefined) this.completedIds.delete(oldest)
+        }
+    }
+
+    private chunkSize(requested?: number): number {
+        const limit = this.host.maxMessageSize()
+        return Math.max(1, Math.min(requested ?? DEFAULT_CHUNK_SIZE, limit))
+    }
+
+    private sendFrame(frame: ControlFrame): void {
+        try {
+            this.host.sendFrame(frame)
+        } catch (error) {
+            this.host.debug?.(`Failed to send ${frame.type}:`, error)
+        }
+    }
+}
@@ -0,0 +1,137 @@
+/**
+ * FallbackSignalingTransport - Push signaling with automatic fallback to polling
+ *
+ * Polls over HTTP until the push channel opens, then stops polling. If the push
+ * channel drops (or was never available), polling resumes while PushTransport
+ * keeps retrying in the background.
+ */
+
+import { EventEmitter } from 'eventemitter3'
+import type { SignalingTransport, SignalingTransportEvents } from './signaling-transport.js'
+import { PollingManager } from './polling-manager.js'
+import { PushTransport } from './push-transport.js'
+
+export interface FallbackSignalingTransportOptions {
+    push: PushTransport
+    polling: PollingManager
+    debugEnabled?: boolean
+}
+
+/**
+ * Combines a PushTransport with a PollingManager fallback
+ */
+export class FallbackSignalingTransport
+    extends EventEmitter<SignalingTransportEvents>
+    implements SignalingTransport
+{
+    private readonly push: PushTransport
+    private readonly polling: PollingManager
+    private readonly debugEnabled: boolean
+    private running = false
+
+    constructor(options: FallbackSignalingTransportOptions) {
+        super()
+        this.push = options.push
+        this.polling = options.polling
+        this.debugEnabled = options.debugEnabled ?? false
+
+        // Forward events from both transports; push events also advance the
+        // poll cursor so a later fallback poll doesn't re-fetch them
+        this.push.on('poll:answer', data => {
+            this.polling.advanceLastPollTimestamp(data.answeredAt)
+            this.emit('poll:answer', data)
+        })
+        this.push.on('poll:ice', data => {
+            for (const candidate of data.candidates) {
+                this.polling.advanceLastPollTimestamp(candidate.createdAt)
+            }
+            this.emit('poll:ice', data)
+        })
+        this.push.on('poll:error', error => this.emit('poll:error', error))
+
+        this.polling.on('poll:answer', data => this.emit('poll:answer', data))
+        this.polling.on('poll:ice', data => this.emit('poll:ice', data))
+        this.polling.on('poll:error', error => this.emit('poll:error', error))
+
+        this.push.on('push:open', () => this.handlePushOpen())
+        this.push.on('push:close', () => this.handlePushClose())
+    }
+
+    /**
+     * Start push, polling until the push channel is open
+     */
+    start(): void {
+        if (this.running) {
+            this.debug('Already running')
+            return
+        }
+
+        this.debug('Starting push transport with polling fallback')
+        this.running = true
+
+        if (!this.push.isSupported()) {
+            this.debug('Push not supported in this runtime, using polling only')
+        }
+
+        this.polling.start()
+        this.push.start()
+        this.emit('poll:started')
+    }
+
+    /**
+     * Stop both transports
+     */
+    stop(): void {
+        if (!this.running) return
+
+        this.debug('Stopping signaling transport')
+        this.running = false
+        this.push.stop()
+        this.polling.stop()
+        this.emit('poll:stopped')
+    }
+
+    /**
+     * Check if the transport is started
+     */
+    isRunning(): boolean {
+        return this.running
+    }
+
+    /**
+     * Whether events are currently arriving via push (vs. the polling fallback)
+     */
+    isPushActive(): boolean {
+        return this.push.isOpen()
+    }
+
+    private handlePushOpen(): void {
+        if (!this.running) return
+
+        this.debug('Push channel open, stopping polling fallback')
+        this.polling.stop()
+
+        // Catch up on anything that happened between the last poll and the subscription
+        this.polling.pollNow().catch(error => {
+            this.debug('Catch-up poll failed:', error)
+        })
+    }
+
+    private handlePushClose(): void {
+        if (!this.running) return
+
+        if (!this.polling.isRunning()) {
+            this.debug('Push channel unavailable, falling back to polling')
+            this.polling.start()
+        }
+    }
+
+    /**
+     * Debug logging
+     */
+    private debug(...args: unknown[]): void {
+        if (this.debugEnabled) {
+            console.log('[FallbackSignalingTransport]', ...args)
+        }
+    }
+}
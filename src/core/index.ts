@@ -21,17 +21,112 @@ export { Rondevu } from './rondevu.js'
 // Simplified peer connection
 export { Peer } from './peer.js'
 
+// Full-mesh rooms
+export { Room } from './room.js'
+
+// Routing through intermediate peers
+export { MeshRouter } from './mesh.js'
+export { MeshSignaling } from './mesh-signaling.js'
+
+// Peer identity verification
+export { IdentityVerificationError } from '../connections/identity.js'
+
+// End-to-end encrypted signaling
+export { SignalingCipher } from '../crypto/e2e.js'
+
+// Named channels
+export { NamedChannel } from '../connections/channels.js'
+
+// Peer-to-peer RPC
+export { RpcError } from '../connections/rpc.js'
+
+// Chunked file/stream transfers
+export { OutgoingTransfer, IncomingTransfer } from '../connections/transfer.js'
+
+// Persistent message buffer storage
+export { MemoryMessageBufferStorage } from '../storage/memory.js'
+export { IndexedDBMessageBufferStorage } from '../storage/indexeddb.js'
+export { FileMessageBufferStorage } from '../storage/file.js'
+
+// Media offers
+export { createMediaOfferFactory } from './media.js'
+
+// Offer selection strategies for rondevu.peer()
+export { OFFER_SELECTORS, PeerStats } from './offer-selection.js'
+
+// In-memory signaling server for offline tests
+export { LocalSignalingServer } from '../api/local-server.js'
+
+// RPC wire format and failure handling
+export { JSON_RPC_CODEC } from '../api/batcher.js'
+export { CircuitBreaker } from '../api/circuit-breaker.js'
+export { SERVER_TIME_HEADER } from '../api/clock.js'
+
+// Error classes
+export {
+    RondevuError,
+    ServerError,
+    NetworkError,
+    RateLimitedError,
+    OfferNotFoundError,
+    OfferExpiredError,
+    OfferNotAnsweredError,
+    AuthError,
+    ClockSkewError,
+    ProtocolViolationError,
+    CircuitOpenError,
+    NoPeersError,
+    ConnectionFailedError,
+    AnswerRejectedError,
+} from '../api/errors.js'
+
 // ICE server configuration presets
 export { ICE_SERVER_PRESETS } from './ice-config.js'
 
 // Essential types for configuration
 export type {
     RondevuOptions,
+    PushOptions,
     OfferOptions,
     OfferHandle,
+    ConnectToOptions,
     DiscoverOptions,
     DiscoverResult,
+    AcceptAnswerHook,
+    AnswerRejectionReason,
 } from './rondevu.js'
 export type { PeerState, PeerOptions } from './peer.js'
+export type { PushMessage, PushSubscribeRequest } from './push-transport.js'
+export type {
+    OfferSelectionStrategy,
+    OfferSelector,
+    OfferSelectionContext,
+    PeerStatsEntry,
+} from './offer-selection.js'
+export type { RoomOptions } from './room.js'
+export type { MeshLink, MeshRouterOptions, MeshSendOptions, MeshMessageInfo } from './mesh.js'
+export type { MeshSignalingOptions } from './mesh-signaling.js'
+export type { ConnectionSignaler, SignaledOffer } from '../connections/signaler.js'
+export type { ChannelOptions } from '../connections/channels.js'
+export type {
+    PeerRpc,
+    RpcCallOptions,
+    RpcErrorCode,
+    RpcHandler,
+    RpcHandlerContext,
+} from '../connections/rpc.js'
+export type { TransferOptions, TransferProgress } from '../connections/transfer.js'
+export type { MessageStreamChunk } from '../connections/streams.js'
+export type { MediaOfferOptions } from './media.js'
 export type { IceServerPreset } from './ice-config.js'
 export type { KeyPair, CryptoAdapter } from '../crypto/adapter.js'
+export type { MessageBufferStorage } from '../storage/adapter.js'
+export type { LocalSignalingServerOptions } from '../api/local-server.js'
+export type { RpcTransportOptions, RpcCodec, WireRequest, RpcResponse } from '../api/batcher.js'
+export type { RpcPolicyOptions, RpcRetryPolicy } from '../api/client.js'
+export type { RondevuErrorOptions } from '../api/errors.js'
+export type {
+    CircuitBreakerOptions,
+    CircuitBreakerEvents,
+    CircuitState,
+} from '../api/circuit-breaker.js'
@@ -0,0 +1,66 @@
+/**
+ * Media-capable offer factories for rondevu.offer()
+ */
+
+import type { OfferContext, OfferFactory } from './rondevu-types.js'
+
+/**
+ * Options for createMediaOfferFactory() / OfferOptions.media
+ */
+export interface MediaOfferOptions {
+    /** Send all tracks of this stream */
+    stream?: MediaStream
+    /** Send these tracks (in addition to `stream`) */
+    tracks?: MediaStreamTrack[]
+    /** Offer to receive audio even when not sending any */
+    receiveAudio?: boolean
+    /** Offer to receive video even when not sending any */
+    receiveVideo?: boolean
+}
+
+/**
+ * Create an offer factory that adds media to each offer alongside the default
+ * data channel (which carries messages and in-band renegotiation).
+ *
+ * Each offer in the pool gets its own RTCPeerConnection; the same local tracks
+ * are added to every one of them.
+ *
+ * @example
+ * ```typescript
+ * const stream = await navigator.mediaDevices.getUserMedia({ audio: true, video: true })
+ * await rondevu.offer({
+ *   tags: ['video-call'],
+ *   maxOffers: 3,
+ *   offerFactory: createMediaOfferFactory({ stream }),
+ * })
+ * ```
+ */
+export function createMediaOfferFactory(options: MediaOfferOptions): OfferFactory {
+    return async (pc: RTCPeerConnection): Promise<OfferContext> => {
+        const dc = pc.createDataChannel('default')
+
+        const stream = options.stream
+        const tracks = [...(stream?.getTracks() ?? []), ...(options.tracks ?? [])]
+        for (const track of tracks) {
+            if (pc.getSenders().some(sender => sender.track === track)) continue
+            if (stream) {
+                pc.addTrack(track, stream)
+            } else {
+                pc.addTrack(track)
+            }
+        }
+
+        const sendsKind = (kind: string) => tracks.some(track => track.kind === kind)
+        if (options.receiveAudio && !sendsKind('audio')) {
+            pc.addTransceiver('audio', { direction: 'recvonly' })
+        }
+        if (options.receiveVideo && !sendsKind('video')) {
+            pc.addTransceiver('video', { direction: 'recvonly' })
+        }
+
+        const offer = await pc.createOffer()
+        await pc.setLocalDescription(offer)
+
+        return { dc, offer }
+    }
+}
@@ -0,0 +1,588 @@
+/**
+ * Signaling through the mesh - connect and reconnect without the Rondevu server
+ *
+ * Offers, answers and ICE candidates are relayed as signed MeshRouter messages
+ * through peers we are already connected to. The exchange mirrors the server model,
+ * with the answering side asking for an offer instead of discovering one:
+ *
+ *   answerer → { type: 'offer:request', request }
+ *   offerer  → { type: 'offer', request, offerId, sdp }
+ *   answerer → { type: 'answer', offerId, sdp }
+ *   both     → { type: 'ice', offerId, candidates }
+ *   both     → { type: 'description', offerId, description }   ICE restart
+ *
+ * Offer IDs of mesh sessions start with "mesh:". The same request reconnects a
+ * dropped connection: an AnswererConnection whose signaler comes from
+ * createSignaler() asks for a new offer through the mesh when the server cannot
+ * provide one, and the offering side rebinds its existing connection to it.
+ */
+
+import { EventEmitter } from 'eventemitter3'
+import { RondevuAPI, IceCandidate } from '../api/client.js'
+import { AnswererConnection } from '../connections/answerer.js'
+import { ConnectionConfig } from '../connections/config.js'
+import { ConnectionState } from '../connections/events.js'
+import { IdentityCredentials } from '../connections/identity.js'
+import { OffererConnection } from '../connections/offerer.js'
+import {
+    ConnectionSignaler,
+    SignaledOffer,
+    encodeEncryptedCandidates,
+} from '../connections/signaler.js'
+import { SignalingCipher } from '../crypto/e2e.js'
+import { MessageBufferStorage } from '../storage/adapter.js'
+import { WebRTCAdapter } from '../webrtc/adapter.js'
+import { MeshRouter } from './mesh.js'
+import { OfferFactory } from './offer-pool.js'
+
+export interface MeshSignalingOptions {
+    router: MeshRouter
+    api: RondevuAPI
+    localPublicKey: string
+    offerFactory: OfferFactory
+    rtcConfig: RTCConfiguration
+    webrtcAdapter: WebRTCAdapter
+    connectionConfig?: Partial<ConnectionConfig>
+    identity?: IdentityCredentials
+    messageStorage?: MessageBufferStorage
+    /** Whether to offer a connection to a peer asking for one (default: always) */
+    acceptRequest?: (publicKey: string) => boolean
+    /** Time to wait for a requested offer (ms, default: 15000) */
+    requestTimeout?: number
+    /** Time a failed connection we offered waits for the peer to ask again (ms, default: 60000) */
+    rebindWindow?: number
+    debugEnabled?: boolean
+}
+
+/**
+ * Event map for MeshSignaling
+ */
+export interface MeshSignalingEventMap {
+    /** A peer asked for an offer through the mesh and answered it */
+    connection: [publicKey: string, connection: OffererConnection]
+}
+
+interface OfferSession {
+    publicKey: string
+    connection: OffererConnection
+    answered: boolean
+    /** Candidates held back until the answerer has set up its connection */
+    pendingCandidates: RTCIceCandidateInit[]
+    /** Whether the connection is new (announced once answered) or rebound */
+    announce: boolean
+}
+
+interface PendingRequest {
+    publicKey: string
+    resolve: (offer: SignaledOffer) => void
+    reject: (error: Error) => void
+    timer: ReturnType<typeof setTimeout>
+}
+
+/**
+ * Prefix of offer IDs negotiated through the mesh
+ */
+export const MESH_OFFER_PREFIX = 'mesh:'
+
+/**
+ * Whether an offer ID belongs to a session negotiated through the mesh
+ */
+export function isMeshOfferId(offerId: string): boolean {
+    return offerId.startsWith(MESH_OFFER_PREFIX)
+}
+
+function createSessionId(): string {
+    return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`
+}
+
+/**
+ * Negotiates connections by relaying signaling through a MeshRouter
+ *
+ * @example
+ * ```typescript
+ * const signaling = new MeshSignaling({ router, api, localPublicKey, ... })
+ *
+ * // Asking side: connect to a peer only reachable through the mesh
+ * const connection = await signaling.connect(publicKey)
+ *
+ * // Offering side: connections peers asked for
+ * signaling.on('connection', (publicKey, connection) => { ... })
+ * ```
+ */
+export class MeshSignaling extends EventEmitter<MeshSignalingEventMap> {
+    private static readonly DEFAULT_REQUEST_TIMEOUT_MS = 15000
+    private static readonly DEFAULT_REBIND_WINDOW_MS = 60000
+
+    private readonly options: MeshSignalingOptions
+    private readonly router: MeshRouter
+    private readonly debugEnabled: boolean
+
+    // Sessions we offered, by offer ID
+    private readonly offerSessions = new Map<string, OfferSession>()
+    // Connections we offered, by peer (rebound when the peer asks again)
+    private readonly offerers = new Map<string, OffererConnection>()
+    // Offer ID -> offering peer, for sessions we answer
+    private readonly answerSessions = new Map<string, string>()
+    // Connections answering mesh offers, by peer
+    private readonly answerers = new Map<string, AnswererConnection>()
+    private readonly requests = new Map<string, PendingRequest>()
+
+    private readonly signalHandler = (from: string, payload: Record<string, unknown>) =>
+        this.handleSignal(from, payload)
+    private cipher: SignalingCipher | null = null
+    private closed = false
+
+    constructor(options: MeshSignalingOptions) {
+        super()
+        this.options = options
+        this.router = options.router
+        this.debugEnabled = options.debugEnabled || false
+        this.router.on('signal', this.signalHandler)
+    }
+
+    /**
+     * Connect to a peer by asking it for an offer through the mesh
+     *
+     * @returns The answering connection (not yet open)
+     */
+    async connect(publicKey: string, tags: string[] = []): Promise<AnswererConnection> {
+        const offer = await this.requestOffer(publicKey)
+
+        const connection = new AnswererConnection({
+            api: this.options.api,
+            ownerPublicKey: publicKey,
+            tags,
+            offerId: offer.offerId,
+            offerSdp: offer.sdp,
+            rtcConfig: this.options.rtcConfig,
+            webrtcAdapter: this.options.webrtcAdapter,
+            config: {
+                ...this.options.connectionConfig,
+                debug: this.debugEnabled,
+            },
+            identity: this.options.identity,
+            messageStorage: this.options.messageStorage,
+            signaler: this.createSignaler(),
+        })
+        this.track(publicKey, connection)
+
+        try {
+            await connection.initialize()
+        } catch (error) {
+            connection.close()
+            throw error
+        }
+        return connection
+    }
+
+    /**
+     * A signaler that relays mesh sessions through the mesh and everything else through
+     * `base` (typically the server). Reconnection offers come from `base` first and are
+     * requested through the mesh if that fails.
+     */
+    createSignaler(base?: ConnectionSignaler): ConnectionSignaler {
+        return {
+            sendAnswer: async (offerId, sdp, matchedTags) => {
+                if (!isMeshOfferId(offerId)) {
+                    if (!base) throw new Error(`No signaling path for offer ${offerId}`)
+                    return base.sendAnswer(offerId, sdp, matchedTags)
+                }
+
+                const publicKey = this.answerSessions.get(offerId)
+                if (!publicKey) throw new Error(`Unknown mesh offer ${offerId}`)
+                await this.router.sendSignal(publicKey, { type: 'answer', offerId, sdp })
+            },
+
+            sendIceCandidates: async (offerId, candidates) => {
+                if (!isMeshOfferId(offerId)) {
+                    if (!base) throw new Error(`No signaling path for offer ${offerId}`)
+                    return base.sendIceCandidates(offerId, candidates)
+                }
+
+                const session = this.offerSessions.get(offerId)
+                if (session && !session.answered) {
+                    session.pendingCandidates.push(...candidates)
+                    return
+                }
+
+                const publicKey = session?.publicKey ?? this.answerSessions.get(offerId)
+                if (!publicKey) throw new Error(`Unknown mesh offer ${offerId}`)
+                await this.router.sendSignal(publicKey, { type: 'ice', offerId, candidates })
+            },
+
+            sendDescription: async (offerId, description) => {
+                if (!isMeshOfferId(offerId)) {
+                    if (!base) throw new Error(`No signaling path for offer ${offerId}`)
+                    return base.sendDescription(offerId, description)
+                }
+
+                const publicKey =
+                    this.offerSessions.get(offerId)?.publicKey ?? this.answerSessions.get(offerId)
+                if (!publicKey) throw new Error(`Unknown mesh offer ${offerId}`)
+                await this.router.sendSignal(publicKey, {
+                    type: 'description',
+                    offerId,
+                    description,
+                })
+            },
+
+            findOffer: async (publicKey, tags) => {
+                if (base) {
+                    try {
+                        return await base.findOffer(publicKey, tags)
+                    } catch (error) {
+                        this.debug(`No offer from ${publicKey} via server, asking the mesh:`, error)
+                    }
+                }
+                return this.requestOffer(publicKey)
+            },
+        }
+    }
+
+    /**
+     * Route mesh candidates to an answering connection created elsewhere, so it can
+     * reconnect through the mesh (its signaler must come from createSignaler())
+     */
+    track(publicKey: string, connection: AnswererConnection): void {
+        this.answerers.set(publicKey, connection)
+        connection.on('closed', () => {
+            if (this.answerers.get(publicKey) === connection) {
+                this.answerers.delete(publicKey)
+            }
+        })
+    }
+
+    /**
+     * Stop signaling; connections that were never answered are closed
+     */
+    close(): void {
+        if (this.closed) return
+        this.closed = true
+        this.router.off('signal', this.signalHandler)
+
+        for (const request of this.requests.values()) {
+            clearTimeout(request.timer)
+            request.reject(new Error('Mesh signaling closed'))
+        }
+        this.requests.clear()
+
+        for (const session of this.offerSessions.values()) {
+            if (session.announce && !session.answered) {
+                session.connection.close()
+            }
+        }
+        this.offerSessions.clear()
+        this.offerers.clear()
+        this.answerSessions.clear()
+        this.answerers.clear()
+    }
+
+    /**
+     * Ask a peer for an offer through the mesh
+     */
+    private requestOffer(publicKey: string): Promise<SignaledOffer> {
+        if (this.closed) {
+            return Promise.reject(new Error('Mesh signaling closed'))
+        }
+
+        const request = createSessionId()
+        const timeout = this.options.requestTimeout ?? MeshSignaling.DEFAULT_REQUEST_TIMEOUT_MS
+
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => {
+                this.requests.delete(request)
+                reject(new Error(`${publicKey} did not send an offer within ${timeout}ms`))
+            }, timeout)
+            this.requests.set(request, { publicKey, resolve, reject, timer })
+
+            this.debug(`Asking ${publicKey} for an offer through the mesh`)
+            this.router.sendSignal(publicKey, { type: 'offer:request', request }).catch(error => {
+                clearTimeout(timer)
+                this.requests.delete(request)
+                reject(error)
+            })
+        })
+    }
+
+    private handleSignal(from: string, payload: Record<string, unknown>): void {
+        switch (payload.type) {
+            case 'offer:request':
+                if (typeof payload.request === 'string') {
+                    this.handleOfferRequest(from, payload.request)
+                }
+                break
+
+            case 'offer': {
+                const pending = this.requests.get(payload.request as string)
+                if (!pending || pending.publicKey !== from) return
+                if (typeof payload.offerId !== 'string' || typeof payload.sdp !== 'string') return
+                if (!isMeshOfferId(payload.offerId)) return
+
+                this.requests.delete(payload.request as string)
+                clearTimeout(pending.timer)
+                this.answerSessions.set(payload.offerId, from)
+                pending.resolve({ offerId: payload.offerId, sdp: payload.sdp })
+                break
+            }
+
+            case 'answer':
+                if (typeof payload.offerId === 'string' && typeof payload.sdp === 'string') {
+                    this.handleAnswer(from, payload.offerId, payload.sdp)
+                }
+                break
+
+            case 'ice':
+                if (typeof payload.offerId === 'string' && Array.isArray(payload.candidates)) {
+                    this.handleCandidates(from, payload.offerId, payload.candidates)
+                }
+                break
+
+            case 'description': {
+                const description = payload.description as RTCSessionDescriptionInit | undefined
+                if (typeof payload.offerId === 'string' && typeof description?.sdp === 'string') {
+                    this.handleDescription(from, payload.offerId, description)
+                }
+                break
+            }
+        }
+    }
+
+    private handleOfferRequest(from: string, request: string): void {
+        if (this.closed) return
+        if (this.options.acceptRequest && !this.options.acceptRequest(from)) {
+            this.debug(`Ignoring offer request from ${from}`)
+            return
+        }
+
+        this.offer(from, request).catch(error => {
+            this.debug(`Failed to offer a connection to ${from}:`, error)
+        })
+    }
+
+    /**
+     * Create an offer for a peer that asked for one, rebinding our existing
+     * connection to it if there is one
+     */
+    private async offer(publicKey: string, request: string): Promise<void> {
+        const offerId = `${MESH_OFFER_PREFIX}${createSessionId()}`
+        const { pc, dc, sdp, candidates } = await this.createLocalOffer()
+
+        const existing = this.offerers.get(publicKey)
+        const rebind = !!existing && existing.getState() !== ConnectionState.CLOSED
+        const connection = rebind ? existing! : this.createOfferer(publicKey, offerId, pc, dc)
+
+        // The connection signals candidates for the offer as soon as it takes over the
+        // peer connection, so the session has to exist (unanswered) before that
+        this.offerSessions.set(offerId, {
+            publicKey,
+            connection,
+            answered: false,
+            pendingCandidates: candidates,
+            announce: !rebind,
+        })
+
+        try {
+            if (rebind) {
+                this.offerSessions.delete(connection.getOfferId())
+                await connection.rebindToOffer(offerId, pc, dc)
+            } else {
+                await connection.initialize()
+            }
+        } catch (error) {
+            this.offerSessions.delete(offerId)
+            pc.close()
+            throw error
+        }
+
+        this.offerers.set(publicKey, connection)
+
+        this.debug(`Offering ${offerId} to ${publicKey}`)
+        const cipher = this.getCipher()
+        await this.router.sendSignal(publicKey, {
+            type: 'offer',
+            request,
+            offerId,
+            sdp: cipher ? await cipher.encrypt(publicKey, sdp) : sdp,
+        })
+    }
+
+    private createOfferer(
+        publicKey: string,
+        offerId: string,
+        pc: RTCPeerConnection,
+        dc?: RTCDataChannel
+    ): OffererConnection {
+        const connection = new OffererConnection({
+            api: this.options.api,
+            ownerPublicKey: this.options.localPublicKey,
+            offerId,
+            pc,
+            dc,
+            webrtcAdapter: this.options.webrtcAdapter,
+            config: {
+                ...this.options.connectionConfig,
+                debug: this.debugEnabled,
+            },
+            identity: this.options.identity,
+            messageStorage: this.options.messageStorage,
+            signaler: this.createSignaler(),
+            recipientPublicKey: publicKey,
+        })
+
+        // Offerer connections do not reconnect; the peer asks for a new offer instead
+        let rebindTimer: ReturnType<typeof setTimeout> | null = null
+        connection.on('failed', () => {
+            if (rebindTimer) clearTimeout(rebindTimer)
+            const startedAt = connection.getOfferId()
+            rebindTimer = setTimeout(() => {
+                if (connection.getOfferId() === startedAt) {
+                    this.debug(`${publicKey} did not ask for a new offer, closing`)
+                    connection.close()
+                }
+            }, this.options.rebindWindow ?? MeshSignaling.DEFAULT_REBIND_WINDOW_MS)
+        })
+        connection.on('closed', () => {
+            if (rebindTimer) clearTimeout(rebindTimer)
+            this.offerSessions.delete(connection.getOfferId())
+            if (this.offerers.get(publicKey) === connection) {
+                this.offerers.delete(publicKey)
+            }
+        })
+
+        return connection
+    }
+
+    private handleAnswer(from: string, offerId: string, sdp: string): void {
+        const session = this.offerSessions.get(offerId)
+        if (!session || session.publicKey !== from) return
+
+        session.connection
+            .processAnswer(sdp, from)
+            .then(() => {
+                if (session.answered) return
+                session.answered = true
+
+                const candidates = session.pendingCandidates
+                session.pendingCandidates = []
+                if (candidates.length > 0) {
+                    this.sealCandidates(from, candidates)
+                        .then(sealed =>
+                            this.router.sendSignal(from, {
+                                type: 'ice',
+                                offerId,
+                                candidates: sealed,
+                            })
+                        )
+                        .catch(error => this.debug('Failed to send ICE candidates:', error))
+                }
+
+                if (session.announce) {
+                    this.emit('connection', from, session.connection)
+                }
+            })
+            .catch(error => {
+                this.debug(`Failed to process answer for ${offerId}:`, error)
+            })
+    }
+
+    private handleCandidates(from: string, offerId: string, candidates: unknown[]): void {
+        const toIceCandidates = (role: IceCandidate['role']): IceCandidate[] =>
+            candidates.map(candidate => ({
+                candidate: candidate as RTCIceCandidateInit | null,
+                role,
+                createdAt: Date.now(),
+            }))
+
+        const session = this.offerSessions.get(offerId)
+        if (session) {
+            if (session.publicKey === from) {
+                session.connection.handleRemoteIceCandidates(toIceCandidates('answerer'))
+            }
+            return
+        }
+
+        if (this.answerSessions.get(offerId) !== from) return
+        const answerer = this.answerers.get(from)
+        if (answerer && answerer.getOfferId() === offerId) {
+            answerer.handleRemoteIceCandidates(toIceCandidates('offerer'))
+        }
+    }
+
+    private handleDescription(
+        from: string,
+        offerId: string,
+        description: RTCSessionDescriptionInit
+    ): void {
+        const session = this.offerSessions.get(offerId)
+        if (session) {
+            if (session.publicKey === from) {
+                session.connection.handleRemoteDescription(description)
+            }
+            return
+        }
+
+        if (this.answerSessions.get(offerId) !== from) return
+        const answerer = this.answerers.get(from)
+        if (answerer && answerer.getOfferId() === offerId) {
+            answerer.handleRemoteDescription(description)
+        }
+    }
+
+    /**
+     * Cipher for offers and early candidates (the rest is encrypted by the connections)
+     */
+    private getCipher(): SignalingCipher | null {
+        const identity = this.options.identity
+        if (!identity || !this.options.connectionConfig?.encryptSignaling) return null
+        this.cipher ??= new SignalingCipher(identity.keyPair, identity.crypto)
+        return this.cipher
+    }
+
+    private async sealCandidates(
+        publicKey: string,
+        candidates: RTCIceCandidateInit[]
+    ): Promise<RTCIceCandidateInit[]> {
+        const cipher = this.getCipher()
+        if (!cipher) return candidates
+        const encrypted = await cipher.encrypt(publicKey, JSON.stringify(candidates))
+        return [encodeEncryptedCandidates(encrypted)]
+    }
+
+    /**
+     * Create an RTCPeerConnection and run the offer factory, collecting the
+     * candidates gathered before the connection takes over (see publishOffer())
+     */
+    private async createLocalOffer(): Promise<{
+        pc: RTCPeerConnection
+        dc?: RTCDataChannel
+        sdp: string
+        candidates: RTCIceCandidateInit[]
+    }> {
+        const pc = this.options.webrtcAdapter.createPeerConnection(this.options.rtcConfig)
+
+        const candidates: RTCIceCandidateInit[] = []
+        pc.onicecandidate = event => {
+            if (event.candidate) {
+                candidates.push({
+                    candidate: event.candidate.candidate,
+                    sdpMLineIndex: event.candidate.sdpMLineIndex,
+                    sdpMid: event.candidate.sdpMid,
+                })
+            }
+        }
+
+        try {
+            const { dc, offer } = await this.options.offerFactory(pc)
+            return { pc, dc, sdp: offer.sdp!, candidates }
+        } catch (error) {
+            pc.close()
+            throw error
+        }
+    }
+
+    private debug(...args: unknown[]): void {
+        if (this.debugEnabled) {
+            console.log('[MeshSignaling]', ...args)
+        }
+    }
+}
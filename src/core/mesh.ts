@@ -0,0 +1,400 @@
+/**
+ * Mesh routing - reach peers through intermediate connections
+ *
+ * In a partial mesh (A↔B and B↔C connected, A↔C failed) a message from A to C is
+ * relayed by B. Each routed message carries its source and destination public keys,
+ * a hop limit and a unique ID, and is signed by the source with Ed25519:
+ *
+ *   { id, src, dst, ts, ttl, hops, data | binary, sig }
+ *
+ * Messages travel on a named channel of every link. A node that is not the
+ * destination forwards the message to the destination directly if it has a link to
+ * it, or otherwise to all its other links (gossip) while the hop limit allows.
+ * Message IDs are remembered for maxMessageAge, so copies arriving over several
+ * paths are delivered and forwarded once; older messages are dropped. Every node
+ * verifies the signature before remembering, delivering or forwarding a message:
+ * relays cannot forge or alter messages (they can see them, though), and a forged
+ * copy can neither travel further nor get the genuine message dropped as a duplicate.
+ *
+ * Besides application data, the router carries signaling messages (kind "signal")
+ * for components that negotiate connections through the mesh (see MeshSignaling).
+ */
+
+import { EventEmitter } from 'eventemitter3'
+import { KeyPair } from '../api/client.js'
+import { CryptoAdapter } from '../crypto/adapter.js'
+import { ChannelOptions, NamedChannel } from '../connections/channels.js'
+
+/**
+ * Anything that can open a named channel to a directly connected peer
+ * (Peer, OffererConnection, AnswererConnection)
+ */
+export interface MeshLink {
+    channel(name: string, options?: ChannelOptions): NamedChannel
+}
+
+export interface MeshRouterOptions {
+    /** Local identity; messages are signed with its private key */
+    keyPair: KeyPair
+    /** Signs and verifies messages */
+    crypto: CryptoAdapter
+    /** Maximum number of hops per message (default: 4) */
+    defaultTtl?: number
+    /** Drop messages older than this, and remember IDs for as long (ms, default: 60000) */
+    maxMessageAge?: number
+    debug?: boolean
+}
+
+export interface MeshSendOptions {
+    /** Maximum number of hops (default: MeshRouterOptions.defaultTtl) */
+    ttl?: number
+}
+
+/**
+ * Details of a routed message delivered to us
+ */
+export interface MeshMessageInfo {
+    /** Message ID */
+    id: string
+    /** Number of links the message crossed (1 = direct) */
+    hops: number
+    /** Public key of the link it arrived on */
+    via: string
+}
+
+/**
+ * Event map for MeshRouter
+ */
+export interface MeshRouterEventMap {
+    /** A message addressed to us arrived and its signature checked out */
+    message: [from: string, data: string | Uint8Array, info: MeshMessageInfo]
+    /** A signaling message addressed to us arrived and its signature checked out */
+    signal: [from: string, payload: Record<string, unknown>]
+    /** A message addressed to us had an invalid signature and was dropped */
+    'message:rejected': [from: string, id: string]
+    /** A link was added */
+    'link:added': [publicKey: string]
+    /** A link was removed (or its channel closed) */
+    'link:removed': [publicKey: string]
+}
+
+interface RoutedMessage {
+    id: string
+    src: string
+    dst: string
+    ts: number
+    ttl: number
+    hops: number
+    kind?: 'signal'
+    data?: string
+    binary?: string
+    sig: string
+}
+
+interface Link {
+    channel: NamedChannel
+    detach: () => void
+}
+
+/**
+ * Name of the channel routed messages travel on
+ */
+export const MESH_CHANNEL_NAME = 'rondevu.mesh'
+
+/**
+ * Overlay router for messages addressed by public key
+ *
+ * @example
+ * ```typescript
+ * const router = new MeshRouter({
+ *   keyPair: rondevu.getKeyPair(),
+ *   crypto: rondevu.getCryptoAdapter(),
+ * })
+ * router.addLink(peer.peerPublicKey, peer)
+ *
+ * router.on('message', (from, data) => console.log(from, data))
+ * await router.send(farAwayPublicKey, 'Hello through the mesh!')
+ * ```
+ */
+export class MeshRouter extends EventEmitter<MeshRouterEventMap> {
+    private static readonly DEFAULT_TTL = 4
+    private static readonly DEFAULT_MAX_MESSAGE_AGE_MS = 60000
+
+    private readonly keyPair: KeyPair
+    private readonly crypto: CryptoAdapter
+    private readonly defaultTtl: number
+    private readonly maxMessageAge: number
+    private readonly debugEnabled: boolean
+
+    private readonly links = new Map<string, Link>()
+    // Message ID -> time first seen (insertion order = age order)
+    private readonly seen = new Map<string, number>()
+    private counter = 0
+
+    constructor(options: MeshRouterOptions) {
+        super()
+        this.keyPair = options.keyPair
+        this.crypto = options.crypto
+        this.defaultTtl = options.defaultTtl ?? MeshRouter.DEFAULT_TTL
+        this.maxMessageAge = options.maxMessageAge ?? MeshRouter.DEFAULT_MAX_MESSAGE_AGE_MS
+        this.debugEnabled = options.debug || false
+    }
+
+    /**
+     * Public keys of the directly connected peers
+     */
+    get linkedPeers(): string[] {
+        return [...this.links.keys()]
+    }
+
+    /**
+     * Route messages over a direct connection to the given peer
+     */
+    addLink(publicKey: string, link: MeshLink): void {
+        this.removeLink(publicKey)
+
+        const channel = link.channel(MESH_CHANNEL_NAME)
+        const onMessage = (data: string | ArrayBuffer | Blob) => {
+            if (typeof data === 'string') {
+                this.handleFrame(publicKey, data)
+            }
+        }
+        const onClose = () => {
+            if (this.links.get(publicKey)?.channel === channel) {
+                this.removeLink(publicKey)
+            }
+        }
+        channel.on('message', onMessage)
+        channel.on('close', onClose)
+
+        this.links.set(publicKey, {
+            channel,
+            detach: () => {
+                channel.off('message', onMessage)
+                channel.off('close', onClose)
+            },
+        })
+        this.debug(`Link added: ${publicKey}`)
+        this.emit('link:added', publicKey)
+    }
+
+    /**
+     * Stop routing over the connection to the given peer (the connection stays open)
+     */
+    removeLink(publicKey: string): void {
+        const link = this.links.get(publicKey)
+        if (!link) return
+
+        this.links.delete(publicKey)
+        link.detach()
+        this.debug(`Link removed: ${publicKey}`)
+        this.emit('link:removed', publicKey)
+    }
+
+    /**
+     * Send a signed message to any reachable peer
+     *
+     * @returns The message ID
+     * @throws If there are no links to send on
+     */
+    async send(
+        publicKey: string,
+        data: string | ArrayBuffer | Uint8Array | Blob,
+        options: MeshSendOptions = {}
+    ): Promise<string> {
+        if (typeof data === 'string') {
+            return this.route(publicKey, { data }, options)
+        }
+
+        const bytes =
+            data instanceof Blob
+                ? new Uint8Array(await data.arrayBuffer())
+                : data instanceof Uint8Array
+                  ? data
+                  : new Uint8Array(data)
+        return this.route(publicKey, { binary: this.crypto.bytesToBase64(bytes) }, options)
+    }
+
+    /**
+     * Send a signed signaling message (JSON) to any reachable peer
+     *
+     * @returns The message ID
+     * @throws If there are no links to send on
+     */
+    sendSignal(
+        publicKey: string,
+        payload: Record<string, unknown>,
+        options: MeshSendOptions = {}
+    ): Promise<string> {
+        return this.route(publicKey, { kind: 'signal', data: JSON.stringify(payload) }, options)
+    }
+
+    /**
+     * Remove all links
+     */
+    close(): void {
+        for (const publicKey of [...this.links.keys()]) {
+            this.removeLink(publicKey)
+        }
+        this.seen.clear()
+    }
+
+    private async route(
+        publicKey: string,
+        content: Pick<RoutedMessage, 'kind' | 'data' | 'binary'>,
+        options: MeshSendOptions
+    ): Promise<string> {
+        if (this.links.size === 0) {
+            throw new Error(`No route to ${publicKey}: no links`)
+        }
+
+        const message: RoutedMessage = {
+            id: `${Date.now().toString(36)}-${(this.counter++).toString(36)}-${this.crypto.bytesToHex(this.crypto.randomBytes(6))}`,
+            src: this.keyPair.publicKey,
+            dst: publicKey,
+            ts: Date.now(),
+            ttl: options.ttl ?? this.defaultTtl,
+            hops: 0,
+            ...content,
+            sig: '',
+        }
+
+        message.sig = await this.crypto.signMessage(
+            this.keyPair.privateKey,
+            this.signedContent(message)
+        )
+
+        this.markSeen(message.id)
+        this.forward(message, null)
+        return message.id
+    }
+
+    private handleFrame(via: string, raw: string): void {
+        let message: RoutedMessage
+        try {
+            message = JSON.parse(raw)
+        } catch {
+            this.debug(`Malformed routed message from ${via}`)
+            return
+        }
+        if (
+            typeof message.id !== 'string' ||
+            typeof message.src !== 'string' ||
+            typeof message.dst !== 'string' ||
+            typeof message.ttl !== 'number' ||
+            typeof message.hops !== 'number' ||
+            typeof message.ts !== 'number'
+        ) {
+            return
+        }
+
+        if (Date.now() - message.ts > this.maxMessageAge) {
+            this.debug(`Dropping expired message ${message.id}`)
+            return
+        }
+        if (this.seen.has(message.id)) return
+
+        this.crypto
+            .verifySignature(message.src, this.signedContent(message), message.sig)
+            .catch(() => false)
+            .then(valid => {
+                // Another copy may have been verified in the meantime
+                if (this.seen.has(message.id)) return
+
+                if (!valid) {
+                    this.debug(`Invalid signature on message ${message.id} from ${message.src}`)
+                    if (message.dst === this.keyPair.publicKey) {
+                        this.emit('message:rejected', message.src, message.id)
+                    }
+                    return
+                }
+                this.markSeen(message.id)
+
+                if (message.dst === this.keyPair.publicKey) {
+                    this.deliver(message, via)
+                    return
+                }
+
+                if (message.ttl > 1) {
+                    this.forward({ ...message, ttl: message.ttl - 1, hops: message.hops + 1 }, via)
+                }
+            })
+    }
+
+    private deliver(message: RoutedMessage, via: string): void {
+        if (message.kind === 'signal') {
+            this.deliverSignal(message)
+            return
+        }
+
+        const data =
+            message.binary !== undefined
+                ? this.crypto.base64ToBytes(message.binary)
+                : (message.data ?? '')
+        this.emit('message', message.src, data, {
+            id: message.id,
+            hops: message.hops + 1,
+            via,
+        })
+    }
+
+    private deliverSignal(message: RoutedMessage): void {
+        let payload: unknown
+        try {
+            payload = JSON.parse(message.data ?? '')
+        } catch {
+            this.debug(`Malformed signaling message ${message.id} from ${message.src}`)
+            return
+        }
+        if (payload && typeof payload === 'object') {
+            this.emit('signal', message.src, payload as Record<string, unknown>)
+        }
+    }
+
+    /**
+     * Send to the destination if linked, otherwise to every link except the one it came from
+     */
+    private forward(message: RoutedMessage, from: string | null): void {
+        const direct = this.links.get(message.dst)
+        const targets = direct
+            ? [direct]
+            : [...this.links.entries()]
+                  .filter(([publicKey]) => publicKey !== from && publicKey !== message.src)
+                  .map(([, link]) => link)
+
+        const raw = JSON.stringify(message)
+        for (const link of targets) {
+            try {
+                link.channel.send(raw)
+            } catch (error) {
+                this.debug('Failed to forward routed message:', error)
+            }
+        }
+    }
+
+    /**
+     * Everything but the hop fields, which relays update
+     */
+    private signedContent(message: RoutedMessage): string {
+        const payload = message.binary !== undefined ? `b:${message.binary}` : `s:${message.data}`
+        const kind = message.kind ?? 'data'
+        return `rondevu-mesh:${message.id}:${message.src}:${message.dst}:${message.ts}:${kind}:${payload}`
+    }
+
+    private markSeen(id: string): void {
+        const now = Date.now()
+        this.seen.set(id, now)
+
+        // Forget IDs old enough that the message itself would be dropped as expired
+        for (const [seenId, time] of this.seen) {
+            if (now - time <= this.maxMessageAge) break
+            this.seen.delete(seenId)
+        }
+    }
+
+    private debug(...args: unknown[]): void {
+        if (this.debugEnabled) {
+            console.log('[MeshRouter]', ...args)
+        }
+    }
+}
@@ -1,10 +1,17 @@
 import { EventEmitter } from 'eventemitter3'
 import { RondevuAPI, IceCandidate } from '../api/client.js'
+import { AnswerRejectedError } from '../api/errors.js'
 import { OffererConnection } from '../connections/offerer.js'
 import { ConnectionConfig } from '../connections/config.js'
 import { AsyncLock } from '../utils/async-lock.js'
 import { WebRTCAdapter } from '../webrtc/adapter.js'
+import { IdentityCredentials } from '../connections/identity.js'
+import { MessageBufferStorage } from '../storage/adapter.js'
+import { ConnectionState } from '../connections/events.js'
+import { SignalingCipher } from '../crypto/e2e.js'
+import { encodeEncryptedCandidates } from '../connections/signaler.js'
 import type { PollAnswerEvent, PollIceEvent } from './polling-manager.js'
+import type { AcceptAnswerHook, AnswerRejectionReason } from './rondevu-types.js'
 
 export type OfferFactory = (pc: RTCPeerConnection) => Promise<{
     dc?: RTCDataChannel
@@ -22,6 +29,10 @@ export interface OfferPoolOptions {
     iceTransportPolicy?: RTCIceTransportPolicy
     webrtcAdapter: WebRTCAdapter
     connectionConfig?: Partial<ConnectionConfig>
+    /** Local identity, used when connectionConfig.verifyIdentity is enabled */
+    identity?: IdentityCredentials
+    /** Persistent storage for queued outgoing messages */
+    messageStorage?: MessageBufferStorage
     debugEnabled?: boolean
     /**
      * Delay in milliseconds between creating each offer during pool filling.
@@ -29,6 +40,17 @@ export interface OfferPoolOptions {
      * Default: 100ms
      */
     offerCreationThrottleMs?: number
+    /**
+     * Only accept answers from these public keys. Each offer is encrypted to one of
+     * them in turn (when identity and signaling encryption are available).
+     */
+    allowedPeers?: string[]
+    /** Public keys whose answers are always rejected */
+    deniedPeers?: string[]
+    /** Maximum number of simultaneous connections from the same public key */
+    maxConnectionsPerPeer?: number
+    /** Custom admission policy, consulted after the built-in checks */
+    acceptAnswer?: AcceptAnswerHook
 }
 
 interface OfferPoolEvents {
@@ -39,6 +61,7 @@ interface OfferPoolEvents {
     ) => void
     'offer:created': (offerId: string, tags: string[]) => void
     'offer:failed': (offerId: string, error: Error) => void
+    'answer:rejected': (offerId: string, publicKey: string, reason: AnswerRejectionReason) => void
     'connection:rotated': (
         oldOfferId: string,
         newOfferId: string,
@@ -46,6 +69,99 @@ interface OfferPoolEvents {
     ) => void
 }
 
+export interface PublishOfferOptions {
+    api: RondevuAPI
+    tags: string[]
+    offerFactory: OfferFactory
+    ttl: number
+    rtcConfig: RTCConfiguration
+    webrtcAdapter: WebRTCAdapter
+    /** Encrypt the offer and its early candidates so only this peer can read them */
+    encryptTo?: { publicKey: string; cipher: SignalingCipher }
+    debug?: (...args: unknown[]) => void
+}
+
+export interface PublishedOffer {
+    offerId: string
+    pc: RTCPeerConnection
+    dc?: RTCDataChannel
+}
+
+/**
+ * Create an RTCPeerConnection, run the offer factory and publish the offer.
+ * ICE candidates gathered before the offer ID is known are sent right after publishing.
+ */
+export async function publishOffer(options: PublishOfferOptions): Promise<PublishedOffer> {
+    const { api } = options
+
+    // 1. Create RTCPeerConnection using adapter
+    const pc = options.webrtcAdapter.createPeerConnection(options.rtcConfig)
+
+    // Collect ICE candidates during offer creation
+    // We need to set this up BEFORE setLocalDescription is called
+    const collectedCandidates: RTCIceCandidateInit[] = []
+    pc.onicecandidate = event => {
+        if (event.candidate) {
+            collectedCandidates.push({
+                candidate: event.candidate.candidate,
+                sdpMLineIndex: event.candidate.sdpMLineIndex,
+                sdpMid: event.candidate.sdpMid,
+            })
+        }
+    }
+
+    // 2. Call the factory to create offer
+    let dc: RTCDataChannel | undefined
+    let offer: RTCSessionDescriptionInit
+    try {
+        const factoryResult = await options.offerFactory(pc)
+        dc = factoryResult.dc
+        offer = factoryResult.offer
+    } catch (err) {
+        pc.close()
+        throw err
+    }
+
+    // 3. Publish to server to get offerId
+    const { encryptTo } = options
+    let sdp = offer.sdp!
+    if (encryptTo) {
+        try {
+            sdp = await encryptTo.cipher.encrypt(encryptTo.publicKey, sdp)
+        } catch (err) {
+            pc.close()
+            throw err
+        }
+    }
+
+    const result = await api.publish({
+        tags: options.tags,
+        offers: [{ sdp }],
+        ttl: options.ttl,
+    })
+
+    const offerId = result.offers[0].offerId
+
+    // 4. Send any ICE candidates we've already collected
+    if (collectedCandidates.length > 0) {
+        options.debug?.(
+            `Sending ${collectedCandidates.length} early ICE candidates for offer ${offerId}`
+        )
+        const sealed = encryptTo
+            ? encryptTo.cipher
+                  .encrypt(encryptTo.publicKey, JSON.stringify(collectedCandidates))
+                  .then(encrypted => [encodeEncryptedCandidates(encrypted)])
+            : Promise.resolve(collectedCandidates)
+        sealed
+            .then(candidates => api.addOfferIceCandidates(offerId, candidates))
+            .catch(err => {
+                options.debug?.('Failed to send early ICE candidates:', err)
+            })
+    }
+
+    return { offerId, pc, dc }
+}
+
 /**
  * OfferPool manages a pool of WebRTC offers for published tags.
  * Maintains a target number of active offers and automatically replaces
@@ -62,8 +178,15 @@ export class OfferPool extends EventEmitter<OfferPoolEvents> {
     private readonly iceTransportPolicy?: RTCIceTransportPolicy
     private readonly webrtcAdapter: WebRTCAdapter
     private readonly connectionConfig?: Partial<ConnectionConfig>
+    private readonly identity?: IdentityCredentials
+    private readonly messageStorage?: MessageBufferStorage
     private readonly debugEnabled: boolean
     private readonly offerCreationThrottleMs: number
+    private readonly allowedPeers: string[] | null
+    private readonly deniedPeers: Set<string>
+    private readonly maxConnectionsPerPeer?: number
+    private readonly acceptAnswer?: AcceptAnswerHook
+    private readonly cipher: SignalingCipher | null
 
     // State
     private readonly activeConnections = new Map<string, OffererConnection>()
@@ -71,6 +194,7 @@ export class OfferPool extends EventEmitter<OfferPoolEvents> {
     private readonly matchedTagsByOffer = new Map<string, string[]>() // Track matchedTags from answers
     private readonly fillLock = new AsyncLock()
     private running = false
+    private nextRecipient = 0 // Round-robin index into allowedPeers
 
     constructor(options: OfferPoolOptions) {
         super()
@@ -84,8 +208,18 @@ export class OfferPool extends EventEmitter<OfferPoolEvents> {
         this.iceServers = options.iceServers
         this.iceTransportPolicy = options.iceTransportPolicy
         this.connectionConfig = options.connectionConfig
+        this.identity = options.identity
+        this.messageStorage = options.messageStorage
         this.debugEnabled = options.debugEnabled || false
         this.offerCreationThrottleMs = options.offerCreationThrottleMs ?? 100
+        this.allowedPeers = options.allowedPeers?.length ? [...options.allowedPeers] : null
+        this.deniedPeers = new Set(options.deniedPeers)
+        this.maxConnectionsPerPeer = options.maxConnectionsPerPeer
+        this.acceptAnswer = options.acceptAnswer
+        this.cipher =
+            this.allowedPeers && options.identity && options.connectionConfig?.encryptSignaling
+                ? new SignalingCipher(options.identity.keyPair, options.identity.crypto)
+                : null
     }
 
     /**
@@ -222,79 +356,49 @@ export class OfferPool extends EventEmitter<OfferPoolEvents> {
      * Create and publish an offer to the server.
      * Shared logic used by both createOffer() and createNewOfferForRotation().
      *
+     * @param recipient - Allowed peer to encrypt the offer to, if any
      * @returns The offer ID, RTCPeerConnection, and optional data channel
      */
-    private async createOfferAndPublish(): Promise<{
-        offerId: string
-        pc: RTCPeerConnection
-        dc?: RTCDataChannel
-    }> {
-        const rtcConfig: RTCConfiguration = {
-            iceServers: this.iceServers,
-            iceTransportPolicy: this.iceTransportPolicy,
-        }
-
-        // 1. Create RTCPeerConnection using adapter
-        const pc = this.webrtcAdapter.createPeerConnection(rtcConfig)
-
-        // Collect ICE candidates during offer creation
-        // We need to set this up BEFORE setLocalDescription is called
-        const collectedCandidates: RTCIceCandidateInit[] = []
-        pc.onicecandidate = event => {
-            if (event.candidate) {
-                collectedCandidates.push({
-                    candidate: event.candidate.candidate,
-                    sdpMLineIndex: event.candidate.sdpMLineIndex,
-                    sdpMid: event.candidate.sdpMid,
-                })
-            }
-        }
-
-        // 2. Call the factory to create offer
-        let dc: RTCDataChannel | undefined
-        let offer: RTCSessionDescriptionInit
-        try {
-            const factoryResult = await this.offerFactory(pc)
-            dc = factoryResult.dc
-            offer = factoryResult.offer
-        } catch (err) {
-            pc.close()
-            throw err
-        }
-
-        // 3. Publish to server to get offerId
-        const result = await this.api.publish({
+    private createOfferAndPublish(recipient?: string): Promise<PublishedOffer> {
+        return publishOffer({
+            api: this.api,
             tags: this.tags,
-            offers: [{ sdp: offer.sdp! }],
+            offerFactory: this.offerFactory,
             ttl: this.ttl,
+            rtcConfig: {
+                iceServers: this.iceServers,
+                iceTransportPolicy: this.iceTransportPolicy,
+            },
+            webrtcAdapter: this.webrtcAdapter,
+            encryptTo:
+                recipient && this.cipher
+                    ? { publicKey: recipient, cipher: this.cipher }
+                    : undefined,
+            debug: (...args) => this.debug(...args),
         })
+    }
 
-        const offerId = result.offers[0].offerId
-
-        // 4. Send any ICE candidates we've already collected
-        if (collectedCandidates.length > 0) {
-            this.debug(
-                `Sending ${collectedCandidates.length} early ICE candidates for offer ${offerId}`
-            )
-            this.api.addOfferIceCandidates(offerId, collectedCandidates).catch(err => {
-                this.debug('Failed to send early ICE candidates:', err)
-            })
-        }
-
-        return { offerId, pc, dc }
+    /**
+     * Pick the allowed peer the next offer is addressed to (round-robin)
+     */
+    private pickRecipient(): string | undefined {
+        if (!this.allowedPeers) return undefined
+        const recipient = this.allowedPeers[this.nextRecipient % this.allowedPeers.length]
+        this.nextRecipient++
+        return recipient
     }
 
     /**
      * Create a new offer for rotation (reuses existing creation logic)
      * Similar to createOffer() but only creates the offer, doesn't create connection
      */
-    private async createNewOfferForRotation(): Promise<{
+    private async createNewOfferForRotation(recipient?: string): Promise<{
         newOfferId: string
         pc: RTCPeerConnection
         dc?: RTCDataChannel
     }> {
         this.debug('Creating new offer for rotation...')
-        const { offerId, pc, dc } = await this.createOfferAndPublish()
+        const { offerId, pc, dc } = await this.createOfferAndPublish(recipient)
         this.debug(`New offer created for rotation: ${offerId}`)
         return { newOfferId: offerId, pc, dc }
     }
@@ -304,7 +408,8 @@ export class OfferPool extends EventEmitter<OfferPoolEvents> {
      */
     private async createOffer(): Promise<void> {
         this.debug('Creating new offer...')
-        const { offerId, pc, dc } = await this.createOfferAndPublish()
+        const recipient = this.pickRecipient()
+        const { offerId, pc, dc } = await this.createOfferAndPublish(recipient)
 
         // Create OffererConnection instance
         const connection = new OffererConnection({
@@ -318,6 +423,9 @@ export class OfferPool extends EventEmitter<OfferPoolEvents> {
                 ...this.connectionConfig,
                 debug: this.debugEnabled,
             },
+            identity: this.identity,
+            messageStorage: this.messageStorage,
+            recipientPublicKey: this.cipher ? recipient : undefined,
         })
 
         // Setup connection event handlers
@@ -345,48 +453,7 @@ export class OfferPool extends EventEmitter<OfferPoolEvents> {
             }
 
             this.debug(`Proceeding with rotation for offer ${currentOfferId}`)
-
-            // Track new RTCPeerConnection for cleanup if rotation fails
-            let newPcForCleanup: RTCPeerConnection | null = null
-
-            try {
-                // Create new offer and rebind existing connection
-                const { newOfferId, pc, dc } = await this.createNewOfferForRotation()
-                newPcForCleanup = pc // Track for cleanup if rebind fails
-
-                // Rebind the connection to new offer (this closes the old pc)
-                await connection.rebindToOffer(newOfferId, pc, dc)
-                newPcForCleanup = null // Rebind succeeded, pc is now managed by connection
-
-                // Update map: remove old offerId, add new offerId with same connection
-                this.activeConnections.delete(currentOfferId)
-                this.activeConnections.set(newOfferId, connection)
-
-                // Track rotation so late-arriving answers for old offerId can be forwarded
-                this.rotatedOfferIds.set(currentOfferId, newOfferId)
-
-                this.emit('connection:rotated', currentOfferId, newOfferId, connection)
-                this.debug(`Connection rotated: ${currentOfferId} → ${newOfferId}`)
-            } catch (rotationError) {
-                // If rotation fails, clean up all RTCPeerConnections to prevent resource leak
-                this.debug(`Rotation failed for ${currentOfferId}:`, rotationError)
-
-                // Close the new pc if it was created but rebind failed
-                if (newPcForCleanup) {
-                    try {
-                        newPcForCleanup.close()
-                    } catch {
-                        // Ignore close errors
-                    }
-                }
-
-                // Close the old connection (closes its RTCPeerConnection)
-                connection.close()
-
-                this.activeConnections.delete(currentOfferId)
-                this.emit('offer:failed', currentOfferId, error)
-                this.fillOffers() // Create replacement
-            }
+            await this.rotateConnection(connection, currentOfferId, error)
         })
 
         connection.on('closed', () => {
@@ -405,6 +472,60 @@ export class OfferPool extends EventEmitter<OfferPoolEvents> {
         this.emit('offer:created', offerId, this.tags)
     }
 
+    /**
+     * Publish a new offer and rebind the connection to it, or close the connection
+     * (and replace it) if that fails
+     */
+    private async rotateConnection(
+        connection: OffererConnection,
+        currentOfferId: string,
+        error: Error
+    ): Promise<void> {
+        // Track new RTCPeerConnection for cleanup if rotation fails
+        let newPcForCleanup: RTCPeerConnection | null = null
+
+        try {
+            // Create new offer and rebind existing connection
+            const { newOfferId, pc, dc } = await this.createNewOfferForRotation(
+                connection.getRecipientPublicKey() ?? undefined
+            )
+            newPcForCleanup = pc // Track for cleanup if rebind fails
+
+            // Rebind the connection to new offer (this closes the old pc)
+            await connection.rebindToOffer(newOfferId, pc, dc)
+            newPcForCleanup = null // Rebind succeeded, pc is now managed by connection
+
+            // Update map: remove old offerId, add new offerId with same connection
+            this.activeConnections.delete(currentOfferId)
+            this.activeConnections.set(newOfferId, connection)
+
+            // Track rotation so late-arriving answers for old offerId can be forwarded
+            this.rotatedOfferIds.set(currentOfferId, newOfferId)
+
+            this.emit('connection:rotated', currentOfferId, newOfferId, connection)
+            this.debug(`Connection rotated: ${currentOfferId} → ${newOfferId}`)
+        } catch (rotationError) {
+            // If rotation fails, clean up all RTCPeerConnections to prevent resource leak
+            this.debug(`Rotation failed for ${currentOfferId}:`, rotationError)
+
+            // Close the new pc if it was created but rebind failed
+            if (newPcForCleanup) {
+                try {
+                    newPcForCleanup.close()
+                } catch {
+                    // Ignore close errors
+                }
+            }
+
+            // Close the old connection (closes its RTCPeerConnection)
+            connection.close()
+
+            this.activeConnections.delete(currentOfferId)
+            this.emit('offer:failed', currentOfferId, error)
+            this.fillOffers() // Create replacement
+        }
+    }
+
     /**
      * Handle poll:answer event from PollingManager
      * Called by Rondevu when a poll:answer event is received
@@ -430,6 +551,33 @@ export class OfferPool extends EventEmitter<OfferPoolEvents> {
             }
         }
 
+        if (connection) {
+            const rejection = await this.checkAdmission(data, effectiveOfferId, connection)
+            if (!this.running) return
+            if (rejection) {
+                this.debug(
+                    `Rejected answer for offer ${data.offerId} from ${data.answererPublicKey} (${rejection})`
+                )
+                this.emit('answer:rejected', data.offerId, data.answererPublicKey, rejection)
+
+                // The answer used up the offer; publish a new one if we were still waiting on it
+                if (
+                    data.offerId === effectiveOfferId &&
+                    connection.getState() === ConnectionState.SIGNALING
+                ) {
+                    await this.rotateConnection(
+                        connection,
+                        effectiveOfferId,
+                        new AnswerRejectedError(
+                            `Answer from ${data.answererPublicKey} rejected: ${rejection}`,
+                            rejection
+                        )
+                    )
+                }
+                return
+            }
+        }
+
         if (connection) {
             this.debug(`Processing answer for offer ${effectiveOfferId}`)
 
@@ -450,6 +598,44 @@ export class OfferPool extends EventEmitter<OfferPoolEvents> {
         // Silently ignore answers for offers we don't have - they may be for other connections
     }
 
+    /**
+     * Run the admission checks for an answer
+     * @returns Why the answer is rejected, or null to accept it
+     */
+    private async checkAdmission(
+        data: PollAnswerEvent,
+        offerId: string,
+        connection: OffererConnection
+    ): Promise<AnswerRejectionReason | null> {
+        const publicKey = data.answererPublicKey
+
+        // Repeated delivery of the answer we already accepted
+        if (connection.peerPublicKey === publicKey) return null
+
+        if (this.allowedPeers && !this.allowedPeers.includes(publicKey)) return 'not-allowed'
+        if (this.deniedPeers.has(publicKey)) return 'denied'
+
+        if (this.maxConnectionsPerPeer !== undefined) {
+            let count = 0
+            for (const other of this.activeConnections.values()) {
+                if (other !== connection && other.peerPublicKey === publicKey) count++
+            }
+            if (count >= this.maxConnectionsPerPeer) return 'connection-limit'
+        }
+
+        if (this.acceptAnswer) {
+            try {
+                const accepted = await this.acceptAnswer(publicKey, data.matchedTags, offerId)
+                if (!accepted) return 'policy'
+            } catch (err) {
+                this.debug(`acceptAnswer failed for ${publicKey}, rejecting:`, err)
+                return 'policy'
+            }
+        }
+
+        return null
+    }
+
     /**
      * Handle poll:ice event from PollingManager
      * Called by Rondevu when a poll:ice event is received
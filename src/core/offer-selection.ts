@@ -0,0 +1,173 @@
+/**
+ * Offer selection strategies for rondevu.peer()
+ *
+ * A strategy ranks the discovered offers, best first; the peer answers the first one.
+ */
+
+import type { TaggedOffer } from '../api/client.js'
+
+/**
+ * Built-in offer selection strategy names
+ */
+export type OfferSelectionStrategy =
+    | 'random'
+    | 'freshest'
+    | 'most-tags'
+    | 'avoid-connected'
+    | 'round-robin'
+    | 'lowest-rtt'
+
+/**
+ * What a strategy knows besides the offers themselves
+ */
+export interface OfferSelectionContext {
+    /** Tags we searched for */
+    tags: string[]
+    /** Public keys we currently have open connections with */
+    connectedPeers: ReadonlySet<string>
+    /** What we learned about peers in past sessions */
+    stats: PeerStats
+}
+
+/**
+ * Rank offers, best first (offers left out are not answered)
+ */
+export type OfferSelector = (
+    offers: TaggedOffer[],
+    context: OfferSelectionContext
+) => TaggedOffer[] | Promise<TaggedOffer[]>
+
+/**
+ * Statistics kept per remote public key
+ */
+export interface PeerStatsEntry {
+    /** Smoothed round-trip time of past connections (ms) */
+    rtt?: number
+    /** When one of the peer's offers was last selected (ms since epoch) */
+    lastSelectedAt?: number
+}
+
+/**
+ * Per-peer statistics used by the selection strategies. Pass the same instance to
+ * several Rondevu instances (RondevuOptions.peerStats) to keep them across sessions.
+ */
+export class PeerStats {
+    // Weight of a new RTT sample in the moving average
+    private static readonly RTT_SMOOTHING = 0.3
+
+    private readonly entries = new Map<string, PeerStatsEntry>()
+
+    constructor(initial?: Record<string, PeerStatsEntry>) {
+        for (const [publicKey, entry] of Object.entries(initial ?? {})) {
+            this.entries.set(publicKey, { ...entry })
+        }
+    }
+
+    get(publicKey: string): PeerStatsEntry | undefined {
+        return this.entries.get(publicKey)
+    }
+
+    /**
+     * Record a round-trip time measured on a connection to the peer
+     */
+    recordRtt(publicKey: string, rtt: number): void {
+        const entry = this.entry(publicKey)
+        entry.rtt =
+            entry.rtt === undefined ? rtt : entry.rtt + PeerStats.RTT_SMOOTHING * (rtt - entry.rtt)
+    }
+
+    /**
+     * Record that one of the peer's offers was selected
+     */
+    recordSelection(publicKey: string): void {
+        this.entry(publicKey).lastSelectedAt = Date.now()
+    }
+
+    /**
+     * Plain snapshot of all entries, e.g. to persist and pass back to the constructor
+     */
+    toJSON(): Record<string, PeerStatsEntry> {
+        return Object.fromEntries(
+            [...this.entries].map(([publicKey, entry]) => [publicKey, { ...entry }])
+        )
+    }
+
+    private entry(publicKey: string): PeerStatsEntry {
+        let entry = this.entries.get(publicKey)
+        if (!entry) {
+            entry = {}
+            this.entries.set(publicKey, entry)
+        }
+        return entry
+    }
+}
+
+/**
+ * Shuffle the offers, then sort by descending score (ties stay in random order)
+ */
+function rankBy(offers: TaggedOffer[], score: (offer: TaggedOffer) => number): TaggedOffer[] {
+    const scored = offers.map(offer => ({ offer, score: score(offer) }))
+    for (let i = scored.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1))
+        ;[scored[i], scored[j]] = [scored[j], scored[i]]
+    }
+    return scored
+        .sort((a, b) => (a.score === b.score ? 0 : a.score > b.score ? -1 : 1))
+        .map(({ offer }) => offer)
+}
+
+/**
+ * Built-in strategies.
+ *
+ * - `random`: Any offer (default)
+ * - `freshest`: Most recently published offers first, the least likely to be stale
+ * - `most-tags`: Offers matching the most of our search tags first
+ * - `avoid-connected`: Offers from peers we have no connection with yet first
+ * - `round-robin`: Offers from the peers we selected least recently first
+ * - `lowest-rtt`: Offers from peers with the lowest past round-trip time first
+ */
+export const OFFER_SELECTORS: Record<OfferSelectionStrategy, OfferSelector> = {
+    random: offers => rankBy(offers, () => 0),
+    freshest: offers => rankBy(offers, offer => offer.createdAt),
+    'most-tags': (offers, { tags }) =>
+        rankBy(offers, offer => tags.filter(tag => offer.tags.includes(tag)).length),
+    'avoid-connected': (offers, { connectedPeers }) =>
+        rankBy(offers, offer => (connectedPeers.has(offer.publicKey) ? 0 : 1)),
+    'round-robin': (offers, { stats }) =>
+        rankBy(offers, offer => -(stats.get(offer.publicKey)?.lastSelectedAt ?? 0)),
+    'lowest-rtt': (offers, { stats }) =>
+        rankBy(offers, offer => -(stats.get(offer.publicKey)?.rtt ?? Infinity)),
+}
+
+/**
+ * Resolve a strategy name or custom selector
+ */
+export function resolveOfferSelector(
+    strategy: OfferSelectionStrategy | OfferSelector = 'random'
+): OfferSelector {
+    if (typeof strategy === 'function') return strategy
+    const selector = OFFER_SELECTORS[strategy]
+    if (!selector) {
+        throw new Error(`Unknown offer selection strategy: ${strategy}`)
+    }
+    return selector
+}
+
+/**
+ * Current round-trip time of the selected ICE candidate pair, if known (ms)
+ */
+export async function measureRoundTripTime(pc: RTCPeerConnection): Promise<number | null> {
+    const stats = await pc.getStats()
+    let rtt: number | null = null
+    stats.forEach(report => {
+        if (
+            report.type === 'candidate-pair' &&
+            report.nominated &&
+            report.state === 'succeeded' &&
+            typeof report.currentRoundTripTime === 'number'
+        ) {
+            rtt = report.currentRoundTripTime * 1000
+        }
+    })
+    return rtt
+}
@@ -6,11 +6,27 @@
  */
 
 import { EventEmitter } from 'eventemitter3'
-import { RondevuAPI, DiscoverResponse, TaggedOffer } from '../api/client.js'
+import { RondevuAPI, DiscoverResponse, TaggedOffer, IceCandidate } from '../api/client.js'
+import { ConnectionFailedError, NoPeersError } from '../api/errors.js'
 import { AnswererConnection } from '../connections/answerer.js'
+import { OffererConnection } from '../connections/offerer.js'
 import { ConnectionConfig } from '../connections/config.js'
 import { ConnectionState } from '../connections/events.js'
 import { WebRTCAdapter } from '../webrtc/adapter.js'
+import { IdentityCredentials } from '../connections/identity.js'
+import { MessageBufferStorage } from '../storage/adapter.js'
+import { ConnectionSignaler } from '../connections/signaler.js'
+import { SignalingCipher, isEncryptedSignal } from '../crypto/e2e.js'
+import {
+    OfferSelectionStrategy,
+    OfferSelector,
+    PeerStats,
+    resolveOfferSelector,
+} from './offer-selection.js'
+import { ChannelOptions, NamedChannel } from '../connections/channels.js'
+import { PeerRpc } from '../connections/rpc.js'
+import { MessageStreamChunk, MessageStreams, createMessageStreams } from '../connections/streams.js'
+import { IncomingTransfer, OutgoingTransfer, TransferOptions } from '../connections/transfer.js'
 
 /**
  * Simplified peer state (maps from ConnectionState)
@@ -39,6 +55,14 @@ export interface PeerEventMap {
     error: [error: Error]
     /** Emitted when reconnection is attempted */
     reconnecting: [attempt: number, maxAttempts: number]
+    /** Emitted when the remote peer fails to prove its public key (connection is closed) */
+    'identity:failed': [error: Error]
+    /** Emitted when the remote peer opens a named channel */
+    channel: [channel: NamedChannel]
+    /** Emitted when the remote peer starts sending a file or stream */
+    transfer: [transfer: IncomingTransfer]
+    /** Emitted when the remote peer adds a media track */
+    track: [event: RTCTrackEvent]
 }
 
 export type PeerEventName = keyof PeerEventMap
@@ -61,6 +85,15 @@ export interface PeerOptions {
      * before the connection opens (e.g., control channels).
      */
     onPeerConnectionCreated?: (pc: RTCPeerConnection) => void
+    /** How to pick among the discovered offers: a built-in strategy or a custom ranking (default: 'random') */
+    selectOffer?: OfferSelectionStrategy | OfferSelector
+    /**
+     * Answer this many of the top-ranked offers at once and keep the first connection
+     * that opens; the others are closed and release the offers they answered
+     * (default: 1). initialize() then resolves once connected rather than once the
+     * answer is sent.
+     */
+    raceOffers?: number
 }
 
 /**
@@ -71,6 +104,16 @@ export interface PeerInternalOptions extends PeerOptions {
     iceServers: RTCIceServer[]
     iceTransportPolicy?: RTCIceTransportPolicy
     webrtcAdapter?: WebRTCAdapter
+    identity?: IdentityCredentials
+    messageStorage?: MessageBufferStorage
+    /** Signaling after the initial discovery (default: the Rondevu server) */
+    signaler?: ConnectionSignaler
+    /** Per-peer statistics for offer selection */
+    peerStats?: PeerStats
+    /** Public keys we currently have open connections with */
+    getConnectedPeers?: () => ReadonlySet<string>
+    /** Called whenever the state of a connection created by initialize() changes */
+    onConnectionStateChanged?: () => void
     debug?: boolean
 }
 
@@ -103,7 +146,7 @@ export interface PeerInternalOptions extends PeerOptions {
  * ```
  */
 export class Peer extends EventEmitter<PeerEventMap> {
-    private connection: AnswererConnection | null = null
+    private connection: AnswererConnection | OffererConnection | null = null
     private api: RondevuAPI
     private tags: string[]
     private targetPublicKey?: string
@@ -111,8 +154,20 @@ export class Peer extends EventEmitter<PeerEventMap> {
     private iceTransportPolicy?: RTCIceTransportPolicy
     private webrtcAdapter?: WebRTCAdapter
     private connectionConfig?: Partial<ConnectionConfig>
+    private identity?: IdentityCredentials
+    private messageStorage?: MessageBufferStorage
+    private signaler?: ConnectionSignaler
     private debugEnabled: boolean
     private onPeerConnectionCreated?: (pc: RTCPeerConnection) => void
+    private selectOffer: OfferSelector
+    private peerStats: PeerStats
+    private getConnectedPeers: () => ReadonlySet<string>
+    private raceOffers: number
+    private onConnectionStateChanged?: () => void
+    // Connections answering offers concurrently until one of them opens
+    private racers: AnswererConnection[] = []
+
+    private streams: MessageStreams | null = null
 
     private _state: PeerState = 'connecting'
     private _peerPublicKey: string = ''
@@ -127,8 +182,16 @@ export class Peer extends EventEmitter<PeerEventMap> {
         this.iceTransportPolicy = options.iceTransportPolicy
         this.webrtcAdapter = options.webrtcAdapter
         this.connectionConfig = options.config
+        this.identity = options.identity
+        this.messageStorage = options.messageStorage
+        this.signaler = options.signaler
         this.debugEnabled = options.debug || false
         this.onPeerConnectionCreated = options.onPeerConnectionCreated
+        this.selectOffer = resolveOfferSelector(options.selectOffer)
+        this.peerStats = options.peerStats ?? new PeerStats()
+        this.getConnectedPeers = options.getConnectedPeers ?? (() => new Set())
+        this.raceOffers = Math.max(1, options.raceOffers ?? 1)
+        this.onConnectionStateChanged = options.onConnectionStateChanged
     }
 
     /**
@@ -147,7 +210,7 @@ export class Peer extends EventEmitter<PeerEventMap> {
         })) as DiscoverResponse
 
         if (!result.offers || result.offers.length === 0) {
-            throw new Error(`No peers found for tags: ${this.tags.join(', ')}`)
+            throw new NoPeersError(`No peers found for tags: ${this.tags.join(', ')}`)
         }
 
         // Filter by publicKey if specified
@@ -157,19 +220,131 @@ export class Peer extends EventEmitter<PeerEventMap> {
                 (o: TaggedOffer) => o.publicKey === this.targetPublicKey
             )
             if (availableOffers.length === 0) {
-                throw new Error(
+                throw new NoPeersError(
                     `No peers found for tags: ${this.tags.join(', ')} from ${this.targetPublicKey}`
                 )
             }
         }
 
-        // Pick a random offer
-        const offer = availableOffers[Math.floor(Math.random() * availableOffers.length)]
+        // Skip offers encrypted to someone else (see OfferOptions.allowedPeers)
+        availableOffers = await this.filterReadableOffers(availableOffers)
+        if (availableOffers.length === 0) {
+            throw new NoPeersError(`No offers addressed to us for tags: ${this.tags.join(', ')}`)
+        }
+
+        // Rank the offers and answer the best one(s)
+        const ranked = await this.selectOffer(availableOffers, {
+            tags: this.tags,
+            connectedPeers: this.getConnectedPeers(),
+            stats: this.peerStats,
+        })
+        if (ranked.length === 0) {
+            throw new NoPeersError(`No offer selected for tags: ${this.tags.join(', ')}`)
+        }
+
+        if (this.raceOffers > 1 && ranked.length > 1) {
+            await this.race(ranked.slice(0, this.raceOffers))
+            return
+        }
+
+        const offer = ranked[0]
+        this.select(offer)
+        this.connection = this.createConnection(offer)
+
+        // Wire up events
+        this.setupEventHandlers()
+
+        // Start connection (release the RTCPeerConnection if the offer was taken meanwhile)
+        try {
+            await this.connection.initialize()
+        } catch (error) {
+            this.connection.close()
+            throw error
+        }
+    }
+
+    /**
+     * Answer several offers at once and keep the first connection that opens
+     */
+    private async race(offers: TaggedOffer[]): Promise<void> {
+        this.debug(`Racing ${offers.length} offers: ${offers.map(o => o.offerId).join(', ')}`)
+
+        const racers = offers.map(offer => ({ offer, connection: this.createConnection(offer) }))
+        this.racers = racers.map(racer => racer.connection)
+
+        let winner: (typeof racers)[number] | null = null
+        try {
+            winner = await new Promise<(typeof racers)[number]>((resolve, reject) => {
+                const lost = new Set<AnswererConnection>()
+                let settled = false
+                const lose = (racer: (typeof racers)[number], error: unknown) => {
+                    if (settled || lost.has(racer.connection)) return
+                    lost.add(racer.connection)
+                    this.debug(`Offer ${racer.offer.offerId} dropped out of the race:`, error)
+                    if (lost.size === racers.length) {
+                        settled = true
+                        reject(
+                            new ConnectionFailedError(
+                                `None of ${racers.length} raced offers connected`
+                            )
+                        )
+                    }
+                }
+
+                for (const racer of racers) {
+                    racer.connection.once('connected', () => {
+                        if (settled) return
+                        settled = true
+                        resolve(racer)
+                    })
+                    racer.connection.once('failed', error => lose(racer, error))
+                    racer.connection.once('closed', reason => lose(racer, reason))
+                    racer.connection.initialize().catch(error => lose(racer, error))
+                }
+            })
+        } finally {
+            this.racers = []
+
+            // Close the rest once the current event has been handled (a connection that
+            // just failed schedules its reconnect right after emitting 'failed'), and
+            // release the offers they answered so their owners can replace them
+            const losers = racers.filter(racer => racer !== winner)
+            setTimeout(() => {
+                for (const racer of losers) racer.connection.release()
+            }, 0)
+        }
+
+        this.debug(`Offer ${winner.offer.offerId} won the race`)
+        this.select(winner.offer)
+        this.connection = winner.connection
+        this.setupEventHandlers()
+
+        // Already connected: let listeners added right after initialize() see the
+        // state change and 'open', in the same order as without racing
+        const previousState = this._state
+        this._state = 'connected'
+        setTimeout(() => {
+            if (this._state !== 'connected') return
+            this.emit('state', 'connected', previousState)
+            this.emit('open')
+        }, 0)
+    }
+
+    /**
+     * Remember the offer we are going with
+     */
+    private select(offer: TaggedOffer): void {
+        this.peerStats.recordSelection(offer.publicKey)
         this._peerPublicKey = offer.publicKey
         this._offerId = offer.offerId
 
         this.debug(`Selected offer ${offer.offerId} from ${offer.publicKey}`)
+    }
 
+    /**
+     * Create the AnswererConnection for an offer
+     */
+    private createConnection(offer: TaggedOffer): AnswererConnection {
         // Find which of our search tags actually exist on the offer (exact match)
         const actualMatchedTags = this.tags.filter(searchTag => offer.tags.includes(searchTag))
 
@@ -177,8 +352,7 @@ export class Peer extends EventEmitter<PeerEventMap> {
             `Matched tags: ${actualMatchedTags.join(', ')} (from search: ${this.tags.join(', ')})`
         )
 
-        // Create the underlying AnswererConnection
-        this.connection = new AnswererConnection({
+        const connection = new AnswererConnection({
             api: this.api,
             ownerPublicKey: offer.publicKey,
             tags: offer.tags,
@@ -195,17 +369,54 @@ export class Peer extends EventEmitter<PeerEventMap> {
             },
             matchedTags: actualMatchedTags.length > 0 ? actualMatchedTags : undefined,
             onPeerConnectionCreated: this.onPeerConnectionCreated,
+            identity: this.identity,
+            messageStorage: this.messageStorage,
+            signaler: this.signaler,
         })
+        connection.on('state:changed', () => this.onConnectionStateChanged?.())
+        return connection
+    }
 
-        // Wire up events
-        this.setupEventHandlers()
+    /**
+     * Keep the offers that are either plain or encrypted to our identity
+     */
+    private async filterReadableOffers(offers: TaggedOffer[]): Promise<TaggedOffer[]> {
+        if (!offers.some(offer => isEncryptedSignal(offer.sdp))) return offers
+
+        const cipher = this.identity
+            ? new SignalingCipher(this.identity.keyPair, this.identity.crypto)
+            : null
+        const readable = await Promise.all(
+            offers.map(offer => {
+                if (!isEncryptedSignal(offer.sdp)) return true
+                if (!cipher) return false
+                return cipher.decrypt(offer.publicKey, offer.sdp).then(
+                    () => true,
+                    () => false
+                )
+            })
+        )
+        return offers.filter((_, i) => readable[i])
+    }
 
-        // Start connection
-        await this.connection.initialize()
+    /**
+     * Use a connection negotiated by Rondevu.connectTo() instead of discovering one
+     * (either side may have ended up as the offerer)
+     * @internal
+     */
+    adopt(connection: AnswererConnection | OffererConnection): void {
+        if (this.connection) {
+            throw new Error('Peer already has a connection')
+        }
+        this.connection = connection
+        this._peerPublicKey = this.targetPublicKey ?? ''
+        this._offerId = connection.getOfferId()
+        this._state = this.mapState(connection.getState())
+        this.setupEventHandlers()
     }
 
     /**
-     * Setup event handlers to forward from AnswererConnection
+     * Setup event handlers to forward from the underlying connection
      */
     private setupEventHandlers(): void {
         if (!this.connection) return
@@ -242,6 +453,21 @@ export class Peer extends EventEmitter<PeerEventMap> {
             this.emit('message', data)
         })
 
+        // Forward named channels opened by the remote peer
+        this.connection.on('channel', channel => {
+            this.emit('channel', channel)
+        })
+
+        // Forward remote media tracks
+        this.connection.on('track', event => {
+            this.emit('track', event)
+        })
+
+        // Forward incoming file/stream transfers
+        this.connection.on('transfer', transfer => {
+            this.emit('transfer', transfer)
+        })
+
         // Forward reconnection events
         this.connection.on('reconnect:scheduled', info => {
             this._state = 'reconnecting'
@@ -255,6 +481,11 @@ export class Peer extends EventEmitter<PeerEventMap> {
         this.connection.on('reconnect:failed', error => {
             this.emit('error', error)
         })
+
+        this.connection.on('identity:failed', error => {
+            this.emit('identity:failed', error)
+            this.emit('error', error)
+        })
     }
 
     /**
@@ -305,7 +536,7 @@ export class Peer extends EventEmitter<PeerEventMap> {
      * The offer ID being used for this connection
      */
     get offerId(): string {
-        return this._offerId
+        return this.connection?.getOfferId() ?? this._offerId
     }
 
     /**
@@ -329,6 +560,33 @@ export class Peer extends EventEmitter<PeerEventMap> {
         return this.connection?.getDataChannel() ?? null
     }
 
+    /**
+     * RPC endpoint: `peer.rpc.call(method, params, { timeout })` and
+     * `peer.rpc.register(method, handler)`
+     */
+    get rpc(): PeerRpc {
+        if (!this.connection) {
+            throw new Error('Peer not initialized')
+        }
+        return this.connection.rpc
+    }
+
+    /**
+     * Incoming messages as a ReadableStream (strings, and binary data as Uint8Array).
+     * Closes when the peer closes; errors if reconnection is exhausted.
+     */
+    get readable(): ReadableStream<string | Uint8Array> {
+        return this.getStreams().readable
+    }
+
+    /**
+     * WritableStream sending each chunk as a message. Writes wait while disconnected
+     * or while the data channel's send queue is full. Closing it leaves the peer open.
+     */
+    get writable(): WritableStream<MessageStreamChunk> {
+        return this.getStreams().writable
+    }
+
     /**
      * Whether the peer is currently connected
      */
@@ -353,6 +611,68 @@ export class Peer extends EventEmitter<PeerEventMap> {
         this.connection.send(data)
     }
 
+    /**
+     * Get or create a named channel to the peer (e.g. 'chat', 'file-transfer').
+     * Each channel has its own ordering/reliability and survives reconnection.
+     *
+     * @param name - Channel name
+     * @param options - Delivery options (ordered, maxRetransmits, maxPacketLifeTime)
+     */
+    channel(name: string, options?: ChannelOptions): NamedChannel {
+        if (!this.connection) {
+            throw new Error('Peer not initialized')
+        }
+        return this.connection.channel(name, options)
+    }
+
+    /**
+     * Send a media track to the peer. The session is renegotiated over the data
+     * channel; tracks are re-added automatically after reconnection.
+     *
+     * @param track - Audio or video track
+     * @param streams - Streams the track belongs to
+     */
+    addTrack(track: MediaStreamTrack, ...streams: MediaStream[]): RTCRtpSender | null {
+        if (!this.connection) {
+            throw new Error('Peer not initialized')
+        }
+        return this.connection.addTrack(track, ...streams)
+    }
+
+    /**
+     * Stop sending a media track
+     */
+    removeTrack(track: MediaStreamTrack): void {
+        if (!this.connection) {
+            throw new Error('Peer not initialized')
+        }
+        this.connection.removeTrack(track)
+    }
+
+    /**
+     * Send a Blob/File or ArrayBuffer in chunks with flow control and progress events.
+     * Interrupted transfers resume after reconnection.
+     *
+     * @param data - Payload to send
+     * @param options - Name, MIME type, metadata, chunk size, abort signal
+     */
+    sendFile(data: Blob | ArrayBuffer, options?: TransferOptions): OutgoingTransfer {
+        if (!this.connection) {
+            throw new Error('Peer not initialized')
+        }
+        return this.connection.sendFile(data, options)
+    }
+
+    /**
+     * Send the contents of a ReadableStream in chunks (see sendFile)
+     */
+    sendStream(stream: ReadableStream<Uint8Array>, options?: TransferOptions): OutgoingTransfer {
+        if (!this.connection) {
+            throw new Error('Peer not initialized')
+        }
+        return this.connection.sendStream(stream, options)
+    }
+
     /**
      * Close the peer connection
      */
@@ -363,12 +683,47 @@ export class Peer extends EventEmitter<PeerEventMap> {
     }
 
     /**
-     * Get the underlying AnswererConnection for advanced use cases
+     * Get the underlying connection for advanced use cases
+     * (an OffererConnection if connectTo() ended up publishing the offer)
      */
-    getConnection(): AnswererConnection | null {
+    getConnection(): AnswererConnection | OffererConnection | null {
         return this.connection
     }
 
+    /**
+     * The connection, or all connections still racing for it (see PeerOptions.raceOffers)
+     * @internal
+     */
+    getConnections(): (AnswererConnection | OffererConnection)[] {
+        return this.connection ? [this.connection] : [...this.racers]
+    }
+
+    /**
+     * Apply ICE candidates polled for one of our offers
+     * @internal
+     */
+    handleRemoteIceCandidates(offerId: string, candidates: IceCandidate[]): void {
+        for (const connection of this.getConnections()) {
+            // The offer changes when the answerer reconnects to a new one
+            if (connection.getOfferId() === offerId) {
+                connection.handleRemoteIceCandidates(candidates)
+            }
+        }
+    }
+
+    /**
+     * Create the readable/writable pair on first use
+     */
+    private getStreams(): MessageStreams {
+        if (!this.connection) {
+            throw new Error('Peer not initialized')
+        }
+        if (!this.streams) {
+            this.streams = createMessageStreams(this.connection)
+        }
+        return this.streams
+    }
+
     /**
      * Debug logging
      */
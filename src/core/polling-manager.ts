@@ -6,35 +6,40 @@
  * - poll:ice - When new ICE candidates are available
  *
  * Connections subscribe to these events and filter by offerId in their callbacks.
+ *
+ * The polling cadence adapts to what the connections are doing (see PollingActivity)
+ * and backs off exponentially on consecutive poll errors.
  */
 
 import { EventEmitter } from 'eventemitter3'
 import { RondevuAPI, IceCandidate } from '../api/client.js'
+import { ExponentialBackoff } from '../utils/exponential-backoff.js'
+import type { SignalingTransport, SignalingTransportEvents } from './signaling-transport.js'
 
-export interface PollAnswerEvent {
-    offerId: string
-    answererPublicKey: string
-    sdp: string
-    answeredAt: number
-    matchedTags?: string[]
-}
+export type { PollAnswerEvent, PollIceEvent } from './signaling-transport.js'
 
-export interface PollIceEvent {
-    offerId: string
-    candidates: IceCandidate[]
-}
+export type PollingManagerEvents = SignalingTransportEvents
 
-export interface PollingManagerEvents {
-    'poll:answer': (data: PollAnswerEvent) => void
-    'poll:ice': (data: PollIceEvent) => void
-    'poll:error': (error: Error) => void
-    'poll:started': () => void
-    'poll:stopped': () => void
-}
+/**
+ * What the polled connections are currently doing:
+ * - active: signaling in progress (offers awaiting answers, ICE checks) - poll fast
+ * - normal: nothing urgent, but not everything is settled
+ * - idle: every connection is established - poll slowly
+ */
+export type PollingActivity = 'active' | 'normal' | 'idle'
 
 export interface PollingManagerOptions {
     api: RondevuAPI
+    /** Interval when activity is 'normal' (default: 1000) */
     intervalMs?: number
+    /** Interval when activity is 'active' (default: 200) */
+    activeIntervalMs?: number
+    /** Interval when activity is 'idle' (default: 5000) */
+    idleIntervalMs?: number
+    /** Upper bound for the interval while backing off after errors (default: 30000) */
+    maxErrorBackoffMs?: number
+    /** Reports current activity; without it the cadence stays at intervalMs */
+    getActivity?: () => PollingActivity
     debugEnabled?: boolean
 }
 
@@ -42,14 +47,29 @@ export interface PollingManagerOptions {
  * Centralized polling manager that emits global events
  * Connections subscribe to events and filter by offerId
  */
-export class PollingManager extends EventEmitter<PollingManagerEvents> {
+export class PollingManager
+    extends EventEmitter<PollingManagerEvents>
+    implements SignalingTransport
+{
     private static readonly DEFAULT_INTERVAL_MS = 1000
+    private static readonly DEFAULT_ACTIVE_INTERVAL_MS = 200
+    private static readonly DEFAULT_IDLE_INTERVAL_MS = 5000
+    private static readonly DEFAULT_MAX_ERROR_BACKOFF_MS = 30000
 
     private readonly api: RondevuAPI
     private readonly intervalMs: number
+    private readonly activeIntervalMs: number
+    private readonly idleIntervalMs: number
+    private readonly getActivityFn?: () => PollingActivity
+    private readonly errorBackoff: ExponentialBackoff
     private readonly debugEnabled: boolean
 
-    private pollingInterval: ReturnType<typeof setInterval> | null = null
+    private pollTimer: ReturnType<typeof setTimeout> | null = null
+    private nextPollAt = 0
+    private currentIntervalMs: number
+    private consecutiveErrors = 0
+    private errorDelayMs = 0
+    private inFlight: Promise<void> | null = null
     private lastPollTimestamp = 0
     private running = false
 
@@ -57,7 +77,17 @@ export class PollingManager extends EventEmitter<PollingManagerEvents> {
         super()
         this.api = options.api
         this.intervalMs = options.intervalMs ?? PollingManager.DEFAULT_INTERVAL_MS
+        this.activeIntervalMs =
+            options.activeIntervalMs ?? PollingManager.DEFAULT_ACTIVE_INTERVAL_MS
+        this.idleIntervalMs = options.idleIntervalMs ?? PollingManager.DEFAULT_IDLE_INTERVAL_MS
+        this.getActivityFn = options.getActivity
+        this.errorBackoff = new ExponentialBackoff({
+            base: this.intervalMs,
+            max: options.maxErrorBackoffMs ?? PollingManager.DEFAULT_MAX_ERROR_BACKOFF_MS,
+            jitter: 0.1,
+        })
         this.debugEnabled = options.debugEnabled ?? false
+        this.currentIntervalMs = this.intervalMs
     }
 
     /**
@@ -73,13 +103,8 @@ export class PollingManager extends EventEmitter<PollingManagerEvents> {
         this.debug('Starting polling manager')
         this.running = true
 
-        // Poll immediately
-        this.poll()
-
-        // Start interval
-        this.pollingInterval = setInterval(() => {
-            this.poll()
-        }, this.intervalMs)
+        // Poll immediately; the next poll is scheduled when it completes
+        this.runPoll()
 
         this.emit('poll:started')
     }
@@ -92,11 +117,7 @@ export class PollingManager extends EventEmitter<PollingManagerEvents> {
 
         this.debug('Stopping polling manager')
         this.running = false
-
-        if (this.pollingInterval) {
-            clearInterval(this.pollingInterval)
-            this.pollingInterval = null
-        }
+        this.clearPollTimer()
 
         this.emit('poll:stopped')
     }
@@ -115,11 +136,119 @@ export class PollingManager extends EventEmitter<PollingManagerEvents> {
         return this.lastPollTimestamp
     }
 
+    /**
+     * Advance the poll cursor past events delivered by another transport
+     * (e.g. push), so the next poll does not fetch them again
+     */
+    advanceLastPollTimestamp(timestamp: number): void {
+        if (timestamp > this.lastPollTimestamp) {
+            this.lastPollTimestamp = timestamp
+        }
+    }
+
+    /**
+     * Poll once immediately, whether or not polling is running.
+     * While running, the regular schedule restarts from this poll.
+     */
+    async pollNow(): Promise<void> {
+        // Let an in-flight poll finish first so results are emitted in order
+        if (this.inFlight) {
+            await this.inFlight
+        }
+        this.clearPollTimer()
+        await this.runPoll(true)
+    }
+
+    /**
+     * Get the delay currently used between polls (ms), including error backoff
+     */
+    getCurrentInterval(): number {
+        return this.currentIntervalMs
+    }
+
+    /**
+     * Get the current activity level driving the cadence
+     */
+    getActivity(): PollingActivity {
+        return this.getActivityFn?.() ?? 'normal'
+    }
+
+    /**
+     * Re-evaluate the cadence now, e.g. after a new offer or connection appeared.
+     * Brings the next poll forward if the new cadence is faster.
+     */
+    refreshCadence(): void {
+        if (!this.running || !this.pollTimer || this.consecutiveErrors > 0) return
+
+        const interval = this.computeInterval()
+        const remaining = this.nextPollAt - Date.now()
+        if (interval < remaining) {
+            this.debug(`Cadence changed, polling in ${interval}ms instead of ${remaining}ms`)
+            this.schedulePoll(interval)
+        }
+    }
+
+    /**
+     * Run a poll, then schedule the next one if running
+     */
+    private runPoll(force = false): Promise<void> {
+        const poll = this.poll(force).finally(() => {
+            if (this.inFlight === poll) {
+                this.inFlight = null
+            }
+            if (this.running && !this.pollTimer) {
+                this.schedulePoll(this.computeInterval())
+            }
+        })
+        this.inFlight = poll
+        return poll
+    }
+
+    /**
+     * Compute the delay until the next poll
+     */
+    private computeInterval(): number {
+        if (this.consecutiveErrors > 0) {
+            return this.errorDelayMs
+        }
+
+        switch (this.getActivity()) {
+            case 'active':
+                return this.activeIntervalMs
+            case 'idle':
+                return this.idleIntervalMs
+            default:
+                return this.intervalMs
+        }
+    }
+
+    private schedulePoll(delay: number): void {
+        this.clearPollTimer()
+
+        if (delay !== this.currentIntervalMs) {
+            this.debug(`Polling interval: ${this.currentIntervalMs}ms → ${delay}ms`)
+            this.currentIntervalMs = delay
+        }
+
+        this.nextPollAt = Date.now() + delay
+        this.pollTimer = setTimeout(() => {
+            this.pollTimer = null
+            this.runPoll()
+        }, delay)
+    }
+
+    private clearPollTimer(): void {
+        if (this.pollTimer) {
+            clearTimeout(this.pollTimer)
+            this.pollTimer = null
+        }
+    }
+
     /**
      * Perform a single poll
      */
-    private async poll(): Promise<void> {
-        if (!this.running) return
+    private async poll(force = false): Promise<void> {
+        if (!this.running && !force) return
 
         try {
             const result = await this.api.poll(this.lastPollTimestamp)
@@ -158,8 +287,14 @@ export class PollingManager extends EventEmitter<PollingManagerEvents> {
                     }
                 }
             }
+
+            this.consecutiveErrors = 0
+            this.errorBackoff.reset()
         } catch (error) {
             this.debug('Poll error:', error)
+            this.consecutiveErrors++
+            // Delay chosen when the error happens: base interval first, doubling after
+            this.errorDelayMs = this.errorBackoff.next()
             this.emit('poll:error', error instanceof Error ? error : new Error(String(error)))
         }
     }
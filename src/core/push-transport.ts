@@ -0,0 +1,447 @@
+/**
+ * PushTransport - Server push for signaling events (WebSocket or SSE)
+ *
+ * Instead of polling every second, the client keeps a push channel open and the
+ * server sends answers and ICE candidates as they happen.
+ *
+ * Wire protocol (the server side is not part of this package; servers that support
+ * push implement the following, see also "Push protocol" in the README):
+ * - WebSocket: after the socket opens, the client sends a PushSubscribeRequest,
+ *   `{ method: 'subscribe', params: { since }, auth }`, with `auth` signed like the
+ *   auth of an RPC request with method 'subscribe' and params `{ since }`
+ * - SSE: the same auth and `since` are passed as query parameters
+ *   (`publicKey`, `timestamp`, `nonce`, `signature`, `since`)
+ * - The server then sends a JSON PushMessage for every event after `since` (text
+ *   frames / SSE `data:` lines). Events have the shapes returned by `poll`:
+ *   `{ type: 'answer', offerId, answererPublicKey, sdp, answeredAt, matchedTags? }`
+ *   `{ type: 'ice', offerId, candidates: IceCandidate[] }`
+ *   `{ type: 'error', error }` (the channel stays open)
+ *
+ * The transport reconnects with exponential backoff when the channel drops.
+ * Use FallbackSignalingTransport to poll while push is unavailable.
+ */
+
+import { EventEmitter } from 'eventemitter3'
+import { RondevuAPI, IceCandidate, RequestAuth } from '../api/client.js'
+import { ExponentialBackoff } from '../utils/exponential-backoff.js'
+import type { SignalingTransportEvents } from './signaling-transport.js'
+
+export type PushMode = 'websocket' | 'sse'
+
+export interface PushTransportEvents extends SignalingTransportEvents {
+    'push:open': () => void
+    'push:close': (error?: Error) => void
+}
+
+export interface PushTransportOptions {
+    api: RondevuAPI
+    /** Push endpoint URL (ws(s):// for WebSocket, http(s):// for SSE) */
+    url: string
+    mode: PushMode
+    /** WebSocket constructor (defaults to the global WebSocket) */
+    WebSocket?: typeof WebSocket
+    /** EventSource constructor (defaults to the global EventSource) */
+    EventSource?: typeof EventSource
+    /** Time to wait for the channel to open before treating it as failed (default: 5000) */
+    connectTimeoutMs?: number
+    debugEnabled?: boolean
+}
+
+/**
+ * First message on a WebSocket push channel
+ */
+export interface PushSubscribeRequest {
+    method: 'subscribe'
+    params: { since: number }
+    auth: RequestAuth
+}
+
+/**
+ * Messages sent by the server over the push channel
+ */
+export type PushMessage =
+    | {
+          type: 'answer'
+          offerId: string
+          answererPublicKey: string
+          sdp: string
+          answeredAt: number
+          matchedTags?: string[]
+      }
+    | { type: 'ice'; offerId: string; candidates: IceCandidate[] }
+    | { type: 'error'; error: string }
+
+/**
+ * Derive the default push endpoint from the API URL
+ */
+export function getDefaultPushUrl(apiUrl: string, mode: PushMode): string {
+    const base = apiUrl.replace(/\/+$/, '')
+    if (mode === 'websocket') {
+        return `${base.replace(/^http/, 'ws')}/ws`
+    }
+    return `${base}/events`
+}
+
+/**
+ * Push-based signaling transport.
+ * Emits the same poll:* events as SignalingTransport, plus push:open / push:close.
+ */
+export class PushTransport extends EventEmitter<PushTransportEvents> {
+    private static readonly DEFAULT_CONNECT_TIMEOUT_MS = 5000
+
+    private readonly api: RondevuAPI
+    private readonly url: string
+    private readonly mode: PushMode
+    private readonly WebSocketImpl?: typeof WebSocket
+    private readonly EventSourceImpl?: typeof EventSource
+    private readonly connectTimeoutMs: number
+    private readonly debugEnabled: boolean
+    private readonly backoff = new ExponentialBackoff({ base: 1000, max: 30000, jitter: 0.1 })
+
+    private socket: WebSocket | null = null
+    private eventSource: EventSource | null = null
+    private connectTimer: ReturnType<typeof setTimeout> | null = null
+    private reconnectTimer: ReturnType<typeof setTimeout> | null = null
+    private lastEventTimestamp = 0
+    private running = false
+    private open = false
+
+    constructor(options: PushTransportOptions) {
+        super()
+        this.api = options.api
+        this.url = options.url
+        this.mode = options.mode
+        this.WebSocketImpl =
+            options.WebSocket ?? (typeof WebSocket !== 'undefined' ? WebSocket : undefined)
+        this.EventSourceImpl =
+            options.EventSource ?? (typeof EventSource !== 'undefined' ? EventSource : undefined)
+        this.connectTimeoutMs = options.connectTimeoutMs ?? PushTransport.DEFAULT_CONNECT_TIMEOUT_MS
+        this.debugEnabled = options.debugEnabled ?? false
+    }
+
+    /**
+     * Start the push channel
+     */
+    start(): void {
+        if (this.running) {
+            this.debug('Already running')
+            return
+        }
+
+        this.debug(`Starting ${this.mode} push transport: ${this.url}`)
+        this.running = true
+        this.backoff.reset()
+        this.emit('poll:started')
+        this.connect()
+    }
+
+    /**
+     * Stop the push channel
+     */
+    stop(): void {
+        if (!this.running) return
+
+        this.debug('Stopping push transport')
+        this.running = false
+
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer)
+            this.reconnectTimer = null
+        }
+        this.teardown()
+        if (this.open) {
+            this.open = false
+            this.emit('push:close')
+        }
+
+        this.emit('poll:stopped')
+    }
+
+    /**
+     * Check if the transport is started
+     */
+    isRunning(): boolean {
+        return this.running
+    }
+
+    /**
+     * Check if the push channel is currently open
+     */
+    isOpen(): boolean {
+        return this.open
+    }
+
+    /**
+     * Whether push is possible in this runtime (constructor available)
+     */
+    isSupported(): boolean {
+        return this.mode === 'websocket' ? !!this.WebSocketImpl : !!this.EventSourceImpl
+    }
+
+    /**
+     * Open the channel for the configured mode
+     */
+    private connect(): void {
+        if (!this.running) return
+
+        if (!this.isSupported()) {
+            // Defer so listeners attached after start() still see the failure
+            setTimeout(() => {
+                this.handleClose(new Error(`${this.mode} is not available in this runtime`))
+            }, 0)
+            return
+        }
+
+        this.connectTimer = setTimeout(() => {
+            this.connectTimer = null
+            this.teardown()
+            this.handleClose(
+                new Error(`Push channel did not open within ${this.connectTimeoutMs}ms`)
+            )
+        }, this.connectTimeoutMs)
+
+        const fail = (error: unknown) => {
+            this.teardown()
+            this.handleClose(error instanceof Error ? error : new Error(String(error)))
+        }
+        try {
+            if (this.mode === 'websocket') {
+                this.connectWebSocket()
+            } else {
+                this.connectEventSource().catch(fail)
+            }
+        } catch (error) {
+            fail(error)
+        }
+    }
+
+    private connectWebSocket(): void {
+        const WebSocketImpl = this.WebSocketImpl
+        if (!WebSocketImpl) throw new Error('WebSocket is not available in this runtime')
+
+        const socket = new WebSocketImpl(this.url)
+        this.socket = socket
+
+        socket.onopen = () => {
+            const params = { since: this.lastEventTimestamp }
+            this.api
+                .createAuth('subscribe', params)
+                .then(auth => {
+                    if (this.socket !== socket) return
+                    const request: PushSubscribeRequest = { method: 'subscribe', params, auth }
+                    socket.send(JSON.stringify(request))
+                    this.handleOpen()
+                })
+                .catch(error => {
+                    this.debug('Failed to authenticate push channel:', error)
+                    socket.close()
+                })
+        }
+        socket.onmessage = event => this.handleRawMessage(event.data)
+        socket.onerror = () => this.debug('WebSocket error')
+        socket.onclose = event => {
+            if (this.socket !== socket) return
+            this.socket = null
+            this.handleClose(new Error(`WebSocket closed (${event.code})`))
+        }
+    }
+
+    private async connectEventSource(): Promise<void> {
+        const EventSourceImpl = this.EventSourceImpl
+        if (!EventSourceImpl) throw new Error('EventSource is not available in this runtime')
+
+        const since = this.lastEventTimestamp
+        const auth = await this.api.createAuth('subscribe', { since })
+        if (!this.running) return
+
+        const url = new URL(this.url)
+        url.searchParams.set('publicKey', auth.publicKey)
+        url.searchParams.set('timestamp', String(auth.timestamp))
+        url.searchParams.set('nonce', auth.nonce)
+        url.searchParams.set('signature', auth.signature)
+        url.searchParams.set('since', String(since))
+
+        const source = new EventSourceImpl(url.toString())
+        this.eventSource = source
+
+        source.onopen = () => this.handleOpen()
+        source.onmessage = event => this.handleRawMessage(event.data)
+        source.onerror = () => {
+            if (this.eventSource !== source) return
+            // EventSource retries on its own with the original (now stale) signature,
+            // so close it and reconnect with fresh credentials instead
+            this.teardown()
+            this.handleClose(new Error('EventSource connection error'))
+        }
+    }
+
+    private handleOpen(): void {
+        if (this.connectTimer) {
+            clearTimeout(this.connectTimer)
+            this.connectTimer = null
+        }
+        if (this.open) return
+
+        this.debug('Push channel open')
+        this.open = true
+        this.backoff.reset()
+        this.emit('push:open')
+    }
+
+    private handleClose(error: Error): void {
+        if (this.connectTimer) {
+            clearTimeout(this.connectTimer)
+            this.connectTimer = null
+        }
+
+        const wasOpen = this.open
+        this.open = false
+        if (!this.running) return
+
+        this.debug('Push channel closed:', error.message)
+        this.emit('push:close', error)
+        if (!wasOpen) {
+            // Never opened - surface as an error (a drop of an open channel is routine)
+            this.emit('poll:error', error)
+        }
+
+        // Reconnect with backoff
+        if (!this.reconnectTimer) {
+            const delay = this.backoff.next()
+            this.debug(`Reconnecting push channel in ${delay}ms`)
+            this.reconnectTimer = setTimeout(() => {
+                this.reconnectTimer = null
+                this.connect()
+            }, delay)
+        }
+    }
+
+    private teardown(): void {
+        if (this.connectTimer) {
+            clearTimeout(this.connectTimer)
+            this.connectTimer = null
+        }
+        if (this.socket) {
+            const socket = this.socket
+            this.socket = null
+            socket.onopen = null
+            socket.onmessage = null
+            socket.onerror = null
+            socket.onclose = null
+            socket.close()
+        }
+        if (this.eventSource) {
+            const source = this.eventSource
+            this.eventSource = null
+            source.onopen = null
+            source.onmessage = null
+            source.onerror = null
+            source.close()
+        }
+    }
+
+    private handleRawMessage(raw: unknown): void {
+        if (typeof raw !== 'string') return
+
+        let parsed: unknown
+        try {
+            parsed = JSON.parse(raw)
+        } catch {
+            this.debug('Ignoring malformed push message')
+            return
+        }
+
+        const message = parsePushMessage(parsed)
+        if (!message) {
+            this.debug('Ignoring unknown or malformed push message')
+            return
+        }
+
+        switch (message.type) {
+            case 'answer':
+                this.debug(`Push: answer for ${message.offerId}`)
+                this.trackTimestamp(message.answeredAt)
+                this.emit('poll:answer', {
+                    offerId: message.offerId,
+                    answererPublicKey: message.answererPublicKey,
+                    sdp: message.sdp,
+                    answeredAt: message.answeredAt,
+                    matchedTags: message.matchedTags,
+                })
+                break
+
+            case 'ice': {
+                const candidates = message.candidates
+                if (candidates.length === 0) break
+                this.debug(`Push: ${candidates.length} ICE candidates for ${message.offerId}`)
+                for (const candidate of candidates) {
+                    this.trackTimestamp(candidate.createdAt)
+                }
+                this.emit('poll:ice', { offerId: message.offerId, candidates })
+                break
+            }
+
+            case 'error':
+                this.emit('poll:error', new Error(message.error || 'Push channel error'))
+                break
+        }
+    }
+
+    private trackTimestamp(timestamp: unknown): void {
+        if (typeof timestamp === 'number' && timestamp > this.lastEventTimestamp) {
+            this.lastEventTimestamp = timestamp
+        }
+    }
+
+    /**
+     * Debug logging
+     */
+    private debug(...args: unknown[]): void {
+        if (this.debugEnabled) {
+            console.log('[PushTransport]', ...args)
+        }
+    }
+}
+
+/**
+ * Validate a decoded push message
+ */
+function parsePushMessage(value: unknown): PushMessage | null {
+    if (!value || typeof value !== 'object') return null
+    const message = value as Record<string, unknown>
+
+    switch (message.type) {
+        case 'answer':
+            if (
+                typeof message.offerId !== 'string' ||
+                typeof message.answererPublicKey !== 'string' ||
+                typeof message.sdp !== 'string' ||
+                typeof message.answeredAt !== 'number'
+            ) {
+                return null
+            }
+            return {
+                type: 'answer',
+                offerId: message.offerId,
+                answererPublicKey: message.answererPublicKey,
+                sdp: message.sdp,
+                answeredAt: message.answeredAt,
+                matchedTags: Array.isArray(message.matchedTags)
+                    ? message.matchedTags.filter((tag): tag is string => typeof tag === 'string')
+                    : undefined,
+            }
+        case 'ice':
+            if (typeof message.offerId !== 'string' || !Array.isArray(message.candidates)) {
+                return null
+            }
+            return {
+                type: 'ice',
+                offerId: message.offerId,
+                candidates: message.candidates as IceCandidate[],
+            }
+        case 'error':
+            return { type: 'error', error: typeof message.error === 'string' ? message.error : '' }
+        default:
+            return null
+    }
+}
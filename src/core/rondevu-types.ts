@@ -4,11 +4,30 @@
  * Contains all public interfaces and types for the Rondevu client.
  */
 
-import { KeyPair } from '../api/client.js'
+import { KeyPair, RpcPolicyOptions } from '../api/client.js'
+import { RpcTransportOptions } from '../api/batcher.js'
 import { CryptoAdapter } from '../crypto/adapter.js'
 import { WebRTCAdapter } from '../webrtc/adapter.js'
 import { ConnectionConfig } from '../connections/config.js'
 import { IceServerPreset } from './ice-config.js'
+import { PushMode } from './push-transport.js'
+import { MessageBufferStorage } from '../storage/adapter.js'
+import type { MediaOfferOptions } from './media.js'
+import type { PeerStats } from './offer-selection.js'
+
+/**
+ * Push signaling configuration (see RondevuOptions.push)
+ */
+export interface PushOptions {
+    /** Push channel type */
+    mode: PushMode
+    /** Push endpoint (defaults to `<apiUrl>/ws` for WebSocket, `<apiUrl>/events` for SSE) */
+    url?: string
+    /** WebSocket constructor for runtimes without a global one (e.g. `ws` in Node.js) */
+    WebSocket?: typeof WebSocket
+    /** EventSource constructor for runtimes without a global one */
+    EventSource?: typeof EventSource
+}
 
 /**
  * Options for creating a Rondevu instance via Rondevu.connect()
@@ -24,6 +43,29 @@ export interface RondevuOptions {
     webrtcAdapter?: WebRTCAdapter
     /** ICE server preset name or custom RTCIceServer array */
     iceServers?: IceServerPreset | RTCIceServer[]
+    /**
+     * Receive answers and ICE candidates via server push instead of polling every second.
+     * Falls back to HTTP polling automatically while push is unavailable.
+     */
+    push?: PushOptions
+    /**
+     * Persist queued outgoing messages per peer public key, so a restarted instance
+     * with the same keyPair resumes delivering them when it reconnects to that peer
+     * (MemoryMessageBufferStorage, IndexedDBMessageBufferStorage, FileMessageBufferStorage)
+     */
+    messageStorage?: MessageBufferStorage
+    /**
+     * Per-peer statistics (round-trip times, past selections) used by the offer selection
+     * strategies of rondevu.peer(); pass a shared or restored instance to keep them across sessions
+     */
+    peerStats?: PeerStats
+    /** How API calls are sent: custom fetch, extra headers, request timeout, wire codec */
+    transport?: RpcTransportOptions
+    /**
+     * Retries for idempotent calls, per-call deadlines and the circuit breaker that emits
+     * 'signaling:unavailable' / 'signaling:restored'
+     */
+    rpcPolicy?: RpcPolicyOptions
     /** Enable debug logging (default: false) */
     debug?: boolean
 }
@@ -58,6 +100,8 @@ export interface OfferOptions {
     maxOffers: number
     /** Custom offer creation (defaults to simple data channel) */
     offerFactory?: OfferFactory
+    /** Add media to each offer (shortcut for offerFactory: createMediaOfferFactory(media)) */
+    media?: MediaOfferOptions
     /** Time-to-live for offers in milliseconds (default: 300000 = 5 minutes) */
     ttl?: number
     /** Connection durability configuration */
@@ -66,6 +110,51 @@ export interface OfferOptions {
     autoStart?: boolean
     /** Delay in ms between creating each offer during pool filling (default: 100). Helps avoid rate limiting. */
     offerCreationThrottleMs?: number
+    /**
+     * Only these public keys may answer. Answers from other keys are rejected and the
+     * offer is replaced; each offer is also encrypted to one of the keys in turn, so
+     * other peers can't read it (see ConnectionConfig.encryptSignaling).
+     */
+    allowedPeers?: string[]
+    /** Public keys whose answers are always rejected */
+    deniedPeers?: string[]
+    /** Maximum number of simultaneous connections from the same public key */
+    maxConnectionsPerPeer?: number
+    /**
+     * Decide whether to accept an answer, after the built-in checks pass and before the
+     * answer is applied. Rejected offers are replaced with new ones.
+     */
+    acceptAnswer?: AcceptAnswerHook
+}
+
+/**
+ * Admission policy for answers to our offers (see OfferOptions.acceptAnswer)
+ */
+export type AcceptAnswerHook = (
+    answererPublicKey: string,
+    matchedTags: string[] | undefined,
+    offerId: string
+) => boolean | Promise<boolean>
+
+/**
+ * Why an answer was rejected ('answer:rejected' event)
+ */
+export type AnswerRejectionReason = 'not-allowed' | 'denied' | 'connection-limit' | 'policy'
+
+/**
+ * Options for rondevu.connectTo() - symmetric connection to a known peer
+ */
+export interface ConnectToOptions {
+    /** Time to wait for the remote peer to take part, i.e. call connectTo() for us (ms, default: 30000) */
+    timeout?: number
+    /** Connection durability configuration */
+    config?: Partial<ConnectionConfig>
+    /** Custom offer creation, used if this side ends up publishing the offer */
+    offerFactory?: OfferFactory
+    /** Add media to the offer (shortcut for offerFactory: createMediaOfferFactory(media)) */
+    media?: MediaOfferOptions
+    /** Time-to-live for the published offer in milliseconds (default: 300000 = 5 minutes) */
+    ttl?: number
 }
 
 /**
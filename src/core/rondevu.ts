@@ -7,18 +7,39 @@ import { EventEmitter } from 'eventemitter3'
 import { OffererConnection } from '../connections/offerer.js'
 import { AnswererConnection } from '../connections/answerer.js'
 import { ConnectionConfig } from '../connections/config.js'
+import { RondevuConnection } from '../connections/base.js'
+import { ConnectionState } from '../connections/events.js'
+import { IdentityCredentials } from '../connections/identity.js'
+import { MessageBufferStorage } from '../storage/adapter.js'
 import { OfferPool } from './offer-pool.js'
 import { Peer, PeerOptions } from './peer.js'
 import { getIceConfiguration } from './ice-config.js'
-import { PollingManager, PollAnswerEvent, PollIceEvent } from './polling-manager.js'
+import { createMediaOfferFactory } from './media.js'
+import { SymmetricConnector, SymmetricConnection } from './symmetric.js'
+import { Room, RoomOptions } from './room.js'
+import { MeshRouter } from './mesh.js'
+import { MeshSignaling } from './mesh-signaling.js'
+import { PeerStats, measureRoundTripTime } from './offer-selection.js'
+import { ConnectionSignaler, createServerSignaler } from '../connections/signaler.js'
+import {
+    PollingManager,
+    PollAnswerEvent,
+    PollIceEvent,
+    PollingActivity,
+} from './polling-manager.js'
+import { PushTransport, getDefaultPushUrl } from './push-transport.js'
+import { FallbackSignalingTransport } from './fallback-transport.js'
+import type { SignalingTransport } from './signaling-transport.js'
 
 // Import types from split files
 import type {
     RondevuOptions,
+    PushOptions,
     OfferContext,
     OfferFactory,
     OfferOptions,
     OfferHandle,
+    ConnectToOptions,
     ConnectionContext,
     DiscoverOptions,
     DiscoveredOffer,
@@ -28,14 +49,18 @@ import type {
 // Re-export all types for backward compatibility
 export type {
     RondevuOptions,
+    PushOptions,
     OfferContext,
     OfferFactory,
     OfferOptions,
     OfferHandle,
+    ConnectToOptions,
     ConnectionContext,
     DiscoverOptions,
     DiscoveredOffer,
     DiscoverResult,
+    AcceptAnswerHook,
+    AnswerRejectionReason,
 } from './rondevu-types.js'
 
 // Re-export ICE config for backward compatibility
@@ -43,7 +68,9 @@ export { ICE_SERVER_PRESETS } from './ice-config.js'
 export type { IceServerPreset, IcePresetConfig } from './ice-config.js'
 
 // Re-export polling types
-export type { PollAnswerEvent, PollIceEvent } from './polling-manager.js'
+export type { PollAnswerEvent, PollIceEvent, PollingActivity } from './polling-manager.js'
+export type { SignalingTransport, SignalingTransportEvents } from './signaling-transport.js'
+export type { PushMode } from './push-transport.js'
 
 /**
  * Rondevu - Complete WebRTC signaling client with durable connections
@@ -99,6 +126,7 @@ export class Rondevu extends EventEmitter {
     private static readonly DEFAULT_API_URL = 'https://api.ronde.vu'
     private static readonly DEFAULT_TTL_MS = 300000 // 5 minutes
     private static readonly POLLING_INTERVAL_MS = 1000 // 1 second
+    private static readonly DEFAULT_CONNECT_TIMEOUT_MS = 30000 // 30 seconds
 
     private api: RondevuAPI
     private readonly apiUrl: string
@@ -108,15 +136,33 @@ export class Rondevu extends EventEmitter {
     private iceServers: RTCIceServer[]
     private iceTransportPolicy?: RTCIceTransportPolicy
     private debugEnabled: boolean
+    private messageStorage?: MessageBufferStorage
+    private readonly peerStats: PeerStats
 
     // Publishing state
     private currentTags: string[] | null = null
     private connectionConfig?: Partial<ConnectionConfig>
     private offerPool: OfferPool | null = null
 
-    // Centralized polling
+    // Centralized signaling (HTTP polling, or push with polling fallback)
+    private signalingTransport: SignalingTransport
     private pollingManager: PollingManager
 
+    // Answerer-side and symmetric peers (tracked for polling cadence)
+    private readonly peers = new Set<Peer>()
+
+    // Symmetric peers by remote public key (one per remote, see connectTo())
+    private readonly symmetricPeers = new Map<string, Promise<Peer>>()
+
+    // Symmetric connectors still negotiating (their offers may await an answer)
+    private readonly negotiatingConnectors = new Set<SymmetricConnector>()
+
+    // Joined rooms by tag
+    private readonly rooms = new Map<string, Promise<Room>>()
+
+    // Offer pools of joined rooms (their offers await answers from new members)
+    private readonly roomOfferPools = new Set<OfferPool>()
+
     private constructor(
         apiUrl: string,
         keyPair: KeyPair,
@@ -125,7 +171,10 @@ export class Rondevu extends EventEmitter {
         iceTransportPolicy: RTCIceTransportPolicy | undefined,
         webrtcAdapter: WebRTCAdapter,
         cryptoAdapter?: CryptoAdapter,
-        debugEnabled = false
+        debugEnabled = false,
+        pushOptions?: PushOptions,
+        messageStorage?: MessageBufferStorage,
+        peerStats?: PeerStats
     ) {
         super()
         this.apiUrl = apiUrl
@@ -136,21 +185,37 @@ export class Rondevu extends EventEmitter {
         this.webrtcAdapter = webrtcAdapter
         this.cryptoAdapter = cryptoAdapter
         this.debugEnabled = debugEnabled
+        this.messageStorage = messageStorage
+        this.peerStats = peerStats ?? new PeerStats()
 
-        // Initialize centralized polling manager
+        // Initialize centralized signaling transport
         this.pollingManager = new PollingManager({
             api: this.api,
+            intervalMs: Rondevu.POLLING_INTERVAL_MS,
+            getActivity: () => this.getPollingActivity(),
             debugEnabled: this.debugEnabled,
         })
+        this.signalingTransport = this.createSignalingTransport(pushOptions)
 
-        // Forward polling events to Rondevu instance
-        this.pollingManager.on('poll:answer', data => {
+        // Forward signaling events to Rondevu instance
+        this.signalingTransport.on('poll:answer', data => {
             this.emit('poll:answer', data)
         })
-        this.pollingManager.on('poll:ice', data => {
+        this.signalingTransport.on('poll:ice', data => {
             this.emit('poll:ice', data)
         })
 
+        // Surface signaling server outages instead of silently stalling
+        const circuitBreaker = this.api.getCircuitBreaker()
+        circuitBreaker?.on('open', error => {
+            this.debug('Signaling server unavailable:', error.message)
+            this.emit('signaling:unavailable', error)
+        })
+        circuitBreaker?.on('close', () => {
+            this.debug('Signaling server available again')
+            this.emit('signaling:restored')
+        })
+
         this.debug('Instance created:', {
             publicKey: this.keyPair.publicKey,
             hasIceServers: iceServers.length > 0,
@@ -158,6 +223,92 @@ export class Rondevu extends EventEmitter {
         })
     }
 
+    /**
+     * Create the signaling transport: plain HTTP polling, or push with polling fallback
+     */
+    private createSignalingTransport(pushOptions?: PushOptions): SignalingTransport {
+        if (!pushOptions) return this.pollingManager
+
+        const push = new PushTransport({
+            api: this.api,
+            url: pushOptions.url ?? getDefaultPushUrl(this.apiUrl, pushOptions.mode),
+            mode: pushOptions.mode,
+            WebSocket: pushOptions.WebSocket,
+            EventSource: pushOptions.EventSource,
+            debugEnabled: this.debugEnabled,
+        })
+        return new FallbackSignalingTransport({
+            push,
+            polling: this.pollingManager,
+            debugEnabled: this.debugEnabled,
+        })
+    }
+
+    /**
+     * Derive the polling activity from connection states:
+     * poll fast while anything is signaling, slowly once everything is connected
+     */
+    private getPollingActivity(): PollingActivity {
+        // connectTo() has no connection to report until the pair has settled on one
+        if (this.negotiatingConnectors.size > 0) return 'active'
+
+        const connections: RondevuConnection[] = [...this.getActiveConnections().values()]
+        for (const offerPool of this.roomOfferPools) {
+            connections.push(...offerPool.getActiveConnections().values())
+        }
+        for (const peer of this.peers) {
+            connections.push(...peer.getConnections())
+        }
+
+        let allConnected = true
+        for (const connection of connections) {
+            switch (connection.getState()) {
+                case ConnectionState.INITIALIZING:
+                case ConnectionState.GATHERING:
+                case ConnectionState.SIGNALING: // Includes offers awaiting their answer
+                case ConnectionState.CHECKING:
+                case ConnectionState.CONNECTING:
+                    return 'active'
+                case ConnectionState.CONNECTED:
+                    break
+                default:
+                    allConnected = false
+            }
+        }
+
+        return allConnected ? 'idle' : 'normal'
+    }
+
+    /**
+     * Public keys of the peers we currently have open connections with
+     */
+    private getConnectedPeers(): Set<string> {
+        const connected = new Set<string>()
+        for (const connection of this.getActiveConnections().values()) {
+            if (connection.peerPublicKey && connection.getState() === ConnectionState.CONNECTED) {
+                connected.add(connection.peerPublicKey)
+            }
+        }
+        for (const peer of this.peers) {
+            if (peer.state === 'connected') connected.add(peer.peerPublicKey)
+        }
+        return connected
+    }
+
+    /**
+     * Sample the round-trip time of a freshly connected connection for offer selection
+     */
+    private recordRoundTripTime(publicKey: string | null, connection: RondevuConnection): void {
+        const pc = connection.getPeerConnection()
+        if (!publicKey || !pc) return
+
+        measureRoundTripTime(pc)
+            .then(rtt => {
+                if (rtt !== null) this.peerStats.recordRtt(publicKey, rtt)
+            })
+            .catch(err => this.debug('Failed to measure round-trip time:', err))
+    }
+
     /**
      * Internal debug logging - only logs if debug mode is enabled
      */
@@ -213,7 +364,13 @@ export class Rondevu extends EventEmitter {
         }
 
         // Create API instance
-        const api = new RondevuAPI(apiUrl, keyPair, cryptoAdapter)
+        const api = new RondevuAPI(
+            apiUrl,
+            keyPair,
+            cryptoAdapter,
+            options.transport,
+            options.rpcPolicy
+        )
         if (options.debug) console.log('[Rondevu] Created API instance')
 
         return new Rondevu(
@@ -224,7 +381,10 @@ export class Rondevu extends EventEmitter {
             iceConfig.iceTransportPolicy,
             webrtcAdapter,
             cryptoAdapter,
-            options.debug || false
+            options.debug || false,
+            options.push,
+            options.messageStorage,
+            options.peerStats
         )
     }
 
@@ -272,6 +432,14 @@ export class Rondevu extends EventEmitter {
         return this.cryptoAdapter
     }
 
+    /**
+     * Local identity used to prove our public key to peers (identity verification)
+     */
+    private getIdentityCredentials(): IdentityCredentials | undefined {
+        if (!this.cryptoAdapter) return undefined
+        return { keyPair: this.keyPair, crypto: this.cryptoAdapter }
+    }
+
     // ============================================
     // Service Publishing
     // ============================================
@@ -305,6 +473,9 @@ export class Rondevu extends EventEmitter {
      * // Manual start
      * await rondevu.offer({ tags: ['chat'], maxOffers: 5, autoStart: false })
      * await rondevu.startFilling()
+     *
+     * // Only answerable by a specific peer
+     * await rondevu.offer({ tags: ['chat'], maxOffers: 1, allowedPeers: [friendPublicKey] })
      * ```
      */
     async offer(options: OfferOptions): Promise<OfferHandle> {
@@ -312,10 +483,15 @@ export class Rondevu extends EventEmitter {
             tags,
             maxOffers,
             offerFactory,
+            media,
             ttl,
             connectionConfig,
             autoStart = true,
             offerCreationThrottleMs,
+            allowedPeers,
+            deniedPeers,
+            maxConnectionsPerPeer,
+            acceptAnswer,
         } = options
 
         this.currentTags = tags
@@ -329,22 +505,32 @@ export class Rondevu extends EventEmitter {
             tags,
             ownerPublicKey: this.keyPair.publicKey,
             maxOffers,
-            offerFactory: offerFactory || this.defaultOfferFactory.bind(this),
+            offerFactory:
+                offerFactory ||
+                (media ? createMediaOfferFactory(media) : this.defaultOfferFactory.bind(this)),
             ttl: ttl || Rondevu.DEFAULT_TTL_MS,
             iceServers: this.iceServers,
             iceTransportPolicy: this.iceTransportPolicy,
             webrtcAdapter: this.webrtcAdapter,
             connectionConfig,
+            identity: this.getIdentityCredentials(),
+            messageStorage: this.messageStorage,
             debugEnabled: this.debugEnabled,
             offerCreationThrottleMs,
+            allowedPeers,
+            deniedPeers,
+            maxConnectionsPerPeer,
+            acceptAnswer,
         })
 
         // Forward events from OfferPool
         this.offerPool.on('connection:opened', (offerId, connection, matchedTags) => {
+            this.recordRoundTripTime(connection.peerPublicKey, connection)
             this.emit('connection:opened', offerId, connection, matchedTags)
         })
 
         this.offerPool.on('offer:created', (offerId, tags) => {
+            this.pollingManager.refreshCadence()
             this.emit('offer:created', offerId, tags)
         })
 
@@ -352,6 +538,10 @@ export class Rondevu extends EventEmitter {
             this.emit('connection:rotated', oldOfferId, newOfferId, connection)
         })
 
+        this.offerPool.on('answer:rejected', (offerId, publicKey, reason) => {
+            this.emit('answer:rejected', offerId, publicKey, reason)
+        })
+
         // Subscribe to polling events and forward to OfferPool
         this.on('poll:answer', data => {
             this.offerPool?.handlePollAnswer(data)
@@ -382,8 +572,8 @@ export class Rondevu extends EventEmitter {
 
         this.debug('Starting offer filling and polling')
 
-        // Start the centralized polling manager
-        this.pollingManager.start()
+        // Start the centralized signaling transport
+        this.signalingTransport.start()
 
         await this.offerPool.start()
     }
@@ -395,8 +585,8 @@ export class Rondevu extends EventEmitter {
     stopFilling(): void {
         this.debug('Stopping offer filling and polling')
 
-        // Stop the centralized polling manager
-        this.pollingManager.stop()
+        // Stop the centralized signaling transport
+        this.signalingTransport.stop()
 
         this.offerPool?.stop()
     }
@@ -407,7 +597,7 @@ export class Rondevu extends EventEmitter {
      */
     startPolling(): void {
         this.debug('Starting polling manager')
-        this.pollingManager.start()
+        this.signalingTransport.start()
     }
 
     /**
@@ -415,14 +605,44 @@ export class Rondevu extends EventEmitter {
      */
     stopPolling(): void {
         this.debug('Stopping polling manager')
-        this.pollingManager.stop()
+        this.signalingTransport.stop()
     }
 
     /**
      * Check if polling is active
      */
     isPolling(): boolean {
-        return this.pollingManager.isRunning()
+        return this.signalingTransport.isRunning()
+    }
+
+    /**
+     * Poll for answers and ICE candidates immediately instead of waiting for the next tick
+     */
+    async pollNow(): Promise<void> {
+        await this.pollingManager.pollNow()
+    }
+
+    /**
+     * Get the current polling interval in ms (adapts to connection activity and errors)
+     */
+    getPollingInterval(): number {
+        return this.pollingManager.getCurrentInterval()
+    }
+
+    /**
+     * Whether API calls are currently let through (false while the circuit breaker is
+     * open after repeated signaling failures)
+     */
+    isSignalingAvailable(): boolean {
+        return this.api.getCircuitBreaker()?.canRequest() ?? true
+    }
+
+    /**
+     * Server time minus local time in ms, as measured from API responses (null until
+     * known). Request signatures are timestamped with the corrected time.
+     */
+    getClockOffset(): number | null {
+        return this.api.getClockOffset()
     }
 
     /**
@@ -509,45 +729,346 @@ export class Rondevu extends EventEmitter {
      * }
      * ```
      */
-    async peer(options: PeerOptions): Promise<Peer> {
+    peer(options: PeerOptions): Promise<Peer> {
+        return this.openPeer(options)
+    }
+
+    /**
+     * Discover and answer an offer, optionally signaling through something other than
+     * the server afterwards (see MeshSignaling)
+     */
+    private async openPeer(options: PeerOptions, signaler?: ConnectionSignaler): Promise<Peer> {
         const peer = new Peer({
             ...options,
+            signaler,
             api: this.api,
             iceServers: this.iceServers,
             iceTransportPolicy: this.iceTransportPolicy,
             webrtcAdapter: this.webrtcAdapter,
+            identity: this.getIdentityCredentials(),
+            messageStorage: this.messageStorage,
+            peerStats: this.peerStats,
+            getConnectedPeers: () => this.getConnectedPeers(),
+            onConnectionStateChanged: () => this.pollingManager.refreshCadence(),
             debug: this.debugEnabled,
         })
 
-        await peer.initialize()
+        // Route ICE candidates to the peer's connection (or the connections racing for it)
+        const pollIceHandler = (data: PollIceEvent) => {
+            peer.handleRemoteIceCandidates(data.offerId, data.candidates)
+        }
+        this.on('poll:ice', pollIceHandler)
+
+        // Track the peer so polling speeds up while it is signaling
+        this.peers.add(peer)
+
+        // Start polling if not already running (racing offers needs ICE before initialize() returns)
+        if (!this.signalingTransport.isRunning()) {
+            this.debug('Starting polling for peer connection')
+            this.signalingTransport.start()
+        } else {
+            this.pollingManager.refreshCadence()
+        }
+
+        try {
+            await peer.initialize()
+        } catch (error) {
+            this.off('poll:ice', pollIceHandler)
+            this.peers.delete(peer)
+            throw error
+        }
+
+        // Clean up once the connection closes
+        peer.on('close', () => {
+            this.off('poll:ice', pollIceHandler)
+            this.peers.delete(peer)
+        })
 
-        // Subscribe to poll:ice events for this peer's connection
-        const peerOfferId = peer.offerId
         const peerConnection = peer.getConnection()
+        peerConnection?.on('connected', () => {
+            this.recordRoundTripTime(peer.peerPublicKey, peerConnection)
+        })
+        if (peerConnection?.getState() === ConnectionState.CONNECTED) {
+            this.recordRoundTripTime(peer.peerPublicKey, peerConnection)
+        }
 
-        if (peerConnection) {
-            const pollIceHandler = (data: PollIceEvent) => {
-                if (data.offerId === peerOfferId) {
-                    peerConnection.handleRemoteIceCandidates(data.candidates)
-                }
+        return peer
+    }
+
+    /**
+     * Connect to a known peer that may be connecting to us at the same time.
+     * Both sides call connectTo() with each other's public key; whichever side's
+     * offer gets answered, the result is one connection per pair. Repeated calls
+     * for the same public key return the same Peer.
+     *
+     * @example
+     * ```typescript
+     * // On both peers
+     * const peer = await rondevu.connectTo(otherPublicKey)
+     * peer.on('open', () => peer.send('Hello!'))
+     * ```
+     */
+    connectTo(publicKey: string, options: ConnectToOptions = {}): Promise<Peer> {
+        if (publicKey === this.keyPair.publicKey) {
+            return Promise.reject(new Error('Cannot connect to own public key'))
+        }
+
+        const existing = this.symmetricPeers.get(publicKey)
+        if (existing) return existing
+
+        const pending = this.createSymmetricPeer(publicKey, options)
+        this.symmetricPeers.set(publicKey, pending)
+
+        const forget = () => {
+            if (this.symmetricPeers.get(publicKey) === pending) {
+                this.symmetricPeers.delete(publicKey)
             }
-            this.on('poll:ice', pollIceHandler)
+        }
+        pending.then(peer => peer.once('close', forget), forget)
 
-            // Clean up handler when connection closes
-            peerConnection.on('closed', () => {
-                this.off('poll:ice', pollIceHandler)
-            })
+        return pending
+    }
+
+    /**
+     * Negotiate a symmetric connection and wrap it in a Peer
+     */
+    private async createSymmetricPeer(publicKey: string, options: ConnectToOptions): Promise<Peer> {
+        const connector = new SymmetricConnector({
+            api: this.api,
+            localPublicKey: this.keyPair.publicKey,
+            remotePublicKey: publicKey,
+            offerFactory:
+                options.offerFactory ||
+                (options.media
+                    ? createMediaOfferFactory(options.media)
+                    : this.defaultOfferFactory.bind(this)),
+            ttl: options.ttl || Rondevu.DEFAULT_TTL_MS,
+            rtcConfig: {
+                iceServers: this.iceServers,
+                iceTransportPolicy: this.iceTransportPolicy,
+            },
+            webrtcAdapter: this.webrtcAdapter,
+            connectionConfig: options.config,
+            identity: this.getIdentityCredentials(),
+            messageStorage: this.messageStorage,
+            timeout: options.timeout ?? Rondevu.DEFAULT_CONNECT_TIMEOUT_MS,
+            debugEnabled: this.debugEnabled,
+        })
+
+        const pollAnswerHandler = (data: PollAnswerEvent) => connector.handlePollAnswer(data)
+        const pollIceHandler = (data: PollIceEvent) => connector.handlePollIce(data)
+        this.on('poll:answer', pollAnswerHandler)
+        this.on('poll:ice', pollIceHandler)
+        const detach = () => {
+            this.off('poll:answer', pollAnswerHandler)
+            this.off('poll:ice', pollIceHandler)
         }
 
-        // Start polling if not already running
-        if (!this.pollingManager.isRunning()) {
-            this.debug('Starting polling for peer connection')
-            this.pollingManager.start()
+        if (!this.signalingTransport.isRunning()) {
+            this.debug('Starting polling for symmetric connection')
+            this.signalingTransport.start()
         }
 
+        this.negotiatingConnectors.add(connector)
+        this.pollingManager.refreshCadence()
+
+        let connection
+        try {
+            connection = await connector.connect()
+        } catch (error) {
+            detach()
+            connector.close()
+            throw error
+        } finally {
+            this.negotiatingConnectors.delete(connector)
+        }
+
+        const peer = this.wrapConnection(connection, publicKey, [connector.tag], options.config)
+        peer.on('close', () => {
+            detach()
+            connector.close()
+        })
+
         return peer
     }
 
+    /**
+     * Wrap an already negotiated connection in a Peer (tracked for polling cadence)
+     */
+    private wrapConnection(
+        connection: SymmetricConnection,
+        publicKey: string,
+        tags: string[],
+        config?: Partial<ConnectionConfig>
+    ): Peer {
+        const peer = new Peer({
+            tags,
+            publicKey,
+            config,
+            api: this.api,
+            iceServers: this.iceServers,
+            iceTransportPolicy: this.iceTransportPolicy,
+            webrtcAdapter: this.webrtcAdapter,
+            identity: this.getIdentityCredentials(),
+            messageStorage: this.messageStorage,
+            debug: this.debugEnabled,
+        })
+        peer.adopt(connection)
+
+        this.peers.add(peer)
+        peer.on('close', () => {
+            this.peers.delete(peer)
+        })
+        connection.on('state:changed', () => this.pollingManager.refreshCadence())
+        this.pollingManager.refreshCadence()
+
+        return peer
+    }
+
+    /**
+     * Join a full-mesh room: connect to every member publishing under the same tag.
+     * For each pair of members, the one with the lower public key answers the other's
+     * offer. Joining the same tag again returns the same Room.
+     *
+     * @example
+     * ```typescript
+     * const room = await rondevu.joinRoom('team-chat', { maxPeers: 10 })
+     * room.on('peer:joined', publicKey => room.sendTo(publicKey, 'Welcome!'))
+     * room.on('message', (publicKey, data) => console.log(publicKey, data))
+     * room.broadcast('Hello everyone!')
+     * ```
+     */
+    joinRoom(tag: string, options: RoomOptions = {}): Promise<Room> {
+        const existing = this.rooms.get(tag)
+        if (existing) return existing
+
+        const pending = this.createRoom(tag, options)
+        this.rooms.set(tag, pending)
+        pending.catch(() => {
+            if (this.rooms.get(tag) === pending) {
+                this.rooms.delete(tag)
+            }
+        })
+
+        return pending
+    }
+
+    /**
+     * Set up the offer pool and polling for a room and start it
+     */
+    private async createRoom(tag: string, options: RoomOptions): Promise<Room> {
+        const offerPool = new OfferPool({
+            api: this.api,
+            tags: [tag],
+            ownerPublicKey: this.keyPair.publicKey,
+            // Every member slot is an offer until answered (or the member connects to us)
+            maxOffers: options.maxPeers ?? 8,
+            offerFactory: this.defaultOfferFactory.bind(this),
+            ttl: Rondevu.DEFAULT_TTL_MS,
+            iceServers: this.iceServers,
+            iceTransportPolicy: this.iceTransportPolicy,
+            webrtcAdapter: this.webrtcAdapter,
+            connectionConfig: options.config,
+            identity: this.getIdentityCredentials(),
+            messageStorage: this.messageStorage,
+            debugEnabled: this.debugEnabled,
+        })
+
+        const pollAnswerHandler = (data: PollAnswerEvent) => offerPool.handlePollAnswer(data)
+        const pollIceHandler = (data: PollIceEvent) => offerPool.handlePollIce(data)
+        this.on('poll:answer', pollAnswerHandler)
+        this.on('poll:ice', pollIceHandler)
+
+        const router = options.routing
+            ? new MeshRouter({
+                  keyPair: this.keyPair,
+                  crypto: this.getCryptoAdapter(),
+                  debug: this.debugEnabled,
+              })
+            : undefined
+
+        // Members connect and reconnect through each other when the server can't help
+        const signaling = router
+            ? new MeshSignaling({
+                  router,
+                  api: this.api,
+                  localPublicKey: this.keyPair.publicKey,
+                  offerFactory: this.defaultOfferFactory.bind(this),
+                  rtcConfig: {
+                      iceServers: this.iceServers,
+                      iceTransportPolicy: this.iceTransportPolicy,
+                  },
+                  webrtcAdapter: this.webrtcAdapter,
+                  connectionConfig: options.config,
+                  identity: this.getIdentityCredentials(),
+                  messageStorage: this.messageStorage,
+                  acceptRequest: publicKey => room.acceptsMember(publicKey),
+                  debugEnabled: this.debugEnabled,
+              })
+            : undefined
+
+        const room: Room = new Room({
+            ...options,
+            tag,
+            localPublicKey: this.keyPair.publicKey,
+            api: this.api,
+            offerPool,
+            connect: async publicKey => {
+                if (!signaling) {
+                    return this.peer({ tags: [tag], publicKey, config: options.config })
+                }
+
+                const peer = await this.openPeer(
+                    { tags: [tag], publicKey, config: options.config },
+                    signaling.createSignaler(createServerSignaler(this.api))
+                )
+                const connection = peer.getConnection()
+                if (connection instanceof AnswererConnection) {
+                    signaling.track(publicKey, connection)
+                }
+                return peer
+            },
+            connectViaMesh: signaling
+                ? async publicKey =>
+                      this.wrapConnection(
+                          await signaling.connect(publicKey, [tag]),
+                          publicKey,
+                          [tag],
+                          options.config
+                      )
+                : undefined,
+            wrap: (connection, publicKey) =>
+                this.wrapConnection(connection, publicKey, [tag], options.config),
+            router,
+            signaling,
+            onLeave: () => {
+                this.off('poll:answer', pollAnswerHandler)
+                this.off('poll:ice', pollIceHandler)
+                this.roomOfferPools.delete(offerPool)
+                this.rooms.delete(tag)
+                this.pollingManager.refreshCadence()
+            },
+            debug: this.debugEnabled,
+        })
+
+        if (!this.signalingTransport.isRunning()) {
+            this.debug('Starting polling for room')
+            this.signalingTransport.start()
+        }
+
+        this.roomOfferPools.add(offerPool)
+        offerPool.on('offer:created', () => this.pollingManager.refreshCadence())
+
+        try {
+            await room.start()
+        } catch (error) {
+            room.leave()
+            throw error
+        }
+
+        return room
+    }
+
     // ============================================
     // Discovery
     // ============================================
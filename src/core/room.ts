@@ -0,0 +1,381 @@
+/**
+ * Room - full mesh of peers sharing a tag
+ *
+ * Every member publishes offers under the room tag; they double as presence for
+ * discover(). For each pair of members the one with the lower public key answers an
+ * offer of the other, so exactly one side initiates and no pair ends up connected
+ * twice. Connections that break the ordering (or exceed maxPeers) are closed.
+ *
+ * With routing enabled, members also relay signed messages for each other (see
+ * MeshRouter), so members without a direct connection can still reach each other.
+ * Signaling is relayed the same way (see MeshSignaling): members reconnect through
+ * the mesh when the server is unavailable, and a routed message from a member we
+ * have no connection to triggers a direct connection attempt through the mesh.
+ */
+
+import { EventEmitter } from 'eventemitter3'
+import { RondevuAPI, DiscoverResponse } from '../api/client.js'
+import { ConnectionConfig } from '../connections/config.js'
+import { OffererConnection } from '../connections/offerer.js'
+import { MeshRouter } from './mesh.js'
+import { MeshSignaling } from './mesh-signaling.js'
+import { OfferPool } from './offer-pool.js'
+import { Peer } from './peer.js'
+
+/**
+ * Options for rondevu.joinRoom()
+ */
+export interface RoomOptions {
+    /** Maximum number of other members to stay connected to (default: 8) */
+    maxPeers?: number
+    /** Interval for discovering new members in ms (default: 2000) */
+    discoveryInterval?: number
+    /** Connection durability configuration */
+    config?: Partial<ConnectionConfig>
+    /** Relay messages between members that are not directly connected (default: false) */
+    routing?: boolean
+}
+
+/**
+ * Event map for Room
+ */
+export interface RoomEventMap {
+    /** A member's connection opened */
+    'peer:joined': [publicKey: string, peer: Peer]
+    /** A member's connection closed (after having joined) */
+    'peer:left': [publicKey: string, reason?: string]
+    /** A message from any member (directly or routed through other members) */
+    message: [publicKey: string, data: string | ArrayBuffer | Blob]
+}
+
+/**
+ * Internal options passed from Rondevu
+ */
+export interface RoomInternalOptions extends RoomOptions {
+    tag: string
+    localPublicKey: string
+    api: RondevuAPI
+    /** Pool publishing our offers under the room tag */
+    offerPool: OfferPool
+    /** Answer an offer of the given member */
+    connect: (publicKey: string) => Promise<Peer>
+    /** Answer an offer of the given member, requested through the mesh (if routing is enabled) */
+    connectViaMesh?: (publicKey: string) => Promise<Peer>
+    /** Wrap a connection that answered one of our offers */
+    wrap: (connection: OffererConnection, publicKey: string) => Peer
+    /** Router for relayed messages (if routing is enabled) */
+    router?: MeshRouter
+    /** Signaling relayed through the mesh (if routing is enabled) */
+    signaling?: MeshSignaling
+    /** Called once the room has been left */
+    onLeave: () => void
+    debug?: boolean
+}
+
+/**
+ * A room: one connection per member, discovered by tag
+ *
+ * @example
+ * ```typescript
+ * const room = await rondevu.joinRoom('team-chat', { maxPeers: 10 })
+ *
+ * room.on('peer:joined', publicKey => console.log('Joined:', publicKey))
+ * room.on('message', (publicKey, data) => console.log(publicKey, data))
+ *
+ * room.broadcast('Hello everyone!')
+ * room.sendTo(somePublicKey, 'Hello you!')
+ * ```
+ */
+export class Room extends EventEmitter<RoomEventMap> {
+    private static readonly DEFAULT_MAX_PEERS = 8
+    private static readonly DEFAULT_DISCOVERY_INTERVAL_MS = 2000
+    private static readonly MESH_CONNECT_INTERVAL_MS = 30000
+
+    readonly tag: string
+    readonly maxPeers: number
+    /** Router for messages to members without a direct connection (null unless routing is enabled) */
+    readonly router: MeshRouter | null
+
+    private readonly options: RoomInternalOptions
+    private readonly localPublicKey: string
+    private readonly discoveryInterval: number
+    private readonly debugEnabled: boolean
+
+    // Members we are connected or connecting to
+    private readonly members = new Map<string, Peer>()
+    // Members whose offer we are currently answering
+    private readonly answering = new Set<string>()
+    // Last connection attempt through the mesh, by member
+    private readonly meshAttempts = new Map<string, number>()
+
+    private discoveryTimer: ReturnType<typeof setInterval> | null = null
+    private discovering = false
+    private left = false
+
+    constructor(options: RoomInternalOptions) {
+        super()
+        this.options = options
+        this.tag = options.tag
+        this.localPublicKey = options.localPublicKey
+        this.maxPeers = options.maxPeers ?? Room.DEFAULT_MAX_PEERS
+        this.discoveryInterval = options.discoveryInterval ?? Room.DEFAULT_DISCOVERY_INTERVAL_MS
+        this.debugEnabled = options.debug || false
+        this.router = options.router ?? null
+
+        this.router?.on('message', (publicKey, data) => {
+            this.connectViaMesh(publicKey)
+
+            // Direct members' messages arrive on their own connection
+            if (data instanceof Uint8Array) {
+                const buffer = data.buffer.slice(
+                    data.byteOffset,
+                    data.byteOffset + data.byteLength
+                ) as ArrayBuffer
+                this.emit('message', publicKey, buffer)
+            } else {
+                this.emit('message', publicKey, data)
+            }
+        })
+    }
+
+    /**
+     * Publish offers and start discovering members (called internally by Rondevu.joinRoom())
+     */
+    async start(): Promise<void> {
+        this.options.offerPool.on('connection:opened', (_offerId, connection) => {
+            this.handleAnswered(connection)
+        })
+        this.options.signaling?.on('connection', (_publicKey, connection) => {
+            this.handleAnswered(connection)
+        })
+
+        await this.options.offerPool.start()
+        await this.discover()
+
+        this.discoveryTimer = setInterval(() => {
+            this.discover()
+        }, this.discoveryInterval)
+    }
+
+    /**
+     * Public keys of the members (connected or connecting)
+     */
+    get peers(): string[] {
+        return [...this.members.keys()]
+    }
+
+    /**
+     * The Peer for a member, if connected or connecting
+     */
+    getPeer(publicKey: string): Peer | undefined {
+        return this.members.get(publicKey)
+    }
+
+    /**
+     * Send a message to every member (buffered for members that are reconnecting)
+     */
+    broadcast(data: string | ArrayBuffer | Blob): void {
+        for (const [publicKey, peer] of this.members) {
+            try {
+                peer.send(data)
+            } catch (error) {
+                this.debug(`Failed to send to ${publicKey}:`, error)
+            }
+        }
+    }
+
+    /**
+     * Send a message to one member
+     */
+    sendTo(publicKey: string, data: string | ArrayBuffer | Blob): void {
+        const peer = this.members.get(publicKey)
+        if (!peer) {
+            throw new Error(`${publicKey} is not a member of room ${this.tag}`)
+        }
+        peer.send(data)
+    }
+
+    /**
+     * Send a message to a member through the mesh: directly if connected, otherwise
+     * relayed by other members (requires routing)
+     *
+     * @returns The routed message ID
+     */
+    route(publicKey: string, data: string | ArrayBuffer | Blob): Promise<string> {
+        if (!this.router) {
+            return Promise.reject(new Error(`Routing is not enabled for room ${this.tag}`))
+        }
+        return this.router.send(publicKey, data)
+    }
+
+    /**
+     * Whether a member may connect to us (used for requests relayed through the mesh)
+     * @internal
+     */
+    acceptsMember(publicKey: string): boolean {
+        if (this.left || publicKey > this.localPublicKey) return false
+        return this.members.has(publicKey) || this.hasCapacity()
+    }
+
+    /**
+     * Withdraw our offers and close all member connections
+     */
+    leave(): void {
+        if (this.left) return
+        this.left = true
+        this.debug(`Leaving room ${this.tag}`)
+
+        if (this.discoveryTimer) {
+            clearInterval(this.discoveryTimer)
+            this.discoveryTimer = null
+        }
+
+        this.options.offerPool.stop()
+        this.options.signaling?.close()
+        this.router?.close()
+        for (const peer of [...this.members.values()]) {
+            peer.close()
+        }
+        this.members.clear()
+        this.options.onLeave()
+    }
+
+    /**
+     * Find members we should connect to: the ones with a higher public key
+     */
+    private async discover(): Promise<void> {
+        if (this.left || this.discovering) return
+        this.discovering = true
+
+        try {
+            const result = (await this.options.api.discover({
+                tags: [this.tag],
+                limit: 100,
+            })) as DiscoverResponse
+
+            const candidates = new Set<string>()
+            for (const offer of result.offers ?? []) {
+                if (offer.publicKey > this.localPublicKey) {
+                    candidates.add(offer.publicKey)
+                }
+            }
+
+            for (const publicKey of candidates) {
+                if (this.members.has(publicKey) || this.answering.has(publicKey)) continue
+                if (!this.hasCapacity()) break
+                this.answer(publicKey)
+            }
+        } catch (error) {
+            this.debug('Member discovery failed:', error)
+        } finally {
+            this.discovering = false
+        }
+    }
+
+    /**
+     * Connect directly to a member we only reach through other members
+     */
+    private connectViaMesh(publicKey: string): void {
+        if (!this.options.connectViaMesh || this.left) return
+        if (publicKey < this.localPublicKey) return
+        if (this.members.has(publicKey) || this.answering.has(publicKey)) return
+        if (!this.hasCapacity()) return
+
+        const lastAttempt = this.meshAttempts.get(publicKey) ?? 0
+        if (Date.now() - lastAttempt < Room.MESH_CONNECT_INTERVAL_MS) return
+        this.meshAttempts.set(publicKey, Date.now())
+
+        this.answer(publicKey, this.options.connectViaMesh)
+    }
+
+    private answer(publicKey: string, connect = this.options.connect): void {
+        this.answering.add(publicKey)
+        this.debug(`Connecting to member ${publicKey}`)
+
+        connect(publicKey)
+            .then(peer => {
+                if (this.left) {
+                    peer.close()
+                    return
+                }
+                this.addMember(publicKey, peer)
+            })
+            .catch(error => {
+                // Offer taken by someone else or expired - retried on the next discovery
+                this.debug(`Failed to connect to member ${publicKey}:`, error)
+            })
+            .finally(() => {
+                this.answering.delete(publicKey)
+            })
+    }
+
+    /**
+     * A member answered one of our offers
+     */
+    private handleAnswered(connection: OffererConnection): void {
+        const publicKey = connection.peerPublicKey
+        if (!publicKey || this.left) {
+            connection.close()
+            return
+        }
+
+        if (publicKey > this.localPublicKey) {
+            this.debug(`Closing connection from ${publicKey}: higher keys are answered by us`)
+            connection.close()
+            return
+        }
+
+        // The member reconnected through a new offer - the old connection is stale
+        this.members.get(publicKey)?.close()
+
+        if (!this.hasCapacity()) {
+            this.debug(`Room is full, closing connection from ${publicKey}`)
+            connection.close()
+            return
+        }
+
+        this.addMember(publicKey, this.options.wrap(connection, publicKey))
+    }
+
+    private addMember(publicKey: string, peer: Peer): void {
+        this.members.set(publicKey, peer)
+        this.router?.addLink(publicKey, peer)
+
+        let joined = false
+        const onOpen = () => {
+            if (joined) return
+            joined = true
+            this.debug(`Member joined: ${publicKey}`)
+            this.emit('peer:joined', publicKey, peer)
+        }
+
+        peer.on('open', onOpen)
+        peer.on('message', data => this.emit('message', publicKey, data))
+        peer.on('close', reason => {
+            if (this.members.get(publicKey) !== peer) return
+            this.members.delete(publicKey)
+            this.router?.removeLink(publicKey)
+            if (joined) {
+                this.debug(`Member left: ${publicKey}`)
+                this.emit('peer:left', publicKey, reason)
+            }
+        })
+
+        // Give up on members that stay unreachable; discovery finds them again if they return
+        peer.getConnection()?.on('reconnect:exhausted', () => peer.close())
+
+        if (peer.isConnected) {
+            onOpen()
+        }
+    }
+
+    private hasCapacity(): boolean {
+        return this.members.size + this.answering.size < this.maxPeers
+    }
+
+    private debug(...args: unknown[]): void {
+        if (this.debugEnabled) {
+            console.log('[Room]', ...args)
+        }
+    }
+}
@@ -0,0 +1,49 @@
+/**
+ * SignalingTransport - Pluggable delivery of answers and ICE candidates
+ *
+ * The offerer needs to learn about answers to its offers, and both sides need
+ * remote ICE candidates. A transport delivers these as global events:
+ * - poll:answer - When an offer receives an answer
+ * - poll:ice - When new ICE candidates are available
+ *
+ * Implementations:
+ * - PollingManager - HTTP polling via RondevuAPI.poll()
+ * - FallbackSignalingTransport - Server push (PushTransport, over WebSocket or
+ *   Server-Sent Events) with automatic fallback to polling
+ */
+
+import type { EventEmitter } from 'eventemitter3'
+import { IceCandidate } from '../api/client.js'
+
+export interface PollAnswerEvent {
+    offerId: string
+    answererPublicKey: string
+    sdp: string
+    answeredAt: number
+    matchedTags?: string[]
+}
+
+export interface PollIceEvent {
+    offerId: string
+    candidates: IceCandidate[]
+}
+
+export interface SignalingTransportEvents {
+    'poll:answer': (data: PollAnswerEvent) => void
+    'poll:ice': (data: PollIceEvent) => void
+    'poll:error': (error: Error) => void
+    'poll:started': () => void
+    'poll:stopped': () => void
+}
+
+/**
+ * Transport that delivers signaling events to Rondevu
+ */
+export interface SignalingTransport extends EventEmitter<SignalingTransportEvents> {
+    /** Start delivering events */
+    start(): void
+    /** Stop delivering events */
+    stop(): void
+    /** Whether the transport is started */
+    isRunning(): boolean
+}
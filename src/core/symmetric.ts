@@ -0,0 +1,374 @@
+/**
+ * Symmetric connections: both peers call connectTo() for each other
+ *
+ * The signaling server only knows offers and answers, so one side has to end up as
+ * the offerer. Each peer looks for the other's offer under a tag derived from both
+ * public keys, answers it if present, and otherwise publishes an offer of its own.
+ * Simultaneous attempts ("glare") are resolved with the perfect-negotiation roles,
+ * derived deterministically from the key order:
+ *
+ * - the polite peer (lower public key) keeps looking for the remote's offer while its
+ *   own is unanswered; if it shows up, it rolls back (deletes its own offer) and answers
+ * - the impolite peer (higher public key) ignores the remote's offer once it has
+ *   published its own, and waits for the polite peer to answer
+ *
+ * Both sides therefore converge on a single connection. After a failure the offering
+ * side publishes a new offer under the same tag and the answering side finds it again
+ * through its regular reconnection.
+ */
+
+import { RondevuAPI, DiscoverResponse, TaggedOffer } from '../api/client.js'
+import { OffererConnection } from '../connections/offerer.js'
+import { AnswererConnection } from '../connections/answerer.js'
+import { ConnectionConfig } from '../connections/config.js'
+import { ConnectionState } from '../connections/events.js'
+import { IdentityCredentials } from '../connections/identity.js'
+import { MessageBufferStorage } from '../storage/adapter.js'
+import { SignalingCipher } from '../crypto/e2e.js'
+import { WebRTCAdapter } from '../webrtc/adapter.js'
+import { OfferFactory, PublishedOffer, publishOffer } from './offer-pool.js'
+import type { PollAnswerEvent, PollIceEvent } from './polling-manager.js'
+
+export type SymmetricConnection = OffererConnection | AnswererConnection
+
+export interface SymmetricConnectorOptions {
+    api: RondevuAPI
+    localPublicKey: string
+    remotePublicKey: string
+    offerFactory: OfferFactory
+    ttl: number
+    rtcConfig: RTCConfiguration
+    webrtcAdapter: WebRTCAdapter
+    connectionConfig?: Partial<ConnectionConfig>
+    identity?: IdentityCredentials
+    messageStorage?: MessageBufferStorage
+    /** Time to wait for the remote peer to answer or publish an offer (ms) */
+    timeout: number
+    /** Interval for looking up the remote's offer while ours is unanswered (ms, default: 1000) */
+    discoveryIntervalMs?: number
+    debugEnabled?: boolean
+}
+
+/**
+ * Discovery tag shared by two peers, independent of which side computes it
+ */
+export function symmetricPairTag(publicKeyA: string, publicKeyB: string): string {
+    const [first, second] =
+        publicKeyA < publicKeyB ? [publicKeyA, publicKeyB] : [publicKeyB, publicKeyA]
+    const input = `${first}:${second}`
+
+    // Two FNV-1a variants give 64 bits; collisions only cost a discovery filter step
+    let h1 = 0x811c9dc5
+    let h2 = 0x01000193
+    for (let i = 0; i < input.length; i++) {
+        const code = input.charCodeAt(i)
+        h1 = Math.imul(h1 ^ code, 0x01000193)
+        h2 = Math.imul(h2 ^ code, 0x811c9dc5)
+    }
+    const hex = (n: number) => (n >>> 0).toString(16).padStart(8, '0')
+    return `rondevu.pair.${hex(h1)}${hex(h2)}`
+}
+
+/**
+ * Whether the local peer yields on glare (the one with the lower public key)
+ */
+export function isPolitePeer(localPublicKey: string, remotePublicKey: string): boolean {
+    return localPublicKey < remotePublicKey
+}
+
+/**
+ * Negotiates a single connection with a peer that may be connecting to us at the same time
+ */
+export class SymmetricConnector {
+    private static readonly DEFAULT_DISCOVERY_INTERVAL_MS = 1000
+
+    readonly polite: boolean
+    readonly tag: string
+
+    private readonly api: RondevuAPI
+    private readonly remotePublicKey: string
+    private readonly debugEnabled: boolean
+    // Both keys are known up front, so offers and candidates are encrypted to the remote
+    private readonly cipher: SignalingCipher | null
+    private offerer: OffererConnection | null = null
+    private connection: SymmetricConnection | null = null
+    private closed = false
+
+    constructor(private readonly options: SymmetricConnectorOptions) {
+        this.api = options.api
+        this.remotePublicKey = options.remotePublicKey
+        this.debugEnabled = options.debugEnabled || false
+        this.polite = isPolitePeer(options.localPublicKey, options.remotePublicKey)
+        this.tag = symmetricPairTag(options.localPublicKey, options.remotePublicKey)
+        this.cipher =
+            options.identity && options.connectionConfig?.encryptSignaling
+                ? new SignalingCipher(options.identity.keyPair, options.identity.crypto)
+                : null
+    }
+
+    /**
+     * Answer the remote's offer or publish our own, resolving glare
+     *
+     * @returns The single connection to the remote peer (not yet open)
+     */
+    async connect(): Promise<SymmetricConnection> {
+        this.debug(
+            `Connecting to ${this.remotePublicKey} as ${this.polite ? 'polite' : 'impolite'} peer`
+        )
+
+        const offers = await this.findPairOffers()
+
+        // Offers we left behind in a previous session would be answered by the remote
+        for (const stale of offers.filter(o => o.publicKey === this.options.localPublicKey)) {
+            this.api.deleteOffer(stale.offerId).catch(error => {
+                this.debug(`Failed to delete stale offer ${stale.offerId}:`, error)
+            })
+        }
+
+        // No offer of our own yet, so there is no collision: either role answers
+        const remoteOffer = offers.find(o => o.publicKey === this.remotePublicKey)
+        if (remoteOffer) {
+            return this.settle(await this.answer(remoteOffer))
+        }
+
+        const offerer = await this.createOfferer()
+        return this.settle(await this.waitForResolution(offerer))
+    }
+
+    /**
+     * Route answers for our offer
+     */
+    handlePollAnswer(data: PollAnswerEvent): void {
+        const offerer = this.offerer
+        if (!offerer || data.offerId !== offerer.getOfferId()) return
+
+        if (data.answererPublicKey !== this.remotePublicKey) {
+            // Pair tags are discoverable by anyone; republish so the remote can still answer
+            this.debug(
+                `Offer ${data.offerId} was answered by ${data.answererPublicKey}, republishing`
+            )
+            this.rotate(offerer, true)
+            return
+        }
+
+        offerer.processAnswer(data.sdp, data.answererPublicKey).catch(error => {
+            this.debug(`Failed to process answer for offer ${data.offerId}:`, error)
+        })
+    }
+
+    /**
+     * Route ICE candidates for the offer we published or answered
+     */
+    handlePollIce(data: PollIceEvent): void {
+        const connection = this.connection ?? this.offerer
+        if (!connection || data.offerId !== connection.getOfferId()) return
+        connection.handleRemoteIceCandidates(data.candidates)
+    }
+
+    /**
+     * Stop negotiating and close the connection
+     */
+    close(): void {
+        if (this.closed) return
+        this.closed = true
+        this.discardOffer()
+        this.connection?.close()
+    }
+
+    private settle(connection: SymmetricConnection): SymmetricConnection {
+        if (this.closed) {
+            connection.close()
+            throw new Error(`Connection to ${this.remotePublicKey} was closed`)
+        }
+        this.connection = connection
+        return connection
+    }
+
+    /**
+     * Wait until our offer is answered, or (polite side) until the remote's offer shows up
+     */
+    private waitForResolution(offerer: OffererConnection): Promise<SymmetricConnection> {
+        return new Promise((resolve, reject) => {
+            let settled = false
+            let looking = false
+            let discoveryInterval: ReturnType<typeof setInterval> | null = null
+
+            const finish = () => {
+                settled = true
+                clearTimeout(timer)
+                if (discoveryInterval) clearInterval(discoveryInterval)
+                offerer.off('answer:processed', onAnswered)
+            }
+
+            const onAnswered = () => {
+                if (settled) return
+                finish()
+                this.debug(`Offer ${offerer.getOfferId()} answered by ${this.remotePublicKey}`)
+                resolve(offerer)
+            }
+            offerer.on('answer:processed', onAnswered)
+
+            const timer = setTimeout(() => {
+                if (settled) return
+                finish()
+                this.discardOffer()
+                reject(
+                    new Error(
+                        `${this.remotePublicKey} did not connect within ${this.options.timeout}ms`
+                    )
+                )
+            }, this.options.timeout)
+
+            if (!this.polite) return
+
+            discoveryInterval = setInterval(() => {
+                if (looking || settled) return
+                looking = true
+
+                this.findPairOffers()
+                    .then(offers => {
+                        const remoteOffer = offers.find(o => o.publicKey === this.remotePublicKey)
+                        if (!remoteOffer || settled) return
+
+                        // Glare: roll back our offer and answer theirs
+                        finish()
+                        this.debug(`Offer collision, answering ${remoteOffer.offerId} instead`)
+                        this.discardOffer()
+                        this.answer(remoteOffer).then(resolve, reject)
+                    })
+                    .catch(error => {
+                        this.debug('Failed to look up remote offer:', error)
+                    })
+                    .finally(() => {
+                        looking = false
+                    })
+            }, this.options.discoveryIntervalMs ?? SymmetricConnector.DEFAULT_DISCOVERY_INTERVAL_MS)
+        })
+    }
+
+    private async findPairOffers(): Promise<TaggedOffer[]> {
+        const result = (await this.api.discover({
+            tags: [this.tag],
+            limit: 100,
+        })) as DiscoverResponse
+        return result.offers ?? []
+    }
+
+    private async answer(offer: TaggedOffer): Promise<AnswererConnection> {
+        const connection = new AnswererConnection({
+            api: this.api,
+            ownerPublicKey: offer.publicKey,
+            tags: [this.tag],
+            offerId: offer.offerId,
+            offerSdp: offer.sdp,
+            rtcConfig: this.options.rtcConfig,
+            webrtcAdapter: this.options.webrtcAdapter,
+            config: {
+                ...this.options.connectionConfig,
+                debug: this.debugEnabled,
+            },
+            matchedTags: [this.tag],
+            identity: this.options.identity,
+            messageStorage: this.options.messageStorage,
+        })
+
+        // Route candidates to it while the answer is being sent
+        this.connection = connection
+        await connection.initialize()
+        return connection
+    }
+
+    private async createOfferer(): Promise<OffererConnection> {
+        const { offerId, pc, dc } = await this.publish()
+
+        const connection = new OffererConnection({
+            api: this.api,
+            ownerPublicKey: this.options.localPublicKey,
+            offerId,
+            pc,
+            dc,
+            webrtcAdapter: this.options.webrtcAdapter,
+            config: {
+                ...this.options.connectionConfig,
+                debug: this.debugEnabled,
+            },
+            identity: this.options.identity,
+            messageStorage: this.options.messageStorage,
+            recipientPublicKey: this.remotePublicKey,
+        })
+
+        // Offerer connections do not reconnect; publish a new offer instead (see OfferPool)
+        connection.on('failed', () => {
+            if (this.connection === connection) {
+                this.rotate(connection, false)
+            }
+        })
+
+        this.offerer = connection
+        await connection.initialize()
+        return connection
+    }
+
+    /**
+     * Replace the offer behind an offerer connection with a freshly published one
+     */
+    private rotate(offerer: OffererConnection, force: boolean): void {
+        if (this.closed) return
+        // The connection may have recovered (e.g. ICE restart) before we got here
+        if (!force && offerer.getState() !== ConnectionState.FAILED) return
+
+        const oldOfferId = offerer.getOfferId()
+        let published: PublishedOffer | null = null
+
+        this.publish()
+            .then(async result => {
+                published = result
+                await offerer.rebindToOffer(result.offerId, result.pc, result.dc)
+                this.debug(`Offer rotated: ${oldOfferId} → ${result.offerId}`)
+                this.api.deleteOffer(oldOfferId).catch(() => {
+                    // Answered offers may already be gone
+                })
+            })
+            .catch(error => {
+                this.debug(`Failed to republish offer ${oldOfferId}:`, error)
+                published?.pc.close()
+                offerer.close()
+            })
+    }
+
+    private publish(): Promise<PublishedOffer> {
+        return publishOffer({
+            api: this.api,
+            tags: [this.tag],
+            offerFactory: this.options.offerFactory,
+            ttl: this.options.ttl,
+            rtcConfig: this.options.rtcConfig,
+            webrtcAdapter: this.options.webrtcAdapter,
+            encryptTo: this.cipher
+                ? { publicKey: this.remotePublicKey, cipher: this.cipher }
+                : undefined,
+            debug: (...args) => this.debug(...args),
+        })
+    }
+
+    /**
+     * Withdraw our unanswered offer (rollback, timeout or close)
+     */
+    private discardOffer(): void {
+        const offerer = this.offerer
+        if (!offerer || this.connection === offerer) return
+
+        this.offerer = null
+        const offerId = offerer.getOfferId()
+        offerer.close()
+        this.api.deleteOffer(offerId).catch(error => {
+            this.debug(`Failed to delete offer ${offerId}:`, error)
+        })
+    }
+
+    private debug(...args: unknown[]): void {
+        if (this.debugEnabled) {
+            console.log('[SymmetricConnector]', ...args)
+        }
+    }
+}
@@ -64,4 +64,31 @@ export interface CryptoAdapter {
      * Generate random bytes
      */
     randomBytes(length: number): Uint8Array
+
+    /**
+     * Derive a 256-bit key from shared secret material using HKDF-SHA256
+     * @param secret - The input key material
+     * @param info - Context the key is bound to
+     * @returns The raw key (32 bytes)
+     */
+    deriveKey(secret: Uint8Array, info: string): Promise<Uint8Array>
+
+    /**
+     * Encrypt data using AES-256-GCM
+     * @param key - The raw key (32 bytes)
+     * @param iv - The nonce (12 bytes), never reused with the same key
+     * @param plaintext - The data to encrypt
+     * @returns Ciphertext followed by the authentication tag
+     */
+    encrypt(key: Uint8Array, iv: Uint8Array, plaintext: Uint8Array): Promise<Uint8Array>
+
+    /**
+     * Decrypt data encrypted with encrypt()
+     * @param key - The raw key (32 bytes)
+     * @param iv - The nonce used for encryption
+     * @param ciphertext - Ciphertext followed by the authentication tag
+     * @returns The plaintext
+     * @throws If the key is wrong or the data was altered
+     */
+    decrypt(key: Uint8Array, iv: Uint8Array, ciphertext: Uint8Array): Promise<Uint8Array>
 }
@@ -0,0 +1,118 @@
+/**
+ * End-to-end encryption of signaling data between two identities
+ *
+ * The Ed25519 identity keys double as X25519 keys: the shared secret is the
+ * Montgomery u-coordinate of (our signing scalar × their public point), which is
+ * exactly X25519 on the birationally converted keys. HKDF-SHA256 turns it into an
+ * AES-256-GCM key shared by the pair, so the signaling server only sees ciphertext
+ * (both run through the CryptoAdapter):
+ *
+ *   rondevu-e2e:1:<base64(iv || ciphertext)>
+ */
+
+import * as ed from '@noble/ed25519'
+import { CryptoAdapter, KeyPair } from './adapter.js'
+
+/**
+ * Prefix of encrypted signaling values
+ */
+export const ENCRYPTED_SIGNAL_PREFIX = 'rondevu-e2e:1:'
+
+const FIELD_PRIME = 2n ** 255n - 19n
+const IV_LENGTH = 12
+
+/**
+ * Whether a signaling value (SDP, candidate payload) is encrypted
+ */
+export function isEncryptedSignal(value: unknown): value is string {
+    return typeof value === 'string' && value.startsWith(ENCRYPTED_SIGNAL_PREFIX)
+}
+
+/**
+ * Encrypts and decrypts signaling data exchanged with other identities
+ */
+export class SignalingCipher {
+    // Derived AES keys by remote public key
+    private readonly keys = new Map<string, Promise<Uint8Array>>()
+
+    constructor(
+        private readonly keyPair: KeyPair,
+        private readonly crypto: CryptoAdapter
+    ) {}
+
+    /**
+     * Encrypt a value so only the given identity (and we) can read it
+     */
+    async encrypt(remotePublicKey: string, plaintext: string): Promise<string> {
+        const key = await this.getKey(remotePublicKey)
+        const iv = this.crypto.randomBytes(IV_LENGTH)
+        const ciphertext = await this.crypto.encrypt(key, iv, new TextEncoder().encode(plaintext))
+
+        const sealed = new Uint8Array(IV_LENGTH + ciphertext.length)
+        sealed.set(iv)
+        sealed.set(ciphertext, IV_LENGTH)
+        return ENCRYPTED_SIGNAL_PREFIX + this.crypto.bytesToBase64(sealed)
+    }
+
+    /**
+     * Decrypt a value encrypted by the given identity
+     * @throws If the value was not encrypted between us and that identity, or was altered
+     */
+    async decrypt(remotePublicKey: string, value: string): Promise<string> {
+        if (!isEncryptedSignal(value)) {
+            throw new Error('Value is not encrypted')
+        }
+
+        const sealed = this.crypto.base64ToBytes(value.slice(ENCRYPTED_SIGNAL_PREFIX.length))
+        if (sealed.length <= IV_LENGTH) {
+            throw new Error('Encrypted value is truncated')
+        }
+
+        const key = await this.getKey(remotePublicKey)
+        const plaintext = await this.crypto.decrypt(
+            key,
+            sealed.subarray(0, IV_LENGTH),
+            sealed.subarray(IV_LENGTH)
+        )
+        return new TextDecoder().decode(plaintext)
+    }
+
+    private getKey(remotePublicKey: string): Promise<Uint8Array> {
+        let key = this.keys.get(remotePublicKey)
+        if (!key) {
+            key = this.deriveKey(remotePublicKey)
+            this.keys.set(remotePublicKey, key)
+            // Don't cache failures (e.g. an invalid key)
+            key.catch(() => this.keys.delete(remotePublicKey))
+        }
+        return key
+    }
+
+    private async deriveKey(remotePublicKey: string): Promise<Uint8Array> {
+        const remotePoint = ed.Point.fromBytes(this.crypto.hexToBytes(remotePublicKey))
+        if (remotePoint.isSmallOrder() || !remotePoint.isTorsionFree()) {
+            throw new Error(`Invalid public key for key agreement: ${remotePublicKey}`)
+        }
+
+        const { scalar } = await ed.utils.getExtendedPublicKeyAsync(
+            this.crypto.hexToBytes(this.keyPair.privateKey)
+        )
+        const { y } = remotePoint.multiply(scalar).toAffine()
+
+        // Edwards y → Montgomery u = (1 + y) / (1 - y)
+        const u = ed.etc.mod(
+            (1n + y) * ed.etc.invert(ed.etc.mod(1n - y, FIELD_PRIME), FIELD_PRIME),
+            FIELD_PRIME
+        )
+        const shared = new Uint8Array(32)
+        let rest = u
+        for (let i = 0; i < 32; i++) {
+            shared[i] = Number(rest & 0xffn)
+            rest >>= 8n
+        }
+
+        // Both sides derive the same key: bind it to the (ordered) pair of identities
+        const [first, second] = [this.keyPair.publicKey, remotePublicKey].sort()
+        return this.crypto.deriveKey(shared, `rondevu-e2e:${first}:${second}`)
+    }
+}
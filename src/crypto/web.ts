@@ -131,4 +131,58 @@ export class WebCryptoAdapter implements CryptoAdapter {
     randomBytes(length: number): Uint8Array {
         return crypto.getRandomValues(new Uint8Array(length))
     }
+
+    /**
+     * Derive a 256-bit key using HKDF-SHA256
+     */
+    async deriveKey(secret: Uint8Array, info: string): Promise<Uint8Array> {
+        const material = await crypto.subtle.importKey(
+            'raw',
+            secret as BufferSource,
+            'HKDF',
+            false,
+            ['deriveBits']
+        )
+        const bits = await crypto.subtle.deriveBits(
+            {
+                name: 'HKDF',
+                hash: 'SHA-256',
+                salt: new Uint8Array(0),
+                info: new TextEncoder().encode(info),
+            },
+            material,
+            256
+        )
+        return new Uint8Array(bits)
+    }
+
+    /**
+     * Encrypt using AES-256-GCM
+     */
+    async encrypt(key: Uint8Array, iv: Uint8Array, plaintext: Uint8Array): Promise<Uint8Array> {
+        const aesKey = await crypto.subtle.importKey('raw', key as BufferSource, 'AES-GCM', false, [
+            'encrypt',
+        ])
+        const ciphertext = await crypto.subtle.encrypt(
+            { name: 'AES-GCM', iv: iv as BufferSource },
+            aesKey,
+            plaintext as BufferSource
+        )
+        return new Uint8Array(ciphertext)
+    }
+
+    /**
+     * Decrypt using AES-256-GCM
+     */
+    async decrypt(key: Uint8Array, iv: Uint8Array, ciphertext: Uint8Array): Promise<Uint8Array> {
+        const aesKey = await crypto.subtle.importKey('raw', key as BufferSource, 'AES-GCM', false, [
+            'decrypt',
+        ])
+        const plaintext = await crypto.subtle.decrypt(
+            { name: 'AES-GCM', iv: iv as BufferSource },
+            aesKey,
+            ciphertext as BufferSource
+        )
+        return new Uint8Array(plaintext)
+    }
 }
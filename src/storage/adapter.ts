@@ -0,0 +1,34 @@
+/**
+ * Storage adapter interface for persisting outgoing message buffers
+ */
+
+import { BufferedMessage } from '../connections/events.js'
+
+/**
+ * Persistent storage for queued outgoing messages.
+ *
+ * Each connection's MessageBuffer is saved under the remote peer's public key, so a
+ * restarted Rondevu instance (with the same KeyPair) resumes delivering queued
+ * messages when it reconnects to that peer. Implementations must tolerate
+ * concurrent saves for different peers; saves for the same peer are serialized.
+ */
+export interface MessageBufferStorage {
+    /**
+     * Load the messages queued for a peer (oldest first, empty if none)
+     * @param peerPublicKey - Remote peer's public key
+     */
+    load(peerPublicKey: string): Promise<BufferedMessage[]>
+
+    /**
+     * Replace the messages queued for a peer
+     * @param peerPublicKey - Remote peer's public key
+     * @param messages - Current buffer contents (oldest first)
+     */
+    save(peerPublicKey: string, messages: BufferedMessage[]): Promise<void>
+
+    /**
+     * Remove all messages queued for a peer
+     * @param peerPublicKey - Remote peer's public key
+     */
+    clear(peerPublicKey: string): Promise<void>
+}
@@ -0,0 +1,118 @@
+/**
+ * File-system message buffer storage for Node.js
+ * Queued messages survive process restarts
+ */
+
+import { BufferedMessage } from '../connections/events.js'
+import { MessageBufferStorage } from './adapter.js'
+
+export interface FileMessageBufferStorageOptions {
+    /** Directory holding one JSON file per peer (created if missing) */
+    directory: string
+}
+
+interface SerializedMessage {
+    id: string
+    timestamp: number
+    attempts: number
+    seq?: number
+    /** String payload, or base64 for binary payloads */
+    data: string
+    binary: boolean
+}
+
+/**
+ * MessageBufferStorage writing `<directory>/<peerPublicKey>.json`.
+ * Binary messages are stored as base64 and restored as ArrayBuffer.
+ * Writes go to a temporary file first and are renamed into place.
+ *
+ * Node.js modules are loaded lazily so this file can be bundled for browsers.
+ *
+ * @example
+ * ```typescript
+ * const rondevu = await Rondevu.connect({
+ *   keyPair: savedKeyPair,
+ *   messageStorage: new FileMessageBufferStorage({ directory: './.rondevu/buffers' }),
+ * })
+ * ```
+ */
+export class FileMessageBufferStorage implements MessageBufferStorage {
+    private readonly directory: string
+    private writeCounter = 0
+
+    constructor(options: FileMessageBufferStorageOptions) {
+        this.directory = options.directory
+    }
+
+    async load(peerPublicKey: string): Promise<BufferedMessage[]> {
+        const { readFile } = await import('node:fs/promises')
+
+        let raw: string
+        try {
+            raw = await readFile(await this.fileFor(peerPublicKey), 'utf8')
+        } catch (error) {
+            if ((error as { code?: string }).code === 'ENOENT') return []
+            throw error
+        }
+
+        const serialized = JSON.parse(raw) as SerializedMessage[]
+        return serialized.map(msg => ({
+            id: msg.id,
+            timestamp: msg.timestamp,
+            attempts: msg.attempts,
+            ...(msg.seq !== undefined && { seq: msg.seq }),
+            data: msg.binary ? this.fromBase64(msg.data) : msg.data,
+        }))
+    }
+
+    async save(peerPublicKey: string, messages: BufferedMessage[]): Promise<void> {
+        if (messages.length === 0) {
+            await this.clear(peerPublicKey)
+            return
+        }
+
+        const { mkdir, writeFile, rename } = await import('node:fs/promises')
+        const serialized: SerializedMessage[] = []
+        for (const msg of messages) {
+            const binary = typeof msg.data !== 'string'
+            serialized.push({
+                id: msg.id,
+                timestamp: msg.timestamp,
+                attempts: msg.attempts,
+                ...(msg.seq !== undefined && { seq: msg.seq }),
+                data: binary
+                    ? await this.toBase64(msg.data as ArrayBuffer | Blob)
+                    : (msg.data as string),
+                binary,
+            })
+        }
+
+        await mkdir(this.directory, { recursive: true })
+        const file = await this.fileFor(peerPublicKey)
+        const tmp = `${file}.${process.pid}.${this.writeCounter++}.tmp`
+        await writeFile(tmp, JSON.stringify(serialized), 'utf8')
+        await rename(tmp, file)
+    }
+
+    async clear(peerPublicKey: string): Promise<void> {
+        const { rm } = await import('node:fs/promises')
+        await rm(await this.fileFor(peerPublicKey), { force: true })
+    }
+
+    private async fileFor(peerPublicKey: string): Promise<string> {
+        const { join } = await import('node:path')
+        // Public keys are hex; strip anything else so a key can't escape the directory
+        const name = peerPublicKey.replace(/[^a-zA-Z0-9_-]/g, '_')
+        return join(this.directory, `${name}.json`)
+    }
+
+    private async toBase64(data: ArrayBuffer | Blob): Promise<string> {
+        const buffer = data instanceof ArrayBuffer ? data : await data.arrayBuffer()
+        return Buffer.from(buffer).toString('base64')
+    }
+
+    private fromBase64(base64: string): ArrayBuffer {
+        const bytes = Buffer.from(base64, 'base64')
+        return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength)
+    }
+}
@@ -0,0 +1,113 @@
+/**
+ * IndexedDB message buffer storage for browsers
+ * Queued messages survive page reloads
+ */
+
+import { BufferedMessage } from '../connections/events.js'
+import { MessageBufferStorage } from './adapter.js'
+
+export interface IndexedDBMessageBufferStorageOptions {
+    /** Database name (default: 'rondevu-message-buffer') */
+    databaseName?: string
+    /** IDBFactory to use (defaults to the global indexedDB) */
+    indexedDB?: IDBFactory
+}
+
+interface StoredBuffer {
+    peerPublicKey: string
+    messages: BufferedMessage[]
+}
+
+const STORE_NAME = 'buffers'
+
+/**
+ * MessageBufferStorage backed by IndexedDB (one record per peer).
+ * Binary messages (ArrayBuffer, Blob) are stored natively.
+ *
+ * @example
+ * ```typescript
+ * const rondevu = await Rondevu.connect({
+ *   keyPair: savedKeyPair,
+ *   messageStorage: new IndexedDBMessageBufferStorage(),
+ * })
+ * ```
+ */
+export class IndexedDBMessageBufferStorage implements MessageBufferStorage {
+    private readonly databaseName: string
+    private readonly factory?: IDBFactory
+    private db: Promise<IDBDatabase> | null = null
+
+    constructor(options: IndexedDBMessageBufferStorageOptions = {}) {
+        this.databaseName = options.databaseName ?? 'rondevu-message-buffer'
+        this.factory =
+            options.indexedDB ?? (typeof indexedDB !== 'undefined' ? indexedDB : undefined)
+    }
+
+    async load(peerPublicKey: string): Promise<BufferedMessage[]> {
+        const record = await this.request<StoredBuffer | undefined>('readonly', store =>
+            store.get(peerPublicKey)
+        )
+        return record?.messages ?? []
+    }
+
+    async save(peerPublicKey: string, messages: BufferedMessage[]): Promise<void> {
+        if (messages.length === 0) {
+            await this.clear(peerPublicKey)
+            return
+        }
+        const record: StoredBuffer = { peerPublicKey, messages }
+        await this.request('readwrite', store => store.put(record))
+    }
+
+    async clear(peerPublicKey: string): Promise<void> {
+        await this.request('readwrite', store => store.delete(peerPublicKey))
+    }
+
+    /**
+     * Close the database connection
+     */
+    async close(): Promise<void> {
+        if (!this.db) return
+        const db = await this.db.catch(() => null)
+        this.db = null
+        db?.close()
+    }
+
+    private open(): Promise<IDBDatabase> {
+        if (this.db) return this.db
+
+        const factory = this.factory
+        if (!factory) {
+            return Promise.reject(new Error('IndexedDB is not available in this runtime'))
+        }
+
+        this.db = new Promise<IDBDatabase>((resolve, reject) => {
+            const request = factory.open(this.databaseName, 1)
+            request.onupgradeneeded = () => {
+                request.result.createObjectStore(STORE_NAME, { keyPath: 'peerPublicKey' })
+            }
+            request.onsuccess = () => resolve(request.result)
+            request.onerror = () => reject(request.error)
+        })
+        // Allow a later call to retry after a failed open
+        this.db.catch(() => {
+            this.db = null
+        })
+        return this.db
+    }
+
+    private async request<T>(
+        mode: 'readonly' | 'readwrite',
+        run: (store: IDBObjectStore) => IDBRequest
+    ): Promise<T> {
+        const db = await this.open()
+        return new Promise<T>((resolve, reject) => {
+            const transaction = db.transaction(STORE_NAME, mode)
+            const request = run(transaction.objectStore(STORE_NAME))
+            transaction.oncomplete = () => resolve(request.result as T)
+            transaction.onerror = () => reject(transaction.error ?? request.error)
+            transaction.onabort = () =>
+                reject(transaction.error ?? new Error('Transaction aborted'))
+        })
+    }
+}
@@ -0,0 +1,39 @@
+/**
+ * In-memory message buffer storage
+ * Survives connection objects being recreated, but not a process restart or page reload
+ */
+
+import { BufferedMessage } from '../connections/events.js'
+import { MessageBufferStorage } from './adapter.js'
+
+/**
+ * MessageBufferStorage backed by a Map
+ *
+ * @example
+ * ```typescript
+ * const storage = new MemoryMessageBufferStorage()
+ * const rondevu = await Rondevu.connect({ keyPair, messageStorage: storage })
+ * ```
+ */
+export class MemoryMessageBufferStorage implements MessageBufferStorage {
+    private readonly buffers = new Map<string, BufferedMessage[]>()
+
+    async load(peerPublicKey: string): Promise<BufferedMessage[]> {
+        return (this.buffers.get(peerPublicKey) ?? []).map(msg => ({ ...msg }))
+    }
+
+    async save(peerPublicKey: string, messages: BufferedMessage[]): Promise<void> {
+        if (messages.length === 0) {
+            this.buffers.delete(peerPublicKey)
+            return
+        }
+        this.buffers.set(
+            peerPublicKey,
+            messages.map(msg => ({ ...msg }))
+        )
+    }
+
+    async clear(peerPublicKey: string): Promise<void> {
+        this.buffers.delete(peerPublicKey)
+    }
+}
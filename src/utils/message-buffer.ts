@@ -7,6 +7,7 @@ import { BufferedMessage } from '../connections/events.js'
 export interface MessageBufferConfig {
     maxSize: number // Maximum number of messages to buffer
     maxAge: number // Maximum age of messages in milliseconds
+    onChange?: () => void // Called after the contents change (e.g. to persist them)
 }
 
 export class MessageBuffer {
@@ -19,27 +20,40 @@ export class MessageBuffer {
      * Add a message to the buffer
      * Returns the buffered message with metadata
      */
-    add(data: string | ArrayBuffer | Blob): BufferedMessage {
+    add(data: string | ArrayBuffer | Blob, seq?: number): BufferedMessage {
         const message: BufferedMessage = {
             id: `msg_${Date.now()}_${this.messageIdCounter++}`,
             data,
             timestamp: Date.now(),
             attempts: 0,
+            ...(seq !== undefined && { seq }),
         }
 
         // Check if buffer is full
         if (this.buffer.length >= this.config.maxSize) {
-            // Remove oldest message
-            const discarded = this.buffer.shift()
-            if (discarded) {
-                return message // Signal overflow by returning the new message
-            }
+            // Remove oldest message to make room
+            this.buffer.shift()
         }
 
         this.buffer.push(message)
+        this.notifyChange()
         return message
     }
 
+    /**
+     * Insert previously stored messages ahead of the current contents
+     * (oldest are dropped if the result exceeds maxSize)
+     */
+    restore(messages: BufferedMessage[]): void {
+        if (messages.length === 0) return
+
+        this.buffer = [...messages, ...this.buffer]
+        if (this.buffer.length > this.config.maxSize) {
+            this.buffer = this.buffer.slice(this.buffer.length - this.config.maxSize)
+        }
+        this.notifyChange()
+    }
+
     /**
      * Get all messages in the buffer
      */
@@ -68,6 +82,7 @@ export class MessageBuffer {
             }
             return true
         })
+        if (expired.length > 0) this.notifyChange()
         return expired
     }
 
@@ -79,15 +94,33 @@ export class MessageBuffer {
         if (index === -1) return null
 
         const [removed] = this.buffer.splice(index, 1)
+        this.notifyChange()
         return removed
     }
 
+    /**
+     * Remove sequenced messages up to and including `seq` (cumulative ack)
+     */
+    removeAcked(seq: number): BufferedMessage[] {
+        const acked: BufferedMessage[] = []
+        this.buffer = this.buffer.filter(msg => {
+            if (msg.seq !== undefined && msg.seq <= seq) {
+                acked.push(msg)
+                return false
+            }
+            return true
+        })
+        if (acked.length > 0) this.notifyChange()
+        return acked
+    }
+
     /**
      * Clear all messages from the buffer
      */
     clear(): BufferedMessage[] {
         const cleared = [...this.buffer]
         this.buffer = []
+        if (cleared.length > 0) this.notifyChange()
         return cleared
     }
 
@@ -99,6 +132,7 @@ export class MessageBuffer {
         if (!message) return false
 
         message.attempts++
+        this.notifyChange()
         return true
     }
 
@@ -122,4 +156,8 @@ export class MessageBuffer {
     isFull(): boolean {
         return this.buffer.length >= this.config.maxSize
     }
+
+    private notifyChange(): void {
+        this.config.onChange?.()
+    }
 }
@@ -0,0 +1,144 @@
+/**
+ * RpcBatcher transport: injected fetch, headers, timeout and wire codec
+ */
+
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { RpcBatcher, RpcCodec, RpcResponse, WireRequest } from '../src/api/batcher.js'
+
+type RequestInit = NonNullable<Parameters<typeof fetch>[1]>
+
+interface SentRequest {
+    url: string
+    headers: Record<string, string>
+    body: unknown
+}
+
+/**
+ * fetch stand-in answering every request in the batch with its method name
+ */
+function createFetch(sent: SentRequest[]): typeof fetch {
+    return (async (url: string, init: RequestInit) => {
+        sent.push({ url, headers: init.headers as Record<string, string>, body: init.body })
+        const requests = JSON.parse(init.body as string) as WireRequest[]
+        const results: RpcResponse[] = requests.map(request => ({
+            success: true,
+            result: request.method,
+        }))
+        return new Response(JSON.stringify(results), { status: 200 })
+    }) as typeof fetch
+}
+
+describe('RpcBatcher transport', () => {
+    it('sends batches through the injected fetch', async () => {
+        const sent: SentRequest[] = []
+        const batcher = new RpcBatcher('http://signal.test', { fetch: createFetch(sent) })
+
+        const results = await Promise.all([
+            batcher.add({ method: 'discover', params: { tags: ['a'] } }, null),
+            batcher.add({ method: 'poll' }, null),
+        ])
+
+        assert.deepEqual(results, ['discover', 'poll'])
+        assert.equal(sent.length, 1)
+        assert.equal(sent[0].url, 'http://signal.test/rpc')
+        assert.deepEqual(JSON.parse(sent[0].body as string), [
+            { method: 'discover', params: { tags: ['a'] } },
+            { method: 'poll' },
+        ])
+    })
+
+    it('adds static and per-request headers without replacing the content type', async () => {
+        const sent: SentRequest[] = []
+        let calls = 0
+        const withStatic = new RpcBatcher('http://signal.test', {
+            fetch: createFetch(sent),
+            headers: { 'X-Api-Key': 'key', 'Content-Type': 'text/plain' },
+        })
+        const withFunction = new RpcBatcher('http://signal.test', {
+            fetch: createFetch(sent),
+            headers: async () => ({ 'X-Trace': `trace-${++calls}` }),
+        })
+
+        await withStatic.add({ method: 'poll' }, null)
+        await withFunction.add({ method: 'poll' }, null)
+        await withFunction.add({ method: 'poll' }, null)
+
+        assert.deepEqual(sent[0].headers, {
+            'X-Api-Key': 'key',
+            'Content-Type': 'application/json',
+        })
+        assert.equal(sent[1].headers['X-Trace'], 'trace-1')
+        assert.equal(sent[2].headers['X-Trace'], 'trace-2')
+    })
+
+    it('aborts batches that exceed the timeout', async () => {
+        let aborted = false
+        const hangingFetch = ((_url: string, init: RequestInit) =>
+            new Promise((_resolve, reject) => {
+                init.signal!.addEventListener('abort', () => {
+                    aborted = true
+                    reject(new Error('aborted'))
+                })
+            })) as typeof fetch
+        const batcher = new RpcBatcher('http://signal.test', { fetch: hangingFetch, timeout: 50 })
+
+        await assert.rejects(
+            Promise.all([
+                batcher.add({ method: 'poll' }, null),
+                batcher.add({ method: 'a' }, null),
+            ]),
+            /RPC request timed out after 50ms/
+        )
+        assert.equal(aborted, true)
+    })
+
+    it('encodes requests and decodes responses with the codec', async () => {
+        const sent: SentRequest[] = []
+        const encoded: WireRequest[][] = []
+        const codec: RpcCodec = {
+            contentType: 'application/x-test',
+            encode: requests => {
+                encoded.push(requests)
+                return requests.map(request => request.method).join('|')
+            },
+            decode: async response => {
+                const methods = (await response.text()).split('|')
+                return methods.map(method => ({ success: true, result: `decoded ${method}` }))
+            },
+        }
+        const echo = (async (url: string, init: RequestInit) => {
+            sent.push({ url, headers: init.headers as Record<string, string>, body: init.body })
+            return new Response(init.body as string, { status: 200 })
+        }) as typeof fetch
+        const batcher = new RpcBatcher('http://signal.test', { fetch: echo, codec })
+
+        const results = await Promise.all([
+            batcher.add({ method: 'publishOffer' }, null),
+            batcher.add({ method: 'poll' }, null),
+        ])
+
+        assert.deepEqual(results, ['decoded publishOffer', 'decoded poll'])
+        assert.equal(encoded.length, 1)
+        assert.equal(sent[0].body, 'publishOffer|poll')
+        assert.equal(sent[0].headers['Content-Type'], 'application/x-test')
+    })
+
+    it('rejects every request of a failed batch', async () => {
+        const failing = (async () =>
+            new Response('unavailable', {
+                status: 503,
+                statusText: 'Service Unavailable',
+            })) as typeof fetch
+        const batcher = new RpcBatcher('http://signal.test', { fetch: failing })
+
+        const results = await Promise.allSettled([
+            batcher.add({ method: 'poll' }, null),
+            batcher.add({ method: 'discover' }, null),
+        ])
+        for (const result of results) {
+            assert.equal(result.status, 'rejected')
+            assert.match(String((result as PromiseRejectedResult).reason), /HTTP 503/)
+        }
+    })
+})
@@ -0,0 +1,67 @@
+/**
+ * Named channel registry: announcements and stream id collisions
+ */
+
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { ChannelRegistry, NamedChannel } from '../src/connections/channels.js'
+import type { ControlFrame } from '../src/connections/control.js'
+
+function createRegistry() {
+    const sent: ControlFrame[] = []
+    const remoteChannels: NamedChannel[] = []
+    const registry = new ChannelRegistry({
+        sendFrame: frame => sent.push(frame),
+        onRemoteChannel: channel => remoteChannels.push(channel),
+    })
+    return { registry, sent, remoteChannels }
+}
+
+describe('ChannelRegistry', () => {
+    it('creates announced channels and replies ready', () => {
+        const { registry, sent, remoteChannels } = createRegistry()
+
+        registry.handleFrame({ type: 'channel:open', name: 'chat', options: { ordered: false } })
+        assert.deepEqual(
+            remoteChannels.map(channel => [channel.name, channel.options.ordered]),
+            [['chat', false]]
+        )
+        assert.deepEqual(sent, [{ type: 'channel:ready', name: 'chat' }])
+    })
+
+    it('throws when a local channel collides on its stream id', () => {
+        const { registry } = createRegistry()
+        registry.open('a', { id: 600 })
+        assert.throws(() => registry.open('b', { id: 600 }), /collides with "a"/)
+    })
+
+    it('rejects a colliding remote channel instead of throwing', () => {
+        const { registry, sent, remoteChannels } = createRegistry()
+        registry.open('a', { id: 600 })
+        sent.length = 0
+
+        registry.handleFrame({ type: 'channel:open', name: 'b', options: { id: 600 } })
+        assert.equal(registry.get('b'), undefined)
+        assert.deepEqual(remoteChannels, [])
+        assert.equal(sent.length, 1)
+        assert.equal(sent[0].type, 'channel:reject')
+        assert.equal(sent[0].name, 'b')
+    })
+
+    it('closes a channel the remote side rejected', () => {
+        const { registry } = createRegistry()
+        const channel = registry.open('b', { id: 600 })
+        const events: string[] = []
+        channel.on('rejected', reason => events.push(`rejected: ${reason}`))
+        channel.on('close', () => events.push('close'))
+
+        registry.handleFrame({
+            type: 'channel:reject',
+            name: 'b',
+            reason: 'Stream id 600 is taken',
+        })
+        assert.deepEqual(events, ['rejected: Stream id 600 is taken', 'close'])
+        assert.equal(registry.get('b'), undefined)
+        assert.throws(() => channel.send('x'), /closed/)
+    })
+})
@@ -0,0 +1,109 @@
+/**
+ * Server clock offset from response headers
+ */
+
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { SERVER_TIME_HEADER, ServerClock, readServerTime } from '../src/api/clock.js'
+import { RondevuAPI } from '../src/api/client.js'
+import { LocalSignalingServer } from '../src/api/local-server.js'
+import { crypto } from './helpers.js'
+
+const SKEW = 20 * 60 * 1000
+
+describe('readServerTime', () => {
+    it('prefers the server time header over Date', () => {
+        const response = new Response(null, {
+            headers: {
+                [SERVER_TIME_HEADER]: '1700000000123',
+                Date: 'Tue, 14 Nov 2023 22:13:20 GMT',
+            },
+        })
+        assert.deepEqual(readServerTime(response), { time: 1700000000123, resolution: 0 })
+    })
+
+    it('falls back to the middle of the Date second', () => {
+        const response = new Response(null, { headers: { Date: 'Tue, 14 Nov 2023 22:13:20 GMT' } })
+        assert.deepEqual(readServerTime(response), { time: 1700000000500, resolution: 500 })
+    })
+
+    it('returns null without either header', () => {
+        assert.equal(readServerTime(new Response(null)), null)
+    })
+})
+
+describe('ServerClock', () => {
+    it('keeps the sample with the shortest round trip', () => {
+        const clock = new ServerClock()
+        const now = Date.now()
+
+        clock.update({ time: now + 1200, resolution: 0 }, now - 400, now)
+        assert.equal(clock.offset, 1400)
+
+        clock.update({ time: now + 1010, resolution: 0 }, now - 20, now)
+        assert.equal(clock.offset, 1020)
+
+        // Slower round trips no longer move the offset
+        clock.update({ time: now + 5000, resolution: 0 }, now - 300, now)
+        assert.equal(clock.offset, 1020)
+    })
+
+    it('does not let a Date sample replace a precise one', () => {
+        const clock = new ServerClock()
+        const now = Date.now()
+
+        clock.update({ time: now + 1000, resolution: 0 }, now - 100, now)
+        clock.update({ time: now + 3500, resolution: 500 }, now - 10, now)
+        assert.equal(clock.offset, 1050)
+    })
+
+    it('accepts a less accurate sample once the kept one is stale', () => {
+        const clock = new ServerClock()
+        const now = Date.now()
+
+        clock.update({ time: now - 1000, resolution: 0 }, now - 10, now - 11 * 60 * 1000)
+        clock.update({ time: now + 2000, resolution: 0 }, now - 200, now)
+        assert.equal(clock.offset, 2100)
+    })
+})
+
+describe('Clock skew correction', () => {
+    /**
+     * A server whose clock is SKEW ahead, behind a fetch that optionally hides the
+     * server time header (as a cross-origin server that doesn't expose it)
+     */
+    async function createApi(hideHeader: boolean): Promise<RondevuAPI> {
+        const server = new LocalSignalingServer({
+            crypto,
+            now: () => Date.now() + SKEW,
+            timestampWindowMs: 60 * 1000,
+        })
+        const skewedFetch: typeof fetch = async (input, init) => {
+            const response = await server.fetch(input, init)
+            if (!hideHeader) return response
+            const headers = new Headers(response.headers)
+            headers.delete(SERVER_TIME_HEADER)
+            return new Response(response.body, { status: response.status, headers })
+        }
+        return new RondevuAPI('http://local', await crypto.generateKeyPair(), crypto, {
+            fetch: skewedFetch,
+        })
+    }
+
+    for (const [name, hideHeader, tolerance] of [
+        ['server time header', false, 100],
+        ['Date header', true, 1100],
+    ] as const) {
+        it(`measures the offset from the ${name} and retries the rejected call`, async () => {
+            const api = await createApi(hideHeader)
+
+            const result = await api.poll()
+            assert.deepEqual(result, { answers: [], iceCandidates: {} })
+            const offset = api.getClockOffset()
+            assert.ok(offset !== null && Math.abs(offset - SKEW) < tolerance, `offset ${offset}`)
+
+            // Later calls are signed with the corrected time right away
+            await api.poll()
+        })
+    }
+})
@@ -0,0 +1,67 @@
+/**
+ * Mapping of failed RPC responses to error classes
+ */
+
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+    AuthError,
+    ClockSkewError,
+    OfferNotAnsweredError,
+    OfferNotFoundError,
+    RateLimitedError,
+    ServerError,
+    errorFromResponse,
+} from '../src/api/errors.js'
+import { RondevuAPI } from '../src/api/client.js'
+import { LocalSignalingServer } from '../src/api/local-server.js'
+import { crypto } from './helpers.js'
+
+describe('errorFromResponse', () => {
+    it('maps server error codes', () => {
+        const cases: Array<[string, string, new (...args: never[]) => Error]> = [
+            ['NOT_ANSWERED', 'Offer not yet answered', OfferNotAnsweredError],
+            ['OFFER_NOT_FOUND', 'Offer not found', OfferNotFoundError],
+            ['NOT_FOUND', 'Offer not found', OfferNotFoundError],
+            ['INVALID_SIGNATURE', 'Invalid signature', AuthError],
+            ['NONCE_REUSED', 'Nonce already used', AuthError],
+            ['TIMESTAMP_OUT_OF_RANGE', 'Request timestamp out of range', ClockSkewError],
+            ['RATE_LIMITED', 'Slow down', RateLimitedError],
+            ['INTERNAL_ERROR', 'Something broke', ServerError],
+        ]
+        for (const [errorCode, error, expected] of cases) {
+            const mapped = errorFromResponse('getOfferAnswer', { success: false, error, errorCode })
+            assert.ok(mapped instanceof expected, `${errorCode} -> ${mapped.name}`)
+            assert.equal(mapped.errorCode, errorCode)
+            assert.equal(mapped.method, 'getOfferAnswer')
+        }
+    })
+
+    it('falls back to the message when the code is missing or generic', () => {
+        const notAnswered = errorFromResponse('getOfferAnswer', {
+            success: false,
+            error: 'Offer not yet answered',
+        })
+        assert.ok(notAnswered instanceof OfferNotAnsweredError)
+        assert.equal(notAnswered.errorCode, 'UNKNOWN_ERROR')
+
+        const skew = errorFromResponse('poll', {
+            success: false,
+            error: 'Timestamp too old',
+            errorCode: 'INVALID_AUTH',
+        })
+        assert.ok(skew instanceof ClockSkewError)
+
+        const other = errorFromResponse('poll', { success: false, error: 'Boom' })
+        assert.ok(other instanceof ServerError)
+    })
+
+    it('returns null from getOfferAnswer for an unanswered offer', async () => {
+        const server = new LocalSignalingServer({ crypto })
+        const api = new RondevuAPI('http://local', await crypto.generateKeyPair(), crypto, {
+            fetch: server.fetch,
+        })
+        const { offers } = await api.publish({ tags: ['errors'], offers: [{ sdp: 'x' }] })
+        assert.equal(await api.getOfferAnswer(offers[0].offerId), null)
+    })
+})
@@ -0,0 +1,278 @@
+/**
+ * Shared setup for the offline tests: connections negotiating through an in-memory
+ * stand-in for the signaling API, or whole Rondevu instances signaling through a
+ * LocalSignalingServer, connecting with @roamhq/wrtc without any network access
+ */
+
+import wrtc from '@roamhq/wrtc'
+import type { IceCandidate, RondevuAPI } from '../src/api/client.js'
+import { LocalSignalingServer } from '../src/api/local-server.js'
+import { AnswererConnection } from '../src/connections/answerer.js'
+import type { ConnectionConfig } from '../src/connections/config.js'
+import { ConnectionState } from '../src/connections/events.js'
+import type { IdentityCredentials } from '../src/connections/identity.js'
+import { OffererConnection } from '../src/connections/offerer.js'
+import type { Peer } from '../src/core/peer.js'
+import { Rondevu } from '../src/core/rondevu.js'
+import type { RondevuOptions } from '../src/core/rondevu-types.js'
+import type { KeyPair } from '../src/crypto/adapter.js'
+import { NodeCryptoAdapter } from '../src/crypto/node.js'
+import type { MessageBufferStorage } from '../src/storage/adapter.js'
+import { NodeWebRTCAdapter } from '../src/webrtc/node.js'
+
+export const crypto = new NodeCryptoAdapter()
+
+export const webrtcAdapter = new NodeWebRTCAdapter({
+    RTCPeerConnection: wrtc.RTCPeerConnection,
+    RTCIceCandidate: wrtc.RTCIceCandidate,
+})
+
+export interface DirectPairOptions {
+    /** Connection config applied to both sides */
+    config?: Partial<ConnectionConfig>
+    offererKeyPair?: KeyPair
+    answererKeyPair?: KeyPair
+    /** Identity credentials of the offerer (default: its key pair with the Node adapter) */
+    offererIdentity?: IdentityCredentials
+    /** Public key the answerer is told the offerer has (default: the real one) */
+    signaledOffererKey?: string
+    /** Message storage of the answerer */
+    answererMessageStorage?: MessageBufferStorage
+    /** Never deliver the answer to the offerer, so the connection cannot open */
+    dropAnswer?: boolean
+    /** Observe the answer and candidates each side sends through the signaling API */
+    onSignal?: (
+        role: IceCandidate['role'],
+        signal: { sdp: string } | { candidates: RTCIceCandidateInit[] }
+    ) => void
+}
+
+/**
+ * An offerer and an answerer signaling directly to each other
+ */
+export interface DirectPair {
+    offerer: OffererConnection
+    answerer: AnswererConnection
+    offererKeyPair: KeyPair
+    answererKeyPair: KeyPair
+    close(): void
+}
+
+let offerCount = 0
+
+/**
+ * Create an offerer/answerer pair whose signaling API calls are delivered straight
+ * to the other connection: the answer goes to processAnswer() and trickled ICE
+ * candidates to handleRemoteIceCandidates()
+ */
+export async function createDirectPair(options: DirectPairOptions = {}): Promise<DirectPair> {
+    const offererKeyPair = options.offererKeyPair ?? (await crypto.generateKeyPair())
+    const answererKeyPair = options.answererKeyPair ?? (await crypto.generateKeyPair())
+    const offerId = `direct-${++offerCount}`
+
+    let offerer: OffererConnection | null = null
+    let answerer: AnswererConnection | null = null
+    let answered = false
+    const pending: Record<IceCandidate['role'], IceCandidate[]> = { offerer: [], answerer: [] }
+
+    const deliver = (role: IceCandidate['role'], candidates: IceCandidate[]): void => {
+        if (role === 'offerer') {
+            answerer?.handleRemoteIceCandidates(candidates)
+        } else {
+            offerer?.handleRemoteIceCandidates(candidates)
+        }
+    }
+
+    const createApi = (role: IceCandidate['role']): RondevuAPI => {
+        const api = {
+            async answerOffer(_offerId: string, sdp: string): Promise<void> {
+                options.onSignal?.(role, { sdp })
+                if (options.dropAnswer) return
+                await offerer!.processAnswer(sdp, answererKeyPair.publicKey)
+                answered = true
+                deliver('offerer', pending.offerer.splice(0))
+                deliver('answerer', pending.answerer.splice(0))
+            },
+            async addOfferIceCandidates(_offerId: string, candidates: RTCIceCandidateInit[]) {
+                options.onSignal?.(role, { candidates })
+                const items = candidates.map(candidate => ({
+                    candidate,
+                    role,
+                    createdAt: Date.now(),
+                }))
+                if (answered) {
+                    deliver(role, items)
+                } else {
+                    pending[role].push(...items)
+                }
+                return { count: items.length, offerId }
+            },
+            async getOfferIceCandidates() {
+                return { candidates: [], offerId }
+            },
+        }
+        return api as unknown as RondevuAPI
+    }
+
+    const config = options.config ?? {}
+    const pc = webrtcAdapter.createPeerConnection({ iceServers: [] })
+    const dc = pc.createDataChannel('rondevu')
+    await pc.setLocalDescription(await pc.createOffer())
+    // Host candidates only: let them land in the offer SDP instead of trickling them
+    await waitFor(() => pc.iceGatheringState === 'complete', 5000, 'ICE gathering')
+
+    offerer = new OffererConnection({
+        api: createApi('offerer'),
+        ownerPublicKey: offererKeyPair.publicKey,
+        offerId,
+        pc,
+        dc,
+        webrtcAdapter,
+        config,
+        identity: options.offererIdentity ?? { keyPair: offererKeyPair, crypto },
+    })
+    await offerer.initialize()
+
+    answerer = new AnswererConnection({
+        api: createApi('answerer'),
+        ownerPublicKey: options.signaledOffererKey ?? offererKeyPair.publicKey,
+        tags: ['direct'],
+        offerId,
+        offerSdp: pc.localDescription!.sdp,
+        rtcConfig: { iceServers: [] },
+        webrtcAdapter,
+        config,
+        identity: { keyPair: answererKeyPair, crypto },
+        messageStorage: options.answererMessageStorage,
+    })
+    await answerer.initialize()
+
+    return {
+        offerer,
+        answerer,
+        offererKeyPair,
+        answererKeyPair,
+        close() {
+            offerer!.close()
+            answerer!.close()
+        },
+    }
+}
+
+/**
+ * Resolve once both sides of a direct pair are connected
+ */
+export async function waitForConnected(pair: DirectPair, timeoutMs = 15000): Promise<void> {
+    await waitFor(
+        () =>
+            pair.offerer.getState() === ConnectionState.CONNECTED &&
+            pair.answerer.getState() === ConnectionState.CONNECTED,
+        timeoutMs,
+        'both sides to connect'
+    )
+}
+
+/**
+ * A signaling server and the Rondevu instances connected to it
+ */
+export class LocalNetwork {
+    readonly server = new LocalSignalingServer({ crypto })
+    private readonly instances: Rondevu[] = []
+    private readonly cleanups: Array<() => void> = []
+
+    /**
+     * Connect a Rondevu instance to the local server (host candidates only)
+     */
+    async connect(options: RondevuOptions = {}): Promise<Rondevu> {
+        const rondevu = await Rondevu.connect({
+            cryptoAdapter: crypto,
+            webrtcAdapter,
+            iceServers: [],
+            ...options,
+            transport: { fetch: this.server.fetch, ...options.transport },
+        })
+        this.instances.push(rondevu)
+        return rondevu
+    }
+
+    /**
+     * Run on close(), e.g. to close peers and leave rooms
+     */
+    onClose(cleanup: () => void): void {
+        this.cleanups.push(cleanup)
+    }
+
+    close(): void {
+        for (const cleanup of this.cleanups.splice(0)) {
+            cleanup()
+        }
+        for (const rondevu of this.instances.splice(0)) {
+            rondevu.stopFilling()
+            rondevu.stopPolling()
+            rondevu.disconnectAll()
+        }
+    }
+}
+
+/**
+ * Two instances connected through an offer: `connection` on the offering side,
+ * `peer` on the answering side
+ */
+export interface ConnectedPair {
+    alice: Rondevu
+    bob: Rondevu
+    connection: OffererConnection
+    peer: Peer
+}
+
+let pairCount = 0
+
+/**
+ * Publish an offer from a new instance and answer it from another one
+ */
+export async function connectPair(
+    network: LocalNetwork,
+    config: Partial<ConnectionConfig> = {}
+): Promise<ConnectedPair> {
+    const tag = `pair-${++pairCount}`
+    const alice = await network.connect()
+    const bob = await network.connect()
+
+    const opened = new Promise<OffererConnection>(resolve => {
+        alice.once('connection:opened', (_offerId: string, connection: OffererConnection) =>
+            resolve(connection)
+        )
+    })
+    await alice.offer({ tags: [tag], maxOffers: 1, connectionConfig: config })
+
+    const peer = await bob.peer({ tags: [tag], config })
+    network.onClose(() => peer.close())
+    const connection = await opened
+    await waitFor(
+        () => peer.state === 'connected' && connection.getState() === ConnectionState.CONNECTED,
+        15000,
+        'both sides to connect'
+    )
+    return { alice, bob, connection, peer }
+}
+
+/**
+ * Resolve once the predicate holds, polling every 20ms
+ */
+export async function waitFor(
+    predicate: () => boolean,
+    timeoutMs = 15000,
+    description = 'condition'
+): Promise<void> {
+    const deadline = Date.now() + timeoutMs
+    while (!predicate()) {
+        if (Date.now() > deadline) {
+            throw new Error(`Timed out waiting for ${description}`)
+        }
+        await sleep(20)
+    }
+}
+
+export function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms))
+}
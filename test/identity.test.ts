@@ -0,0 +1,245 @@
+/**
+ * Identity verification: the handshake itself and its effect on connections
+ */
+
+import { afterEach, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import type { ControlFrame } from '../src/connections/control.js'
+import { ConnectionState } from '../src/connections/events.js'
+import {
+    IdentityHandshake,
+    IdentityVerificationError,
+    extractSdpFingerprints,
+} from '../src/connections/identity.js'
+import type { CryptoAdapter, KeyPair } from '../src/crypto/adapter.js'
+import {
+    DirectPair,
+    createDirectPair,
+    crypto,
+    sleep,
+    waitFor,
+    waitForConnected,
+} from './helpers.js'
+
+const FINGERPRINT_A = 'sha-256 AA:AA:AA'
+const FINGERPRINT_B = 'sha-256 BB:BB:BB'
+const FINGERPRINT_MITM = 'sha-256 CC:CC:CC'
+
+function sdpWith(fingerprint: string): string {
+    return [
+        'v=0',
+        'm=application 9 UDP/DTLS/SCTP webrtc-datachannel',
+        `a=fingerprint:${fingerprint}`,
+    ].join('\r\n')
+}
+
+interface Side {
+    keyPair: KeyPair
+    localFingerprint: string
+    remoteFingerprint: string
+    expectedPeerPublicKey: string | null
+}
+
+/**
+ * Two handshakes exchanging frames directly, as the data channel would
+ */
+function createHandshakes(a: Side, b: Side, timeoutMs = 2000) {
+    const handshakes: IdentityHandshake[] = []
+    const create = (side: Side, deliver: (frame: ControlFrame) => void) =>
+        new IdentityHandshake({
+            credentials: { keyPair: side.keyPair, crypto },
+            expectedPeerPublicKey: side.expectedPeerPublicKey,
+            getLocalSdp: () => sdpWith(side.localFingerprint),
+            getRemoteSdp: () => sdpWith(side.remoteFingerprint),
+            sendFrame: frame => setImmediate(() => deliver(frame)),
+            timeoutMs,
+        })
+
+    handshakes.push(create(a, frame => handshakes[1].handleFrame(frame)))
+    handshakes.push(create(b, frame => handshakes[0].handleFrame(frame)))
+    return handshakes
+}
+
+describe('IdentityHandshake', () => {
+    it('resolves with the remote key once both proofs verify', async () => {
+        const alice = await crypto.generateKeyPair()
+        const bob = await crypto.generateKeyPair()
+        const [a, b] = createHandshakes(
+            {
+                keyPair: alice,
+                localFingerprint: FINGERPRINT_A,
+                remoteFingerprint: FINGERPRINT_B,
+                expectedPeerPublicKey: bob.publicKey,
+            },
+            {
+                keyPair: bob,
+                localFingerprint: FINGERPRINT_B,
+                remoteFingerprint: FINGERPRINT_A,
+                expectedPeerPublicKey: alice.publicKey,
+            }
+        )
+
+        a.start()
+        b.start()
+        assert.deepEqual(await Promise.all([a.result, b.result]), [bob.publicKey, alice.publicKey])
+    })
+
+    it('rejects a peer presenting a different key than the signaled one', async () => {
+        const alice = await crypto.generateKeyPair()
+        const bob = await crypto.generateKeyPair()
+        const impostor = await crypto.generateKeyPair()
+        const [a, b] = createHandshakes(
+            {
+                keyPair: alice,
+                localFingerprint: FINGERPRINT_A,
+                remoteFingerprint: FINGERPRINT_B,
+                expectedPeerPublicKey: bob.publicKey,
+            },
+            {
+                keyPair: impostor,
+                localFingerprint: FINGERPRINT_B,
+                remoteFingerprint: FINGERPRINT_A,
+                expectedPeerPublicKey: alice.publicKey,
+            }
+        )
+
+        a.start()
+        b.start()
+        await assert.rejects(a.result, (error: Error) => {
+            assert.ok(error instanceof IdentityVerificationError)
+            assert.match(error.message, /does not match the signaled one/)
+            assert.equal(error.peerPublicKey, bob.publicKey)
+            return true
+        })
+        b.cancel()
+    })
+
+    it('rejects proofs bound to other DTLS fingerprints (man in the middle)', async () => {
+        const alice = await crypto.generateKeyPair()
+        const bob = await crypto.generateKeyPair()
+        // Each side negotiated DTLS with the relay, so neither sees the other's fingerprint
+        const [a, b] = createHandshakes(
+            {
+                keyPair: alice,
+                localFingerprint: FINGERPRINT_A,
+                remoteFingerprint: FINGERPRINT_MITM,
+                expectedPeerPublicKey: bob.publicKey,
+            },
+            {
+                keyPair: bob,
+                localFingerprint: FINGERPRINT_B,
+                remoteFingerprint: FINGERPRINT_MITM,
+                expectedPeerPublicKey: alice.publicKey,
+            }
+        )
+
+        a.start()
+        b.start()
+        await assert.rejects(a.result, /Invalid identity proof signature/)
+        await assert.rejects(b.result, /Invalid identity proof signature/)
+    })
+
+    it('times out when the remote peer never answers', async () => {
+        const bob = await crypto.generateKeyPair()
+        const handshake = new IdentityHandshake({
+            credentials: { keyPair: await crypto.generateKeyPair(), crypto },
+            expectedPeerPublicKey: bob.publicKey,
+            getLocalSdp: () => sdpWith(FINGERPRINT_A),
+            getRemoteSdp: () => sdpWith(FINGERPRINT_B),
+            sendFrame: () => {},
+            timeoutMs: 50,
+        })
+
+        handshake.start()
+        await assert.rejects(handshake.result, /timed out/)
+    })
+
+    it('fails immediately when the remote key is unknown', async () => {
+        const handshake = new IdentityHandshake({
+            credentials: { keyPair: await crypto.generateKeyPair(), crypto },
+            expectedPeerPublicKey: null,
+            getLocalSdp: () => sdpWith(FINGERPRINT_A),
+            getRemoteSdp: () => sdpWith(FINGERPRINT_B),
+            sendFrame: () => {},
+            timeoutMs: 2000,
+        })
+
+        handshake.start()
+        await assert.rejects(handshake.result, /public key is unknown/)
+    })
+
+    it('collects fingerprints from every level of the SDP', () => {
+        const sdp = [
+            sdpWith('sha-256 BB:BB'),
+            'a=fingerprint:SHA-256 AA:AA',
+            'a=fingerprint:sha-256 bb:bb',
+        ].join('\r\n')
+        assert.equal(extractSdpFingerprints(sdp), 'sha-256 aa:aa,sha-256 bb:bb')
+    })
+})
+
+describe('connection identity verification', () => {
+    let pair: DirectPair | null = null
+
+    afterEach(() => {
+        pair?.close()
+        pair = null
+    })
+
+    it('connects once both peers have proven their keys', async () => {
+        const verified: string[] = []
+        pair = await createDirectPair({ config: { verifyIdentity: true } })
+        pair.offerer.on('identity:verified', key => verified.push(`offerer:${key}`))
+        pair.answerer.on('identity:verified', key => verified.push(`answerer:${key}`))
+
+        await waitForConnected(pair)
+        assert.deepEqual(verified.sort(), [
+            `answerer:${pair.offererKeyPair.publicKey}`,
+            `offerer:${pair.answererKeyPair.publicKey}`,
+        ])
+    })
+
+    it('closes the connection when the offerer is not who the server said', async () => {
+        const claimed = await crypto.generateKeyPair()
+        pair = await createDirectPair({
+            config: { verifyIdentity: true },
+            signaledOffererKey: claimed.publicKey,
+        })
+        const failures: Error[] = []
+        pair.answerer.on('identity:failed', error => failures.push(error))
+
+        await waitFor(() => failures.length > 0, 15000, 'identity failure')
+        assert.ok(failures[0] instanceof IdentityVerificationError)
+        assert.equal(pair.answerer.getState(), ConnectionState.CLOSED)
+    })
+
+    it('holds messages until the sender is verified', async () => {
+        // Delay the offerer's proof so its early message arrives mid-handshake
+        const slowCrypto: CryptoAdapter = Object.create(crypto)
+        slowCrypto.signMessage = async (privateKey, message) => {
+            await sleep(300)
+            return crypto.signMessage(privateKey, message)
+        }
+        const offererKeyPair = await crypto.generateKeyPair()
+        pair = await createDirectPair({
+            config: { verifyIdentity: true },
+            offererKeyPair,
+            offererIdentity: { keyPair: offererKeyPair, crypto: slowCrypto },
+        })
+
+        const events: string[] = []
+        pair.answerer.on('identity:verified', () => events.push('verified'))
+        pair.answerer.on('message', data => events.push(`message:${data}`))
+
+        const dc = pair.offerer.getDataChannel()!
+        if (dc.readyState === 'open') {
+            dc.send('early')
+        } else {
+            dc.addEventListener('open', () => dc.send('early'))
+        }
+
+        await waitForConnected(pair)
+        await waitFor(() => events.length === 2, 5000, 'early message')
+        assert.deepEqual(events, ['verified', 'message:early'])
+    })
+})
@@ -0,0 +1,157 @@
+/**
+ * Signaling through LocalSignalingServer: the RPC surface used by RondevuAPI, and a
+ * full offer/answer/ICE flow between two instances
+ */
+
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { RondevuAPI, DiscoverResponse, KeyPair } from '../src/api/client.js'
+import { LocalSignalingServer } from '../src/api/local-server.js'
+import { AuthError, OfferNotFoundError } from '../src/api/errors.js'
+import { LocalNetwork, connectPair, crypto, waitFor } from './helpers.js'
+
+describe('LocalSignalingServer', () => {
+    const server = new LocalSignalingServer({ crypto })
+    let offerer: RondevuAPI
+    let answerer: RondevuAPI
+    let answererKeyPair: KeyPair
+
+    before(async () => {
+        offerer = new RondevuAPI('http://local', await crypto.generateKeyPair(), crypto, {
+            fetch: server.fetch,
+        })
+        answererKeyPair = await crypto.generateKeyPair()
+        answerer = new RondevuAPI('http://local', answererKeyPair, crypto, {
+            fetch: server.fetch,
+        })
+    })
+
+    it('publishes, discovers, answers and exchanges ICE candidates', async () => {
+        const published = await offerer.publish({
+            tags: ['chat'],
+            offers: [{ sdp: 'offer-sdp' }],
+        })
+        const { offerId } = published.offers[0]
+
+        // Own offers are not discovered
+        const own = (await offerer.discover({ tags: ['chat'], limit: 10 })) as DiscoverResponse
+        assert.equal(own.count, 0)
+
+        const found = (await answerer.discover({ tags: ['chat'], limit: 10 })) as DiscoverResponse
+        assert.deepEqual(
+            found.offers.map(offer => [offer.offerId, offer.sdp]),
+            [[offerId, 'offer-sdp']]
+        )
+
+        assert.equal(await offerer.getOfferAnswer(offerId), null)
+
+        const since = Date.now() - 1
+        await answerer.answerOffer(offerId, 'answer-sdp', ['chat'])
+        const answer = await offerer.getOfferAnswer(offerId)
+        assert.equal(answer?.sdp, 'answer-sdp')
+        assert.equal(answer?.answererPublicKey, answererKeyPair.publicKey)
+
+        // Answered offers are no longer discoverable
+        const remaining = (await answerer.discover({
+            tags: ['chat'],
+            limit: 10,
+        })) as DiscoverResponse
+        assert.equal(remaining.count, 0)
+
+        await offerer.addOfferIceCandidates(offerId, [{ candidate: 'offerer-candidate' }])
+        await answerer.addOfferIceCandidates(offerId, [{ candidate: 'answerer-candidate' }])
+
+        // Each side receives the other side's candidates only
+        const forAnswerer = await answerer.getOfferIceCandidates(offerId)
+        assert.deepEqual(
+            forAnswerer.candidates.map(c => [c.candidate?.candidate, c.role]),
+            [['offerer-candidate', 'offerer']]
+        )
+
+        const polled = await offerer.poll(since)
+        assert.deepEqual(
+            polled.answers.map(a => a.offerId),
+            [offerId]
+        )
+        assert.deepEqual(
+            polled.iceCandidates[offerId].map(c => c.candidate?.candidate),
+            ['answerer-candidate']
+        )
+
+        // Nothing new after the last event
+        const cursor = Math.max(
+            polled.answers[0].answeredAt,
+            ...polled.iceCandidates[offerId].map(c => c.createdAt)
+        )
+        const empty = await offerer.poll(cursor)
+        assert.deepEqual(empty, { answers: [], iceCandidates: {} })
+    })
+
+    it('rejects replayed and forged requests', async () => {
+        const keyPair = await crypto.generateKeyPair()
+        const api = new RondevuAPI('http://local', keyPair, crypto)
+        const auth = await api.createAuth('poll', { since: 0 })
+        const request = { method: 'poll', params: { since: 0 }, auth }
+
+        const [first, replay] = await server.handleBatch([request, request])
+        assert.equal(first.success, true)
+        assert.equal(replay.errorCode, 'NONCE_REUSED')
+
+        const forged = await api.createAuth('poll', { since: 0 })
+        const [tampered] = await server.handleBatch([
+            { method: 'poll', params: { since: 1 }, auth: forged },
+        ])
+        assert.equal(tampered.errorCode, 'INVALID_SIGNATURE')
+    })
+
+    it('rejects offers without a valid TTL', async () => {
+        const keyPair = await crypto.generateKeyPair()
+        const api = new RondevuAPI('http://local', keyPair, crypto)
+        const publish = async (ttl: unknown) => {
+            const params = { tags: ['ttl'], offers: [{ sdp: 'x' }], ttl }
+            const auth = await api.createAuth('publishOffer', params)
+            const [result] = await server.handleBatch([{ method: 'publishOffer', params, auth }])
+            return result
+        }
+
+        // Signed requests cannot carry NaN or Infinity, but anything else can
+        for (const ttl of ['soon', '1000', true, {}, -1, 0]) {
+            assert.equal((await publish(ttl)).errorCode, 'INVALID_PARAMS', `ttl ${String(ttl)}`)
+        }
+        assert.equal((await publish(1000)).success, true)
+        // Longer TTLs are capped rather than rejected
+        assert.equal((await publish(Number.MAX_SAFE_INTEGER)).success, true)
+    })
+
+    it('surfaces server errors as typed errors', async () => {
+        await assert.rejects(offerer.deleteOffer('missing'), (error: unknown) => {
+            assert.ok(error instanceof OfferNotFoundError)
+            assert.equal(error.method, 'deleteOffer')
+            return true
+        })
+
+        const { offers } = await offerer.publish({ tags: ['owned'], offers: [{ sdp: 'x' }] })
+        await assert.rejects(answerer.deleteOffer(offers[0].offerId), AuthError)
+    })
+})
+
+describe('Offer/answer between instances', () => {
+    const network = new LocalNetwork()
+    after(() => network.close())
+
+    it('connects through the local server and exchanges messages both ways', async () => {
+        const { connection, peer } = await connectPair(network)
+
+        const atOfferer: string[] = []
+        const atAnswerer: string[] = []
+        connection.on('message', data => atOfferer.push(String(data)))
+        peer.on('message', data => atAnswerer.push(String(data)))
+
+        peer.send('ping')
+        connection.send('pong')
+
+        await waitFor(() => atOfferer.length === 1 && atAnswerer.length === 1)
+        assert.deepEqual(atOfferer, ['ping'])
+        assert.deepEqual(atAnswerer, ['pong'])
+    })
+})
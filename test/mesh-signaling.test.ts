@@ -0,0 +1,155 @@
+/**
+ * Mesh signaling: offers, answers and candidates relayed through a MeshRouter
+ */
+
+import { afterEach, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { EventEmitter } from 'eventemitter3'
+import type { RondevuAPI } from '../src/api/client.js'
+import type { NamedChannel } from '../src/connections/channels.js'
+import { ConnectionState } from '../src/connections/events.js'
+import type { OffererConnection } from '../src/connections/offerer.js'
+import { MeshRouter } from '../src/core/mesh.js'
+import { MeshSignaling, isMeshOfferId } from '../src/core/mesh-signaling.js'
+import type { OfferFactory } from '../src/core/offer-pool.js'
+import { crypto, waitFor, webrtcAdapter } from './helpers.js'
+
+/**
+ * One end of an in-memory mesh channel; frames reach the other end asynchronously
+ */
+class FakeChannel extends EventEmitter {
+    remote: FakeChannel | null = null
+
+    send(raw: string): void {
+        const remote = this.remote
+        if (remote) setImmediate(() => remote.emit('message', raw))
+    }
+}
+
+const offerFactory: OfferFactory = async pc => {
+    const dc = pc.createDataChannel('default')
+    const offer = await pc.createOffer()
+    await pc.setLocalDescription(offer)
+    return { dc, offer }
+}
+
+interface Node {
+    publicKey: string
+    router: MeshRouter
+    signaling: MeshSignaling
+    /** Signal types in the order they were sent (→) and received (←) */
+    log: string[]
+}
+
+const nodes: Node[] = []
+
+async function createNode(): Promise<Node> {
+    const keyPair = await crypto.generateKeyPair()
+    const router = new MeshRouter({ keyPair, crypto })
+    const signaling = new MeshSignaling({
+        router,
+        api: {} as RondevuAPI,
+        localPublicKey: keyPair.publicKey,
+        offerFactory,
+        rtcConfig: { iceServers: [] },
+        webrtcAdapter,
+        requestTimeout: 5000,
+    })
+
+    const log: string[] = []
+    const sendSignal = router.sendSignal.bind(router)
+    router.sendSignal = (publicKey, payload, options) => {
+        log.push(`→${payload.type}`)
+        return sendSignal(publicKey, payload, options)
+    }
+    router.on('signal', (_from, payload) => log.push(`←${payload.type}`))
+
+    const node = { publicKey: keyPair.publicKey, router, signaling, log }
+    nodes.push(node)
+    return node
+}
+
+function link(a: Node, b: Node): void {
+    const [toB, toA] = [new FakeChannel(), new FakeChannel()]
+    toB.remote = toA
+    toA.remote = toB
+    a.router.addLink(b.publicKey, { channel: () => toB as unknown as NamedChannel })
+    b.router.addLink(a.publicKey, { channel: () => toA as unknown as NamedChannel })
+}
+
+function isConnected(connection: { getState(): string }): boolean {
+    return connection.getState() === ConnectionState.CONNECTED
+}
+
+afterEach(() => {
+    nodes.splice(0).forEach(node => {
+        node.signaling.close()
+        node.router.close()
+    })
+})
+
+describe('MeshSignaling', () => {
+    it('connects two peers by relaying offer and answer through the router', async () => {
+        const [alice, bob] = await Promise.all([createNode(), createNode()])
+        link(alice, bob)
+
+        const offered: Array<[string, OffererConnection]> = []
+        alice.signaling.on('connection', (publicKey, connection) =>
+            offered.push([publicKey, connection])
+        )
+
+        const answerer = await bob.signaling.connect(alice.publicKey)
+        assert.ok(isMeshOfferId(answerer.getOfferId()))
+
+        await waitFor(() => offered.length === 1, 5000, 'offered connection')
+        const [publicKey, offerer] = offered[0]
+        assert.equal(publicKey, bob.publicKey)
+        assert.equal(offerer.getOfferId(), answerer.getOfferId())
+
+        await waitFor(() => isConnected(offerer) && isConnected(answerer), 15000, 'connection')
+        answerer.close()
+        offerer.close()
+    })
+
+    it('holds the offerer candidates until the answer arrives', async () => {
+        const [alice, bob] = await Promise.all([createNode(), createNode()])
+        link(alice, bob)
+        const offered: OffererConnection[] = []
+        alice.signaling.on('connection', (_publicKey, connection) => offered.push(connection))
+
+        const answerer = await bob.signaling.connect(alice.publicKey)
+        await waitFor(() => offered.length === 1, 5000, 'offered connection')
+        await waitFor(() => isConnected(answerer), 15000, 'connection')
+
+        // The answerer cannot use candidates before it has the offer's connection set up
+        const firstCandidates = alice.log.indexOf('→ice')
+        assert.ok(firstCandidates > alice.log.indexOf('←answer'), alice.log.join(' '))
+        assert.ok(alice.log.indexOf('←answer') > alice.log.indexOf('→offer'))
+        answerer.close()
+        offered[0].close()
+    })
+
+    it('rebinds the offered connection when the peer asks again', async () => {
+        const [alice, bob] = await Promise.all([createNode(), createNode()])
+        link(alice, bob)
+        const offered: OffererConnection[] = []
+        alice.signaling.on('connection', (_publicKey, connection) => offered.push(connection))
+
+        const first = await bob.signaling.connect(alice.publicKey)
+        await waitFor(() => offered.length === 1, 5000, 'offered connection')
+        const offerer = offered[0]
+        await waitFor(() => isConnected(offerer) && isConnected(first), 15000, 'connection')
+        const firstOfferId = offerer.getOfferId()
+        first.close()
+
+        const second = await bob.signaling.connect(alice.publicKey)
+        assert.notEqual(second.getOfferId(), firstOfferId)
+        await waitFor(() => offerer.getOfferId() === second.getOfferId(), 5000, 'rebind')
+        await waitFor(() => isConnected(offerer) && isConnected(second), 15000, 'reconnection')
+
+        // Same connection, so it is not announced again
+        assert.equal(offered.length, 1)
+        second.close()
+        offerer.close()
+    })
+})
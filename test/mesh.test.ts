@@ -0,0 +1,197 @@
+/**
+ * MeshRouter: signed messages relayed through intermediate peers
+ */
+
+import { after, afterEach, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { EventEmitter } from 'eventemitter3'
+import type { NamedChannel } from '../src/connections/channels.js'
+import type { OffererConnection } from '../src/connections/offerer.js'
+import type { KeyPair } from '../src/crypto/adapter.js'
+import { MeshMessageInfo, MeshRouter } from '../src/core/mesh.js'
+import { LocalNetwork, crypto, sleep, waitFor } from './helpers.js'
+
+/**
+ * One end of an in-memory channel; frames reach the other end asynchronously
+ */
+class FakeChannel extends EventEmitter {
+    readonly sent: string[] = []
+    remote: FakeChannel | null = null
+
+    send(raw: string): void {
+        this.sent.push(raw)
+        const remote = this.remote
+        if (remote) setImmediate(() => remote.emit('message', raw))
+    }
+
+    asLink() {
+        return { channel: () => this as unknown as NamedChannel }
+    }
+}
+
+interface Node {
+    keyPair: KeyPair
+    router: MeshRouter
+}
+
+const routers: MeshRouter[] = []
+
+async function createNode(): Promise<Node> {
+    const keyPair = await crypto.generateKeyPair()
+    const router = new MeshRouter({ keyPair, crypto })
+    routers.push(router)
+    return { keyPair, router }
+}
+
+/**
+ * Link two nodes; returns the channel ends of a and b
+ */
+function link(a: Node, b: Node): [FakeChannel, FakeChannel] {
+    const ends: [FakeChannel, FakeChannel] = [new FakeChannel(), new FakeChannel()]
+    ends[0].remote = ends[1]
+    ends[1].remote = ends[0]
+    a.router.addLink(b.keyPair.publicKey, ends[0].asLink())
+    b.router.addLink(a.keyPair.publicKey, ends[1].asLink())
+    return ends
+}
+
+afterEach(() => {
+    routers.splice(0).forEach(router => router.close())
+})
+
+describe('MeshRouter', () => {
+    it('relays messages between peers that are only connected through a third one', async () => {
+        const [alice, hub, carol] = await Promise.all([createNode(), createNode(), createNode()])
+        link(alice, hub)
+        link(hub, carol)
+
+        const received: Array<[string, string | Uint8Array, MeshMessageInfo]> = []
+        carol.router.on('message', (from, data, info) => received.push([from, data, info]))
+        const hubReceived: string[] = []
+        hub.router.on('message', from => hubReceived.push(from))
+
+        await alice.router.send(carol.keyPair.publicKey, 'hello carol')
+        await alice.router.send(carol.keyPair.publicKey, new Uint8Array([1, 2, 3]))
+        await waitFor(() => received.length === 2, 5000, 'routed messages')
+
+        const [from, data, info] = received[0]
+        assert.equal(from, alice.keyPair.publicKey)
+        assert.equal(data, 'hello carol')
+        assert.equal(info.hops, 2)
+        assert.equal(info.via, hub.keyPair.publicKey)
+        assert.deepEqual(new Uint8Array(received[1][1] as Uint8Array), new Uint8Array([1, 2, 3]))
+        // The relay does not deliver messages addressed to someone else
+        assert.deepEqual(hubReceived, [])
+    })
+
+    it('delivers messages arriving over several paths once', async () => {
+        const [alice, bob, carol, dave] = await Promise.all([
+            createNode(),
+            createNode(),
+            createNode(),
+            createNode(),
+        ])
+        // alice - bob - dave and alice - carol - dave
+        link(alice, bob)
+        link(alice, carol)
+        link(bob, dave)
+        link(carol, dave)
+
+        const received: string[] = []
+        dave.router.on('message', (_from, data) => received.push(String(data)))
+
+        await alice.router.send(dave.keyPair.publicKey, 'once')
+        await waitFor(() => received.length > 0, 5000, 'routed message')
+        await sleep(50)
+        assert.deepEqual(received, ['once'])
+    })
+
+    it('rejects forged copies without dropping or relaying them', async () => {
+        const [alice, hub, carol, mallory] = await Promise.all([
+            createNode(),
+            createNode(),
+            createNode(),
+            createNode(),
+        ])
+        // Capture a genuine message from alice instead of delivering it
+        const [aliceEnd] = link(alice, await createNode())
+        const [malloryToCarol] = link(mallory, carol)
+        const [malloryToHub] = link(mallory, hub)
+        const [, hubToCarol] = link(carol, hub)
+
+        const received: string[] = []
+        const rejected: string[] = []
+        carol.router.on('message', (_from, data) => received.push(String(data)))
+        carol.router.on('message:rejected', (_from, id) => rejected.push(id))
+
+        const id = await alice.router.send(carol.keyPair.publicKey, 'genuine')
+        const genuine = aliceEnd.sent[0]
+        const forged = JSON.stringify({ ...JSON.parse(genuine), data: 'forged' })
+
+        // A forged copy arriving first neither reaches carol nor blocks the genuine one
+        malloryToCarol.send(forged)
+        await waitFor(() => rejected.length === 1, 5000, 'rejected copy')
+        assert.equal(rejected[0], id)
+        malloryToCarol.send(genuine)
+        await waitFor(() => received.length === 1, 5000, 'genuine copy')
+        assert.deepEqual(received, ['genuine'])
+
+        // Relays drop forged messages instead of passing them on
+        const relayed = hubToCarol.sent.length
+        malloryToHub.send(JSON.stringify({ ...JSON.parse(genuine), id: 'other', data: 'forged' }))
+        await sleep(50)
+        assert.equal(hubToCarol.sent.length, relayed)
+    })
+})
+
+describe('MeshRouter between instances', () => {
+    const network = new LocalNetwork()
+    after(() => network.close())
+
+    it('relays over peer connections through the hub they both connected to', async () => {
+        const [alice, hub, carol] = await Promise.all([
+            network.connect(),
+            network.connect(),
+            network.connect(),
+        ])
+
+        // alice - hub - carol
+        const hubConnections = new Map<string, OffererConnection>()
+        hub.on('connection:opened', (_offerId: string, connection: OffererConnection) => {
+            hubConnections.set(connection.peerPublicKey!, connection)
+        })
+        await hub.offer({ tags: ['mesh-hub'], maxOffers: 2 })
+
+        const toHubFromAlice = await alice.peer({ tags: ['mesh-hub'] })
+        const toHubFromCarol = await carol.peer({ tags: ['mesh-hub'] })
+        network.onClose(() => {
+            toHubFromAlice.close()
+            toHubFromCarol.close()
+        })
+        await waitFor(() => hubConnections.size === 2, 15000, 'hub connections')
+
+        const meshRouters = [alice, hub, carol].map(
+            instance => new MeshRouter({ keyPair: instance.getKeyPair(), crypto })
+        )
+        const [aliceRouter, hubRouter, carolRouter] = meshRouters
+        network.onClose(() => meshRouters.forEach(router => router.close()))
+
+        aliceRouter.addLink(hub.getPublicKey(), toHubFromAlice)
+        carolRouter.addLink(hub.getPublicKey(), toHubFromCarol)
+        for (const [publicKey, connection] of hubConnections) {
+            hubRouter.addLink(publicKey, connection)
+        }
+
+        const received: Array<[string, string | Uint8Array, MeshMessageInfo]> = []
+        carolRouter.on('message', (from, data, info) => received.push([from, data, info]))
+
+        await aliceRouter.send(carol.getPublicKey(), 'hello carol')
+        await waitFor(() => received.length === 1, 5000, 'routed message')
+
+        const [from, data, info] = received[0]
+        assert.equal(from, alice.getPublicKey())
+        assert.equal(data, 'hello carol')
+        assert.equal(info.hops, 2)
+        assert.equal(info.via, hub.getPublicKey())
+    })
+})
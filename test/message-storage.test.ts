@@ -0,0 +1,64 @@
+/**
+ * Persisted message buffers: kept across a closed connection, removed once delivered
+ */
+
+import { afterEach, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { MemoryMessageBufferStorage } from '../src/storage/memory.js'
+import type { BufferedMessage } from '../src/connections/events.js'
+import { DirectPair, createDirectPair, crypto, sleep, waitFor } from './helpers.js'
+
+function storedMessages(...data: string[]): BufferedMessage[] {
+    return data.map((text, i) => ({
+        id: `stored-${i}`,
+        data: text,
+        timestamp: Date.now(),
+        attempts: 0,
+    }))
+}
+
+describe('Message storage', () => {
+    let pair: DirectPair | null = null
+
+    afterEach(() => {
+        pair?.close()
+        pair = null
+    })
+
+    it('keeps stored messages when the connection closes before delivering them', async () => {
+        const storage = new MemoryMessageBufferStorage()
+        const offererKeyPair = await crypto.generateKeyPair()
+        await storage.save(offererKeyPair.publicKey, storedMessages('one', 'two'))
+
+        // The offerer never sees the answer, so the connection can't open
+        pair = await createDirectPair({
+            offererKeyPair,
+            answererMessageStorage: storage,
+            dropAnswer: true,
+        })
+        await sleep(100)
+        pair.answerer.close()
+        await sleep(100)
+
+        const stored = await storage.load(offererKeyPair.publicKey)
+        assert.deepEqual(
+            stored.map(message => message.data),
+            ['one', 'two']
+        )
+    })
+
+    it('delivers stored messages and removes them from storage', async () => {
+        const storage = new MemoryMessageBufferStorage()
+        const offererKeyPair = await crypto.generateKeyPair()
+        await storage.save(offererKeyPair.publicKey, storedMessages('one', 'two'))
+
+        pair = await createDirectPair({ offererKeyPair, answererMessageStorage: storage })
+        const received: string[] = []
+        pair.offerer.on('message', data => received.push(String(data)))
+
+        await waitFor(() => received.length === 2, 15000, 'stored messages')
+        assert.deepEqual(received, ['one', 'two'])
+        await sleep(50)
+        assert.deepEqual(await storage.load(offererKeyPair.publicKey), [])
+    })
+})
@@ -0,0 +1,136 @@
+/**
+ * In-band renegotiation triggers and ICE restart signaling
+ */
+
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { InBandNegotiator } from '../src/connections/negotiation.js'
+import { decodeDescriptionSignal, encodeDescriptionSignal } from '../src/connections/signaler.js'
+import type { ControlFrame } from '../src/connections/control.js'
+import { sleep } from './helpers.js'
+
+/**
+ * The parts of RTCPeerConnection the negotiator uses
+ */
+class FakePeerConnection {
+    signalingState = 'stable'
+    remoteDescription: RTCSessionDescriptionInit | null = null
+    localDescription: RTCSessionDescriptionInit | null = null
+    iceGatheringState = 'complete'
+    onnegotiationneeded: (() => void) | null = null
+    offersCreated = 0
+
+    async createOffer(): Promise<RTCSessionDescriptionInit> {
+        this.offersCreated++
+        return { type: 'offer', sdp: `offer-${this.offersCreated}` }
+    }
+
+    async setLocalDescription(description: RTCSessionDescriptionInit): Promise<void> {
+        this.localDescription = description
+        this.signalingState = description.type === 'offer' ? 'have-local-offer' : 'stable'
+    }
+}
+
+function createNegotiator(connected: () => boolean) {
+    const pc = new FakePeerConnection()
+    const frames: ControlFrame[] = []
+    const viaServer: RTCSessionDescriptionInit[] = []
+    const negotiator = new InBandNegotiator({
+        polite: false,
+        sendFrame: frame => frames.push(frame),
+        canSignal: connected,
+        canSendInBand: connected,
+        sendViaServer: async description => {
+            viaServer.push(description)
+        },
+        gatheringTimeoutMs: 100,
+    })
+    negotiator.attach(pc as unknown as RTCPeerConnection)
+    return { pc, frames, viaServer, negotiator }
+}
+
+describe('InBandNegotiator', () => {
+    it('does not renegotiate for changes covered by the initial offer/answer', async () => {
+        let connected = false
+        const { pc, frames, negotiator } = createNegotiator(() => connected)
+
+        // Creating the data channel before the initial offer
+        pc.onnegotiationneeded!()
+        pc.remoteDescription = { type: 'answer', sdp: 'answer' }
+
+        connected = true
+        negotiator.flush()
+        await sleep(10)
+        assert.equal(pc.offersCreated, 0)
+        assert.deepEqual(frames, [])
+    })
+
+    it('renegotiates changes made before connecting once connected', async () => {
+        let connected = false
+        const { pc, frames, negotiator } = createNegotiator(() => connected)
+        pc.remoteDescription = { type: 'answer', sdp: 'answer' }
+
+        // A track added after the initial exchange, before the connection is up
+        pc.onnegotiationneeded!()
+        await sleep(10)
+        assert.equal(pc.offersCreated, 0)
+
+        connected = true
+        negotiator.flush()
+        await sleep(10)
+        assert.deepEqual(frames, [
+            { type: 'sdp:description', description: { type: 'offer', sdp: 'offer-1' } },
+        ])
+    })
+
+    it('ignores negotiationneeded while an exchange is in progress', async () => {
+        const { pc, frames } = createNegotiator(() => true)
+        pc.remoteDescription = { type: 'offer', sdp: 'offer' }
+        pc.signalingState = 'have-remote-offer'
+
+        pc.onnegotiationneeded!()
+        await sleep(10)
+        assert.equal(pc.offersCreated, 0)
+        assert.deepEqual(frames, [])
+    })
+})
+
+describe('ICE restart signaling', () => {
+    it('sends restart offers in-band and through the signaling server', async () => {
+        const { pc, frames, viaServer, negotiator } = createNegotiator(() => true)
+        pc.remoteDescription = { type: 'answer', sdp: 'answer' }
+
+        negotiator.restartIce()
+        await sleep(10)
+
+        const description = { type: 'offer', sdp: 'offer-1' }
+        assert.deepEqual(frames, [{ type: 'sdp:description', description, restart: true }])
+        assert.deepEqual(viaServer, [description])
+    })
+
+    it('carries descriptions as their own entry type in the offer candidate list', () => {
+        const entry = encodeDescriptionSignal({ type: 'offer', sdp: 'restart-offer' })
+        assert.equal('candidate' in entry, false)
+
+        // Entries travel through the server as JSON
+        const received = JSON.parse(JSON.stringify(entry))
+        assert.deepEqual(decodeDescriptionSignal(received), {
+            type: 'offer',
+            sdp: 'restart-offer',
+        })
+        assert.equal(decodeDescriptionSignal({ candidate: 'candidate:1', sdpMid: '0' }), null)
+    })
+
+    it('does not mistake other entries for descriptions', () => {
+        assert.equal(decodeDescriptionSignal(null), null)
+        assert.equal(decodeDescriptionSignal({ candidate: '' }), null)
+        const encoded = encodeDescriptionSignal({ type: 'answer', sdp: 'x' })
+        assert.equal(
+            decodeDescriptionSignal({
+                ...encoded,
+                description: { type: 'answer' },
+            } as RTCIceCandidateInit),
+            null
+        )
+    })
+})
@@ -0,0 +1,267 @@
+/**
+ * OfferPool: offers addressed to allowed peers and answer admission
+ */
+
+import { afterEach, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import type { RondevuAPI } from '../src/api/client.js'
+import type { KeyPair } from '../src/crypto/adapter.js'
+import { SignalingCipher } from '../src/crypto/e2e.js'
+import { OfferFactory, OfferPool, OfferPoolOptions } from '../src/core/offer-pool.js'
+import { crypto, waitFor, webrtcAdapter } from './helpers.js'
+
+const offerFactory: OfferFactory = async pc => {
+    const dc = pc.createDataChannel('default')
+    const offer = await pc.createOffer()
+    await pc.setLocalDescription(offer)
+    return { dc, offer }
+}
+
+/**
+ * Signaling API stand-in recording the published offers
+ */
+function createApi() {
+    const published: Array<{ offerId: string; sdp: string }> = []
+    const api = {
+        async publish(request: { offers: Array<{ sdp: string }> }) {
+            const offerId = `offer-${published.length + 1}`
+            published.push({ offerId, sdp: request.offers[0].sdp })
+            return { offers: [{ offerId }] }
+        },
+        async addOfferIceCandidates(offerId: string) {
+            return { count: 0, offerId }
+        },
+        async getOfferIceCandidates(offerId: string) {
+            return { candidates: [], offerId }
+        },
+    }
+    return { api: api as unknown as RondevuAPI, published }
+}
+
+const pools: OfferPool[] = []
+
+function createPool(api: RondevuAPI, keyPair: KeyPair, options: Partial<OfferPoolOptions>) {
+    const pool = new OfferPool({
+        api,
+        tags: ['pool'],
+        ownerPublicKey: keyPair.publicKey,
+        maxOffers: 1,
+        offerFactory,
+        ttl: 60000,
+        iceServers: [],
+        webrtcAdapter,
+        identity: { keyPair, crypto },
+        offerCreationThrottleMs: 0,
+        ...options,
+    })
+    pools.push(pool)
+    return pool
+}
+
+const answerers: RTCPeerConnection[] = []
+
+/**
+ * Answer a published offer SDP from a new peer connection
+ */
+async function createAnswerSdp(offerSdp: string): Promise<string> {
+    const pc = webrtcAdapter.createPeerConnection({ iceServers: [] })
+    answerers.push(pc)
+    await pc.setRemoteDescription({ type: 'offer', sdp: offerSdp })
+    const description = await pc.createAnswer()
+    await pc.setLocalDescription(description)
+    return description.sdp!
+}
+
+/**
+ * Deliver an answer from the given public key, as the polling manager would. The
+ * answer is a real one when the offer SDP is given, so the connection accepts it.
+ */
+async function answer(
+    pool: OfferPool,
+    offerId: string,
+    answererPublicKey: string,
+    offerSdp?: string
+): Promise<void> {
+    const sdp = offerSdp ? await createAnswerSdp(offerSdp) : 'v=0'
+    return pool.handlePollAnswer({ offerId, answererPublicKey, sdp, answeredAt: Date.now() })
+}
+
+afterEach(() => {
+    pools.splice(0).forEach(pool => pool.stop())
+    answerers.splice(0).forEach(pc => pc.close())
+})
+
+describe('OfferPool allowedPeers', () => {
+    it('addresses offers to the allowed peers in turn', async () => {
+        const [owner, alice, bob] = await Promise.all([
+            crypto.generateKeyPair(),
+            crypto.generateKeyPair(),
+            crypto.generateKeyPair(),
+        ])
+        const { api, published } = createApi()
+        const pool = createPool(api, owner, {
+            maxOffers: 3,
+            allowedPeers: [alice.publicKey, bob.publicKey],
+            connectionConfig: { encryptSignaling: true },
+        })
+
+        await pool.start()
+        const recipients = [...pool.getActiveConnections().values()].map(connection =>
+            connection.getRecipientPublicKey()
+        )
+        assert.deepEqual(recipients, [alice.publicKey, bob.publicKey, alice.publicKey])
+
+        // Each offer can only be read by its recipient
+        const aliceCipher = new SignalingCipher(alice, crypto)
+        const bobCipher = new SignalingCipher(bob, crypto)
+        assert.match(await aliceCipher.decrypt(owner.publicKey, published[0].sdp), /^v=0/)
+        assert.match(await bobCipher.decrypt(owner.publicKey, published[1].sdp), /^v=0/)
+        await assert.rejects(bobCipher.decrypt(owner.publicKey, published[0].sdp))
+    })
+
+    it('publishes plain offers unless signaling encryption is enabled', async () => {
+        const [owner, alice] = await Promise.all([
+            crypto.generateKeyPair(),
+            crypto.generateKeyPair(),
+        ])
+        const { api, published } = createApi()
+        const pool = createPool(api, owner, { allowedPeers: [alice.publicKey] })
+
+        await pool.start()
+        assert.match(published[0].sdp, /^v=0/)
+        const [connection] = pool.getActiveConnections().values()
+        assert.equal(connection.getRecipientPublicKey(), null)
+    })
+
+    it('rejects answers from other peers and replaces the offer they used up', async () => {
+        const [owner, alice, mallory] = await Promise.all([
+            crypto.generateKeyPair(),
+            crypto.generateKeyPair(),
+            crypto.generateKeyPair(),
+        ])
+        const { api, published } = createApi()
+        const pool = createPool(api, owner, {
+            allowedPeers: [alice.publicKey],
+            connectionConfig: { encryptSignaling: true },
+        })
+        const rejected: Array<[string, string, string]> = []
+        const rotated: Array<[string, string]> = []
+        pool.on('answer:rejected', (offerId, publicKey, reason) =>
+            rejected.push([offerId, publicKey, reason])
+        )
+        pool.on('connection:rotated', (oldOfferId, newOfferId) =>
+            rotated.push([oldOfferId, newOfferId])
+        )
+
+        await pool.start()
+        const [connection] = pool.getActiveConnections().values()
+        await answer(pool, 'offer-1', mallory.publicKey)
+
+        assert.deepEqual(rejected, [['offer-1', mallory.publicKey, 'not-allowed']])
+        await waitFor(() => rotated.length === 1, 5000, 'rotated offer')
+        assert.deepEqual(rotated, [['offer-1', 'offer-2']])
+        assert.equal(published.length, 2)
+        // The replacement is still addressed to the allowed peer
+        assert.equal(connection.getRecipientPublicKey(), alice.publicKey)
+        assert.equal(pool.getActiveConnections().get('offer-2'), connection)
+
+        // Answers from the allowed peer go through to the connection
+        await answer(pool, 'offer-2', alice.publicKey)
+        assert.equal(rejected.length, 1)
+    })
+})
+
+describe('OfferPool answer admission', () => {
+    async function createAdmissionPool(options: Partial<OfferPoolOptions>) {
+        const owner = await crypto.generateKeyPair()
+        const { api, published } = createApi()
+        const pool = createPool(api, owner, options)
+        const rejected: string[] = []
+        pool.on('answer:rejected', (_offerId, _publicKey, reason) => rejected.push(reason))
+        await pool.start()
+        return { pool, published, rejected }
+    }
+
+    it('rejects denied peers and replaces the offer', async () => {
+        const [alice, mallory] = await Promise.all([
+            crypto.generateKeyPair(),
+            crypto.generateKeyPair(),
+        ])
+        const { pool, published, rejected } = await createAdmissionPool({
+            deniedPeers: [mallory.publicKey],
+        })
+        const [connection] = pool.getActiveConnections().values()
+
+        await answer(pool, 'offer-1', mallory.publicKey, published[0].sdp)
+        assert.deepEqual(rejected, ['denied'])
+        assert.equal(published.length, 2)
+        assert.equal(connection.getOfferId(), 'offer-2')
+        assert.equal(connection.peerPublicKey, null)
+
+        await answer(pool, 'offer-2', alice.publicKey, published[1].sdp)
+        assert.deepEqual(rejected, ['denied'])
+        assert.equal(connection.peerPublicKey, alice.publicKey)
+    })
+
+    it('limits the connections from the same peer', async () => {
+        const alice = await crypto.generateKeyPair()
+        const { pool, published, rejected } = await createAdmissionPool({
+            maxOffers: 2,
+            maxConnectionsPerPeer: 1,
+        })
+        const [first, second] = pool.getActiveConnections().values()
+
+        await answer(pool, 'offer-1', alice.publicKey, published[0].sdp)
+        assert.equal(first.peerPublicKey, alice.publicKey)
+        // A repeated delivery of the accepted answer does not count against the limit
+        await answer(pool, 'offer-1', alice.publicKey, published[0].sdp)
+        assert.deepEqual(rejected, [])
+
+        await answer(pool, 'offer-2', alice.publicKey, published[1].sdp)
+        assert.deepEqual(rejected, ['connection-limit'])
+        assert.equal(second.peerPublicKey, null)
+        assert.equal(second.getOfferId(), 'offer-3')
+    })
+
+    it('asks the acceptAnswer hook after the built-in checks', async () => {
+        const [alice, bob, carol, mallory] = await Promise.all([
+            crypto.generateKeyPair(),
+            crypto.generateKeyPair(),
+            crypto.generateKeyPair(),
+            crypto.generateKeyPair(),
+        ])
+        const asked: Array<[string, string[] | undefined, string]> = []
+        const { pool, published, rejected } = await createAdmissionPool({
+            deniedPeers: [mallory.publicKey],
+            acceptAnswer: async (publicKey, matchedTags, offerId) => {
+                asked.push([publicKey, matchedTags, offerId])
+                if (publicKey === carol.publicKey) throw new Error('policy unavailable')
+                return publicKey === alice.publicKey
+            },
+        })
+        const [connection] = pool.getActiveConnections().values()
+
+        await answer(pool, 'offer-1', mallory.publicKey)
+        await answer(pool, 'offer-2', bob.publicKey)
+        await answer(pool, 'offer-3', carol.publicKey)
+        assert.deepEqual(rejected, ['denied', 'policy', 'policy'])
+        assert.deepEqual(
+            asked.map(([publicKey, , offerId]) => [publicKey, offerId]),
+            [
+                [bob.publicKey, 'offer-2'],
+                [carol.publicKey, 'offer-3'],
+            ]
+        )
+
+        await pool.handlePollAnswer({
+            offerId: 'offer-4',
+            answererPublicKey: alice.publicKey,
+            sdp: await createAnswerSdp(published[3].sdp),
+            answeredAt: Date.now(),
+            matchedTags: ['pool'],
+        })
+        assert.deepEqual(asked[2], [alice.publicKey, ['pool'], 'offer-4'])
+        assert.equal(rejected.length, 3)
+        assert.equal(connection.peerPublicKey, alice.publicKey)
+    })
+})
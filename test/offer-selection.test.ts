@@ -0,0 +1,128 @@
+/**
+ * Offer selection strategies for rondevu.peer()
+ */
+
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import type { TaggedOffer } from '../src/api/client.js'
+import {
+    OFFER_SELECTORS,
+    OfferSelectionContext,
+    PeerStats,
+    resolveOfferSelector,
+} from '../src/core/offer-selection.js'
+
+function offer(publicKey: string, fields: Partial<TaggedOffer> = {}): TaggedOffer {
+    return {
+        offerId: `offer-${publicKey}`,
+        publicKey,
+        tags: ['chat'],
+        sdp: 'v=0',
+        createdAt: 0,
+        expiresAt: 60000,
+        ...fields,
+    }
+}
+
+function context(fields: Partial<OfferSelectionContext> = {}): OfferSelectionContext {
+    return { tags: ['chat'], connectedPeers: new Set(), stats: new PeerStats(), ...fields }
+}
+
+async function rank(
+    strategy: keyof typeof OFFER_SELECTORS,
+    offers: TaggedOffer[],
+    ctx = context()
+): Promise<string[]> {
+    const ranked = await OFFER_SELECTORS[strategy](offers, ctx)
+    return ranked.map(offer => offer.publicKey)
+}
+
+describe('OFFER_SELECTORS', () => {
+    it('freshest ranks the most recently published offers first', async () => {
+        const offers = [
+            offer('old', { createdAt: 1000 }),
+            offer('new', { createdAt: 3000 }),
+            offer('mid', { createdAt: 2000 }),
+        ]
+        assert.deepEqual(await rank('freshest', offers), ['new', 'mid', 'old'])
+    })
+
+    it('most-tags ranks offers matching more of our tags first', async () => {
+        const offers = [
+            offer('one', { tags: ['chat'] }),
+            offer('none', { tags: ['other'] }),
+            offer('two', { tags: ['chat', 'video', 'other'] }),
+        ]
+        const ctx = context({ tags: ['chat', 'video'] })
+        assert.deepEqual(await rank('most-tags', offers, ctx), ['two', 'one', 'none'])
+    })
+
+    it('avoid-connected ranks peers we are not connected to first', async () => {
+        const offers = [offer('a'), offer('b'), offer('c')]
+        const ctx = context({ connectedPeers: new Set(['a', 'c']) })
+        const ranked = await rank('avoid-connected', offers, ctx)
+        assert.equal(ranked[0], 'b')
+        assert.deepEqual(ranked.slice(1).sort(), ['a', 'c'])
+    })
+
+    it('round-robin ranks the least recently selected peers first', async () => {
+        const stats = new PeerStats({
+            recent: { lastSelectedAt: 3000 },
+            earlier: { lastSelectedAt: 1000 },
+        })
+        const offers = [offer('recent'), offer('earlier'), offer('never')]
+        assert.deepEqual(await rank('round-robin', offers, context({ stats })), [
+            'never',
+            'earlier',
+            'recent',
+        ])
+
+        stats.recordSelection('never')
+        assert.deepEqual(await rank('round-robin', offers, context({ stats })), [
+            'earlier',
+            'recent',
+            'never',
+        ])
+    })
+
+    it('lowest-rtt ranks peers with lower measured round-trip times first', async () => {
+        const stats = new PeerStats({ slow: { rtt: 200 }, fast: { rtt: 20 } })
+        const offers = [offer('unknown'), offer('slow'), offer('fast')]
+        assert.deepEqual(await rank('lowest-rtt', offers, context({ stats })), [
+            'fast',
+            'slow',
+            'unknown',
+        ])
+    })
+
+    it('random keeps every offer', async () => {
+        const offers = [offer('a'), offer('b'), offer('c')]
+        assert.deepEqual((await rank('random', offers)).sort(), ['a', 'b', 'c'])
+    })
+})
+
+describe('PeerStats', () => {
+    it('smooths round-trip times and round-trips through JSON', () => {
+        const stats = new PeerStats()
+        stats.recordRtt('peer', 100)
+        stats.recordRtt('peer', 200)
+        assert.equal(stats.get('peer')?.rtt, 130)
+
+        const restored = new PeerStats(stats.toJSON())
+        assert.deepEqual(restored.get('peer'), { rtt: 130 })
+        assert.equal(restored.get('other'), undefined)
+    })
+})
+
+describe('resolveOfferSelector', () => {
+    it('accepts built-in names and custom selectors', () => {
+        const custom = (offers: TaggedOffer[]) => offers
+        assert.equal(resolveOfferSelector(custom), custom)
+        assert.equal(resolveOfferSelector(), OFFER_SELECTORS.random)
+        assert.equal(resolveOfferSelector('freshest'), OFFER_SELECTORS.freshest)
+        assert.throws(
+            () => resolveOfferSelector('nearest' as 'random'),
+            /Unknown offer selection strategy/
+        )
+    })
+})
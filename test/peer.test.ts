@@ -0,0 +1,205 @@
+/**
+ * Peer: racing several offers in rondevu.peer()
+ */
+
+import { afterEach, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import type { IceCandidate, RondevuAPI, TaggedOffer } from '../src/api/client.js'
+import { ConnectionState } from '../src/connections/events.js'
+import { OffererConnection } from '../src/connections/offerer.js'
+import { isReleaseSignal } from '../src/connections/signaler.js'
+import { Peer, PeerState } from '../src/core/peer.js'
+import { waitFor, webrtcAdapter } from './helpers.js'
+
+/**
+ * How a hosted offer treats the answer it gets
+ * - live: delivered, and ICE candidates flow both ways
+ * - stalled: delivered, but no ICE candidates get through, so it never connects
+ * - taken: the server refuses the answer (someone else was first)
+ */
+type OfferBehavior = 'live' | 'stalled' | 'taken'
+
+interface HostedOffer {
+    offer: TaggedOffer
+    behavior: OfferBehavior
+    connection: OffererConnection
+    answered: boolean
+    released: boolean
+    /** Candidates for the answerer, held until the offer is answered */
+    pending: IceCandidate[]
+}
+
+/**
+ * Offers hosted by OffererConnections, discovered and answered through a fake API
+ */
+class OfferHost {
+    readonly offers = new Map<string, HostedOffer>()
+    peer: Peer | null = null
+
+    async host(behavior: OfferBehavior, publicKey: string): Promise<HostedOffer> {
+        const offerId = `offer-${this.offers.size + 1}`
+        const pc = webrtcAdapter.createPeerConnection({ iceServers: [] })
+        const dc = pc.createDataChannel('default')
+        const description = await pc.createOffer()
+        await pc.setLocalDescription(description)
+
+        const connection = new OffererConnection({
+            api: this.createHostApi(offerId),
+            ownerPublicKey: publicKey,
+            offerId,
+            pc,
+            dc,
+            webrtcAdapter,
+            config: { reconnectEnabled: false },
+        })
+        const hosted: HostedOffer = {
+            offer: {
+                offerId,
+                publicKey,
+                tags: ['race'],
+                sdp: description.sdp!,
+                createdAt: Date.now(),
+                expiresAt: Date.now() + 60000,
+            },
+            behavior,
+            connection,
+            answered: false,
+            released: false,
+            pending: [],
+        }
+        this.offers.set(offerId, hosted)
+        await connection.initialize()
+        return hosted
+    }
+
+    /**
+     * API the host's connections send their candidates through
+     */
+    private createHostApi(offerId: string): RondevuAPI {
+        const api = {
+            addOfferIceCandidates: async (_offerId: string, candidates: RTCIceCandidateInit[]) => {
+                const hosted = this.offers.get(offerId)!
+                const items = candidates.map(candidate => ({
+                    candidate,
+                    role: 'offerer' as const,
+                    createdAt: Date.now(),
+                }))
+                if (hosted.behavior !== 'live') return { count: 0, offerId }
+                if (hosted.answered) this.peer?.handleRemoteIceCandidates(offerId, items)
+                else hosted.pending.push(...items)
+                return { count: items.length, offerId }
+            },
+        }
+        return api as unknown as RondevuAPI
+    }
+
+    /**
+     * API the racing peer discovers and answers through
+     */
+    createPeerApi(answererPublicKey: string): RondevuAPI {
+        const api = {
+            discover: async () => {
+                const offers = [...this.offers.values()].map(hosted => hosted.offer)
+                return { offers, count: offers.length, limit: 100, offset: 0 }
+            },
+            answerOffer: async (offerId: string, sdp: string) => {
+                const hosted = this.offers.get(offerId)!
+                if (hosted.behavior === 'taken') throw new Error('Offer already answered')
+                hosted.answered = true
+                await hosted.connection.processAnswer(sdp, answererPublicKey)
+                this.peer?.handleRemoteIceCandidates(offerId, hosted.pending.splice(0))
+            },
+            addOfferIceCandidates: async (offerId: string, candidates: RTCIceCandidateInit[]) => {
+                const hosted = this.offers.get(offerId)!
+                hosted.released ||= candidates.some(isReleaseSignal)
+                if (hosted.behavior === 'live' || candidates.some(isReleaseSignal)) {
+                    hosted.connection.handleRemoteIceCandidates(
+                        candidates.map(candidate => ({
+                            candidate,
+                            role: 'answerer',
+                            createdAt: Date.now(),
+                        }))
+                    )
+                }
+                return { count: candidates.length, offerId }
+            },
+        }
+        return api as unknown as RondevuAPI
+    }
+
+    close(): void {
+        this.peer?.close()
+        for (const hosted of this.offers.values()) hosted.connection.close()
+    }
+}
+
+const hosts: OfferHost[] = []
+
+function createRacingPeer(host: OfferHost, raceOffers: number, pcs: RTCPeerConnection[] = []) {
+    const peer = new Peer({
+        api: host.createPeerApi('answerer-key'),
+        tags: ['race'],
+        iceServers: [],
+        webrtcAdapter,
+        config: { reconnectEnabled: false },
+        // Keep the hosting order, so the live offer is not always ranked first
+        selectOffer: offers => offers,
+        raceOffers,
+        onPeerConnectionCreated: pc => pcs.push(pc),
+    })
+    host.peer = peer
+    return peer
+}
+
+afterEach(() => {
+    hosts.splice(0).forEach(host => host.close())
+})
+
+describe('Peer raceOffers', () => {
+    it('keeps the first connection to open and releases the offers the others answered', async () => {
+        const host = new OfferHost()
+        hosts.push(host)
+        const stalled = await host.host('stalled', 'host-a')
+        const taken = await host.host('taken', 'host-b')
+        const live = await host.host('live', 'host-c')
+
+        const pcs: RTCPeerConnection[] = []
+        const peer = createRacingPeer(host, 3, pcs)
+        const states: Array<[PeerState, PeerState]> = []
+        let opened = false
+        await peer.initialize()
+        peer.on('state', (state, previous) => states.push([state, previous]))
+        peer.on('open', () => (opened = true))
+
+        assert.equal(peer.state, 'connected')
+        assert.equal(peer.peerPublicKey, 'host-c')
+        assert.equal(peer.offerId, live.offer.offerId)
+        await waitFor(() => opened, 1000, 'open event')
+        assert.deepEqual(states, [['connected', 'connecting']])
+
+        // The losers are closed, and the answered offer is released to its host
+        await waitFor(() => stalled.released, 5000, 'release signal')
+        assert.equal(stalled.connection.getState(), ConnectionState.FAILED)
+        assert.equal(taken.released, false)
+        await waitFor(
+            () => pcs.filter(pc => pc.connectionState === 'closed').length === 2,
+            5000,
+            'losers closed'
+        )
+        assert.deepEqual(peer.getConnections(), [peer.getConnection()])
+        assert.equal(live.connection.getState(), ConnectionState.CONNECTED)
+    })
+
+    it('fails when none of the raced offers connects', async () => {
+        const host = new OfferHost()
+        hosts.push(host)
+        await host.host('taken', 'host-a')
+        await host.host('taken', 'host-b')
+
+        const peer = createRacingPeer(host, 2)
+        await assert.rejects(peer.initialize(), /None of 2 raced offers connected/)
+        assert.equal(peer.getConnection(), null)
+        assert.deepEqual(peer.getConnections(), [])
+        assert.notEqual(peer.state, 'connected')
+    })
+})
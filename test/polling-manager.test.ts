@@ -0,0 +1,142 @@
+/**
+ * Polling cadence: activity levels, error backoff and on-demand polls
+ */
+
+import { afterEach, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import type { RondevuAPI } from '../src/api/client.js'
+import { PollingActivity, PollingManager } from '../src/core/polling-manager.js'
+import { sleep, waitFor } from './helpers.js'
+
+type PollResult = Awaited<ReturnType<RondevuAPI['poll']>>
+
+/**
+ * API stand-in recording poll calls; each poll returns (or throws) the next queued result
+ */
+class FakePollApi {
+    readonly calls: Array<number | undefined> = []
+    private readonly queue: Array<PollResult | Error> = []
+
+    enqueue(...results: Array<PollResult | Error>): void {
+        this.queue.push(...results)
+    }
+
+    async poll(since?: number): Promise<PollResult> {
+        this.calls.push(since)
+        const next = this.queue.shift() ?? { answers: [], iceCandidates: {} }
+        if (next instanceof Error) throw next
+        return next
+    }
+}
+
+const managers: PollingManager[] = []
+
+function createManager(api: FakePollApi, getActivity?: () => PollingActivity): PollingManager {
+    const manager = new PollingManager({
+        api: api as unknown as RondevuAPI,
+        intervalMs: 100,
+        activeIntervalMs: 20,
+        idleIntervalMs: 1000,
+        maxErrorBackoffMs: 400,
+        getActivity,
+    })
+    manager.on('poll:error', () => {})
+    managers.push(manager)
+    return manager
+}
+
+afterEach(() => {
+    managers.splice(0).forEach(manager => manager.stop())
+})
+
+describe('PollingManager cadence', () => {
+    it('follows the reported activity', async () => {
+        const api = new FakePollApi()
+        let activity: PollingActivity = 'active'
+        const manager = createManager(api, () => activity)
+
+        manager.start()
+        await waitFor(() => api.calls.length >= 3, 1000, 'fast polls')
+        assert.equal(manager.getCurrentInterval(), 20)
+
+        activity = 'idle'
+        await waitFor(() => manager.getCurrentInterval() === 1000, 1000, 'idle cadence')
+        const polls = api.calls.length
+        await sleep(200)
+        assert.equal(api.calls.length, polls)
+
+        activity = 'normal'
+        manager.refreshCadence()
+        assert.equal(manager.getCurrentInterval(), 100)
+        await waitFor(() => api.calls.length > polls, 300, 'poll brought forward')
+    })
+
+    it('backs off from the base interval on errors and recovers on success', async () => {
+        const api = new FakePollApi()
+        api.enqueue(new Error('down'), new Error('down'), new Error('down'))
+        const manager = createManager(api, () => 'active')
+        const intervals: number[] = []
+        manager.on('poll:error', () => {
+            // The next poll is scheduled once the failed one settles
+            setImmediate(() => intervals.push(manager.getCurrentInterval()))
+        })
+
+        manager.start()
+        await waitFor(() => intervals.length === 3, 2000, 'three failed polls')
+
+        // First error waits one base interval, then doubles (±10% jitter)
+        const expected = [100, 200, 400]
+        intervals.forEach((interval, i) => {
+            assert.ok(
+                Math.abs(interval - expected[i]) <= expected[i] * 0.1,
+                `interval ${i}: ${interval}ms, expected ~${expected[i]}ms`
+            )
+        })
+
+        await waitFor(() => manager.getCurrentInterval() === 20, 1000, 'active cadence again')
+    })
+
+    it('polls on demand and reuses the poll cursor', async () => {
+        const api = new FakePollApi()
+        api.enqueue({
+            answers: [
+                {
+                    offerId: 'offer-1',
+                    answererPublicKey: 'answerer',
+                    sdp: 'sdp',
+                    answeredAt: 500,
+                },
+            ],
+            iceCandidates: {},
+        })
+        const manager = createManager(api)
+        const answers: string[] = []
+        manager.on('poll:answer', answer => answers.push(answer.offerId))
+
+        // Works while stopped, without starting the schedule
+        await manager.pollNow()
+        assert.deepEqual(answers, ['offer-1'])
+        assert.equal(manager.getLastPollTimestamp(), 500)
+        assert.equal(manager.isRunning(), false)
+
+        await manager.pollNow()
+        assert.deepEqual(api.calls, [0, 500])
+        await sleep(150)
+        assert.equal(api.calls.length, 2)
+    })
+
+    it('restarts the schedule from an on-demand poll while running', async () => {
+        const api = new FakePollApi()
+        const manager = createManager(api, () => 'idle')
+
+        manager.start()
+        await waitFor(() => api.calls.length === 1, 500, 'first poll')
+        await manager.pollNow()
+        assert.equal(api.calls.length, 2)
+
+        // The idle timer was replaced, so no extra poll is pending soon
+        await sleep(200)
+        assert.equal(api.calls.length, 2)
+        assert.equal(manager.getCurrentInterval(), 1000)
+    })
+})
@@ -0,0 +1,279 @@
+/**
+ * Push signaling against mock WebSocket and EventSource servers, and the fallback
+ * to polling while the push channel is down
+ */
+
+import { afterEach, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { PushTransport, PushSubscribeRequest } from '../src/core/push-transport.js'
+import { FallbackSignalingTransport } from '../src/core/fallback-transport.js'
+import { PollingManager } from '../src/core/polling-manager.js'
+import type { PollAnswerEvent, PollIceEvent } from '../src/core/signaling-transport.js'
+import { RondevuAPI } from '../src/api/client.js'
+import { crypto, sleep, waitFor } from './helpers.js'
+
+/**
+ * Server end of a WebSocket: records what the client sends, and delivers messages
+ */
+class MockWebSocket {
+    static instances: MockWebSocket[] = []
+
+    onopen: (() => void) | null = null
+    onmessage: ((event: { data: unknown }) => void) | null = null
+    onerror: (() => void) | null = null
+    onclose: ((event: { code: number }) => void) | null = null
+    readonly sent: string[] = []
+    closed = false
+
+    constructor(readonly url: string) {
+        MockWebSocket.instances.push(this)
+    }
+
+    send(data: string): void {
+        this.sent.push(data)
+    }
+
+    close(): void {
+        this.closed = true
+    }
+
+    accept(): void {
+        this.onopen?.()
+    }
+
+    deliver(message: unknown): void {
+        this.onmessage?.({ data: typeof message === 'string' ? message : JSON.stringify(message) })
+    }
+
+    drop(code = 1006): void {
+        this.onclose?.({ code })
+    }
+}
+
+class MockEventSource {
+    static instances: MockEventSource[] = []
+
+    onopen: (() => void) | null = null
+    onmessage: ((event: { data: unknown }) => void) | null = null
+    onerror: (() => void) | null = null
+    closed = false
+
+    constructor(readonly url: string) {
+        MockEventSource.instances.push(this)
+    }
+
+    close(): void {
+        this.closed = true
+    }
+}
+
+/**
+ * A real API for signing subscriptions, whose polls come back empty instead of
+ * reaching a server
+ */
+async function createApi(): Promise<{ api: RondevuAPI; publicKey: string }> {
+    const keyPair = await crypto.generateKeyPair()
+    const api = new RondevuAPI('http://local', keyPair, crypto)
+    api.poll = async () => ({ answers: [], iceCandidates: {} })
+    return { api, publicKey: keyPair.publicKey }
+}
+
+function createPush(api: RondevuAPI, mode: 'websocket' | 'sse' = 'websocket'): PushTransport {
+    return new PushTransport({
+        api,
+        url: mode === 'websocket' ? 'ws://local/ws' : 'http://local/events',
+        mode,
+        WebSocket: MockWebSocket as unknown as typeof WebSocket,
+        EventSource: MockEventSource as unknown as typeof EventSource,
+        connectTimeoutMs: 200,
+    })
+}
+
+const transports: Array<{ stop(): void }> = []
+
+afterEach(() => {
+    transports.splice(0).forEach(transport => transport.stop())
+    MockWebSocket.instances = []
+    MockEventSource.instances = []
+})
+
+describe('PushTransport over WebSocket', () => {
+    it('subscribes with signed auth and emits pushed events', async () => {
+        const { api, publicKey } = await createApi()
+        const push = createPush(api)
+        transports.push(push)
+
+        const answers: PollAnswerEvent[] = []
+        const ice: PollIceEvent[] = []
+        const errors: Error[] = []
+        push.on('poll:answer', data => answers.push(data))
+        push.on('poll:ice', data => ice.push(data))
+        push.on('poll:error', error => errors.push(error))
+
+        push.start()
+        const [socket] = MockWebSocket.instances
+        assert.equal(socket.url, 'ws://local/ws')
+
+        socket.accept()
+        await waitFor(() => push.isOpen(), 1000, 'push channel to open')
+        const request: PushSubscribeRequest = JSON.parse(socket.sent[0])
+        assert.equal(request.method, 'subscribe')
+        assert.deepEqual(request.params, { since: 0 })
+        assert.equal(request.auth.publicKey, publicKey)
+
+        socket.deliver({
+            type: 'answer',
+            offerId: 'offer-1',
+            answererPublicKey: 'answerer',
+            sdp: 'answer-sdp',
+            answeredAt: 100,
+        })
+        const candidate = { candidate: { candidate: 'c' }, role: 'answerer', createdAt: 120 }
+        socket.deliver({ type: 'ice', offerId: 'offer-1', candidates: [candidate] })
+        socket.deliver({ type: 'error', error: 'Slow down' })
+
+        // Malformed and unknown messages are ignored
+        socket.deliver('not json')
+        socket.deliver({ type: 'answer', offerId: 'offer-2' })
+        socket.deliver({ type: 'ice', offerId: 'offer-2', candidates: 'c' })
+        socket.deliver({ type: 'something-new' })
+
+        assert.deepEqual(answers, [
+            {
+                offerId: 'offer-1',
+                answererPublicKey: 'answerer',
+                sdp: 'answer-sdp',
+                answeredAt: 100,
+                matchedTags: undefined,
+            },
+        ])
+        assert.deepEqual(ice, [{ offerId: 'offer-1', candidates: [candidate] }])
+        assert.deepEqual(
+            errors.map(error => error.message),
+            ['Slow down']
+        )
+    })
+
+    it('resubscribes from the last event after the channel drops', async () => {
+        const push = createPush((await createApi()).api)
+        transports.push(push)
+        const closes: Array<Error | undefined> = []
+        push.on('push:close', error => closes.push(error))
+
+        push.start()
+        const [first] = MockWebSocket.instances
+        first.accept()
+        await waitFor(() => push.isOpen(), 1000, 'push channel to open')
+        first.deliver({
+            type: 'answer',
+            offerId: 'offer-1',
+            answererPublicKey: 'answerer',
+            sdp: 'answer-sdp',
+            answeredAt: 1234,
+        })
+
+        first.drop()
+        assert.equal(push.isOpen(), false)
+        assert.equal(closes.length, 1)
+
+        // Reconnects after the backoff delay (1s base)
+        await waitFor(() => MockWebSocket.instances.length === 2, 3000, 'reconnect')
+        const second = MockWebSocket.instances[1]
+        second.accept()
+        await waitFor(() => second.sent.length === 1, 1000, 'subscription')
+        assert.deepEqual(JSON.parse(second.sent[0]).params, { since: 1234 })
+    })
+
+    it('reports a channel that never opens', async () => {
+        const push = createPush((await createApi()).api)
+        transports.push(push)
+        const errors: Error[] = []
+        push.on('poll:error', error => errors.push(error))
+
+        push.start()
+        await sleep(300)
+        assert.equal(push.isOpen(), false)
+        assert.match(errors[0]?.message ?? '', /did not open within 200ms/)
+        assert.equal(MockWebSocket.instances[0].closed, true)
+    })
+})
+
+describe('PushTransport over SSE', () => {
+    it('passes auth as query parameters and reconnects with fresh credentials on error', async () => {
+        const { api, publicKey } = await createApi()
+        const push = createPush(api, 'sse')
+        transports.push(push)
+        const answers: PollAnswerEvent[] = []
+        push.on('poll:answer', data => answers.push(data))
+
+        push.start()
+        await waitFor(() => MockEventSource.instances.length === 1, 1000, 'event source')
+        const [source] = MockEventSource.instances
+        const url = new URL(source.url)
+        assert.equal(url.pathname, '/events')
+        assert.equal(url.searchParams.get('publicKey'), publicKey)
+        assert.equal(url.searchParams.get('since'), '0')
+        for (const param of ['timestamp', 'nonce', 'signature']) {
+            assert.ok(url.searchParams.get(param), param)
+        }
+
+        source.onopen!()
+        assert.equal(push.isOpen(), true)
+        source.onmessage!({
+            data: JSON.stringify({
+                type: 'answer',
+                offerId: 'offer-1',
+                answererPublicKey: 'answerer',
+                sdp: 'answer-sdp',
+                answeredAt: 55,
+                matchedTags: ['chat'],
+            }),
+        })
+        assert.deepEqual(answers[0].matchedTags, ['chat'])
+
+        source.onerror!()
+        assert.equal(source.closed, true)
+        await waitFor(() => MockEventSource.instances.length === 2, 3000, 'reconnect')
+        const next = new URL(MockEventSource.instances[1].url)
+        assert.equal(next.searchParams.get('since'), '55')
+        assert.notEqual(next.searchParams.get('nonce'), url.searchParams.get('nonce'))
+    })
+})
+
+describe('FallbackSignalingTransport', () => {
+    it('polls only while the push channel is down', async () => {
+        const { api } = await createApi()
+        const push = createPush(api)
+        const polling = new PollingManager({ api })
+        const transport = new FallbackSignalingTransport({ push, polling })
+        transports.push(transport)
+
+        transport.start()
+        assert.equal(polling.isRunning(), true)
+        assert.equal(transport.isPushActive(), false)
+
+        const [socket] = MockWebSocket.instances
+        socket.accept()
+        await waitFor(() => transport.isPushActive(), 1000, 'push channel to open')
+        assert.equal(polling.isRunning(), false)
+
+        // Pushed events are forwarded
+        const answers: PollAnswerEvent[] = []
+        transport.on('poll:answer', data => answers.push(data))
+        socket.deliver({
+            type: 'answer',
+            offerId: 'offer-1',
+            answererPublicKey: 'answerer',
+            sdp: 'answer-sdp',
+            answeredAt: 100,
+        })
+        assert.equal(answers.length, 1)
+
+        socket.drop()
+        assert.equal(polling.isRunning(), true)
+
+        transport.stop()
+        assert.equal(polling.isRunning(), false)
+        assert.equal(push.isRunning(), false)
+    })
+})
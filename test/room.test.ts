@@ -0,0 +1,224 @@
+/**
+ * Rooms: full mesh between members discovered by tag
+ */
+
+import { after, afterEach, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { EventEmitter } from 'eventemitter3'
+import type { RondevuAPI } from '../src/api/client.js'
+import type { OfferPool } from '../src/core/offer-pool.js'
+import type { Peer } from '../src/core/peer.js'
+import { Room } from '../src/core/room.js'
+import { LocalNetwork, sleep, waitFor } from './helpers.js'
+
+const LOCAL_KEY = 'm-local'
+
+/**
+ * Peer stand-in recording what it was sent
+ */
+class FakePeer extends EventEmitter {
+    readonly sent: unknown[] = []
+    isConnected = false
+    closed = false
+
+    constructor(readonly publicKey: string) {
+        super()
+    }
+
+    open(): void {
+        this.isConnected = true
+        this.emit('open')
+    }
+
+    send(data: unknown): void {
+        this.sent.push(data)
+    }
+
+    close(): void {
+        if (this.closed) return
+        this.closed = true
+        this.emit('close', 'closed')
+    }
+
+    getConnection(): undefined {
+        return undefined
+    }
+
+    asPeer(): Peer {
+        return this as unknown as Peer
+    }
+}
+
+/**
+ * A room whose members are listed by a fake discover() and connected on demand
+ */
+function createRoom(members: string[], maxPeers?: number) {
+    const offerPool = Object.assign(new EventEmitter(), {
+        started: false,
+        stopped: false,
+        async start() {
+            this.started = true
+        },
+        stop() {
+            this.stopped = true
+        },
+    })
+    const api = {
+        async discover() {
+            return {
+                offers: members.map((publicKey, i) => ({ offerId: `offer-${i}`, publicKey })),
+            }
+        },
+    }
+    const connected: FakePeer[] = []
+    let left = false
+
+    const room = new Room({
+        tag: 'room',
+        localPublicKey: LOCAL_KEY,
+        api: api as unknown as RondevuAPI,
+        offerPool: offerPool as unknown as OfferPool,
+        maxPeers,
+        discoveryInterval: 20,
+        connect: async publicKey => {
+            const peer = new FakePeer(publicKey)
+            connected.push(peer)
+            return peer.asPeer()
+        },
+        wrap: (connection, publicKey) => {
+            const peer = new FakePeer(publicKey)
+            connection.on('closed', () => peer.close())
+            return peer.asPeer()
+        },
+        onLeave: () => {
+            left = true
+        },
+    })
+    rooms.push(room)
+
+    return { room, offerPool, connected, hasLeft: () => left }
+}
+
+/**
+ * An offer connection answered by the given member
+ */
+function answeredBy(publicKey: string) {
+    const connection = Object.assign(new EventEmitter(), {
+        peerPublicKey: publicKey,
+        closed: false,
+        close() {
+            this.closed = true
+            this.emit('closed')
+        },
+    })
+    return connection
+}
+
+const rooms: Room[] = []
+
+afterEach(() => {
+    rooms.splice(0).forEach(room => room.leave())
+})
+
+describe('Room', () => {
+    it('answers members with a higher key and waits for the others to answer us', async () => {
+        const { room, offerPool, connected } = createRoom(['a-lower', 'z-higher', LOCAL_KEY])
+        const joined: string[] = []
+        room.on('peer:joined', publicKey => joined.push(publicKey))
+
+        await room.start()
+        assert.equal(offerPool.started, true)
+        await waitFor(() => connected.length === 1, 1000, 'member connection')
+        assert.deepEqual(
+            connected.map(peer => peer.publicKey),
+            ['z-higher']
+        )
+
+        // The lower member answers one of our offers instead
+        offerPool.emit('connection:opened', 'offer-x', answeredBy('a-lower'))
+        assert.deepEqual(room.peers.sort(), ['a-lower', 'z-higher'])
+
+        connected[0].open()
+        assert.deepEqual(joined, ['z-higher'])
+
+        // Discovery keeps running without connecting twice
+        await sleep(60)
+        assert.equal(connected.length, 1)
+    })
+
+    it('closes connections that break the key order or exceed maxPeers', async () => {
+        const { room, offerPool } = createRoom([], 1)
+        await room.start()
+
+        const higher = answeredBy('z-higher')
+        offerPool.emit('connection:opened', 'offer-1', higher)
+        assert.equal(higher.closed, true)
+
+        const first = answeredBy('a-lower')
+        const second = answeredBy('b-lower')
+        offerPool.emit('connection:opened', 'offer-2', first)
+        offerPool.emit('connection:opened', 'offer-3', second)
+        assert.equal(first.closed, false)
+        assert.equal(second.closed, true)
+        assert.deepEqual(room.peers, ['a-lower'])
+    })
+
+    it('broadcasts to members and leaves cleanly', async () => {
+        const { room, offerPool, connected, hasLeft } = createRoom(['y-higher', 'z-higher'])
+        const left: string[] = []
+        room.on('peer:left', publicKey => left.push(publicKey))
+
+        await room.start()
+        await waitFor(() => connected.length === 2, 1000, 'member connections')
+        connected.forEach(peer => peer.open())
+
+        room.broadcast('hello')
+        room.sendTo('z-higher', 'just you')
+        assert.deepEqual(
+            connected.map(peer => peer.sent),
+            [['hello'], ['hello', 'just you']]
+        )
+        assert.throws(() => room.sendTo('nobody', 'x'), /not a member/)
+
+        room.leave()
+        assert.equal(offerPool.stopped, true)
+        assert.equal(hasLeft(), true)
+        assert.deepEqual(left.sort(), ['y-higher', 'z-higher'])
+        assert.deepEqual(room.peers, [])
+    })
+})
+
+describe('Room between instances', () => {
+    const network = new LocalNetwork()
+    after(() => network.close())
+
+    it('connects three members to each other and delivers broadcasts', async () => {
+        const members = await Promise.all([network.connect(), network.connect(), network.connect()])
+        const joined: Room[] = await Promise.all(
+            members.map(member => member.joinRoom('room-test', { discoveryInterval: 200 }))
+        )
+        network.onClose(() => joined.forEach(room => room.leave()))
+
+        const keys = members.map(member => member.getPublicKey())
+        const fullyConnected = () =>
+            joined.every((room, i) =>
+                keys.every((key, j) => i === j || room.getPeer(key)?.state === 'connected')
+            )
+        await waitFor(fullyConnected, 20000, 'every member to connect to every other member')
+
+        const received = joined.map(() => [] as string[])
+        joined.forEach((room, i) =>
+            room.on('message', (_from, data) => received[i].push(String(data)))
+        )
+        joined.forEach((room, i) => room.broadcast(`hello from ${i}`))
+
+        await waitFor(() => received.every(messages => messages.length === 2), 5000, 'broadcasts')
+        joined.forEach((room, i) => {
+            assert.deepEqual(
+                received[i].sort(),
+                [0, 1, 2].filter(j => j !== i).map(j => `hello from ${j}`)
+            )
+            assert.equal(room.peers.length, 2)
+        })
+    })
+})
@@ -0,0 +1,215 @@
+/**
+ * Retries, deadlines and the circuit breaker of RondevuAPI, against LocalSignalingServer
+ * behind a fetch that can be made to fail or hang
+ */
+
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { RondevuAPI, RpcPolicyOptions } from '../src/api/client.js'
+import { LocalSignalingServer } from '../src/api/local-server.js'
+import { CircuitBreaker } from '../src/api/circuit-breaker.js'
+import { CircuitOpenError, NetworkError } from '../src/api/errors.js'
+import { crypto, sleep } from './helpers.js'
+
+/**
+ * fetch in front of a local server that fails the next `failures` calls with `status`
+ * (or hangs while `hang` is set), counting all calls
+ */
+class FlakyFetch {
+    readonly server = new LocalSignalingServer({ crypto })
+    calls = 0
+    failures = 0
+    status = 503
+    hang = false
+
+    readonly fetch: typeof fetch = async (input, init) => {
+        this.calls++
+        if (this.hang) return new Promise<Response>(() => {})
+        if (this.failures > 0) {
+            this.failures--
+            return new Response('unavailable', { status: this.status, statusText: 'Unavailable' })
+        }
+        return this.server.fetch(input, init)
+    }
+}
+
+async function createApi(flaky: FlakyFetch, policy: RpcPolicyOptions): Promise<RondevuAPI> {
+    return new RondevuAPI(
+        'http://local',
+        await crypto.generateKeyPair(),
+        crypto,
+        { fetch: flaky.fetch },
+        policy
+    )
+}
+
+describe('RPC retries', () => {
+    it('retries idempotent methods after transient failures', async () => {
+        const flaky = new FlakyFetch()
+        const api = await createApi(flaky, { retry: { poll: { baseDelay: 5 } } })
+
+        flaky.failures = 2
+        const result = await api.poll()
+        assert.deepEqual(result, { answers: [], iceCandidates: {} })
+        assert.equal(flaky.calls, 3)
+    })
+
+    it('gives up after maxAttempts', async () => {
+        const flaky = new FlakyFetch()
+        const api = await createApi(flaky, { retry: { poll: { baseDelay: 5, maxAttempts: 2 } } })
+
+        flaky.failures = 5
+        await assert.rejects(api.poll(), NetworkError)
+        assert.equal(flaky.calls, 2)
+    })
+
+    it('does not retry methods without a retry policy', async () => {
+        const flaky = new FlakyFetch()
+        const api = await createApi(flaky, {})
+
+        flaky.failures = 1
+        await assert.rejects(api.deleteOffer('any'), NetworkError)
+        assert.equal(flaky.calls, 1)
+    })
+
+    it('does not retry client errors', async () => {
+        const flaky = new FlakyFetch()
+        const api = await createApi(flaky, { retry: { poll: { baseDelay: 5 } } })
+
+        flaky.failures = 1
+        flaky.status = 400
+        await assert.rejects(api.poll(), (error: unknown) => {
+            assert.ok(error instanceof NetworkError)
+            assert.equal(error.status, 400)
+            assert.equal(error.retryable, false)
+            return true
+        })
+        assert.equal(flaky.calls, 1)
+    })
+})
+
+describe('RPC deadlines', () => {
+    it('rejects a call the server never answers', async () => {
+        const flaky = new FlakyFetch()
+        const api = await createApi(flaky, { deadline: 100 })
+
+        flaky.hang = true
+        const started = Date.now()
+        await assert.rejects(api.poll(), (error: unknown) => {
+            assert.ok(error instanceof NetworkError)
+            assert.equal(error.errorCode, 'TIMEOUT')
+            assert.equal(error.method, 'poll')
+            return true
+        })
+        assert.ok(Date.now() - started < 1000)
+    })
+
+    it('stops retrying when the next attempt would miss the deadline', async () => {
+        const flaky = new FlakyFetch()
+        const api = await createApi(flaky, {
+            deadline: 200,
+            retry: { poll: { baseDelay: 1000, maxAttempts: 5 } },
+        })
+
+        flaky.failures = 5
+        await assert.rejects(api.poll(), NetworkError)
+        assert.equal(flaky.calls, 1)
+    })
+})
+
+describe('Circuit breaker', () => {
+    it('opens after repeated failures, fails fast, and closes after a successful trial', async () => {
+        const flaky = new FlakyFetch()
+        const api = await createApi(flaky, {
+            retry: { poll: false },
+            circuitBreaker: { failureThreshold: 2, resetTimeout: 100 },
+        })
+        const breaker = api.getCircuitBreaker()!
+        const events: string[] = []
+        breaker.on('open', () => events.push('open'))
+        breaker.on('half-open', () => events.push('half-open'))
+        breaker.on('close', () => events.push('close'))
+
+        flaky.failures = 2
+        await assert.rejects(api.poll(), NetworkError)
+        await assert.rejects(api.poll(), NetworkError)
+        assert.equal(breaker.state, 'open')
+
+        // Fails without calling the server
+        await assert.rejects(api.poll(), CircuitOpenError)
+        assert.equal(flaky.calls, 2)
+
+        await sleep(120)
+        // Reading the state does not move the circuit on; the next request does
+        assert.equal(breaker.state, 'open')
+        assert.equal(breaker.canRequest(), true)
+        assert.deepEqual(events, ['open'])
+
+        await api.poll()
+        assert.equal(breaker.state, 'closed')
+        assert.deepEqual(events, ['open', 'half-open', 'close'])
+    })
+
+    it('reopens when the trial request fails', async () => {
+        const flaky = new FlakyFetch()
+        const api = await createApi(flaky, {
+            retry: { poll: false },
+            circuitBreaker: { failureThreshold: 1, resetTimeout: 50 },
+        })
+
+        flaky.failures = 2
+        await assert.rejects(api.poll(), NetworkError)
+        await sleep(70)
+        await assert.rejects(api.poll(), NetworkError)
+        assert.equal(api.getCircuitBreaker()!.state, 'open')
+        await assert.rejects(api.poll(), CircuitOpenError)
+    })
+
+    it('lets a single trial through while half-open', async () => {
+        const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 50 })
+        breaker.recordFailure(new Error('down'))
+        await sleep(70)
+
+        breaker.check()
+        assert.equal(breaker.state, 'half-open')
+        // Others fail fast until the trial settles
+        assert.equal(breaker.canRequest(), false)
+        assert.throws(() => breaker.check(), CircuitOpenError)
+
+        breaker.recordSuccess()
+        assert.equal(breaker.state, 'closed')
+        breaker.check()
+    })
+
+    it('starts a new trial when the last one never settles', async () => {
+        const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 50 })
+        breaker.recordFailure(new Error('down'))
+        await sleep(70)
+        breaker.check()
+        assert.throws(() => breaker.check(), CircuitOpenError)
+
+        await sleep(70)
+        assert.equal(breaker.canRequest(), true)
+        breaker.check()
+        assert.equal(breaker.state, 'half-open')
+        assert.throws(() => breaker.check(), CircuitOpenError)
+    })
+
+    it('closes when the trial gets a client error', async () => {
+        const flaky = new FlakyFetch()
+        const api = await createApi(flaky, {
+            retry: { poll: false },
+            circuitBreaker: { failureThreshold: 1, resetTimeout: 50 },
+        })
+
+        flaky.failures = 1
+        await assert.rejects(api.poll(), NetworkError)
+        await sleep(70)
+        // The server answered, so it is reachable again
+        flaky.failures = 1
+        flaky.status = 400
+        await assert.rejects(api.poll(), NetworkError)
+        assert.equal(api.getCircuitBreaker()!.state, 'closed')
+        await api.poll()
+    })
+})
@@ -0,0 +1,152 @@
+/**
+ * Peer RPC: request/response, timeouts, cancellation, remote errors and closing
+ */
+
+import { afterEach, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import type { ControlFrame } from '../src/connections/control.js'
+import { PeerRpc, RpcError } from '../src/connections/rpc.js'
+import { DirectPair, createDirectPair, sleep, waitFor, waitForConnected } from './helpers.js'
+
+/**
+ * Two endpoints exchanging frames asynchronously, serialized as on the data channel
+ */
+function createEndpoints() {
+    const frames: ControlFrame[] = []
+    const endpoints: PeerRpc[] = []
+    const link = (to: () => PeerRpc) => (frame: ControlFrame) => {
+        frames.push(frame)
+        const copy = JSON.parse(JSON.stringify(frame))
+        setImmediate(() => to().handleFrame(copy))
+    }
+    endpoints.push(new PeerRpc({ sendFrame: link(() => endpoints[1]), defaultTimeout: 1000 }))
+    endpoints.push(new PeerRpc({ sendFrame: link(() => endpoints[0]), defaultTimeout: 1000 }))
+    return { caller: endpoints[0], callee: endpoints[1], frames }
+}
+
+function assertRpcError(code: string, message?: RegExp) {
+    return (error: unknown) => {
+        assert.ok(error instanceof RpcError)
+        assert.equal(error.code, code)
+        if (message) assert.match(error.message, message)
+        return true
+    }
+}
+
+describe('PeerRpc', () => {
+    it('resolves with the handler result', async () => {
+        const { caller, callee } = createEndpoints()
+        callee.register('add', ({ a, b }: { a: number; b: number }) => a + b)
+        callee.register('later', async () => {
+            await sleep(10)
+            return { done: true }
+        })
+        callee.register('nothing', () => undefined)
+
+        assert.equal(await caller.call('add', { a: 1, b: 2 }), 3)
+        assert.deepEqual(await caller.call('later'), { done: true })
+        assert.equal(await caller.call('nothing'), null)
+        assert.equal(caller.pendingCount, 0)
+    })
+
+    it('rejects with the remote error, keeping its name and data', async () => {
+        const { caller, callee } = createEndpoints()
+        callee.register('fail', () => {
+            const error = new TypeError('bad input') as TypeError & { data: unknown }
+            error.data = { field: 'q' }
+            throw error
+        })
+
+        await assert.rejects(caller.call('fail'), (error: unknown) => {
+            assertRpcError('REMOTE_ERROR', /bad input/)(error)
+            assert.equal((error as RpcError).remoteName, 'TypeError')
+            assert.deepEqual((error as RpcError).data, { field: 'q' })
+            return true
+        })
+        await assert.rejects(caller.call('missing'), assertRpcError('METHOD_NOT_FOUND'))
+    })
+
+    it('times out and tells the remote handler to stop', async () => {
+        const { caller, callee, frames } = createEndpoints()
+        let handlerSignal: AbortSignal | null = null
+        callee.register('slow', (_params, { signal }) => {
+            handlerSignal = signal
+            return new Promise(() => {})
+        })
+
+        await assert.rejects(
+            caller.call('slow', undefined, { timeout: 50 }),
+            assertRpcError('TIMEOUT', /timed out after 50ms/)
+        )
+        await waitFor(() => handlerSignal?.aborted === true, 1000, 'handler abort')
+        assert.equal(frames.at(-1)?.type, 'rpc:cancel')
+        assert.equal(caller.pendingCount, 0)
+    })
+
+    it('cancels through an AbortSignal', async () => {
+        const { caller, callee } = createEndpoints()
+        callee.register('slow', () => new Promise(() => {}))
+
+        const controller = new AbortController()
+        const call = caller.call('slow', undefined, { signal: controller.signal })
+        controller.abort()
+        await assert.rejects(call, assertRpcError('CANCELLED'))
+
+        await assert.rejects(
+            caller.call('slow', undefined, { signal: controller.signal }),
+            assertRpcError('CANCELLED')
+        )
+    })
+
+    it('rejects pending calls and aborts running handlers on close', async () => {
+        const { caller, callee } = createEndpoints()
+        let handlerSignal: AbortSignal | null = null
+        callee.register('slow', (_params, { signal }) => {
+            handlerSignal = signal
+            return new Promise(() => {})
+        })
+
+        const call = caller.call('slow')
+        await waitFor(() => handlerSignal !== null, 1000, 'handler to run')
+        caller.closeAll()
+        callee.closeAll()
+
+        await assert.rejects(call, assertRpcError('CONNECTION_CLOSED'))
+        assert.equal(handlerSignal!.aborted, true)
+    })
+
+    it('fails calls that cannot be sent', async () => {
+        const rpc = new PeerRpc({
+            sendFrame: () => {
+                throw new Error('not connected')
+            },
+        })
+        await assert.rejects(rpc.call('add'), assertRpcError('SEND_FAILED', /not connected/))
+        assert.equal(rpc.pendingCount, 0)
+    })
+})
+
+describe('connection RPC', () => {
+    let pair: DirectPair | null = null
+
+    afterEach(() => {
+        pair?.close()
+        pair = null
+    })
+
+    it('calls across the data channel and fails pending calls when closed', async () => {
+        pair = await createDirectPair()
+        await waitForConnected(pair)
+        pair.offerer.rpc.register('echo', (params: unknown) => params)
+        pair.offerer.rpc.register('hang', () => new Promise(() => {}))
+
+        assert.deepEqual(await pair.answerer.rpc.call('echo', { hello: 'world' }), {
+            hello: 'world',
+        })
+
+        const pending = pair.answerer.rpc.call('hang')
+        await sleep(50)
+        pair.answerer.close()
+        await assert.rejects(pending, assertRpcError('CONNECTION_CLOSED'))
+    })
+})
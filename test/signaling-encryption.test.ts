@@ -0,0 +1,153 @@
+/**
+ * End-to-end encrypted signaling: the cipher and encrypted offer/answer exchanges
+ */
+
+import { afterEach, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import type { RondevuAPI } from '../src/api/client.js'
+import { AnswererConnection } from '../src/connections/answerer.js'
+import { decodeEncryptedCandidates } from '../src/connections/signaler.js'
+import type { CryptoAdapter } from '../src/crypto/adapter.js'
+import { ENCRYPTED_SIGNAL_PREFIX, SignalingCipher, isEncryptedSignal } from '../src/crypto/e2e.js'
+import {
+    DirectPair,
+    createDirectPair,
+    crypto,
+    waitFor,
+    waitForConnected,
+    webrtcAdapter,
+} from './helpers.js'
+
+describe('SignalingCipher', () => {
+    it('round-trips values between two identities', async () => {
+        const alice = await crypto.generateKeyPair()
+        const bob = await crypto.generateKeyPair()
+        const aliceCipher = new SignalingCipher(alice, crypto)
+        const bobCipher = new SignalingCipher(bob, crypto)
+
+        const sealed = await aliceCipher.encrypt(bob.publicKey, 'v=0 secret sdp')
+        assert.ok(isEncryptedSignal(sealed))
+        assert.ok(!sealed.includes('secret'))
+        assert.notEqual(await aliceCipher.encrypt(bob.publicKey, 'v=0 secret sdp'), sealed)
+
+        assert.equal(await bobCipher.decrypt(alice.publicKey, sealed), 'v=0 secret sdp')
+        const reply = await bobCipher.encrypt(alice.publicKey, 'answer')
+        assert.equal(await aliceCipher.decrypt(bob.publicKey, reply), 'answer')
+    })
+
+    it('rejects values encrypted for another identity or altered on the way', async () => {
+        const [alice, bob, carol] = await Promise.all([
+            crypto.generateKeyPair(),
+            crypto.generateKeyPair(),
+            crypto.generateKeyPair(),
+        ])
+        const toCarol = await new SignalingCipher(alice, crypto).encrypt(carol.publicKey, 'sdp')
+        const bobCipher = new SignalingCipher(bob, crypto)
+
+        await assert.rejects(bobCipher.decrypt(alice.publicKey, toCarol))
+        await assert.rejects(bobCipher.decrypt(alice.publicKey, 'v=0'), /not encrypted/)
+
+        const toBob = await new SignalingCipher(alice, crypto).encrypt(bob.publicKey, 'sdp')
+        const sealed = crypto.base64ToBytes(toBob.slice(ENCRYPTED_SIGNAL_PREFIX.length))
+        sealed[sealed.length - 1] ^= 1
+        const tampered = ENCRYPTED_SIGNAL_PREFIX + crypto.bytesToBase64(sealed)
+        await assert.rejects(bobCipher.decrypt(alice.publicKey, tampered))
+    })
+
+    it('derives keys and encrypts through the crypto adapter', async () => {
+        const calls: string[] = []
+        const tracing: CryptoAdapter = Object.create(crypto)
+        for (const method of ['deriveKey', 'encrypt', 'decrypt'] as const) {
+            const original = crypto[method].bind(crypto) as (...args: unknown[]) => unknown
+            ;(tracing as unknown as Record<string, unknown>)[method] = (...args: unknown[]) => {
+                calls.push(method)
+                return original(...args)
+            }
+        }
+
+        const alice = await crypto.generateKeyPair()
+        const bob = await crypto.generateKeyPair()
+        const cipher = new SignalingCipher(alice, tracing)
+        await cipher.decrypt(bob.publicKey, await cipher.encrypt(bob.publicKey, 'sdp'))
+
+        // The key is derived once per remote identity
+        assert.deepEqual(calls, ['deriveKey', 'encrypt', 'decrypt'])
+    })
+})
+
+describe('encrypted signaling', () => {
+    let pair: DirectPair | null = null
+
+    afterEach(() => {
+        pair?.close()
+        pair = null
+    })
+
+    it('refuses to answer an offer encrypted to another key', async () => {
+        const [alice, bob, carol] = await Promise.all([
+            crypto.generateKeyPair(),
+            crypto.generateKeyPair(),
+            crypto.generateKeyPair(),
+        ])
+        const pc = webrtcAdapter.createPeerConnection({ iceServers: [] })
+        pc.createDataChannel('default')
+        const offer = await pc.createOffer()
+        pc.close()
+        const toCarol = await new SignalingCipher(alice, crypto).encrypt(
+            carol.publicKey,
+            offer.sdp!
+        )
+
+        let answered = false
+        const answerer = new AnswererConnection({
+            api: {
+                answerOffer: async () => {
+                    answered = true
+                },
+            } as unknown as RondevuAPI,
+            ownerPublicKey: alice.publicKey,
+            tags: ['encrypted'],
+            offerId: 'offer-to-carol',
+            offerSdp: toCarol,
+            rtcConfig: { iceServers: [] },
+            webrtcAdapter,
+            config: { encryptSignaling: true, reconnectEnabled: false },
+            identity: { keyPair: bob, crypto },
+        })
+
+        await assert.rejects(answerer.initialize())
+        answerer.close()
+        assert.equal(answered, false)
+    })
+
+    it('connects with the answer and candidates encrypted end-to-end', async () => {
+        const answers: string[] = []
+        const candidates: Array<{ role: string; encrypted: boolean }> = []
+        pair = await createDirectPair({
+            config: { encryptSignaling: true },
+            onSignal: (role, signal) => {
+                if ('sdp' in signal) answers.push(signal.sdp)
+                else
+                    signal.candidates.forEach(candidate =>
+                        candidates.push({
+                            role,
+                            encrypted: decodeEncryptedCandidates(candidate) !== null,
+                        })
+                    )
+            },
+        })
+
+        await waitForConnected(pair)
+        assert.equal(answers.length, 1)
+        assert.ok(isEncryptedSignal(answers[0]))
+
+        await waitFor(
+            () => candidates.some(candidate => candidate.role === 'answerer'),
+            5000,
+            'answerer candidates'
+        )
+        for (const candidate of candidates.filter(c => c.role === 'answerer')) {
+            assert.equal(candidate.encrypted, true)
+        }
+    })
+})
@@ -0,0 +1,60 @@
+/**
+ * Request signing: the signed message must match what the server rebuilds
+ */
+
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { buildSignatureMessage, canonicalJSON } from '../src/api/signature.js'
+import { crypto } from './helpers.js'
+
+/**
+ * The params as the server sees them: parsed from the JSON request body
+ */
+function overTheWire<T>(params: T): T {
+    return JSON.parse(JSON.stringify(params))
+}
+
+describe('canonicalJSON', () => {
+    it('sorts object keys at every level', () => {
+        assert.equal(
+            canonicalJSON({ b: 1, a: { d: [2, { f: 3, e: 4 }], c: 'x' } }),
+            '{"a":{"c":"x","d":[2,{"e":4,"f":3}]},"b":1}'
+        )
+    })
+
+    it('skips undefined values and turns undefined array items into null, like JSON', () => {
+        // publish() passes ttl: undefined when no TTL is set
+        const params = { tags: ['chat', undefined], ttl: undefined, offers: [{ sdp: 'v=0' }] }
+        assert.equal(canonicalJSON(params), '{"offers":[{"sdp":"v=0"}],"tags":["chat",null]}')
+        assert.equal(canonicalJSON(params), canonicalJSON(overTheWire(params)))
+    })
+
+    it('rejects values JSON cannot carry', () => {
+        assert.throws(() => canonicalJSON({ n: NaN }), /NaN and Infinity/)
+        assert.throws(() => canonicalJSON({ f: () => 1 }), /Functions are not supported/)
+        assert.throws(() => canonicalJSON({ b: 1n }), /bigint is not supported/)
+    })
+})
+
+describe('buildSignatureMessage', () => {
+    it('signs a message the server can verify from the request body', async () => {
+        const keyPair = await crypto.generateKeyPair()
+        const params = { tags: ['chat'], offers: [{ sdp: 'v=0' }], ttl: undefined }
+        const message = buildSignatureMessage(1700000000000, 'nonce', 'publishOffer', params)
+        const signature = await crypto.signMessage(keyPair.privateKey, message)
+
+        const rebuilt = buildSignatureMessage(
+            1700000000000,
+            'nonce',
+            'publishOffer',
+            overTheWire(params)
+        )
+        assert.equal(rebuilt, message)
+        assert.equal(await crypto.verifySignature(keyPair.publicKey, rebuilt, signature), true)
+    })
+
+    it('signs parameterless calls over an empty object', () => {
+        assert.equal(buildSignatureMessage(1, 'n', 'poll'), '1:n:poll:{}')
+        assert.throws(() => buildSignatureMessage(1, 'n', ''), /Invalid method/)
+    })
+})
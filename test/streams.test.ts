@@ -0,0 +1,160 @@
+/**
+ * Message streams: reading incoming messages, writing with backpressure
+ */
+
+import { afterEach, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { EventEmitter } from 'eventemitter3'
+import type { RondevuConnection } from '../src/connections/base.js'
+import { createMessageStreams } from '../src/connections/streams.js'
+import { DirectPair, createDirectPair, sleep, waitFor, waitForConnected } from './helpers.js'
+
+/**
+ * Connection stand-in whose writability is toggled by the test
+ */
+class FakeConnection extends EventEmitter {
+    readonly sent: Array<string | ArrayBuffer | Blob> = []
+    private writable = true
+    private waiters: Array<() => void> = []
+
+    setWritable(writable: boolean): void {
+        this.writable = writable
+        if (writable) {
+            this.waiters.splice(0).forEach(resolve => resolve())
+        }
+    }
+
+    async waitUntilWritable(): Promise<void> {
+        if (this.writable) return
+        await new Promise<void>(resolve => this.waiters.push(resolve))
+    }
+
+    send(data: string | ArrayBuffer | Blob): void {
+        this.sent.push(data)
+    }
+
+    asConnection(): RondevuConnection {
+        return this as unknown as RondevuConnection
+    }
+}
+
+async function readAll<T>(stream: ReadableStream<T>): Promise<T[]> {
+    const chunks: T[] = []
+    const reader = stream.getReader()
+    for (;;) {
+        const { done, value } = await reader.read()
+        if (done) return chunks
+        chunks.push(value)
+    }
+}
+
+describe('createMessageStreams', () => {
+    it('reads messages in order, binary data as Uint8Array, until the connection closes', async () => {
+        const connection = new FakeConnection()
+        const { readable } = createMessageStreams(connection.asConnection())
+
+        connection.emit('message', 'hello')
+        connection.emit('message', new Blob([new Uint8Array([1, 2])]))
+        connection.emit('message', new Uint8Array([3]).buffer)
+        connection.emit('closed', 'done')
+
+        assert.deepEqual(await readAll(readable), [
+            'hello',
+            new Uint8Array([1, 2]),
+            new Uint8Array([3]),
+        ])
+        assert.equal(connection.listenerCount('message'), 0)
+    })
+
+    it('errors the readable side when reconnection is exhausted', async () => {
+        const connection = new FakeConnection()
+        const { readable, writable } = createMessageStreams(connection.asConnection())
+
+        connection.emit('reconnect:exhausted', 3)
+        await assert.rejects(readAll(readable), /Reconnection failed after 3 attempts/)
+        await assert.rejects(writable.getWriter().write('late'), /Reconnection failed/)
+    })
+
+    it('holds writes until the connection is writable', async () => {
+        const connection = new FakeConnection()
+        const { writable } = createMessageStreams(connection.asConnection())
+        const writer = writable.getWriter()
+
+        connection.setWritable(false)
+        let written = false
+        const write = writer.write('one').then(() => {
+            written = true
+        })
+        const queued = writer.write(new Uint8Array([1, 2, 3]).subarray(1))
+
+        await sleep(20)
+        assert.equal(written, false)
+        assert.deepEqual(connection.sent, [])
+
+        connection.setWritable(true)
+        await Promise.all([write, queued])
+        assert.equal(connection.sent[0], 'one')
+        assert.deepEqual(new Uint8Array(connection.sent[1] as ArrayBuffer), new Uint8Array([2, 3]))
+    })
+
+    it('slows down a piped source instead of buffering it', async () => {
+        const connection = new FakeConnection()
+        const { writable } = createMessageStreams(connection.asConnection())
+        connection.setWritable(false)
+
+        let pulled = 0
+        const source = new ReadableStream<string>(
+            {
+                pull(controller) {
+                    controller.enqueue(`chunk ${pulled++}`)
+                    if (pulled === 100) controller.close()
+                },
+            },
+            { highWaterMark: 1 }
+        )
+        const piped = source.pipeTo(writable)
+
+        await sleep(50)
+        // One chunk waiting in write(), plus what the queues on either side hold
+        assert.ok(pulled < 5, `pulled ${pulled} chunks while blocked`)
+
+        connection.setWritable(true)
+        await piped
+        assert.equal(connection.sent.length, 100)
+    })
+})
+
+describe('connection streams', () => {
+    let pair: DirectPair | null = null
+
+    afterEach(() => {
+        pair?.close()
+        pair = null
+    })
+
+    it('pipes a stream to the remote readable side', async () => {
+        pair = await createDirectPair()
+        await waitForConnected(pair)
+
+        const remote = createMessageStreams(pair.answerer)
+        const received: Array<string | Uint8Array> = []
+        const reading = (async () => {
+            for await (const chunk of remote.readable) received.push(chunk)
+        })()
+
+        const local = createMessageStreams(pair.offerer)
+        const parts = ['a', 'b', 'c']
+        await new ReadableStream<string>({
+            start(controller) {
+                parts.forEach(part => controller.enqueue(part))
+                controller.close()
+            },
+        }).pipeTo(local.writable)
+
+        await waitFor(() => received.length === parts.length, 5000, 'piped chunks')
+        assert.deepEqual(received, parts)
+
+        pair.answerer.close()
+        await reading
+    })
+})
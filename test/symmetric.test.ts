@@ -0,0 +1,241 @@
+/**
+ * Symmetric connections: both peers connecting to each other, glare and republishing
+ */
+
+import { afterEach, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import type { IceCandidate, RondevuAPI, TaggedOffer } from '../src/api/client.js'
+import { AnswererConnection } from '../src/connections/answerer.js'
+import { ConnectionState } from '../src/connections/events.js'
+import { OffererConnection } from '../src/connections/offerer.js'
+import type { OfferFactory } from '../src/core/offer-pool.js'
+import {
+    SymmetricConnection,
+    SymmetricConnector,
+    isPolitePeer,
+    symmetricPairTag,
+} from '../src/core/symmetric.js'
+import { crypto, waitFor, webrtcAdapter } from './helpers.js'
+
+interface StoredOffer extends TaggedOffer {
+    answererPublicKey?: string
+    candidates: IceCandidate[]
+}
+
+/**
+ * In-memory signaling server delivering answers and ICE candidates straight to the
+ * connectors, as the polling manager would
+ */
+class FakeSignalingServer {
+    readonly offers = new Map<string, StoredOffer>()
+    readonly deleted: string[] = []
+    private readonly deletedOffers: StoredOffer[] = []
+    private readonly connectors = new Map<string, SymmetricConnector>()
+    private offerCount = 0
+
+    attach(publicKey: string, connector: SymmetricConnector): void {
+        this.connectors.set(publicKey, connector)
+    }
+
+    publishedBy(publicKey: string): string[] {
+        return [...this.offers.values(), ...this.deletedOffers]
+            .filter(offer => offer.publicKey === publicKey)
+            .map(offer => offer.offerId)
+    }
+
+    createApi(publicKey: string): RondevuAPI {
+        const api = {
+            publish: async (request: { tags: string[]; offers: Array<{ sdp: string }> }) => {
+                const offerId = `offer-${++this.offerCount}`
+                this.offers.set(offerId, {
+                    offerId,
+                    publicKey,
+                    tags: request.tags,
+                    sdp: request.offers[0].sdp,
+                    createdAt: Date.now(),
+                    expiresAt: Date.now() + 60000,
+                    candidates: [],
+                })
+                return { offers: [{ offerId }] }
+            },
+            discover: async (request: { tags: string[] }) => {
+                const offers = [...this.offers.values()].filter(
+                    offer =>
+                        !offer.answererPublicKey &&
+                        offer.tags.some(tag => request.tags.includes(tag))
+                )
+                return { offers, count: offers.length, limit: 100, offset: 0 }
+            },
+            deleteOffer: async (offerId: string) => {
+                const offer = this.offers.get(offerId)
+                if (offer) {
+                    this.offers.delete(offerId)
+                    this.deletedOffers.push(offer)
+                    this.deleted.push(offerId)
+                }
+                return { success: !!offer }
+            },
+            answerOffer: async (offerId: string, sdp: string) => {
+                const offer = this.offers.get(offerId)
+                if (!offer || offer.answererPublicKey) throw new Error('Offer not available')
+                offer.answererPublicKey = publicKey
+                this.connectors.get(offer.publicKey)?.handlePollAnswer({
+                    offerId,
+                    answererPublicKey: publicKey,
+                    sdp,
+                    answeredAt: Date.now(),
+                })
+                this.deliver(offer, offer.candidates)
+            },
+            addOfferIceCandidates: async (offerId: string, candidates: RTCIceCandidateInit[]) => {
+                const offer = this.offers.get(offerId)
+                if (!offer) return { count: 0, offerId }
+                const items = candidates.map(candidate => ({
+                    candidate,
+                    role: publicKey === offer.publicKey ? 'offerer' : 'answerer',
+                    createdAt: Date.now(),
+                })) as IceCandidate[]
+                offer.candidates.push(...items)
+                if (offer.answererPublicKey) this.deliver(offer, items)
+                return { count: items.length, offerId }
+            },
+            getOfferIceCandidates: async (offerId: string) => ({ candidates: [], offerId }),
+        }
+        return api as unknown as RondevuAPI
+    }
+
+    /**
+     * Hand each side the other side's candidates
+     */
+    private deliver(offer: StoredOffer, candidates: IceCandidate[]): void {
+        for (const role of ['offerer', 'answerer'] as const) {
+            const items = candidates.filter(candidate => candidate.role === role)
+            if (items.length === 0) continue
+            const target = role === 'offerer' ? offer.answererPublicKey! : offer.publicKey
+            this.connectors
+                .get(target)
+                ?.handlePollIce({ offerId: offer.offerId, candidates: items })
+        }
+    }
+}
+
+const offerFactory: OfferFactory = async pc => {
+    const dc = pc.createDataChannel('default')
+    const offer = await pc.createOffer()
+    await pc.setLocalDescription(offer)
+    return { dc, offer }
+}
+
+const connectors: SymmetricConnector[] = []
+
+function createConnector(
+    server: FakeSignalingServer,
+    localPublicKey: string,
+    remotePublicKey: string
+): SymmetricConnector {
+    const connector = new SymmetricConnector({
+        api: server.createApi(localPublicKey),
+        localPublicKey,
+        remotePublicKey,
+        offerFactory,
+        ttl: 60000,
+        rtcConfig: { iceServers: [] },
+        webrtcAdapter,
+        timeout: 10000,
+        discoveryIntervalMs: 50,
+    })
+    server.attach(localPublicKey, connector)
+    connectors.push(connector)
+    return connector
+}
+
+/**
+ * Two key pairs, the polite (lower) one first
+ */
+async function createPeerKeys(): Promise<[string, string]> {
+    const a = (await crypto.generateKeyPair()).publicKey
+    const b = (await crypto.generateKeyPair()).publicKey
+    return isPolitePeer(a, b) ? [a, b] : [b, a]
+}
+
+async function waitForOpen(...connections: SymmetricConnection[]): Promise<void> {
+    await waitFor(
+        () => connections.every(c => c.getState() === ConnectionState.CONNECTED),
+        15000,
+        'symmetric connection to open'
+    )
+}
+
+afterEach(() => {
+    connectors.splice(0).forEach(connector => connector.close())
+})
+
+describe('SymmetricConnector', () => {
+    it('derives the same tag and opposite roles on both sides', async () => {
+        const [polite, impolite] = await createPeerKeys()
+        assert.equal(symmetricPairTag(polite, impolite), symmetricPairTag(impolite, polite))
+        assert.match(symmetricPairTag(polite, impolite), /^rondevu\.pair\.[0-9a-f]{16}$/)
+        assert.equal(isPolitePeer(polite, impolite), true)
+        assert.equal(isPolitePeer(impolite, polite), false)
+    })
+
+    it('answers the remote offer when it is already published', async () => {
+        const server = new FakeSignalingServer()
+        const [polite, impolite] = await createPeerKeys()
+        // Role does not matter without a collision: here the impolite side answers
+        const offering = createConnector(server, polite, impolite)
+        const answering = createConnector(server, impolite, polite)
+
+        const offered = offering.connect()
+        await waitFor(() => server.publishedBy(polite).length === 1, 5000, 'offer')
+        const answered = await answering.connect()
+
+        assert.ok(answered instanceof AnswererConnection)
+        assert.ok((await offered) instanceof OffererConnection)
+        await waitForOpen(await offered, answered)
+    })
+
+    it('resolves glare: the polite side rolls back its offer and answers', async () => {
+        const server = new FakeSignalingServer()
+        const [polite, impolite] = await createPeerKeys()
+        const politeConnector = createConnector(server, polite, impolite)
+        const impoliteConnector = createConnector(server, impolite, polite)
+
+        // Both look up the pair tag before either has published
+        const [politeConnection, impoliteConnection] = await Promise.all([
+            politeConnector.connect(),
+            impoliteConnector.connect(),
+        ])
+
+        const [politeOffer] = server.publishedBy(polite)
+        const [impoliteOffer] = server.publishedBy(impolite)
+        assert.ok(politeOffer && impoliteOffer, 'both sides published an offer')
+        assert.deepEqual(server.deleted, [politeOffer])
+        assert.equal(server.offers.get(impoliteOffer)?.answererPublicKey, polite)
+
+        assert.ok(politeConnection instanceof AnswererConnection)
+        assert.ok(impoliteConnection instanceof OffererConnection)
+        assert.equal(politeConnection.getOfferId(), impoliteOffer)
+        await waitForOpen(politeConnection, impoliteConnection)
+    })
+
+    it('republishes when a stranger answers the pair offer', async () => {
+        const server = new FakeSignalingServer()
+        const [polite, impolite] = await createPeerKeys()
+        const stranger = (await crypto.generateKeyPair()).publicKey
+        const offering = createConnector(server, impolite, polite)
+
+        const offered = offering.connect()
+        await waitFor(() => server.publishedBy(impolite).length === 1, 5000, 'offer')
+        const [firstOffer] = server.publishedBy(impolite)
+
+        await server.createApi(stranger).answerOffer(firstOffer, 'v=0')
+        await waitFor(() => server.publishedBy(impolite).length === 2, 5000, 'republished offer')
+        await waitFor(() => server.deleted.includes(firstOffer), 5000, 'stale offer deleted')
+
+        // The intended peer finds the new offer and connects
+        const answered = await createConnector(server, polite, impolite).connect()
+        assert.notEqual(answered.getOfferId(), firstOffer)
+        await waitForOpen(await offered, answered)
+    })
+})
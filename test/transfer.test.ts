@@ -0,0 +1,109 @@
+/**
+ * Chunked transfers between connected peers
+ */
+
+import { afterEach, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import type { IncomingTransfer, TransferProgress } from '../src/connections/transfer.js'
+import { DirectPair, createDirectPair, waitForConnected } from './helpers.js'
+
+function randomBytes(size: number): Uint8Array {
+    const bytes = new Uint8Array(size)
+    for (let i = 0; i < size; i++) bytes[i] = (i * 31 + (i >> 8)) & 0xff
+    return bytes
+}
+
+let pair: DirectPair | null = null
+
+/**
+ * Connected pair: `connection` on the offering side, `peer` on the answering side
+ */
+async function connect(): Promise<{
+    connection: DirectPair['offerer']
+    peer: DirectPair['answerer']
+}> {
+    pair = await createDirectPair()
+    await waitForConnected(pair)
+    return { connection: pair.offerer, peer: pair.answerer }
+}
+
+describe('Transfers', () => {
+    afterEach(() => {
+        pair?.close()
+        pair = null
+    })
+
+    it('sends a file in chunks and reports progress on both sides', async () => {
+        const { connection, peer } = await connect()
+        const payload = randomBytes(256 * 1024 + 123)
+
+        const incoming = new Promise<IncomingTransfer>(resolve =>
+            connection.once('transfer', resolve)
+        )
+        const transfer = peer.sendFile(payload.buffer as ArrayBuffer, {
+            name: 'data.bin',
+            metadata: { kind: 'test' },
+            chunkSize: 16 * 1024,
+        })
+        const sent: TransferProgress[] = []
+        transfer.on('progress', progress => sent.push(progress))
+
+        const received = await incoming
+        assert.equal(received.name, 'data.bin')
+        assert.deepEqual(received.metadata, { kind: 'test' })
+        assert.equal(received.totalBytes, payload.byteLength)
+
+        const [bytes] = await Promise.all([received.arrayBuffer(), transfer.done])
+        assert.deepEqual(new Uint8Array(bytes), payload)
+        assert.equal(sent.at(-1)?.bytes, payload.byteLength)
+    })
+
+    it('sends a stream of unknown length', async () => {
+        const { connection, peer } = await connect()
+        const parts = [randomBytes(40000), randomBytes(5), randomBytes(70000)]
+
+        const incoming = new Promise<IncomingTransfer>(resolve => peer.once('transfer', resolve))
+        const transfer = connection.sendStream(
+            new ReadableStream<Uint8Array>({
+                start(controller) {
+                    parts.forEach(part => controller.enqueue(part))
+                    controller.close()
+                },
+            })
+        )
+
+        const received = await incoming
+        assert.equal(received.totalBytes, undefined)
+        const [bytes] = await Promise.all([received.arrayBuffer(), transfer.done])
+
+        const expected = new Uint8Array(parts.reduce((sum, part) => sum + part.byteLength, 0))
+        let offset = 0
+        for (const part of parts) {
+            expected.set(part, offset)
+            offset += part.byteLength
+        }
+        assert.deepEqual(new Uint8Array(bytes), expected)
+    })
+
+    it('cancels the receiving side when the sender cancels', async () => {
+        const { connection, peer } = await connect()
+
+        const incoming = new Promise<IncomingTransfer>(resolve =>
+            connection.once('transfer', resolve)
+        )
+        const transfer = peer.sendStream(
+            new ReadableStream<Uint8Array>({
+                pull(controller) {
+                    controller.enqueue(randomBytes(16 * 1024))
+                },
+            })
+        )
+
+        const received = await incoming
+        const receivedBytes = received.arrayBuffer()
+        transfer.cancel('changed my mind')
+
+        await assert.rejects(transfer.done)
+        await assert.rejects(receivedBytes, /changed my mind/)
+    })
+})